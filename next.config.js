@@ -34,6 +34,10 @@ const nextConfig = {
   },
   reactStrictMode: true,
   redirects,
+  rewrites: async () => ({
+    // Files in public/media would otherwise be served without checking media visibility
+    beforeFiles: [{ source: '/media/:path*', destination: '/api/media/file/:path*' }],
+  }),
 }
 
 export default withPayload(nextConfig, { devBundleServerPackages: false })
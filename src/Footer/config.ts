@@ -1,12 +1,15 @@
 import type { GlobalConfig } from 'payload'
 
+import { editors } from '@/access/editors'
 import { link } from '@/fields/link'
 import { revalidateFooter } from './hooks/revalidateFooter'
+import { trackGlobalMediaReferences } from '@/collections/MediaReferences/hooks/trackMediaReferences'
 
 export const Footer: GlobalConfig = {
   slug: 'footer',
   access: {
     read: () => true,
+    update: editors,
   },
   fields: [
     {
@@ -27,6 +30,6 @@ export const Footer: GlobalConfig = {
     },
   ],
   hooks: {
-    afterChange: [revalidateFooter],
+    afterChange: [revalidateFooter, trackGlobalMediaReferences],
   },
 }
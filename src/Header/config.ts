@@ -1,12 +1,15 @@
 import type { GlobalConfig } from 'payload'
 
+import { editors } from '@/access/editors'
 import { link } from '@/fields/link'
 import { revalidateHeader } from './hooks/revalidateHeader'
+import { trackGlobalMediaReferences } from '@/collections/MediaReferences/hooks/trackMediaReferences'
 
 export const Header: GlobalConfig = {
   slug: 'header',
   access: {
     read: () => true,
+    update: editors,
   },
   fields: [
     {
@@ -27,6 +30,6 @@ export const Header: GlobalConfig = {
     },
   ],
   hooks: {
-    afterChange: [revalidateHeader],
+    afterChange: [revalidateHeader, trackGlobalMediaReferences],
   },
 }
@@ -1,13 +1,14 @@
 import type { GlobalConfig } from 'payload'
 
-import { authenticated } from '@/access/authenticated'
+import { admins } from '@/access/admins'
+import { trackGlobalMediaReferences } from '@/collections/MediaReferences/hooks/trackMediaReferences'
 
 export const SiteSettings: GlobalConfig = {
   slug: 'site-settings',
   label: 'Site Settings',
   access: {
     read: () => true,
-    update: authenticated,
+    update: admins,
   },
   fields: [
     {
@@ -75,4 +76,7 @@ export const SiteSettings: GlobalConfig = {
       ],
     },
   ],
+  hooks: {
+    afterChange: [trackGlobalMediaReferences],
+  },
 }
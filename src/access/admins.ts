@@ -0,0 +1,9 @@
+import type { PayloadRequest } from 'payload'
+
+import { hasRole } from './roles'
+
+type isAdmin = (args: { req: Pick<PayloadRequest, 'user'> }) => boolean
+
+export const admins: isAdmin = ({ req: { user } }) => {
+  return hasRole(user, 'admin')
+}
@@ -0,0 +1,14 @@
+import type { Access } from 'payload'
+
+import { hasRole } from './roles'
+
+export const adminsOrSelf: Access = ({ req: { user } }) => {
+  if (!user) return false
+  if (hasRole(user, 'admin')) return true
+
+  return {
+    id: {
+      equals: user.id,
+    },
+  }
+}
@@ -0,0 +1,10 @@
+import type { PayloadRequest } from 'payload'
+
+import { hasRole } from './roles'
+
+type isContributor = (args: { req: Pick<PayloadRequest, 'user'> }) => boolean
+
+// Everyone who writes content or uploads media, which leaves out viewers
+export const contributors: isContributor = ({ req: { user } }) => {
+  return hasRole(user, 'admin', 'editor', 'author', 'contributor')
+}
@@ -0,0 +1,9 @@
+import type { PayloadRequest } from 'payload'
+
+import { hasRole } from './roles'
+
+type isEditor = (args: { req: Pick<PayloadRequest, 'user'> }) => boolean
+
+export const editors: isEditor = ({ req: { user } }) => {
+  return hasRole(user, 'admin', 'editor')
+}
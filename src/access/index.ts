@@ -1,3 +1,8 @@
+export { admins } from './admins'
+export { adminsOrSelf } from './adminsOrSelf'
 export { anyone } from './anyone'
 export { authenticated } from './authenticated'
 export { authenticatedOrPublished } from './authenticatedOrPublished'
+export { contributors } from './contributors'
+export { editors } from './editors'
+export { getUserRole, hasRole, USER_ROLES, type UserRole } from './roles'
@@ -0,0 +1,23 @@
+import type { User } from '@/payload-types'
+
+// From most to least access; see the `role` field on Users for what each can do
+export const USER_ROLES = ['admin', 'editor', 'author', 'contributor', 'viewer'] as const
+
+export type UserRole = (typeof USER_ROLES)[number]
+
+// Older accounts can still have no role stored, whatever the generated type says
+type RoleHolder = { role?: null | User['role'] }
+
+/**
+ * An account without a role (one created before roles existed and not yet migrated) gets
+ * the least access, as a viewer.
+ */
+export const getUserRole = (user?: null | RoleHolder): null | UserRole => {
+  if (!user) return null
+  return user.role ?? 'viewer'
+}
+
+export const hasRole = (user: null | RoleHolder | undefined, ...roles: UserRole[]) => {
+  const role = getUserRole(user)
+  return role !== null && roles.includes(role)
+}
@@ -0,0 +1,83 @@
+import type { Metadata } from 'next/types'
+
+import { AuthorProfile } from '@/components/AuthorProfile'
+import { CollectionArchive } from '@/components/CollectionArchive'
+import { PageRange } from '@/components/PageRange'
+import { Pagination } from '@/components/Pagination'
+import configPromise from '@payload-config'
+import { getPayload } from 'payload'
+import { notFound } from 'next/navigation'
+import React from 'react'
+
+import { generateAuthorMeta } from '@/utilities/generateMeta'
+import PageClient from './page.client'
+import { AUTHOR_POSTS_PER_PAGE, queryAuthorBySlug, queryAuthorPosts } from './queries'
+
+export const revalidate = 600
+
+type Args = {
+  params: Promise<{
+    slug?: string
+  }>
+}
+
+export default async function Page({ params: paramsPromise }: Args) {
+  const { slug = '' } = await paramsPromise
+  // Decode to support slugs with special characters
+  const decodedSlug = decodeURIComponent(slug)
+  const author = await queryAuthorBySlug({ slug: decodedSlug })
+
+  if (!author) notFound()
+
+  const posts = await queryAuthorPosts({ author, page: 1 })
+
+  return (
+    <div className="pt-24 pb-24">
+      <PageClient />
+      <AuthorProfile author={author} />
+
+      <div className="container mb-8">
+        <PageRange
+          collection="posts"
+          currentPage={posts.page}
+          limit={AUTHOR_POSTS_PER_PAGE}
+          totalDocs={posts.totalDocs}
+        />
+      </div>
+
+      <CollectionArchive posts={posts.docs} />
+
+      <div className="container">
+        {posts.totalPages > 1 && posts.page && (
+          <Pagination
+            basePath={`/authors/${author.slug}`}
+            page={posts.page}
+            totalPages={posts.totalPages}
+          />
+        )}
+      </div>
+    </div>
+  )
+}
+
+export async function generateMetadata({ params: paramsPromise }: Args): Promise<Metadata> {
+  const { slug = '' } = await paramsPromise
+  const author = await queryAuthorBySlug({ slug: decodeURIComponent(slug) })
+
+  return generateAuthorMeta({ author })
+}
+
+export async function generateStaticParams() {
+  const payload = await getPayload({ config: configPromise })
+  const authors = await payload.find({
+    collection: 'authors',
+    limit: 1000,
+    overrideAccess: false,
+    pagination: false,
+    select: {
+      slug: true,
+    },
+  })
+
+  return authors.docs.map(({ slug }) => ({ slug }))
+}
@@ -0,0 +1,67 @@
+import type { Metadata } from 'next/types'
+
+import { AuthorProfile } from '@/components/AuthorProfile'
+import { CollectionArchive } from '@/components/CollectionArchive'
+import { PageRange } from '@/components/PageRange'
+import { Pagination } from '@/components/Pagination'
+import { notFound } from 'next/navigation'
+import React from 'react'
+
+import { generateAuthorMeta } from '@/utilities/generateMeta'
+import PageClient from './page.client'
+import { AUTHOR_POSTS_PER_PAGE, queryAuthorBySlug, queryAuthorPosts } from '../../queries'
+
+export const revalidate = 600
+
+type Args = {
+  params: Promise<{
+    pageNumber: string
+    slug: string
+  }>
+}
+
+export default async function Page({ params: paramsPromise }: Args) {
+  const { pageNumber, slug } = await paramsPromise
+  const author = await queryAuthorBySlug({ slug: decodeURIComponent(slug) })
+
+  const sanitizedPageNumber = Number(pageNumber)
+
+  if (!author || !Number.isInteger(sanitizedPageNumber)) notFound()
+
+  const posts = await queryAuthorPosts({ author, page: sanitizedPageNumber })
+
+  return (
+    <div className="pt-24 pb-24">
+      <PageClient />
+      <AuthorProfile author={author} />
+
+      <div className="container mb-8">
+        <PageRange
+          collection="posts"
+          currentPage={posts.page}
+          limit={AUTHOR_POSTS_PER_PAGE}
+          totalDocs={posts.totalDocs}
+        />
+      </div>
+
+      <CollectionArchive posts={posts.docs} />
+
+      <div className="container">
+        {posts.totalPages > 1 && posts.page && (
+          <Pagination
+            basePath={`/authors/${author.slug}`}
+            page={posts.page}
+            totalPages={posts.totalPages}
+          />
+        )}
+      </div>
+    </div>
+  )
+}
+
+export async function generateMetadata({ params: paramsPromise }: Args): Promise<Metadata> {
+  const { pageNumber, slug } = await paramsPromise
+  const author = await queryAuthorBySlug({ slug: decodeURIComponent(slug) })
+
+  return generateAuthorMeta({ author, pageNumber })
+}
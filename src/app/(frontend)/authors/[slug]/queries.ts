@@ -0,0 +1,53 @@
+import configPromise from '@payload-config'
+import { getPayload } from 'payload'
+import { cache } from 'react'
+
+import type { Author } from '@/payload-types'
+
+export const AUTHOR_POSTS_PER_PAGE = 12
+
+export const queryAuthorBySlug = cache(async ({ slug }: { slug: string }) => {
+  const payload = await getPayload({ config: configPromise })
+
+  // Read with full access for the linked user, which the public can't see
+  const result = await payload.find({
+    collection: 'authors',
+    depth: 1,
+    limit: 1,
+    pagination: false,
+    where: {
+      slug: {
+        equals: slug,
+      },
+    },
+  })
+
+  return result.docs?.[0] || null
+})
+
+// Published posts credited to the profile's user, newest first
+export const queryAuthorPosts = async ({ author, page }: { author: Author; page: number }) => {
+  const payload = await getPayload({ config: configPromise })
+  const userId = typeof author.user === 'object' ? author.user?.id : author.user
+
+  return payload.find({
+    collection: 'posts',
+    depth: 1,
+    limit: AUTHOR_POSTS_PER_PAGE,
+    overrideAccess: false,
+    page,
+    select: {
+      title: true,
+      slug: true,
+      categories: true,
+      meta: true,
+    },
+    sort: '-publishedAt',
+    where: {
+      authors: {
+        // A profile without an account has no posts
+        in: userId ? [userId] : [],
+      },
+    },
+  })
+}
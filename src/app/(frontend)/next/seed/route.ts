@@ -1,5 +1,6 @@
 import { createLocalReq, getPayload } from 'payload'
 import { seed } from '@/endpoints/seed'
+import { admins } from '@/access/admins'
 import config from '@payload-config'
 import { headers } from 'next/headers'
 
@@ -12,7 +13,7 @@ export async function POST(): Promise<Response> {
   // Authenticate by passing request headers
   const { user } = await payload.auth({ headers: requestHeaders })
 
-  if (!user) {
+  if (!user || !admins({ req: { user } })) {
     return new Response('Action forbidden.', { status: 403 })
   }
 
@@ -1,63 +1,35 @@
 import type { Metadata } from 'next/types'
 
-import { CollectionArchive } from '@/components/CollectionArchive'
+import { PageRange } from '@/components/PageRange'
+import { Pagination } from '@/components/Pagination'
 import configPromise from '@payload-config'
 import { getPayload } from 'payload'
+import { notFound } from 'next/navigation'
 import React from 'react'
 import { Search } from '@/search/Component'
+import { SearchFacets } from '@/search/Facets'
+import { parseSearchPage, searchDocs, SEARCH_PAGE_SIZE } from '@/search/query'
+import { SearchResultList } from '@/search/Results'
 import PageClient from './page.client'
-import { CardPostData } from '@/components/Card'
 
 type Args = {
   searchParams: Promise<{
-    q: string
+    category?: string
+    page?: string
+    q?: string
   }>
 }
 export default async function Page({ searchParams: searchParamsPromise }: Args) {
-  const { q: query } = await searchParamsPromise
+  const { category, page: pageParam, q } = await searchParamsPromise
+  const query = q?.trim() || undefined
+  const page = parseSearchPage(pageParam)
+  if (page === null) notFound()
+
   const payload = await getPayload({ config: configPromise })
+  const results = await searchDocs({ category, page, payload, query })
 
-  const posts = await payload.find({
-    collection: 'search',
-    depth: 1,
-    limit: 12,
-    select: {
-      title: true,
-      slug: true,
-      categories: true,
-      meta: true,
-    },
-    // pagination: false reduces overhead if you don't need totalDocs
-    pagination: false,
-    ...(query
-      ? {
-          where: {
-            or: [
-              {
-                title: {
-                  like: query,
-                },
-              },
-              {
-                'meta.description': {
-                  like: query,
-                },
-              },
-              {
-                'meta.title': {
-                  like: query,
-                },
-              },
-              {
-                slug: {
-                  like: query,
-                },
-              },
-            ],
-          },
-        }
-      : {}),
-  })
+  // Past the last page; the first page is shown even without results
+  if (page > Math.max(1, results.totalPages)) notFound()
 
   return (
     <div className="pt-24 pb-24">
@@ -72,10 +44,31 @@ export default async function Page({ searchParams: searchParamsPromise }: Args)
         </div>
       </div>
 
-      {posts.totalDocs > 0 ? (
-        <CollectionArchive posts={posts.docs as CardPostData[]} />
-      ) : (
-        <div className="container">No results found.</div>
+      <SearchFacets active={category} facets={results.categories} query={query} />
+
+      <div className="container max-w-[50rem] mb-8">
+        <PageRange
+          collectionLabels={{ plural: 'Results', singular: 'Result' }}
+          currentPage={results.page}
+          limit={SEARCH_PAGE_SIZE}
+          totalDocs={results.totalDocs}
+        />
+      </div>
+
+      {results.docs.length > 0 && <SearchResultList results={results.docs} />}
+
+      {results.totalPages > 1 && (
+        <div className="container max-w-[50rem]">
+          <Pagination
+            basePath="/search"
+            page={results.page}
+            searchParams={{
+              ...(query && { q: query }),
+              ...(category && { category }),
+            }}
+            totalPages={results.totalPages}
+          />
+        </div>
       )}
     </div>
   )
@@ -15,9 +15,11 @@ import { MetaImageComponent as MetaImageComponent_a8a977ebc872c5d5ea7ee689724c08
 import { MetaDescriptionComponent as MetaDescriptionComponent_a8a977ebc872c5d5ea7ee689724c0860 } from '@payloadcms/plugin-seo/client'
 import { PreviewComponent as PreviewComponent_a8a977ebc872c5d5ea7ee689724c0860 } from '@payloadcms/plugin-seo/client'
 import { SlugField as SlugField_3817bf644402e67bfe6577f60ef982de } from '@payloadcms/ui'
+import { AssignedToMeFilter as AssignedToMeFilter_fedc810a1ed06588142906eec3a5e3a4 } from '../../../components/admin/workflow/AssignedToMeFilter'
 import { HorizontalRuleFeatureClient as HorizontalRuleFeatureClient_e70f5e05f09f93e00b997edb1ef0c864 } from '@payloadcms/richtext-lexical/client'
 import { BlocksFeatureClient as BlocksFeatureClient_e70f5e05f09f93e00b997edb1ef0c864 } from '@payloadcms/richtext-lexical/client'
 import { MediaSelectorButton as MediaSelectorButton_5915b45382c28678be5ee78e6a780df4 } from '../../../components/admin/MediaSelectorButton'
+import { MediaArraySelectorButton as MediaArraySelectorButton_f60e68a6e148ec1d82424d2129743a85 } from '../../../components/admin/MediaArraySelectorButton'
 import { FolderTableCell as FolderTableCell_ab83ff7e88da8d3530831f296ec4756a } from '@payloadcms/ui/rsc'
 import { FolderField as FolderField_ab83ff7e88da8d3530831f296ec4756a } from '@payloadcms/ui/rsc'
 import { LinkToDoc as LinkToDoc_aead06e4cbf6b2620c5c51c9ab283634 } from '@payloadcms/plugin-search/client'
@@ -25,7 +27,10 @@ import { ReindexButton as ReindexButton_aead06e4cbf6b2620c5c51c9ab283634 } from
 import { FolderTypeField as FolderTypeField_3817bf644402e67bfe6577f60ef982de } from '@payloadcms/ui'
 import { RowLabel as RowLabel_ec255a65fa6fa8d1faeb09cf35284224 } from '@/Header/RowLabel'
 import { RowLabel as RowLabel_1f6ff6ff633e3695d348f4f3c58f1466 } from '@/Footer/RowLabel'
+import { AltTextAuditNavLink as AltTextAuditNavLink_b2c9ceeb98cbc83f44a01f143658c881 } from '../../../components/admin/alt-text-audit/AltTextAuditNavLink'
 import { AdminRootProvider as AdminRootProvider_90270e1a289c41a7c07e2a0de98e46c1 } from '../../../components/admin/AdminRootProvider'
+import { AltTextAuditView as AltTextAuditView_26ea8cdba8337df46434962594773991 } from '../../../components/admin/alt-text-audit/AltTextAuditView'
+import { MediaAnalyticsDashboard as MediaAnalyticsDashboard_577aaf8e880e63333696ff4f32c3fe14 } from '../../../components/admin/media-analytics/MediaAnalyticsDashboard'
 import { CollectionCards as CollectionCards_ab83ff7e88da8d3530831f296ec4756a } from '@payloadcms/ui/rsc'
 
 export const importMap = {
@@ -46,9 +51,11 @@ export const importMap = {
   "@payloadcms/plugin-seo/client#MetaDescriptionComponent": MetaDescriptionComponent_a8a977ebc872c5d5ea7ee689724c0860,
   "@payloadcms/plugin-seo/client#PreviewComponent": PreviewComponent_a8a977ebc872c5d5ea7ee689724c0860,
   "@payloadcms/ui#SlugField": SlugField_3817bf644402e67bfe6577f60ef982de,
+  "/components/admin/workflow/AssignedToMeFilter#AssignedToMeFilter": AssignedToMeFilter_fedc810a1ed06588142906eec3a5e3a4,
   "@payloadcms/richtext-lexical/client#HorizontalRuleFeatureClient": HorizontalRuleFeatureClient_e70f5e05f09f93e00b997edb1ef0c864,
   "@payloadcms/richtext-lexical/client#BlocksFeatureClient": BlocksFeatureClient_e70f5e05f09f93e00b997edb1ef0c864,
   "/components/admin/MediaSelectorButton#MediaSelectorButton": MediaSelectorButton_5915b45382c28678be5ee78e6a780df4,
+  "/components/admin/MediaArraySelectorButton#MediaArraySelectorButton": MediaArraySelectorButton_f60e68a6e148ec1d82424d2129743a85,
   "@payloadcms/ui/rsc#FolderTableCell": FolderTableCell_ab83ff7e88da8d3530831f296ec4756a,
   "@payloadcms/ui/rsc#FolderField": FolderField_ab83ff7e88da8d3530831f296ec4756a,
   "@payloadcms/plugin-search/client#LinkToDoc": LinkToDoc_aead06e4cbf6b2620c5c51c9ab283634,
@@ -56,6 +63,9 @@ export const importMap = {
   "@payloadcms/ui#FolderTypeField": FolderTypeField_3817bf644402e67bfe6577f60ef982de,
   "@/Header/RowLabel#RowLabel": RowLabel_ec255a65fa6fa8d1faeb09cf35284224,
   "@/Footer/RowLabel#RowLabel": RowLabel_1f6ff6ff633e3695d348f4f3c58f1466,
+  "/components/admin/alt-text-audit/AltTextAuditNavLink#AltTextAuditNavLink": AltTextAuditNavLink_b2c9ceeb98cbc83f44a01f143658c881,
   "/components/admin/AdminRootProvider#AdminRootProvider": AdminRootProvider_90270e1a289c41a7c07e2a0de98e46c1,
+  "/components/admin/alt-text-audit/AltTextAuditView#AltTextAuditView": AltTextAuditView_26ea8cdba8337df46434962594773991,
+  "/components/admin/media-analytics/MediaAnalyticsDashboard#MediaAnalyticsDashboard": MediaAnalyticsDashboard_577aaf8e880e63333696ff4f32c3fe14,
   "@payloadcms/ui/rsc#CollectionCards": CollectionCards_ab83ff7e88da8d3530831f296ec4756a
 }
@@ -0,0 +1,31 @@
+import { APIError, createLocalReq, getPayload } from 'payload'
+import { getAltTextAudit } from '@/endpoints/media-alt-audit'
+import { contributors } from '@/access/contributors'
+import config from '@payload-config'
+import { headers } from 'next/headers'
+
+export async function GET(): Promise<Response> {
+  const payload = await getPayload({ config })
+  const requestHeaders = await headers()
+
+  // Authenticate by passing request headers
+  const { user } = await payload.auth({ headers: requestHeaders })
+
+  if (!user || !contributors({ req: { user } })) {
+    return new Response('Action forbidden.', { status: 403 })
+  }
+
+  try {
+    const payloadReq = await createLocalReq({ user }, payload)
+    const audit = await getAltTextAudit({ req: payloadReq })
+
+    return Response.json(audit)
+  } catch (e) {
+    if (e instanceof APIError) {
+      return Response.json({ error: e.message }, { status: e.status })
+    }
+
+    payload.logger.error({ err: e, message: 'Error building alt text audit' })
+    return new Response('Error building alt text audit.', { status: 500 })
+  }
+}
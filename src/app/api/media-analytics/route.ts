@@ -0,0 +1,31 @@
+import { APIError, createLocalReq, getPayload } from 'payload'
+import { getMediaAnalytics } from '@/endpoints/media-analytics'
+import { editors } from '@/access/editors'
+import config from '@payload-config'
+import { headers } from 'next/headers'
+
+export async function GET(): Promise<Response> {
+  const payload = await getPayload({ config })
+  const requestHeaders = await headers()
+
+  // Authenticate by passing request headers
+  const { user } = await payload.auth({ headers: requestHeaders })
+
+  if (!user || !editors({ req: { user } })) {
+    return new Response('Action forbidden.', { status: 403 })
+  }
+
+  try {
+    const payloadReq = await createLocalReq({ user }, payload)
+    const analytics = await getMediaAnalytics({ req: payloadReq })
+
+    return Response.json(analytics)
+  } catch (e) {
+    if (e instanceof APIError) {
+      return Response.json({ error: e.message }, { status: e.status })
+    }
+
+    payload.logger.error({ err: e, message: 'Error building media analytics' })
+    return new Response('Error building media analytics.', { status: 500 })
+  }
+}
@@ -0,0 +1,44 @@
+import { APIError, createLocalReq, getPayload } from 'payload'
+import { exportMediaArchive } from '@/endpoints/media-archive'
+import { contributors } from '@/access/contributors'
+import config from '@payload-config'
+import { headers } from 'next/headers'
+
+export const maxDuration = 300
+
+export async function POST(request: Request): Promise<Response> {
+  const payload = await getPayload({ config })
+  const requestHeaders = await headers()
+
+  // Authenticate by passing request headers
+  const { user } = await payload.auth({ headers: requestHeaders })
+
+  if (!user || !contributors({ req: { user } })) {
+    return new Response('Action forbidden.', { status: 403 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const payloadReq = await createLocalReq({ user }, payload)
+    const { filename, stream } = await exportMediaArchive({
+      folderId: body?.folderId,
+      ids: body?.ids,
+      req: payloadReq,
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Cache-Control': 'no-store',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Content-Type': 'application/zip',
+      },
+    })
+  } catch (e) {
+    if (e instanceof APIError) {
+      return Response.json({ error: e.message }, { status: e.status })
+    }
+
+    payload.logger.error({ err: e, message: 'Error exporting media archive' })
+    return new Response('Error exporting media archive.', { status: 500 })
+  }
+}
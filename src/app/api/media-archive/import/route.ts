@@ -0,0 +1,50 @@
+import { APIError, createLocalReq, getPayload } from 'payload'
+import { importMediaArchive, MAX_ARCHIVE_SIZE, type ConflictMode } from '@/endpoints/media-archive'
+import { contributors } from '@/access/contributors'
+import config from '@payload-config'
+import { headers } from 'next/headers'
+
+export const maxDuration = 300
+
+// The archive is sent as the raw request body: POST /api/media-archive/import?conflict=skip&folder=<id>
+export async function POST(request: Request): Promise<Response> {
+  const payload = await getPayload({ config })
+  const requestHeaders = await headers()
+
+  // Authenticate by passing request headers
+  const { user } = await payload.auth({ headers: requestHeaders })
+
+  if (!user || !contributors({ req: { user } })) {
+    return new Response('Action forbidden.', { status: 403 })
+  }
+
+  try {
+    if (!request.body) throw new APIError('Send the ZIP archive as the request body', 400)
+
+    // Refused up front when declared; the body is still counted while it streams in
+    if (Number(request.headers.get('content-length')) > MAX_ARCHIVE_SIZE) {
+      throw new APIError(
+        `Archives larger than ${MAX_ARCHIVE_SIZE / 1024 ** 3} GB cannot be imported`,
+        413,
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const payloadReq = await createLocalReq({ user }, payload)
+    const report = await importMediaArchive({
+      body: request.body,
+      conflict: (searchParams.get('conflict') || 'skip') as ConflictMode,
+      folderId: searchParams.get('folder'),
+      req: payloadReq,
+    })
+
+    return Response.json(report)
+  } catch (e) {
+    if (e instanceof APIError) {
+      return Response.json({ error: e.message }, { status: e.status })
+    }
+
+    payload.logger.error({ err: e, message: 'Error importing media archive' })
+    return new Response('Error importing media archive.', { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { APIError, createLocalReq, getPayload } from 'payload'
+import { revertMediaRevision } from '@/endpoints/media-revisions'
+import { contributors } from '@/access/contributors'
+import config from '@payload-config'
+import { headers } from 'next/headers'
+
+export const maxDuration = 60
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<Response> {
+  const { id } = await params
+  const payload = await getPayload({ config })
+  const requestHeaders = await headers()
+
+  // Authenticate by passing request headers
+  const { user } = await payload.auth({ headers: requestHeaders })
+
+  if (!user || !contributors({ req: { user } })) {
+    return new Response('Action forbidden.', { status: 403 })
+  }
+
+  try {
+    const payloadReq = await createLocalReq({ user }, payload)
+    const doc = await revertMediaRevision({ payload, req: payloadReq, revisionId: id })
+
+    return Response.json({ doc })
+  } catch (e) {
+    if (e instanceof APIError) {
+      return Response.json({ error: e.message }, { status: e.status })
+    }
+
+    payload.logger.error({ err: e, message: 'Error reverting media revision' })
+    return new Response('Error reverting media revision.', { status: 500 })
+  }
+}
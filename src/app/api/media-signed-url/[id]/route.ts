@@ -0,0 +1,41 @@
+import { APIError, createLocalReq, getPayload } from 'payload'
+import { createSignedMediaUrl } from '@/endpoints/media-signed-url'
+import { contributors } from '@/access/contributors'
+import config from '@payload-config'
+import { headers } from 'next/headers'
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<Response> {
+  const { id } = await params
+  const payload = await getPayload({ config })
+  const requestHeaders = await headers()
+
+  // Authenticate by passing request headers
+  const { user } = await payload.auth({ headers: requestHeaders })
+
+  if (!user || !contributors({ req: { user } })) {
+    return new Response('Action forbidden.', { status: 403 })
+  }
+
+  try {
+    const body = (await request.json().catch(() => ({}))) as { expiresIn?: number }
+
+    const payloadReq = await createLocalReq({ user }, payload)
+    const signed = await createSignedMediaUrl({
+      expiresIn: body.expiresIn,
+      mediaId: id,
+      req: payloadReq,
+    })
+
+    return Response.json(signed)
+  } catch (e) {
+    if (e instanceof APIError) {
+      return Response.json({ error: e.message }, { status: e.status })
+    }
+
+    payload.logger.error({ err: e, message: 'Error signing media URL' })
+    return new Response('Error signing media URL.', { status: 500 })
+  }
+}
@@ -0,0 +1,74 @@
+import { APIError, createLocalReq, getPayload } from 'payload'
+import {
+  getStorageMigration,
+  queueStorageMigration,
+  type StorageDirection,
+} from '@/endpoints/media-storage'
+import { admins } from '@/access/admins'
+import config from '@payload-config'
+import { headers } from 'next/headers'
+
+export async function POST(request: Request): Promise<Response> {
+  const payload = await getPayload({ config })
+  const requestHeaders = await headers()
+
+  // Authenticate by passing request headers
+  const { user } = await payload.auth({ headers: requestHeaders })
+
+  if (!user || !admins({ req: { user } })) {
+    return new Response('Action forbidden.', { status: 403 })
+  }
+
+  try {
+    const body = (await request.json().catch(() => ({}))) as {
+      direction?: StorageDirection
+      dryRun?: boolean
+    }
+
+    const payloadReq = await createLocalReq({ user }, payload)
+    const job = await queueStorageMigration({
+      direction: body.direction as StorageDirection,
+      // Real copies have to be asked for explicitly
+      dryRun: body.dryRun !== false,
+      req: payloadReq,
+    })
+
+    return Response.json(job, { status: 202 })
+  } catch (e) {
+    if (e instanceof APIError) {
+      return Response.json({ error: e.message }, { status: e.status })
+    }
+
+    payload.logger.error({ err: e, message: 'Error queueing media storage migration' })
+    return new Response('Error queueing media storage migration.', { status: 500 })
+  }
+}
+
+export async function GET(request: Request): Promise<Response> {
+  const payload = await getPayload({ config })
+  const requestHeaders = await headers()
+
+  // Authenticate by passing request headers
+  const { user } = await payload.auth({ headers: requestHeaders })
+
+  if (!user || !admins({ req: { user } })) {
+    return new Response('Action forbidden.', { status: 403 })
+  }
+
+  const id = new URL(request.url).searchParams.get('id')
+  if (!id) {
+    return Response.json({ error: 'Pass the job id as ?id=' }, { status: 400 })
+  }
+
+  try {
+    const payloadReq = await createLocalReq({ user }, payload)
+    return Response.json(await getStorageMigration({ id, req: payloadReq }))
+  } catch (e) {
+    if (e instanceof APIError) {
+      return Response.json({ error: e.message }, { status: e.status })
+    }
+
+    payload.logger.error({ err: e, message: 'Error loading media storage migration' })
+    return new Response('Error loading media storage migration.', { status: 500 })
+  }
+}
@@ -0,0 +1,58 @@
+import { APIError, createLocalReq, getPayload } from 'payload'
+import {
+  isMediaTransformEnabled,
+  parseTransformRequest,
+  transformMedia,
+} from '@/endpoints/media-transform'
+import config from '@payload-config'
+import { headers } from 'next/headers'
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ filename: string }> },
+): Promise<Response> {
+  if (!isMediaTransformEnabled()) {
+    return new Response('Not found.', { status: 404 })
+  }
+
+  const { filename } = await params
+  const { searchParams } = new URL(request.url)
+  const payload = await getPayload({ config })
+  const requestHeaders = await headers()
+
+  // Optional: logged-in users can transform media they may read but the public may not
+  const { user } = await payload.auth({ headers: requestHeaders })
+
+  try {
+    const transformParams = parseTransformRequest(filename, searchParams)
+    const payloadReq = await createLocalReq({ user: user ?? undefined }, payload)
+    const { contentType, data, updatedAt } = await transformMedia({
+      accept: requestHeaders.get('accept'),
+      filename,
+      params: transformParams,
+      req: payloadReq,
+    })
+
+    // URLs carrying the current version (`v`) never change, so they can be cached for good.
+    // Renditions served to a logged-in user may not be public, so shared caches skip them.
+    const scope = user ? 'private' : 'public'
+    const isVersioned = searchParams.get('v') === updatedAt
+
+    return new Response(new Uint8Array(data), {
+      headers: {
+        'Cache-Control': isVersioned
+          ? `${scope}, max-age=31536000, immutable`
+          : `${scope}, max-age=3600`,
+        'Content-Type': contentType,
+        Vary: 'Accept',
+      },
+    })
+  } catch (e) {
+    if (e instanceof APIError) {
+      return Response.json({ error: e.message }, { status: e.status })
+    }
+
+    payload.logger.error({ err: e, message: 'Error transforming media' })
+    return new Response('Error transforming media.', { status: 500 })
+  }
+}
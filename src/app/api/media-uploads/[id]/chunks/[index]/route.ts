@@ -0,0 +1,40 @@
+import { APIError, createLocalReq, getPayload } from 'payload'
+import { writeUploadChunk } from '@/endpoints/media-uploads'
+import { contributors } from '@/access/contributors'
+import config from '@payload-config'
+import { headers } from 'next/headers'
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string; index: string }> },
+): Promise<Response> {
+  const { id, index } = await params
+  const payload = await getPayload({ config })
+  const requestHeaders = await headers()
+
+  // Authenticate by passing request headers
+  const { user } = await payload.auth({ headers: requestHeaders })
+
+  if (!user || !contributors({ req: { user } })) {
+    return new Response('Action forbidden.', { status: 403 })
+  }
+
+  try {
+    const payloadReq = await createLocalReq({ user }, payload)
+    await writeUploadChunk({
+      data: Buffer.from(await request.arrayBuffer()),
+      index: Number(index),
+      req: payloadReq,
+      uploadId: id,
+    })
+
+    return new Response(null, { status: 204 })
+  } catch (e) {
+    if (e instanceof APIError) {
+      return Response.json({ error: e.message }, { status: e.status })
+    }
+
+    payload.logger.error({ err: e, message: 'Error storing media upload chunk' })
+    return new Response('Error storing media upload chunk.', { status: 500 })
+  }
+}
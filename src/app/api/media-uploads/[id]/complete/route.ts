@@ -0,0 +1,43 @@
+import { APIError, createLocalReq, getPayload } from 'payload'
+import { completeUpload } from '@/endpoints/media-uploads'
+import { contributors } from '@/access/contributors'
+import config from '@payload-config'
+import { headers } from 'next/headers'
+
+// Reassembly, image sizes and variants for large files can take a while
+export const maxDuration = 300
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<Response> {
+  const { id } = await params
+  const payload = await getPayload({ config })
+  const requestHeaders = await headers()
+
+  // Authenticate by passing request headers
+  const { user } = await payload.auth({ headers: requestHeaders })
+
+  if (!user || !contributors({ req: { user } })) {
+    return new Response('Action forbidden.', { status: 403 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const payloadReq = await createLocalReq({ user }, payload)
+    const doc = await completeUpload({
+      data: body?.data && typeof body.data === 'object' ? body.data : {},
+      req: payloadReq,
+      uploadId: id,
+    })
+
+    return Response.json({ doc }, { status: 201 })
+  } catch (e) {
+    if (e instanceof APIError) {
+      return Response.json({ error: e.message }, { status: e.status })
+    }
+
+    payload.logger.error({ err: e, message: 'Error completing media upload' })
+    return new Response('Error completing media upload.', { status: 500 })
+  }
+}
@@ -0,0 +1,65 @@
+import { APIError, createLocalReq, getPayload } from 'payload'
+import { abortUpload, getUploadStatus } from '@/endpoints/media-uploads'
+import { contributors } from '@/access/contributors'
+import config from '@payload-config'
+import { headers } from 'next/headers'
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<Response> {
+  const { id } = await params
+  const payload = await getPayload({ config })
+  const requestHeaders = await headers()
+
+  // Authenticate by passing request headers
+  const { user } = await payload.auth({ headers: requestHeaders })
+
+  if (!user || !contributors({ req: { user } })) {
+    return new Response('Action forbidden.', { status: 403 })
+  }
+
+  try {
+    const payloadReq = await createLocalReq({ user }, payload)
+    const upload = await getUploadStatus({ req: payloadReq, uploadId: id })
+
+    return Response.json(upload)
+  } catch (e) {
+    if (e instanceof APIError) {
+      return Response.json({ error: e.message }, { status: e.status })
+    }
+
+    payload.logger.error({ err: e, message: 'Error reading media upload status' })
+    return new Response('Error reading media upload status.', { status: 500 })
+  }
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<Response> {
+  const { id } = await params
+  const payload = await getPayload({ config })
+  const requestHeaders = await headers()
+
+  // Authenticate by passing request headers
+  const { user } = await payload.auth({ headers: requestHeaders })
+
+  if (!user || !contributors({ req: { user } })) {
+    return new Response('Action forbidden.', { status: 403 })
+  }
+
+  try {
+    const payloadReq = await createLocalReq({ user }, payload)
+    await abortUpload({ req: payloadReq, uploadId: id })
+
+    return new Response(null, { status: 204 })
+  } catch (e) {
+    if (e instanceof APIError) {
+      return Response.json({ error: e.message }, { status: e.status })
+    }
+
+    payload.logger.error({ err: e, message: 'Error cancelling media upload' })
+    return new Response('Error cancelling media upload.', { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { APIError, createLocalReq, getPayload } from 'payload'
+import { createUploadSession } from '@/endpoints/media-uploads'
+import { contributors } from '@/access/contributors'
+import config from '@payload-config'
+import { headers } from 'next/headers'
+
+export async function POST(request: Request): Promise<Response> {
+  const payload = await getPayload({ config })
+  const requestHeaders = await headers()
+
+  // Authenticate by passing request headers
+  const { user } = await payload.auth({ headers: requestHeaders })
+
+  if (!user || !contributors({ req: { user } })) {
+    return new Response('Action forbidden.', { status: 403 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const payloadReq = await createLocalReq({ user }, payload)
+    const upload = await createUploadSession({
+      filename: body?.filename,
+      mimeType: body?.mimeType,
+      req: payloadReq,
+      size: body?.size,
+    })
+
+    return Response.json(upload, { status: 201 })
+  } catch (e) {
+    if (e instanceof APIError) {
+      return Response.json({ error: e.message }, { status: e.status })
+    }
+
+    payload.logger.error({ err: e, message: 'Error starting media upload' })
+    return new Response('Error starting media upload.', { status: 500 })
+  }
+}
@@ -0,0 +1,45 @@
+import { APIError, createLocalReq, getPayload } from 'payload'
+import { fetchRemoteMedia } from '@/endpoints/media-url-import'
+import { contributors } from '@/access/contributors'
+import config from '@payload-config'
+import { headers } from 'next/headers'
+
+export const maxDuration = 60
+
+// Proxies the file back to the browser, which uploads it through the metadata form
+export async function POST(request: Request): Promise<Response> {
+  const payload = await getPayload({ config })
+  const requestHeaders = await headers()
+
+  // Authenticate by passing request headers
+  const { user } = await payload.auth({ headers: requestHeaders })
+
+  if (!user || !contributors({ req: { user } })) {
+    return new Response('Action forbidden.', { status: 403 })
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const payloadReq = await createLocalReq({ user }, payload)
+    const file = await fetchRemoteMedia({ req: payloadReq, url: body?.url })
+
+    return new Response(file.body, {
+      headers: {
+        'Cache-Control': 'no-store',
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(file.filename)}`,
+        'Content-Type': file.mimeType,
+        ...(file.size !== null && { 'Content-Length': String(file.size) }),
+        // Only meant to be read by fetch(); never render remote content on this origin
+        'Content-Security-Policy': "default-src 'none'",
+        'X-Content-Type-Options': 'nosniff',
+      },
+    })
+  } catch (e) {
+    if (e instanceof APIError) {
+      return Response.json({ error: e.message }, { status: e.status })
+    }
+
+    payload.logger.error({ err: e, message: 'Error importing media from URL' })
+    return new Response('Error importing media from URL.', { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+import { APIError, createLocalReq, getPayload } from 'payload'
+import { getMediaUsage } from '@/endpoints/media-usage'
+import config from '@payload-config'
+import { headers } from 'next/headers'
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<Response> {
+  const { id } = await params
+  const payload = await getPayload({ config })
+  const requestHeaders = await headers()
+
+  // Authenticate by passing request headers
+  const { user } = await payload.auth({ headers: requestHeaders })
+
+  if (!user) {
+    return new Response('Action forbidden.', { status: 403 })
+  }
+
+  try {
+    const payloadReq = await createLocalReq({ user }, payload)
+    const usages = await getMediaUsage({ mediaId: id, payload, req: payloadReq })
+
+    return Response.json({ mediaId: id, totalDocs: usages.length, usages })
+  } catch (e) {
+    if (e instanceof APIError) {
+      return Response.json({ error: e.message }, { status: e.status })
+    }
+
+    payload.logger.error({ err: e, message: 'Error loading media usage' })
+    return new Response('Error loading media usage.', { status: 500 })
+  }
+}
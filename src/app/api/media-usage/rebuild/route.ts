@@ -0,0 +1,33 @@
+import { APIError, createLocalReq, getPayload } from 'payload'
+import { rebuildMediaReferences } from '@/endpoints/media-usage'
+import { admins } from '@/access/admins'
+import config from '@payload-config'
+import { headers } from 'next/headers'
+
+export const maxDuration = 60
+
+export async function POST(): Promise<Response> {
+  const payload = await getPayload({ config })
+  const requestHeaders = await headers()
+
+  // Authenticate by passing request headers
+  const { user } = await payload.auth({ headers: requestHeaders })
+
+  if (!user || !admins({ req: { user } })) {
+    return new Response('Action forbidden.', { status: 403 })
+  }
+
+  try {
+    const payloadReq = await createLocalReq({ user }, payload)
+    const result = await rebuildMediaReferences({ payload, req: payloadReq })
+
+    return Response.json(result)
+  } catch (e) {
+    if (e instanceof APIError) {
+      return Response.json({ error: e.message }, { status: e.status })
+    }
+
+    payload.logger.error({ err: e, message: 'Error rebuilding media references' })
+    return new Response('Error rebuilding media references.', { status: 500 })
+  }
+}
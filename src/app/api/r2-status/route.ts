@@ -1,42 +1,77 @@
+import { getPayload } from 'payload'
+import { checkR2Health, getR2Config } from '@/collections/Media/r2'
+import { admins } from '@/access/admins'
+import config from '@payload-config'
+import { headers } from 'next/headers'
 import { NextResponse } from 'next/server'
 
+/**
+ * Storage status, including a write/read/delete round trip against the bucket.
+ * Writes to the bucket, so it needs an admin or the cron secret (for uptime checks).
+ */
 export async function GET() {
+  const payload = await getPayload({ config })
+  const requestHeaders = await headers()
+
+  const { user } = await payload.auth({ headers: requestHeaders })
+  const hasCronSecret =
+    Boolean(process.env.CRON_SECRET) &&
+    requestHeaders.get('authorization') === `Bearer ${process.env.CRON_SECRET}`
+
+  if (!(user && admins({ req: { user } })) && !hasCronSecret) {
+    return new Response('Action forbidden.', { status: 403 })
+  }
+
   const bucket = process.env.R2_BUCKET
   const accessKeyId = process.env.R2_ACCESS_KEY_ID
   const secretAccessKey = process.env.R2_SECRET_ACCESS_KEY
   const endpoint = process.env.R2_ENDPOINT
   const accountId = process.env.R2_ACCOUNT_ID
 
-  const hasAccessKey = Boolean(accessKeyId)
-  const hasSecretKey = Boolean(secretAccessKey)
-  const hasBucket = Boolean(bucket)
-  const hasEndpoint = Boolean(endpoint)
+  const storageMode = process.env.STORAGE_MODE || 'local'
+  const r2Config = getR2Config()
+
+  const configSummary = {
+    storageMode,
+    bucket: bucket ? '(set)' : '(not set)',
+    endpoint: endpoint ? '(set)' : '(not set)',
+    hasAccessKey: Boolean(accessKeyId),
+    hasSecretKey: Boolean(secretAccessKey),
+    accountId: accountId ? '(set)' : '(not set)',
+  }
 
   // Check if R2 is configured
-  if (!hasBucket || !hasAccessKey || !hasSecretKey || !hasEndpoint) {
+  if (!r2Config) {
     return NextResponse.json({
       status: 'not-configured',
       message: 'R2 Storage is not configured. Using local storage.',
-      config: {
-        bucket: bucket ? '(set)' : '(not set)',
-        endpoint: endpoint ? '(set)' : '(not set)',
-        hasAccessKey,
-        hasSecretKey,
-        accountId: accountId ? '(set)' : '(not set)',
-      },
+      config: configSummary,
+      checks: [],
     })
   }
 
-  // All required environment variables are set
+  const checks = await checkR2Health(r2Config)
+  const failed = checks.find((check) => !check.ok)
+
+  if (failed) {
+    return NextResponse.json(
+      {
+        status: 'error',
+        message: `R2 Storage ${failed.step} failed: ${failed.error}`,
+        config: configSummary,
+        checks,
+      },
+      { status: 503 },
+    )
+  }
+
   return NextResponse.json({
     status: 'connected',
-    message: 'R2 Storage is configured and ready.',
-    config: {
-      bucket: bucket ? '(set)' : '(not set)',
-      endpoint: endpoint ? '(set)' : '(not set)',
-      hasAccessKey,
-      hasSecretKey,
-      accountId: accountId ? '(set)' : '(not set)',
-    },
+    message:
+      storageMode === 'r2'
+        ? 'R2 Storage is reachable and writable.'
+        : 'R2 Storage is reachable and writable, but STORAGE_MODE is not r2, so uploads stay local.',
+    config: configSummary,
+    checks,
   })
 }
@@ -0,0 +1,16 @@
+import type { Access } from 'payload'
+
+import { hasRole } from '../../access/roles'
+
+// Editors manage every profile; anyone else can keep their own up to date
+export const updateAuthor: Access = ({ req: { user } }) => {
+  if (!user) return false
+  if (hasRole(user, 'admin', 'editor')) return true
+  if (hasRole(user, 'viewer')) return false
+
+  return {
+    user: {
+      equals: user.id,
+    },
+  }
+}
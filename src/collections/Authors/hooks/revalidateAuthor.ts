@@ -0,0 +1,59 @@
+import type { CollectionAfterChangeHook, CollectionAfterDeleteHook, PayloadRequest } from 'payload'
+
+import { revalidatePath } from 'next/cache'
+
+import type { Author } from '../../../payload-types'
+
+const getUserId = (author?: null | Partial<Author>) =>
+  typeof author?.user === 'object' ? author.user?.id : author?.user
+
+// Bylines on the profile's published posts show its name and link to it
+const revalidateBylines = async (req: PayloadRequest, ...authors: (null | Partial<Author>)[]) => {
+  const userIds = [...new Set(authors.map(getUserId).filter((id): id is string => Boolean(id)))]
+  if (userIds.length === 0) return
+
+  const { docs } = await req.payload.find({
+    collection: 'posts',
+    depth: 0,
+    pagination: false,
+    req,
+    select: { slug: true },
+    where: { and: [{ _status: { equals: 'published' } }, { authors: { in: userIds } }] },
+  })
+
+  for (const { slug } of docs) {
+    revalidatePath(`/posts/${slug}`)
+  }
+}
+
+export const revalidateAuthor: CollectionAfterChangeHook<Author> = async ({
+  doc,
+  previousDoc,
+  req,
+}) => {
+  if (!req.context.disableRevalidate) {
+    const path = `/authors/${doc.slug}`
+
+    req.payload.logger.info(`Revalidating author at path: ${path}`)
+
+    revalidatePath(path, 'layout')
+
+    // The slug changed, so the old profile has to go too
+    if (previousDoc?.slug && previousDoc.slug !== doc.slug) {
+      revalidatePath(`/authors/${previousDoc.slug}`, 'layout')
+    }
+
+    await revalidateBylines(req, doc, previousDoc)
+  }
+  return doc
+}
+
+export const revalidateDelete: CollectionAfterDeleteHook<Author> = async ({ doc, req }) => {
+  if (!req.context.disableRevalidate) {
+    revalidatePath(`/authors/${doc?.slug}`, 'layout')
+
+    await revalidateBylines(req, doc)
+  }
+
+  return doc
+}
@@ -0,0 +1,123 @@
+import type { CollectionConfig, RelationshipFieldSingleValidation } from 'payload'
+
+import { slugField } from 'payload'
+
+import { anyone } from '../../access/anyone'
+import { editors } from '../../access/editors'
+import { imageField } from '@/lib/payload/fields/media'
+import { updateAuthor } from './access'
+import { revalidateAuthor, revalidateDelete } from './hooks/revalidateAuthor'
+
+export const SOCIAL_PLATFORMS = [
+  { label: 'Website', value: 'website' },
+  { label: 'X', value: 'x' },
+  { label: 'Bluesky', value: 'bluesky' },
+  { label: 'Mastodon', value: 'mastodon' },
+  { label: 'LinkedIn', value: 'linkedin' },
+  { label: 'GitHub', value: 'github' },
+  { label: 'Instagram', value: 'instagram' },
+]
+
+// One profile per account, so bylines and author pages agree
+const validateUser: RelationshipFieldSingleValidation = async (value, { id, req }) => {
+  if (!value) return true
+
+  const { totalDocs } = await req.payload.count({
+    collection: 'authors',
+    req,
+    where: {
+      and: [{ user: { equals: value } }, ...(id ? [{ id: { not_equals: id } }] : [])],
+    },
+  })
+  return totalDocs === 0 || 'This account already has a profile'
+}
+
+/**
+ * Public author profiles shown in post bylines and at `/authors/[slug]`. Kept apart from
+ * `users`, which holds login details and stays private; a profile lists the posts
+ * credited to its linked user.
+ */
+export const Authors: CollectionConfig = {
+  slug: 'authors',
+  access: {
+    create: editors,
+    delete: editors,
+    read: anyone,
+    update: updateAuthor,
+  },
+  admin: {
+    defaultColumns: ['name', 'roleTitle', 'user', 'updatedAt'],
+    group: 'Content',
+    useAsTitle: 'name',
+  },
+  fields: [
+    {
+      name: 'name',
+      type: 'text',
+      required: true,
+    },
+    {
+      name: 'roleTitle',
+      type: 'text',
+      admin: {
+        description: 'Shown under the name, e.g. "Staff Writer"',
+      },
+    },
+    imageField('avatar', {
+      admin: {
+        description: 'A square image works best',
+      },
+    }),
+    {
+      name: 'bio',
+      type: 'textarea',
+    },
+    {
+      name: 'socialLinks',
+      type: 'array',
+      fields: [
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'platform',
+              type: 'select',
+              options: SOCIAL_PLATFORMS,
+              required: true,
+            },
+            {
+              name: 'url',
+              type: 'text',
+              label: 'URL',
+              required: true,
+              validate: (value: null | string | undefined) =>
+                !value || /^https?:\/\//.test(value) || 'Enter a full URL starting with https://',
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'user',
+      type: 'relationship',
+      // Which account a profile belongs to stays private
+      access: {
+        create: editors,
+        read: ({ req: { user } }) => Boolean(user),
+        update: editors,
+      },
+      admin: {
+        description: 'The account whose posts are listed on this profile',
+        position: 'sidebar',
+      },
+      index: true,
+      relationTo: 'users',
+      validate: validateUser,
+    },
+    slugField({ useAsSlug: 'name' }),
+  ],
+  hooks: {
+    afterChange: [revalidateAuthor],
+    afterDelete: [revalidateDelete],
+  },
+}
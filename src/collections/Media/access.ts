@@ -0,0 +1,52 @@
+import type { Access, Where } from 'payload'
+
+import { createHmac, timingSafeEqual } from 'crypto'
+
+export const MEDIA_VISIBILITIES = ['public', 'authenticated', 'private'] as const
+
+export type MediaVisibility = (typeof MEDIA_VISIBILITIES)[number]
+
+// Also matches media saved before visibility existed, which has no value and stays public
+const publicMedia: Where = { visibility: { not_in: ['authenticated', 'private'] } }
+
+const sign = (secret: string, filename: string, expires: number) =>
+  createHmac('sha256', secret).update(`${filename}|${expires}`).digest('base64url').slice(0, 32)
+
+/**
+ * Query string that lets anyone download one file until `expires` (a Unix timestamp in
+ * seconds), whatever the media item's visibility.
+ */
+export const signMediaFile = (secret: string, filename: string, expires: number) =>
+  new URLSearchParams({ expires: String(expires), signature: sign(secret, filename, expires) })
+
+const hasValidSignature = (secret: string, filename: string, search: URLSearchParams) => {
+  const expires = Number(search.get('expires'))
+  if (!Number.isInteger(expires) || expires * 1000 < Date.now()) return false
+
+  const expected = Buffer.from(sign(secret, filename, expires))
+  const actual = Buffer.from(search.get('signature') || '')
+  return (
+    actual.length === expected.length &&
+    timingSafeEqual(new Uint8Array(actual), new Uint8Array(expected))
+  )
+}
+
+/**
+ * Logged-in users read everything. Everyone else reads public media, plus single files
+ * through an unexpired signed URL. File requests (`/api/media/file/*`, and `/media/*`
+ * through the rewrite in next.config.js) pass through here before local or bucket reads.
+ */
+export const readMedia: Access = ({ data, isReadingStaticFile, req }) => {
+  if (req.user) return true
+
+  if (
+    isReadingStaticFile &&
+    typeof data?.filename === 'string' &&
+    req.searchParams &&
+    hasValidSignature(req.payload.secret, data.filename, req.searchParams)
+  ) {
+    return true
+  }
+
+  return publicMedia
+}
@@ -0,0 +1,450 @@
+/**
+ * Readers for the EXIF, IPTC and XMP blocks that sharp exposes from image metadata,
+ * limited to the properties an editor cares about (credits, capture date, location, camera).
+ */
+
+type RawValue = number | number[] | string | string[]
+
+export type EmbeddedMetadata = {
+  capturedAt: null | string
+  copyright: null | string
+  creator: null | string
+  gps: null | { latitude: number; longitude: number }
+  raw: {
+    exif: Record<string, RawValue>
+    iptc: Record<string, RawValue>
+    xmp: Record<string, RawValue>
+  }
+}
+
+export type MetadataBlocks = {
+  exif?: Buffer
+  iptc?: Buffer
+  xmp?: Buffer
+}
+
+// EXIF
+
+const IFD0_TAGS: Record<number, string> = {
+  0x010e: 'ImageDescription',
+  0x010f: 'Make',
+  0x0110: 'Model',
+  0x0112: 'Orientation',
+  0x0131: 'Software',
+  0x0132: 'ModifyDate',
+  0x013b: 'Artist',
+  0x8298: 'Copyright',
+}
+
+const EXIF_TAGS: Record<number, string> = {
+  0x829a: 'ExposureTime',
+  0x829d: 'FNumber',
+  0x8827: 'ISO',
+  0x9003: 'DateTimeOriginal',
+  0x9004: 'CreateDate',
+  0x9011: 'OffsetTimeOriginal',
+  0x9209: 'Flash',
+  0x920a: 'FocalLength',
+  0xa405: 'FocalLengthIn35mmFormat',
+  0xa430: 'OwnerName',
+  0xa433: 'LensMake',
+  0xa434: 'LensModel',
+}
+
+const GPS_TAGS: Record<number, string> = {
+  0x0001: 'GPSLatitudeRef',
+  0x0002: 'GPSLatitude',
+  0x0003: 'GPSLongitudeRef',
+  0x0004: 'GPSLongitude',
+  0x0005: 'GPSAltitudeRef',
+  0x0006: 'GPSAltitude',
+  0x0007: 'GPSTimeStamp',
+  0x001d: 'GPSDateStamp',
+}
+
+const EXIF_IFD_POINTER = 0x8769
+const GPS_IFD_POINTER = 0x8825
+
+// Bytes per value for each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 }
+
+// Larger binary values (maker notes, thumbnails) are not worth keeping
+const MAX_BINARY_VALUES = 64
+
+type IfdEntry = {
+  count: number
+  size: number
+  tag: number
+  type: number
+  valueOffset: number
+}
+
+// libvips prefixes the TIFF structure with the JPEG APP1 identifier
+const getTiff = (exif: Buffer) =>
+  exif.subarray(0, 6).toString('latin1') === 'Exif\0\0' ? exif.subarray(6) : exif
+
+const createTiffReader = (tiff: Buffer) => {
+  const littleEndian = tiff.toString('latin1', 0, 2) === 'II'
+  const u16 = (offset: number) =>
+    littleEndian ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset)
+  const u32 = (offset: number) =>
+    littleEndian ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset)
+  const i32 = (offset: number) =>
+    littleEndian ? tiff.readInt32LE(offset) : tiff.readInt32BE(offset)
+
+  const readEntries = (offset: number): IfdEntry[] => {
+    if (offset < 8 || offset + 2 > tiff.length) return []
+
+    const entries: IfdEntry[] = []
+    const count = u16(offset)
+
+    for (let index = 0; index < count; index++) {
+      const at = offset + 2 + index * 12
+      if (at + 12 > tiff.length) break
+
+      const type = u16(at + 2)
+      const valueCount = u32(at + 4)
+      const size = (TYPE_SIZES[type] ?? 1) * valueCount
+
+      entries.push({
+        count: valueCount,
+        size,
+        tag: u16(at),
+        type,
+        valueOffset: size <= 4 ? at + 8 : u32(at + 8),
+      })
+    }
+
+    return entries
+  }
+
+  const readValue = ({ count, size, type, valueOffset }: IfdEntry): RawValue | undefined => {
+    if (!TYPE_SIZES[type] || valueOffset + size > tiff.length) return undefined
+
+    if (type === 2) {
+      return tiff
+        .toString('utf8', valueOffset, valueOffset + count)
+        .replace(/\0+$/, '')
+        .trim()
+    }
+
+    if (type === 7 && count > MAX_BINARY_VALUES) return undefined
+
+    const values: number[] = []
+    for (let index = 0; index < count; index++) {
+      const at = valueOffset + index * TYPE_SIZES[type]
+
+      switch (type) {
+        case 3:
+          values.push(u16(at))
+          break
+        case 4:
+          values.push(u32(at))
+          break
+        case 9:
+          values.push(i32(at))
+          break
+        case 5:
+        case 10: {
+          const denominator = type === 5 ? u32(at + 4) : i32(at + 4)
+          const numerator = type === 5 ? u32(at) : i32(at)
+          values.push(denominator ? Math.round((numerator / denominator) * 1e6) / 1e6 : 0)
+          break
+        }
+        default:
+          values.push(tiff[at])
+      }
+    }
+
+    return count === 1 ? values[0] : values
+  }
+
+  // Where a directory pointer leads; 0 (no directory) when it lies outside the block
+  const readPointer = ({ valueOffset }: IfdEntry) =>
+    valueOffset + 4 <= tiff.length ? u32(valueOffset) : 0
+
+  return { readEntries, readPointer, readValue, u32 }
+}
+
+const readExif = (exif: Buffer): Record<string, RawValue> => {
+  const tiff = getTiff(exif)
+  if (tiff.length < 8) return {}
+
+  const reader = createTiffReader(tiff)
+  const tags: Record<string, RawValue> = {}
+
+  const readIfd = (offset: number, names: Record<number, string>) => {
+    const entries = reader.readEntries(offset)
+
+    for (const entry of entries) {
+      const name = names[entry.tag]
+      const value = name ? reader.readValue(entry) : undefined
+      if (name && value !== undefined && value !== '') tags[name] = value
+    }
+
+    return entries
+  }
+
+  const ifd0 = readIfd(reader.u32(4), IFD0_TAGS)
+
+  for (const entry of ifd0) {
+    if (entry.tag === EXIF_IFD_POINTER) readIfd(reader.readPointer(entry), EXIF_TAGS)
+    if (entry.tag === GPS_IFD_POINTER) readIfd(reader.readPointer(entry), GPS_TAGS)
+  }
+
+  return tags
+}
+
+// IPTC (IIM records inside the Photoshop resource block)
+
+const IPTC_DATASETS: Record<number, string> = {
+  5: 'ObjectName',
+  25: 'Keywords',
+  55: 'DateCreated',
+  60: 'TimeCreated',
+  80: 'ByLine',
+  85: 'ByLineTitle',
+  90: 'City',
+  101: 'Country',
+  105: 'Headline',
+  110: 'Credit',
+  115: 'Source',
+  116: 'CopyrightNotice',
+  120: 'Caption',
+}
+
+// Datasets that may appear more than once
+const IPTC_REPEATABLE = new Set(['ByLine', 'Keywords'])
+
+const readIptc = (iptc: Buffer): Record<string, RawValue> => {
+  const datasets: Record<string, RawValue> = {}
+
+  let offset = iptc.indexOf(new Uint8Array([0x1c, 0x02]))
+  if (offset < 0) return datasets
+
+  while (offset + 5 <= iptc.length && iptc[offset] === 0x1c) {
+    const record = iptc[offset + 1]
+    const dataset = iptc[offset + 2]
+    const length = iptc.readUInt16BE(offset + 3)
+    const name = record === 2 ? IPTC_DATASETS[dataset] : undefined
+    const value = iptc.toString('utf8', offset + 5, offset + 5 + length).trim()
+
+    if (name && value) {
+      const existing = datasets[name]
+      datasets[name] = IPTC_REPEATABLE.has(name)
+        ? [...(Array.isArray(existing) ? existing.map(String) : []), value]
+        : value
+    }
+
+    offset += 5 + length
+  }
+
+  return datasets
+}
+
+// XMP
+
+const XMP_PROPERTIES = [
+  'dc:creator',
+  'dc:description',
+  'dc:rights',
+  'dc:subject',
+  'dc:title',
+  'exif:DateTimeOriginal',
+  'exif:GPSLatitude',
+  'exif:GPSLongitude',
+  'photoshop:City',
+  'photoshop:Country',
+  'photoshop:Credit',
+  'photoshop:DateCreated',
+  'xmp:CreateDate',
+  'xmp:CreatorTool',
+  'xmpRights:UsageTerms',
+]
+
+// Location properties, as attributes or elements
+const XMP_GPS_PATTERN = /\sexif:GPS\w+="[^"]*"|<(exif:GPS\w+)(?:\s[^>]*)?(?:\/>|>[\s\S]*?<\/\1>)/g
+
+const decodeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim()
+
+const readXmpProperty = (xml: string, name: string): RawValue | undefined => {
+  const attribute = new RegExp(`\\s${name}="([^"]*)"`).exec(xml)
+  if (attribute) return decodeXml(attribute[1]) || undefined
+
+  const element = new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`).exec(xml)
+  if (!element) return undefined
+
+  // Lists (rdf:Seq, rdf:Bag, rdf:Alt) hold their values in rdf:li items
+  const items = [...element[1].matchAll(/<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/g)]
+    .map((item) => decodeXml(item[1]))
+    .filter(Boolean)
+
+  if (items.length > 1) return items
+  return items[0] || decodeXml(element[1]) || undefined
+}
+
+const readXmp = (xmp: Buffer): Record<string, RawValue> => {
+  const xml = xmp.toString('utf8')
+  const properties: Record<string, RawValue> = {}
+
+  for (const name of XMP_PROPERTIES) {
+    const value = readXmpProperty(xml, name)
+    if (value !== undefined) properties[name] = value
+  }
+
+  return properties
+}
+
+// Normalised values
+
+const firstString = (...values: (RawValue | undefined)[]): null | string => {
+  for (const value of values) {
+    const text = Array.isArray(value) ? value.join(', ') : value
+    if (typeof text === 'string' && text.trim()) return text.trim()
+  }
+  return null
+}
+
+const toISODate = (value: null | string): null | string => {
+  if (!value) return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+// "2024:05:01 14:30:00" with an optional "+02:00" offset
+const exifDate = (value: RawValue | undefined, offset: RawValue | undefined) => {
+  const match =
+    typeof value === 'string' && /^(\d{4}):(\d{2}):(\d{2}) (\d{2}:\d{2}:\d{2})/.exec(value)
+  if (!match) return null
+  const zone = typeof offset === 'string' && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : 'Z'
+  return toISODate(`${match[1]}-${match[2]}-${match[3]}T${match[4]}${zone}`)
+}
+
+// "20240501" with an optional "143000+0200"
+const iptcDate = (date: RawValue | undefined, time: RawValue | undefined) => {
+  const day = typeof date === 'string' && /^(\d{4})(\d{2})(\d{2})$/.exec(date)
+  if (!day) return null
+  const clock = typeof time === 'string' && /^(\d{2})(\d{2})(\d{2})([+-]\d{2})(\d{2})$/.exec(time)
+  const suffix = clock ? `T${clock[1]}:${clock[2]}:${clock[3]}${clock[4]}:${clock[5]}` : ''
+  return toISODate(`${day[1]}-${day[2]}-${day[3]}${suffix}`)
+}
+
+const exifCoordinate = (value: RawValue | undefined, ref: RawValue | undefined) => {
+  if (!Array.isArray(value) || value.length < 3) return null
+  const [degrees, minutes, seconds] = value.map(Number)
+  const coordinate = degrees + minutes / 60 + seconds / 3600
+  return ref === 'S' || ref === 'W' ? -coordinate : coordinate
+}
+
+// "52,22.35N" or "52,22,21N"
+const xmpCoordinate = (value: RawValue | undefined) => {
+  const match =
+    typeof value === 'string' && /^(\d+),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/.exec(value)
+  if (!match) return null
+  const coordinate = Number(match[1]) + Number(match[2]) / 60 + Number(match[3] || 0) / 3600
+  return match[4] === 'S' || match[4] === 'W' ? -coordinate : coordinate
+}
+
+const roundCoordinate = (value: number) => Math.round(value * 1e6) / 1e6
+
+/**
+ * Parse the metadata blocks of an image. Creator and copyright prefer XMP, then IPTC, then EXIF,
+ * which is the order editing tools keep them up to date in.
+ */
+export const readEmbeddedMetadata = ({ exif, iptc, xmp }: MetadataBlocks): EmbeddedMetadata => {
+  const raw = {
+    exif: exif ? readExif(exif) : {},
+    iptc: iptc ? readIptc(iptc) : {},
+    xmp: xmp ? readXmp(xmp) : {},
+  }
+
+  const latitude =
+    exifCoordinate(raw.exif.GPSLatitude, raw.exif.GPSLatitudeRef) ??
+    xmpCoordinate(raw.xmp['exif:GPSLatitude'])
+  const longitude =
+    exifCoordinate(raw.exif.GPSLongitude, raw.exif.GPSLongitudeRef) ??
+    xmpCoordinate(raw.xmp['exif:GPSLongitude'])
+
+  return {
+    capturedAt:
+      exifDate(raw.exif.DateTimeOriginal, raw.exif.OffsetTimeOriginal) ??
+      toISODate(firstString(raw.xmp['exif:DateTimeOriginal'], raw.xmp['photoshop:DateCreated'])) ??
+      iptcDate(raw.iptc.DateCreated, raw.iptc.TimeCreated) ??
+      toISODate(firstString(raw.xmp['xmp:CreateDate'])),
+    copyright: firstString(raw.xmp['dc:rights'], raw.iptc.CopyrightNotice, raw.exif.Copyright),
+    creator: firstString(raw.xmp['dc:creator'], raw.iptc.ByLine, raw.exif.Artist),
+    gps:
+      latitude !== null && longitude !== null
+        ? { latitude: roundCoordinate(latitude), longitude: roundCoordinate(longitude) }
+        : null,
+    raw,
+  }
+}
+
+/**
+ * Drop location data from parsed metadata, for files whose GPS tags were stripped.
+ */
+export const withoutGps = (metadata: EmbeddedMetadata): EmbeddedMetadata => {
+  const isGps = (key: string) => /^(exif:)?GPS/.test(key)
+  const omitGps = (values: Record<string, RawValue>) =>
+    Object.fromEntries(Object.entries(values).filter(([key]) => !isGps(key)))
+
+  return {
+    ...metadata,
+    gps: null,
+    raw: { ...metadata.raw, exif: omitGps(metadata.raw.exif), xmp: omitGps(metadata.raw.xmp) },
+  }
+}
+
+/**
+ * Blank out the GPS data of an image in place, leaving the pixels and all other metadata untouched.
+ * The EXIF GPS directory is emptied and XMP location properties are overwritten with spaces,
+ * so every offset in the file stays valid. Returns false if a block could not be found in
+ * the file (e.g. a format that stores it differently), in which case the caller must re-encode.
+ */
+export const stripGpsInPlace = (file: Buffer, { exif, xmp }: MetadataBlocks): boolean => {
+  if (exif) {
+    const tiff = getTiff(exif)
+    const start = tiff.length >= 8 ? file.indexOf(new Uint8Array(tiff)) : -1
+    if (start < 0) return false
+
+    // A view onto the file, so writes below change the file itself
+    const inFile = file.subarray(start, start + tiff.length)
+    const reader = createTiffReader(inFile)
+    const pointer = reader.readEntries(reader.u32(4)).find((entry) => entry.tag === GPS_IFD_POINTER)
+
+    if (pointer) {
+      const gpsOffset = reader.readPointer(pointer)
+      const entries = reader.readEntries(gpsOffset)
+
+      for (const entry of entries) {
+        if (entry.size > 4 && entry.valueOffset + entry.size <= inFile.length) {
+          inFile.fill(0, entry.valueOffset, entry.valueOffset + entry.size)
+        }
+      }
+
+      // An entry count of zero and no next directory
+      inFile.fill(0, gpsOffset, Math.min(inFile.length, gpsOffset + 2 + entries.length * 12 + 4))
+    }
+  }
+
+  if (xmp) {
+    const xml = xmp.toString('utf8')
+    const stripped = xml.replace(XMP_GPS_PATTERN, (match) => ' '.repeat(Buffer.byteLength(match)))
+
+    if (stripped !== xml) {
+      const start = file.indexOf(new Uint8Array(xmp))
+      if (start < 0) return false
+      file.write(stripped, start, 'utf8')
+    }
+  }
+
+  return true
+}
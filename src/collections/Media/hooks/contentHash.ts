@@ -0,0 +1,44 @@
+import type { CollectionBeforeChangeHook } from 'payload'
+
+import { createHash } from 'crypto'
+
+import type { Media } from '../../../payload-types'
+import { DHASH_HEIGHT, DHASH_WIDTH, dHash } from '../../../utilities/perceptualHash'
+import { getUploadedFileBuffer } from './uploadedFile'
+
+/**
+ * Fingerprint each uploaded file so duplicates can be found before they are
+ * uploaded again: a SHA-256 of the bytes, plus a perceptual hash for images
+ * that survives resizing and re-encoding.
+ */
+export const computeContentHashes: CollectionBeforeChangeHook<Media> = async ({ data, req }) => {
+  const { context, file, payload } = req
+
+  if (!file || context.skipMediaDerivatives || data.sourceMedia) return data
+
+  const input = await getUploadedFileBuffer(req)
+  if (!input) return data
+
+  const contentHash = createHash('sha256').update(new Uint8Array(input)).digest('hex')
+  let perceptualHash: null | string = null
+
+  if (file.mimetype.startsWith('image/') && file.mimetype !== 'image/svg+xml' && payload.config.sharp) {
+    try {
+      // Transparent areas are flattened onto white, as the browser-side hash does
+      const pixels = await payload.config
+        .sharp(input)
+        .rotate()
+        .flatten({ background: '#ffffff' })
+        .resize(DHASH_WIDTH, DHASH_HEIGHT, { fit: 'fill' })
+        .toColourspace('b-w')
+        .raw()
+        .toBuffer()
+
+      perceptualHash = dHash(pixels)
+    } catch (error) {
+      payload.logger.warn({ err: error, msg: `Could not compute a perceptual hash for ${file.name}` })
+    }
+  }
+
+  return { ...data, contentHash, perceptualHash }
+}
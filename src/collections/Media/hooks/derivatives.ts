@@ -0,0 +1,28 @@
+import type { PayloadRequest } from 'payload'
+
+import { runNested } from './uploadedFile'
+
+export const getRelationID = (value: unknown): null | string => {
+  if (!value) return null
+  if (typeof value === 'object' && 'id' in value) return String(value.id)
+  return String(value)
+}
+
+/**
+ * Delete generated media documents (variants, archived revisions) without
+ * triggering derivative hooks on them.
+ */
+export const deleteDerivatives = async (values: unknown[], req: PayloadRequest) => {
+  const ids = values.map(getRelationID).filter((id): id is string => Boolean(id))
+
+  if (ids.length === 0) return
+
+  await runNested(req, () =>
+    req.payload.delete({
+      collection: 'media',
+      where: { id: { in: ids } },
+      context: { skipMediaDerivatives: true },
+      req,
+    }),
+  )
+}
@@ -0,0 +1,139 @@
+import type {
+  CollectionBeforeChangeHook,
+  CollectionBeforeOperationHook,
+  PayloadRequest,
+} from 'payload'
+
+import { writeFile } from 'fs/promises'
+
+import type { Media } from '../../../payload-types'
+import {
+  type EmbeddedMetadata,
+  type MetadataBlocks,
+  readEmbeddedMetadata,
+  stripGpsInPlace,
+  withoutGps,
+} from '../embeddedMetadata'
+import { getUploadedFileBuffer } from './uploadedFile'
+
+// Opt in with MEDIA_STRIP_GPS=true to remove location data from uploaded images
+const shouldStripGps = () => process.env.MEDIA_STRIP_GPS === 'true'
+
+export const getMediaType = (mimeType: string): NonNullable<Media['mediaType']> => {
+  if (mimeType.startsWith('image/')) return 'image'
+  if (mimeType.startsWith('video/')) return 'video'
+  if (mimeType.startsWith('audio/')) return 'audio'
+  return 'document'
+}
+
+/**
+ * Remove GPS data from the uploaded file. Blanking it in place keeps the file byte-for-byte
+ * otherwise; formats where that is not possible are re-encoded without metadata.
+ */
+const stripGpsFromUpload = async (req: PayloadRequest, input: Buffer, blocks: MetadataBlocks) => {
+  const { file, payload } = req
+  if (!file || !payload.config.sharp) return false
+
+  let data = input
+  if (!stripGpsInPlace(input, blocks)) {
+    data = await payload.config
+      .sharp(input, { animated: true })
+      .rotate()
+      .keepIccProfile()
+      .toBuffer()
+  }
+
+  // Payload reads large uploads back from their temp file
+  if (file.tempFilePath) {
+    await writeFile(file.tempFilePath, new Uint8Array(data))
+  }
+  req.file = { ...file, data: file.tempFilePath ? file.data : data, size: data.length }
+
+  return true
+}
+
+/**
+ * Read EXIF, IPTC and XMP from uploaded images, and strip GPS data if configured.
+ * This runs before the operation because Payload re-encodes some images while
+ * preparing the upload, which drops their metadata. The result is saved by
+ * `applyEmbeddedMetadata`.
+ */
+export const readUploadMetadata: CollectionBeforeOperationHook = async ({
+  args,
+  operation,
+  req,
+}) => {
+  const { context, file, payload } = req
+
+  if ((operation !== 'create' && operation !== 'update') || !file || context.skipMediaDerivatives) {
+    return args
+  }
+
+  if (!file.mimetype.startsWith('image/') || file.mimetype === 'image/svg+xml') return args
+  if (!payload.config.sharp) return args
+
+  const input = await getUploadedFileBuffer(req)
+  if (!input) return args
+
+  try {
+    const { exif, iptc, xmp } = await payload.config.sharp(input).metadata()
+    let metadata = readEmbeddedMetadata({ exif, iptc, xmp })
+
+    if (metadata.gps && shouldStripGps()) {
+      try {
+        await stripGpsFromUpload(req, input, { exif, xmp })
+        metadata = withoutGps(metadata)
+      } catch (error) {
+        payload.logger.error({ err: error, msg: `Could not strip GPS data from ${file.name}` })
+      }
+    }
+
+    context.embeddedMetadata = metadata
+  } catch (error) {
+    payload.logger.warn({ err: error, msg: `Could not read embedded metadata of ${file.name}` })
+  }
+
+  return args
+}
+
+/**
+ * Set `mediaType` from the uploaded file. "image" is the field default, so it only
+ * sticks for images; any other type chosen by the uploader is kept.
+ */
+export const classifyMediaType: CollectionBeforeChangeHook<Media> = ({ data, req }) => {
+  const { context, file } = req
+
+  if (!file || context.skipMediaDerivatives || data.sourceMedia) return data
+
+  const mediaType = getMediaType(file.mimetype)
+  if (data.mediaType && (data.mediaType !== 'image' || mediaType === 'image')) return data
+
+  return { ...data, mediaType }
+}
+
+/**
+ * Store the metadata read by `readUploadMetadata` and prefill empty credit fields from it.
+ * A new file always replaces the previous file's metadata.
+ */
+export const applyEmbeddedMetadata: CollectionBeforeChangeHook<Media> = ({ data, req }) => {
+  const { context, file } = req
+
+  if (!file || context.skipMediaDerivatives || data.sourceMedia) return data
+
+  const metadata = (context.embeddedMetadata as EmbeddedMetadata | undefined) ?? null
+
+  return {
+    ...data,
+    embeddedMetadata: {
+      capturedAt: metadata?.capturedAt ?? null,
+      latitude: metadata?.gps?.latitude ?? null,
+      longitude: metadata?.gps?.longitude ?? null,
+      raw: metadata?.raw ?? null,
+    },
+    seoMeta: {
+      ...data.seoMeta,
+      photographerCredit: data.seoMeta?.photographerCredit || metadata?.creator || null,
+      copyrightInfo: data.seoMeta?.copyrightInfo || metadata?.copyright || null,
+    },
+  }
+}
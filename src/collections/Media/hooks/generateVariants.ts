@@ -0,0 +1,120 @@
+import type { CollectionAfterChangeHook, CollectionAfterDeleteHook, PayloadRequest } from 'payload'
+
+import path from 'path'
+
+import type { Media } from '../../../payload-types'
+import { deleteDerivatives } from './derivatives'
+import { getUploadedFileBuffer, runNested } from './uploadedFile'
+
+type VariantName = keyof NonNullable<Media['variants']>
+
+// Target widths for the `variants` group. Variants are never upscaled.
+export const VARIANT_WIDTHS: Record<VariantName, number> = {
+  mobile: 480,
+  tablet: 768,
+  desktop: 1200,
+  largeDesktop: 1920,
+}
+
+// Formats sharp can write back as-is. Anything else is re-encoded as JPEG.
+export const PASSTHROUGH_FORMATS = ['jpeg', 'png', 'webp', 'avif'] as const
+
+const deleteVariants = (variants: Media['variants'], req: PayloadRequest) =>
+  deleteDerivatives(Object.values(variants || {}), req)
+
+/**
+ * Render the responsive variants for an image and store them as linked media documents.
+ * Runs on create and whenever the file is replaced (e.g. from the media manager's
+ * image editor), replacing any variants generated for the previous file.
+ */
+export const generateVariants: CollectionAfterChangeHook<Media> = async ({
+  doc,
+  previousDoc,
+  operation,
+  req,
+}) => {
+  const { context, payload } = req
+
+  if (context.skipMediaDerivatives || doc.sourceMedia) return doc
+  if (!doc.mimeType?.startsWith('image/') || doc.mimeType === 'image/svg+xml') return doc
+
+  // Only regenerate when this request actually uploaded a file
+  const input = await getUploadedFileBuffer(req)
+  if (!input) return doc
+
+  if (!payload.config.sharp) {
+    payload.logger.warn('Skipping media variants: sharp is not configured')
+    return doc
+  }
+
+  const sharp = payload.config.sharp
+
+  try {
+    const { format, width: sourceWidth } = await sharp(input).metadata()
+    const outputFormat = PASSTHROUGH_FORMATS.find((f) => f === format) ?? 'jpeg'
+    const baseName = path.parse(doc.filename || 'image').name
+
+    if (operation === 'update') {
+      await deleteVariants(previousDoc?.variants, req)
+    }
+
+    const variants: Record<string, null | string> = {}
+
+    for (const [name, width] of Object.entries(VARIANT_WIDTHS)) {
+      if (sourceWidth && sourceWidth <= width) {
+        variants[name] = null
+        continue
+      }
+
+      const data = await sharp(input).rotate().resize({ width }).toFormat(outputFormat).toBuffer()
+      const extension = outputFormat === 'jpeg' ? 'jpg' : outputFormat
+
+      const variant = await runNested(req, () =>
+        payload.create({
+          collection: 'media',
+          data: {
+            alt: doc.alt,
+            mediaType: 'image',
+            sourceMedia: doc.id,
+            derivativeKind: 'variant',
+          },
+          file: {
+            data,
+            mimetype: `image/${outputFormat}`,
+            name: `${baseName}-${width}w.${extension}`,
+            size: data.length,
+          },
+          context: { skipMediaDerivatives: true },
+          req,
+        }),
+      )
+
+      variants[name] = variant.id
+    }
+
+    const updated = await runNested(req, () =>
+      payload.update({
+        id: doc.id,
+        collection: 'media',
+        data: { variants },
+        context: { skipMediaDerivatives: true },
+        req,
+      }),
+    )
+
+    payload.logger.info(`Generated responsive variants for media ${doc.id}`)
+
+    return { ...doc, variants: updated.variants }
+  } catch (error) {
+    payload.logger.error({ err: error, msg: `Failed to generate variants for media ${doc.id}` })
+    return doc
+  }
+}
+
+export const deleteVariantsOnDelete: CollectionAfterDeleteHook<Media> = async ({ doc, req }) => {
+  if (req.context.skipMediaDerivatives || doc?.sourceMedia) return doc
+
+  await deleteVariants(doc?.variants, req)
+
+  return doc
+}
@@ -0,0 +1,28 @@
+import type { CollectionBeforeChangeHook } from 'payload'
+
+import type { Media } from '../../../payload-types'
+
+// Images within 2% of square count as square
+const SQUARE_TOLERANCE = 0.02
+
+export const getOrientation = (
+  width?: null | number,
+  height?: null | number,
+): Media['orientation'] => {
+  if (!width || !height) return null
+  if (Math.abs(width - height) / Math.max(width, height) <= SQUARE_TOLERANCE) return 'square'
+  return width > height ? 'landscape' : 'portrait'
+}
+
+/**
+ * Keep `orientation` in line with the file's dimensions so the media manager can filter on it.
+ * Items saved before the field existed pick it up on their next save.
+ */
+export const setOrientation: CollectionBeforeChangeHook<Media> = ({ data, originalDoc }) => {
+  const orientation = getOrientation(
+    data.width ?? originalDoc?.width,
+    data.height ?? originalDoc?.height,
+  )
+
+  return { ...data, orientation }
+}
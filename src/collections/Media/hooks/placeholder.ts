@@ -0,0 +1,45 @@
+import type { CollectionBeforeChangeHook } from 'payload'
+
+import type { Media } from '../../../payload-types'
+import { getUploadedFileBuffer } from './uploadedFile'
+
+// Longest side of the blurred placeholder; the browser scales and blurs it further
+const PLACEHOLDER_SIZE = 16
+
+const toHex = (value: number) => value.toString(16).padStart(2, '0')
+
+/**
+ * Compute a tiny blurred preview and the dominant color of an uploaded image,
+ * shown by `ImageMedia` while the image loads.
+ */
+export const computePlaceholder: CollectionBeforeChangeHook<Media> = async ({ data, req }) => {
+  const { context, file, payload } = req
+
+  if (!file || context.skipMediaDerivatives || data.sourceMedia) return data
+  if (!file.mimetype.startsWith('image/') || file.mimetype === 'image/svg+xml') return data
+  if (!payload.config.sharp) return data
+
+  const input = await getUploadedFileBuffer(req)
+  if (!input) return data
+
+  try {
+    const { dominant } = await payload.config.sharp(input).stats()
+    const preview = await payload.config
+      .sharp(input)
+      .rotate()
+      .resize(PLACEHOLDER_SIZE, PLACEHOLDER_SIZE, { fit: 'inside' })
+      .webp({ quality: 50 })
+      .toBuffer()
+
+    return {
+      ...data,
+      placeholder: {
+        blurDataURL: `data:image/webp;base64,${preview.toString('base64')}`,
+        dominantColor: `#${toHex(dominant.r)}${toHex(dominant.g)}${toHex(dominant.b)}`,
+      },
+    }
+  } catch (error) {
+    payload.logger.warn({ err: error, msg: `Could not compute a placeholder for ${file.name}` })
+    return data
+  }
+}
@@ -0,0 +1,38 @@
+import type { CollectionAfterDeleteHook, CollectionBeforeDeleteHook } from 'payload'
+
+import { APIError } from 'payload'
+
+import type { Media } from '../../../payload-types'
+
+/**
+ * Refuse to delete media that is still used by pages, posts or globals.
+ * Pass `?force=true` (or `context.forceMediaDelete`) to delete it anyway.
+ */
+export const preventReferencedDelete: CollectionBeforeDeleteHook = async ({ id, req }) => {
+  const { context, payload, query } = req
+
+  if (context.skipMediaDerivatives || context.forceMediaDelete || query?.force === 'true') return
+
+  const { totalDocs } = await payload.count({
+    collection: 'media-references',
+    where: { media: { equals: id } },
+    req,
+  })
+
+  if (totalDocs > 0) {
+    throw new APIError(
+      `This media item is used in ${totalDocs} place${totalDocs === 1 ? '' : 's'}. Remove those references or delete with force=true.`,
+      409,
+    )
+  }
+}
+
+export const deleteReferencesOnDelete: CollectionAfterDeleteHook<Media> = async ({ doc, id, req }) => {
+  await req.payload.delete({
+    collection: 'media-references',
+    where: { media: { equals: id } },
+    req,
+  })
+
+  return doc
+}
@@ -0,0 +1,139 @@
+import type {
+  CollectionAfterChangeHook,
+  CollectionAfterDeleteHook,
+  CollectionBeforeChangeHook,
+  CollectionBeforeOperationHook,
+} from 'payload'
+
+import type { Media } from '../../../payload-types'
+import { readMediaFile } from '../storage'
+import { deleteDerivatives, getRelationID } from './derivatives'
+import { runNested } from './uploadedFile'
+
+type Revision = NonNullable<Media['revisions']>[number]
+
+// Oldest revisions beyond this are deleted along with their files
+export const MAX_FILE_REVISIONS = 20
+
+/**
+ * Payload deletes the current file (and its image sizes) as soon as an update
+ * brings a replacement, before any change hooks run. Copy the outgoing file into
+ * a `revision` media document first so it can be restored later.
+ */
+export const archivePreviousFile: CollectionBeforeOperationHook = async ({ args, operation, req }) => {
+  const { context, payload } = req
+
+  const id = 'id' in args ? args.id : undefined
+
+  if (operation !== 'update' || !req.file || !id || context.skipMediaDerivatives) return args
+
+  const previous = (await payload.findByID({
+    id,
+    collection: 'media',
+    depth: 0,
+    req,
+  })) as Media
+
+  const filename = previous?.filename
+  if (!filename || previous.sourceMedia) return args
+
+  const data = await readMediaFile(req, filename, previous)
+
+  if (!data) {
+    payload.logger.warn(`Could not read ${filename}; replacing it without keeping a revision`)
+    return args
+  }
+
+  const archived = await runNested(req, () =>
+    payload.create({
+      collection: 'media',
+      data: {
+        alt: previous.alt,
+        mediaType: previous.mediaType,
+        sourceMedia: previous.id,
+        derivativeKind: 'revision',
+      },
+      file: {
+        data,
+        mimetype: previous.mimeType || 'application/octet-stream',
+        name: filename,
+        size: data.length,
+      },
+      context: { skipMediaDerivatives: true },
+      req,
+    }),
+  )
+
+  const revision: Revision = {
+    file: archived.id,
+    kind: previous.fileVersion?.kind || 'original',
+    savedBy: getRelationID(previous.fileVersion?.savedBy),
+    savedAt: previous.fileVersion?.savedAt || previous.createdAt,
+  }
+
+  context.archivedRevision = revision
+
+  return args
+}
+
+/**
+ * Stamp who saved the current file and when, and push the archived file onto
+ * the revision history.
+ */
+export const recordFileVersion: CollectionBeforeChangeHook<Media> = ({
+  data,
+  operation,
+  originalDoc,
+  req,
+}) => {
+  const { context } = req
+
+  if (!req.file || context.skipMediaDerivatives || data.sourceMedia) return data
+
+  const kind: NonNullable<Media['fileVersion']>['kind'] =
+    operation === 'create'
+      ? 'original'
+      : context.fileVersionKind === 'revert'
+        ? 'revert'
+        : 'edit'
+
+  const fileVersion = {
+    kind,
+    savedBy: req.user?.collection === 'users' ? req.user.id : null,
+    savedAt: new Date().toISOString(),
+  }
+
+  const archived = context.archivedRevision as Revision | undefined
+
+  if (operation !== 'update' || !archived) {
+    return { ...data, fileVersion }
+  }
+
+  const revisions = [archived, ...(originalDoc?.revisions || [])]
+  context.prunedRevisions = revisions.slice(MAX_FILE_REVISIONS).map((revision) => revision.file)
+
+  return {
+    ...data,
+    fileVersion,
+    revisions: revisions.slice(0, MAX_FILE_REVISIONS),
+  }
+}
+
+export const pruneRevisions: CollectionAfterChangeHook<Media> = async ({ doc, req }) => {
+  const pruned = req.context.prunedRevisions as unknown[] | undefined
+
+  if (pruned && pruned.length > 0) {
+    req.context.prunedRevisions = undefined
+    await deleteDerivatives(pruned, req)
+  }
+
+  return doc
+}
+
+export const deleteRevisionsOnDelete: CollectionAfterDeleteHook<Media> = async ({ doc, req }) => {
+  if (req.context.skipMediaDerivatives || doc?.sourceMedia) return doc
+
+  await deleteDerivatives((doc?.revisions || []).map((revision) => revision.file), req)
+
+  return doc
+}
@@ -0,0 +1,195 @@
+import type {
+  ArrayFieldValidation,
+  CollectionAfterChangeHook,
+  CollectionAfterDeleteHook,
+  PayloadRequest,
+} from 'payload'
+
+import path from 'path'
+
+import type { Media } from '../../../payload-types'
+import { mediaImageSizes } from '../imageSizes'
+import { readMediaFile } from '../storage'
+import { deleteDerivatives, getRelationID } from './derivatives'
+import { PASSTHROUGH_FORMATS } from './generateVariants'
+import { getUploadedFileBuffer, runNested } from './uploadedFile'
+
+type SizeCrop = NonNullable<Media['sizeCrops']>[number]
+
+const sameRectangle = (a: SizeCrop, b?: SizeCrop) =>
+  Boolean(b) && a.x === b?.x && a.y === b?.y && a.width === b?.width && a.height === b?.height
+
+/**
+ * One crop per image size, inside the image
+ */
+export const validateSizeCrops: ArrayFieldValidation = (rows) => {
+  const seen = new Set<string>()
+
+  for (const row of (rows || []) as Partial<SizeCrop>[]) {
+    if (!row.size) continue
+    if (seen.has(row.size)) return `The ${row.size} size has more than one crop`
+    seen.add(row.size)
+
+    if ((row.x ?? 0) + (row.width ?? 0) > 100 || (row.y ?? 0) + (row.height ?? 0) > 100) {
+      return `The ${row.size} crop extends past the edge of the image`
+    }
+  }
+
+  return true
+}
+
+/**
+ * Cut the crop rectangle (percentages of the upright image) out of the original and
+ * resize it like Payload would for that image size, without upscaling.
+ */
+const renderSizeCrop = async (input: Buffer, crop: SizeCrop, req: PayloadRequest) => {
+  const sharp = req.payload.config.sharp!
+  const size = mediaImageSizes.find(({ name }) => name === crop.size)
+
+  const { autoOrient, format } = await sharp(input).metadata()
+  const outputFormat = PASSTHROUGH_FORMATS.find((f) => f === format) ?? 'jpeg'
+
+  const left = Math.min(Math.round((crop.x / 100) * autoOrient.width), autoOrient.width - 1)
+  const top = Math.min(Math.round((crop.y / 100) * autoOrient.height), autoOrient.height - 1)
+  const width = Math.max(
+    1,
+    Math.min(Math.round((crop.width / 100) * autoOrient.width), autoOrient.width - left),
+  )
+  const height = Math.max(
+    1,
+    Math.min(Math.round((crop.height / 100) * autoOrient.height), autoOrient.height - top),
+  )
+
+  const data = await sharp(input)
+    .rotate()
+    .extract({ left, top, width, height })
+    .resize({
+      width: typeof size?.width === 'number' ? size.width : undefined,
+      height: typeof size?.height === 'number' ? size.height : undefined,
+      fit: 'cover',
+      withoutEnlargement: true,
+    })
+    .toFormat(outputFormat)
+    .toBuffer()
+
+  return {
+    data,
+    extension: outputFormat === 'jpeg' ? 'jpg' : outputFormat,
+    mimetype: `image/${outputFormat}`,
+  }
+}
+
+/**
+ * Render the art-directed crops set for individual image sizes and store them as linked
+ * media documents. A crop is re-rendered when its rectangle changes or the file is replaced;
+ * crops that were removed have their image deleted.
+ */
+export const generateSizeCrops: CollectionAfterChangeHook<Media> = async ({
+  doc,
+  previousDoc,
+  req,
+}) => {
+  const { context, payload } = req
+
+  if (context.skipMediaDerivatives || doc.sourceMedia) return doc
+  if (!doc.mimeType?.startsWith('image/') || doc.mimeType === 'image/svg+xml') return doc
+
+  const uploaded = await getUploadedFileBuffer(req)
+  const crops = doc.sizeCrops || []
+  const previousCrops = previousDoc?.sizeCrops || []
+  const findPrevious = (crop: SizeCrop) => previousCrops.find((row) => row.size === crop.size)
+
+  // A new file invalidates every crop; otherwise only changed rectangles are rendered again
+  const keptImages = new Map<string, string>()
+  if (!uploaded) {
+    for (const crop of crops) {
+      const previous = findPrevious(crop)
+      const imageId = getRelationID(previous?.image)
+      if (imageId && sameRectangle(crop, previous)) keptImages.set(crop.size, imageId)
+    }
+  }
+
+  const toRender = crops.filter((crop) => !keptImages.has(crop.size))
+  const obsolete = previousCrops
+    .map((row) => getRelationID(row.image))
+    .filter((id) => id && ![...keptImages.values()].includes(id))
+  const imagesChanged = crops.some(
+    (crop) => getRelationID(crop.image) !== (keptImages.get(crop.size) ?? null),
+  )
+
+  if (toRender.length === 0 && obsolete.length === 0 && !imagesChanged) return doc
+
+  if (toRender.length > 0 && !payload.config.sharp) {
+    payload.logger.warn('Skipping size crops: sharp is not configured')
+    return doc
+  }
+
+  try {
+    const input =
+      toRender.length > 0 ? (uploaded ?? (await readMediaFile(req, doc.filename || '', doc))) : null
+    if (toRender.length > 0 && !input) throw new Error(`Could not read ${doc.filename}`)
+
+    const baseName = path.parse(doc.filename || 'image').name
+    const images = new Map(keptImages)
+
+    for (const crop of toRender) {
+      const { data, extension, mimetype } = await renderSizeCrop(input!, crop, req)
+
+      const image = await runNested(req, () =>
+        payload.create({
+          collection: 'media',
+          data: {
+            alt: doc.alt,
+            mediaType: 'image',
+            sourceMedia: doc.id,
+            derivativeKind: 'crop',
+          },
+          file: {
+            data,
+            mimetype,
+            name: `${baseName}-${crop.size}-crop.${extension}`,
+            size: data.length,
+          },
+          context: { skipMediaDerivatives: true },
+          req,
+        }),
+      )
+
+      images.set(crop.size, String(image.id))
+    }
+
+    const updated = await runNested(req, () =>
+      payload.update({
+        id: doc.id,
+        collection: 'media',
+        data: {
+          sizeCrops: crops.map((crop) => ({ ...crop, image: images.get(crop.size) ?? null })),
+        },
+        context: { skipMediaDerivatives: true },
+        req,
+      }),
+    )
+
+    await deleteDerivatives(obsolete, req)
+
+    if (toRender.length > 0) {
+      payload.logger.info(`Generated ${toRender.length} size crop(s) for media ${doc.id}`)
+    }
+
+    return { ...doc, sizeCrops: updated.sizeCrops }
+  } catch (error) {
+    payload.logger.error({ err: error, msg: `Failed to generate size crops for media ${doc.id}` })
+    return doc
+  }
+}
+
+export const deleteSizeCropsOnDelete: CollectionAfterDeleteHook<Media> = async ({ doc, req }) => {
+  if (req.context.skipMediaDerivatives || doc?.sourceMedia) return doc
+
+  await deleteDerivatives(
+    (doc.sizeCrops || []).map((crop) => crop.image),
+    req,
+  )
+
+  return doc
+}
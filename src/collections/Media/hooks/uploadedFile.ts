@@ -0,0 +1,34 @@
+import type { PayloadRequest } from 'payload'
+
+import { readFile } from 'fs/promises'
+
+/**
+ * Read the bytes of the file uploaded with this request.
+ * Payload keeps small uploads in memory but large ones may only exist as a temp file.
+ */
+export const getUploadedFileBuffer = async (req: PayloadRequest): Promise<Buffer | null> => {
+  const { file } = req
+
+  if (!file) return null
+  if (file.data && file.data.length > 0) return file.data
+  if (file.tempFilePath) return readFile(file.tempFilePath)
+
+  return null
+}
+
+/**
+ * Local API operations reuse the request they are given: they overwrite `req.file`
+ * with their own upload and merge their `context` into `req.context`.
+ * Run nested operations through this so hooks later in the same request still
+ * see the original upload and context.
+ */
+export const runNested = async <T>(req: PayloadRequest, fn: () => Promise<T>): Promise<T> => {
+  const { context, file } = req
+
+  try {
+    return await fn()
+  } finally {
+    req.file = file
+    req.context = context
+  }
+}
@@ -0,0 +1,144 @@
+import type {
+  CollectionAfterChangeHook,
+  CollectionAfterDeleteHook,
+  CollectionBeforeChangeHook,
+  PayloadRequest,
+} from 'payload'
+
+import path from 'path'
+
+import type { Media } from '../../../payload-types'
+import { extractVideoFrame, posterFrameTime, probeVideo, withTempFile } from '../video'
+import { deleteDerivatives, getRelationID } from './derivatives'
+import { getUploadedFileBuffer, runNested } from './uploadedFile'
+
+const findGeneratedPosters = async (mediaId: number | string, req: PayloadRequest) => {
+  const { docs } = await runNested(req, () =>
+    req.payload.find({
+      collection: 'media',
+      depth: 0,
+      pagination: false,
+      where: {
+        and: [{ sourceMedia: { equals: mediaId } }, { derivativeKind: { equals: 'poster' } }],
+      },
+      req,
+    }),
+  )
+  return docs
+}
+
+/**
+ * Fill in the duration, resolution and codec of an uploaded video from ffprobe.
+ * Width and height use the top-level upload fields so videos sort and filter
+ * by dimensions and orientation like images do.
+ */
+export const extractVideoMetadata: CollectionBeforeChangeHook<Media> = async ({ data, req }) => {
+  const { context, file, payload } = req
+
+  if (context.skipMediaDerivatives || data.sourceMedia) return data
+  if (!file?.mimetype?.startsWith('video/')) return data
+
+  const input = await getUploadedFileBuffer(req)
+  if (!input) return data
+
+  try {
+    const probe = await withTempFile(input, path.extname(file.name), probeVideo)
+
+    if (probe.width && probe.height) {
+      data.width = probe.width
+      data.height = probe.height
+    }
+
+    data.videoMeta = {
+      ...data.videoMeta,
+      codec: probe.codec,
+      duration: probe.duration ?? data.videoMeta?.duration,
+    }
+  } catch (error) {
+    payload.logger.warn({
+      err: error,
+      msg: `Could not probe video ${file.name}; is ffprobe installed (or FFPROBE_PATH set)?`,
+    })
+  }
+
+  return data
+}
+
+/**
+ * Grab a poster frame from an uploaded video and store it as a linked media document.
+ * It is used as `videoMeta.thumbnail` unless an editor picked their own thumbnail,
+ * and replaces the poster generated for the previous file.
+ */
+export const generateVideoPoster: CollectionAfterChangeHook<Media> = async ({ doc, req }) => {
+  const { context, payload } = req
+
+  if (context.skipMediaDerivatives || doc.sourceMedia) return doc
+  if (!doc.mimeType?.startsWith('video/')) return doc
+
+  // Only regenerate when this request actually uploaded a file
+  const input = await getUploadedFileBuffer(req)
+  if (!input) return doc
+
+  try {
+    const previousPosters = await findGeneratedPosters(doc.id, req)
+    const thumbnailId = getRelationID(doc.videoMeta?.thumbnail)
+    const hasCustomThumbnail =
+      thumbnailId !== null && !previousPosters.some((poster) => String(poster.id) === thumbnailId)
+
+    if (hasCustomThumbnail) return doc
+
+    const frame = await withTempFile(input, path.extname(doc.filename || ''), (filePath) =>
+      extractVideoFrame(filePath, posterFrameTime(doc.videoMeta?.duration ?? null)),
+    )
+
+    const poster = await runNested(req, () =>
+      payload.create({
+        collection: 'media',
+        data: {
+          alt: doc.alt,
+          mediaType: 'image',
+          sourceMedia: doc.id,
+          derivativeKind: 'poster',
+        },
+        file: {
+          data: frame,
+          mimetype: 'image/jpeg',
+          name: `${path.parse(doc.filename || 'video').name}-poster.jpg`,
+          size: frame.length,
+        },
+        context: { skipMediaDerivatives: true },
+        req,
+      }),
+    )
+
+    const updated = await runNested(req, () =>
+      payload.update({
+        id: doc.id,
+        collection: 'media',
+        data: { videoMeta: { ...doc.videoMeta, thumbnail: poster.id } },
+        context: { skipMediaDerivatives: true },
+        req,
+      }),
+    )
+
+    await deleteDerivatives(previousPosters, req)
+
+    payload.logger.info(`Generated poster frame for video ${doc.id}`)
+
+    return { ...doc, videoMeta: updated.videoMeta }
+  } catch (error) {
+    payload.logger.error({
+      err: error,
+      msg: `Failed to generate a poster for video ${doc.id}; is ffmpeg installed (or FFMPEG_PATH set)?`,
+    })
+    return doc
+  }
+}
+
+export const deletePostersOnDelete: CollectionAfterDeleteHook<Media> = async ({ doc, req }) => {
+  if (req.context.skipMediaDerivatives || doc?.sourceMedia) return doc
+
+  await deleteDerivatives(await findGeneratedPosters(doc.id, req), req)
+
+  return doc
+}
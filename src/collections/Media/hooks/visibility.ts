@@ -0,0 +1,49 @@
+import type { CollectionAfterChangeHook, CollectionBeforeChangeHook } from 'payload'
+
+import type { Media } from '../../../payload-types'
+import { getRelationID } from './derivatives'
+import { runNested } from './uploadedFile'
+
+/**
+ * Generated files (variants, crops, posters, revisions) are as visible as the item they
+ * were made from, so a private original never leaks through one of them.
+ */
+export const inheritVisibility: CollectionBeforeChangeHook<Media> = async ({
+  data,
+  operation,
+  req,
+}) => {
+  const sourceID = getRelationID(data.sourceMedia)
+  if (operation !== 'create' || !sourceID) return data
+
+  const source = await req.payload
+    .findByID({ collection: 'media', id: sourceID, depth: 0, req })
+    .catch(() => null)
+
+  return { ...data, visibility: source?.visibility ?? 'public' }
+}
+
+/**
+ * Pass a changed visibility on to everything generated from the item
+ */
+export const syncDerivativeVisibility: CollectionAfterChangeHook<Media> = async ({
+  doc,
+  operation,
+  previousDoc,
+  req,
+}) => {
+  if (operation !== 'update' || doc.sourceMedia) return doc
+  if ((doc.visibility ?? 'public') === (previousDoc?.visibility ?? 'public')) return doc
+
+  await runNested(req, () =>
+    req.payload.update({
+      collection: 'media',
+      where: { sourceMedia: { equals: doc.id } },
+      data: { visibility: doc.visibility },
+      context: { skipMediaDerivatives: true },
+      req,
+    }),
+  )
+
+  return doc
+}
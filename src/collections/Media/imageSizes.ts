@@ -0,0 +1,104 @@
+import type { ImageSize } from 'payload'
+
+/**
+ * Responsive sizes generated for every uploaded image.
+ * Kept in their own module so the media manager's image editor can offer matching crop presets.
+ * Editors crop these; the modern format copies below are for the browser only.
+ */
+export const mediaImageSizes: ImageSize[] = [
+  {
+    name: 'thumbnail',
+    width: 400,
+    height: 300,
+    position: 'centre',
+  },
+  {
+    name: 'card',
+    width: 768,
+    height: 1024,
+    position: 'centre',
+  },
+  {
+    name: 'tablet',
+    width: 1024,
+    position: 'centre',
+  },
+  {
+    name: 'desktop',
+    width: 1920,
+    position: 'centre',
+  },
+]
+
+// Modern formats every image is also encoded in at upload, best first
+export const MODERN_IMAGE_FORMATS = ['avif', 'webp'] as const
+
+export type ModernImageFormat = (typeof MODERN_IMAGE_FORMATS)[number]
+
+// Widths of the modern format copies. They keep the original's aspect ratio, unlike the
+// cropped `thumbnail` and `card`, so a single `srcset` can list them all. Widths larger than
+// the original are skipped.
+const MODERN_FORMAT_WIDTHS = [640, 1280, 1920]
+
+const MODERN_FORMAT_QUALITY: Record<ModernImageFormat, number> = {
+  avif: 55,
+  webp: 80,
+}
+
+/**
+ * AVIF and WebP copies of every image, named `<format><width>` (e.g. `avif1280`).
+ * Used by `ImageMedia` for its `<source>` elements; see `getModernFormatSources`.
+ */
+export const modernFormatImageSizes: ImageSize[] = MODERN_IMAGE_FORMATS.flatMap((format) =>
+  MODERN_FORMAT_WIDTHS.map((width) => ({
+    name: `${format}${width}`,
+    width,
+    formatOptions: { format, options: { quality: MODERN_FORMAT_QUALITY[format] } },
+  })),
+)
+
+/**
+ * `srcset` for each modern format from a media document's generated sizes. Formats
+ * without any generated size (e.g. files uploaded before they existed) are left out.
+ */
+export const getModernFormatSources = (
+  sizes:
+    | Record<string, { url?: null | string; width?: null | number } | undefined>
+    | null
+    | undefined,
+  getUrl: (url: string) => string,
+): { srcSet: string; type: string }[] =>
+  MODERN_IMAGE_FORMATS.flatMap((format) => {
+    const candidates = MODERN_FORMAT_WIDTHS.map((width) => sizes?.[`${format}${width}`]).filter(
+      (size): size is { url: string; width: number } => Boolean(size?.url && size.width),
+    )
+
+    if (candidates.length === 0) return []
+
+    return [
+      {
+        srcSet: candidates.map((size) => `${getUrl(size.url)} ${size.width}w`).join(', '),
+        type: `image/${format}`,
+      },
+    ]
+  })
+
+/**
+ * Viewport range each image size is shown at, for `<picture>` sources: every size covers
+ * the viewports up to its own width, and the widest one everything above that.
+ */
+export const getImageSizeBreakpoints = (): { media: string; name: string }[] => {
+  const sizes = mediaImageSizes
+    .filter((size): size is ImageSize & { width: number } => typeof size.width === 'number')
+    .sort((a, b) => a.width - b.width)
+
+  return sizes.map((size, index) => {
+    const previous = sizes[index - 1]
+    const conditions = [
+      previous && `(min-width: ${previous.width + 1}px)`,
+      index < sizes.length - 1 && `(max-width: ${size.width}px)`,
+    ].filter(Boolean)
+
+    return { media: conditions.join(' and '), name: size.name }
+  })
+}
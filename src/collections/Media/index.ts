@@ -0,0 +1,542 @@
+import type { CollectionConfig } from 'payload'
+import { signMediaSource } from '@/endpoints/media-transform'
+import { imageField } from '@/lib/payload/fields/media'
+import { contributors } from '../../access/contributors'
+import { editors } from '../../access/editors'
+import { readMedia } from './access'
+import { computeContentHashes } from './hooks/contentHash'
+import {
+  applyEmbeddedMetadata,
+  classifyMediaType,
+  readUploadMetadata,
+} from './hooks/embeddedMetadata'
+import { deleteVariantsOnDelete, generateVariants } from './hooks/generateVariants'
+import { setOrientation } from './hooks/orientation'
+import { computePlaceholder } from './hooks/placeholder'
+import { deleteReferencesOnDelete, preventReferencedDelete } from './hooks/references'
+import {
+  archivePreviousFile,
+  deleteRevisionsOnDelete,
+  pruneRevisions,
+  recordFileVersion,
+} from './hooks/revisions'
+import {
+  deleteSizeCropsOnDelete,
+  generateSizeCrops,
+  validateSizeCrops,
+} from './hooks/sizeCrops'
+import { deletePostersOnDelete, extractVideoMetadata, generateVideoPoster } from './hooks/video'
+import { inheritVisibility, syncDerivativeVisibility } from './hooks/visibility'
+import { mediaImageSizes, modernFormatImageSizes } from './imageSizes'
+
+export const Media: CollectionConfig = {
+  slug: 'media',
+  folders: true,
+  admin: {
+    group: 'Content',
+    description: 'Media library for images, videos, and documents',
+    defaultColumns: ['filename', 'alt', 'mediaType', 'updatedAt'],
+    useAsTitle: 'alt',
+    // Generated derivatives (responsive variants etc.) are managed through their source media
+    baseFilter: () => ({ sourceMedia: { exists: false } }),
+  },
+  access: {
+    read: readMedia,
+    create: contributors,
+    update: contributors,
+    delete: editors,
+  },
+  fields: [
+    // Basic Media Information
+    {
+      name: 'alt',
+      type: 'text',
+      required: false, // Make optional to allow uploads without alt text initially
+      admin: {
+        description: 'Alternative text for accessibility and SEO. Describe what the image shows.',
+      },
+    },
+    {
+      name: 'caption',
+      type: 'text',
+      admin: {
+        description: 'Optional caption displayed with the image',
+      },
+    },
+    {
+      name: 'description',
+      type: 'textarea',
+      admin: {
+        description: 'Detailed description for administrative purposes',
+      },
+    },
+
+    // Who can open the file
+    {
+      name: 'visibility',
+      type: 'select',
+      defaultValue: 'public',
+      index: true,
+      options: [
+        { label: 'Public', value: 'public' },
+        { label: 'Logged-in users', value: 'authenticated' },
+        { label: 'Private (signed links only)', value: 'private' },
+      ],
+      admin: {
+        description:
+          'Public files are open to everyone. Others need a login, or a time-limited link copied from the media manager',
+        position: 'sidebar',
+      },
+    },
+
+    // Media Type Classification
+    {
+      name: 'mediaType',
+      type: 'select',
+      defaultValue: 'image',
+      options: [
+        { label: 'Image', value: 'image' },
+        { label: 'Video', value: 'video' },
+        { label: 'Audio', value: 'audio' },
+        { label: 'Document', value: 'document' },
+      ],
+      admin: {
+        description: 'Type of media for better organization. Set from the file type on upload',
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'orientation',
+      type: 'select',
+      index: true,
+      options: [
+        { label: 'Landscape', value: 'landscape' },
+        { label: 'Portrait', value: 'portrait' },
+        { label: 'Square', value: 'square' },
+      ],
+      admin: {
+        condition: (data) => Boolean(data?.orientation),
+        description: 'Set automatically from the image dimensions',
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+
+    // Video-specific Fields
+    {
+      name: 'videoMeta',
+      type: 'group',
+      admin: {
+        condition: (data) => data.mediaType === 'video',
+        description: 'Video-specific metadata',
+      },
+      fields: [
+        {
+          name: 'duration',
+          type: 'number',
+          admin: {
+            description: 'Video duration in seconds (detected on upload)',
+          },
+        },
+        {
+          name: 'codec',
+          type: 'text',
+          admin: {
+            description: 'Video codec (detected on upload)',
+            readOnly: true,
+          },
+        },
+        imageField('thumbnail', {
+          admin: {
+            description:
+              'Poster image for the video. A frame is grabbed on upload unless you choose one',
+          },
+        }),
+        {
+          name: 'autoplay',
+          type: 'checkbox',
+          defaultValue: false,
+          admin: {
+            description: 'Should this video autoplay (use sparingly)',
+          },
+        },
+        {
+          name: 'muted',
+          type: 'checkbox',
+          defaultValue: true,
+          admin: {
+            description: 'Start video muted (recommended for autoplay)',
+          },
+        },
+      ],
+    },
+
+    // Responsive Image Variants
+    {
+      name: 'variants',
+      type: 'group',
+      admin: {
+        condition: (data) => data.mediaType === 'image',
+        description: 'Responsive image variants (generated automatically when uploaded)',
+        readOnly: true,
+      },
+      fields: [
+        imageField('mobile', {
+          admin: {
+            description: 'Optimized for mobile devices (480px width)',
+          },
+        }),
+        imageField('tablet', {
+          admin: {
+            description: 'Optimized for tablets (768px width)',
+          },
+        }),
+        imageField('desktop', {
+          admin: {
+            description: 'Optimized for desktop (1200px width)',
+          },
+        }),
+        imageField('largeDesktop', {
+          admin: {
+            description: 'Optimized for large screens (1920px width)',
+          },
+        }),
+      ],
+    },
+
+    // Loading placeholder (computed on upload)
+    {
+      name: 'placeholder',
+      type: 'group',
+      admin: {
+        condition: (data) => !data?.sourceMedia && data?.mediaType === 'image',
+        description: 'Shown while the image loads (computed automatically when uploaded)',
+        readOnly: true,
+      },
+      fields: [
+        {
+          name: 'blurDataURL',
+          type: 'text',
+          admin: { description: 'Tiny preview as a data URL, blurred by the browser' },
+        },
+        {
+          name: 'dominantColor',
+          type: 'text',
+        },
+      ],
+    },
+
+    // On-demand transforms (see src/endpoints/media-transform)
+    {
+      name: 'transformSignature',
+      type: 'text',
+      virtual: true,
+      admin: { hidden: true },
+      hooks: {
+        afterRead: [({ siblingData }) => signMediaSource(siblingData?.filename)],
+      },
+    },
+
+    // Art-directed crops for individual image sizes
+    {
+      name: 'sizeCrops',
+      type: 'array',
+      admin: {
+        condition: (data) => !data?.sourceMedia && data?.mediaType === 'image',
+        description:
+          'Crop rectangles that replace the focal point crop for individual image sizes. Set them from the media manager.',
+        initCollapsed: true,
+      },
+      validate: validateSizeCrops,
+      fields: [
+        {
+          name: 'size',
+          type: 'select',
+          required: true,
+          options: mediaImageSizes.map(({ name }) => ({
+            label: `${name.charAt(0).toUpperCase()}${name.slice(1)}`,
+            value: name,
+          })),
+        },
+        {
+          type: 'row',
+          fields: (['x', 'y', 'width', 'height'] as const).map((name) => ({
+            name,
+            type: 'number' as const,
+            required: true,
+            min: name === 'width' || name === 'height' ? 1 : 0,
+            max: 100,
+            admin: { description: 'Percent of the image', step: 0.01 },
+          })),
+        },
+        imageField('image', {
+          // Set by the crop hook only
+          access: { update: () => false },
+          admin: {
+            description: 'Generated from the crop rectangle',
+            readOnly: true,
+          },
+        }),
+      ],
+    },
+
+    // SEO and Technical Metadata
+    {
+      name: 'seoMeta',
+      type: 'group',
+      admin: {
+        description: 'SEO and technical metadata',
+      },
+      fields: [
+        {
+          name: 'focusKeywords',
+          type: 'text',
+          admin: {
+            description: 'Keywords this image relates to (comma-separated)',
+          },
+        },
+        {
+          name: 'photographerCredit',
+          type: 'text',
+          admin: {
+            description: 'Photo credit information',
+          },
+        },
+        {
+          name: 'copyrightInfo',
+          type: 'text',
+          admin: {
+            description: 'Copyright or licensing information',
+          },
+        },
+        {
+          name: 'originalSource',
+          type: 'text',
+          admin: {
+            description: 'Original source or URL if external',
+          },
+        },
+      ],
+    },
+
+    // Embedded Metadata (read from the file on upload)
+    {
+      name: 'embeddedMetadata',
+      type: 'group',
+      // May include the location a photo was taken
+      access: {
+        read: ({ req: { user } }) => Boolean(user),
+      },
+      admin: {
+        condition: (data) => !data?.sourceMedia && data?.mediaType === 'image',
+        description: "Read from the file's EXIF, IPTC and XMP data on upload",
+      },
+      fields: [
+        {
+          name: 'capturedAt',
+          type: 'date',
+          admin: {
+            date: { pickerAppearance: 'dayAndTime' },
+            readOnly: true,
+          },
+        },
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'latitude',
+              type: 'number',
+              admin: { readOnly: true },
+            },
+            {
+              name: 'longitude',
+              type: 'number',
+              admin: { readOnly: true },
+            },
+          ],
+        },
+        {
+          name: 'raw',
+          type: 'json',
+          admin: {
+            description: 'Metadata as found in the file',
+            readOnly: true,
+          },
+        },
+      ],
+    },
+
+    // Admin Organization
+    {
+      name: 'featured',
+      type: 'checkbox',
+      defaultValue: false,
+      admin: {
+        description: 'Mark as featured media for easy access',
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'tags',
+      type: 'text',
+      hasMany: true,
+      admin: {
+        description: 'Tags for organization and search',
+        position: 'sidebar',
+      },
+    },
+
+    // Derivative Tracking
+    {
+      name: 'sourceMedia',
+      type: 'relationship',
+      relationTo: 'media',
+      index: true,
+      admin: {
+        condition: (data) => Boolean(data?.sourceMedia),
+        description: 'The media item this file was generated from',
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'derivativeKind',
+      type: 'select',
+      options: [
+        { label: 'Responsive variant', value: 'variant' },
+        { label: 'File revision', value: 'revision' },
+        { label: 'Video poster', value: 'poster' },
+        { label: 'Size crop', value: 'crop' },
+      ],
+      admin: {
+        condition: (data) => Boolean(data?.sourceMedia),
+        position: 'sidebar',
+        readOnly: true,
+      },
+    },
+
+    // Duplicate Detection
+    {
+      name: 'contentHash',
+      type: 'text',
+      index: true,
+      admin: {
+        description: 'SHA-256 of the current file, used to spot duplicate uploads',
+        hidden: true,
+      },
+    },
+    {
+      name: 'perceptualHash',
+      type: 'text',
+      index: true,
+      admin: {
+        description: 'Perceptual hash of the current image, used to spot near-duplicate uploads',
+        hidden: true,
+      },
+    },
+
+    // File History
+    {
+      name: 'fileVersion',
+      type: 'group',
+      admin: {
+        condition: (data) => !data?.sourceMedia,
+        description: 'Who saved the current file and when',
+        position: 'sidebar',
+        readOnly: true,
+      },
+      fields: [
+        {
+          name: 'kind',
+          type: 'select',
+          options: [
+            { label: 'Original upload', value: 'original' },
+            { label: 'Edited', value: 'edit' },
+            { label: 'Reverted', value: 'revert' },
+          ],
+        },
+        {
+          name: 'savedBy',
+          type: 'relationship',
+          relationTo: 'users',
+        },
+        {
+          name: 'savedAt',
+          type: 'date',
+        },
+      ],
+    },
+    {
+      name: 'revisions',
+      type: 'array',
+      admin: {
+        condition: (data) => !data?.sourceMedia && (data?.revisions?.length ?? 0) > 0,
+        description: 'Previous versions of this file, newest first. Restore them from the media library.',
+        readOnly: true,
+      },
+      fields: [
+        {
+          name: 'file',
+          type: 'upload',
+          relationTo: 'media',
+          required: true,
+        },
+        {
+          name: 'kind',
+          type: 'select',
+          options: [
+            { label: 'Original upload', value: 'original' },
+            { label: 'Edited', value: 'edit' },
+            { label: 'Reverted', value: 'revert' },
+          ],
+        },
+        {
+          name: 'savedBy',
+          type: 'relationship',
+          relationTo: 'users',
+        },
+        {
+          name: 'savedAt',
+          type: 'date',
+        },
+      ],
+    },
+  ],
+  hooks: {
+    beforeOperation: [archivePreviousFile, readUploadMetadata],
+    beforeChange: [
+      recordFileVersion,
+      computeContentHashes,
+      classifyMediaType,
+      applyEmbeddedMetadata,
+      computePlaceholder,
+      extractVideoMetadata,
+      setOrientation,
+      inheritVisibility,
+    ],
+    afterChange: [
+      generateVariants,
+      generateSizeCrops,
+      generateVideoPoster,
+      pruneRevisions,
+      syncDerivativeVisibility,
+    ],
+    beforeDelete: [preventReferencedDelete],
+    afterDelete: [
+      deleteVariantsOnDelete,
+      deletePostersOnDelete,
+      deleteSizeCropsOnDelete,
+      deleteRevisionsOnDelete,
+      deleteReferencesOnDelete,
+    ],
+  },
+  upload: {
+    // Local storage directory (used when STORAGE_MODE=local)
+    // Files are stored in public/media so Next.js can serve them
+    staticDir: 'public/media',
+    imageSizes: [...mediaImageSizes, ...modernFormatImageSizes],
+    adminThumbnail: 'thumbnail',
+    mimeTypes: ['image/*', 'video/*', 'audio/*', 'application/pdf'],
+    focalPoint: true,
+  },
+}
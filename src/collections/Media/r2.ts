@@ -0,0 +1,117 @@
+import type { S3ClientConfig } from '@aws-sdk/client-s3'
+
+import {
+  DeleteObjectCommand,
+  HeadBucketCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3'
+import { randomUUID } from 'crypto'
+
+export type R2Config = {
+  bucket: string
+  config: S3ClientConfig
+}
+
+/**
+ * Bucket settings from the R2_* environment variables, shared by the storage plugin,
+ * the status route and the migration job. `null` until all required variables are set.
+ *
+ * `R2_FORCE_PATH_STYLE=true` is needed by most local S3-compatible stand-ins (e.g. MinIO).
+ */
+export const getR2Config = (): null | R2Config => {
+  const { R2_ACCESS_KEY_ID, R2_BUCKET, R2_ENDPOINT, R2_FORCE_PATH_STYLE, R2_SECRET_ACCESS_KEY } =
+    process.env
+
+  if (!R2_BUCKET || !R2_ACCESS_KEY_ID || !R2_SECRET_ACCESS_KEY || !R2_ENDPOINT) return null
+
+  return {
+    bucket: R2_BUCKET,
+    config: {
+      credentials: {
+        accessKeyId: R2_ACCESS_KEY_ID,
+        secretAccessKey: R2_SECRET_ACCESS_KEY,
+      },
+      endpoint: R2_ENDPOINT,
+      forcePathStyle: R2_FORCE_PATH_STYLE === 'true',
+      region: 'auto',
+    },
+  }
+}
+
+export const createR2Client = ({ config }: R2Config) => new S3Client(config)
+
+export type R2HealthCheck = {
+  durationMs: number
+  error?: string
+  ok: boolean
+  step: 'deleteObject' | 'headBucket' | 'headObject' | 'putObject'
+}
+
+/**
+ * Round trip against the bucket: reach it, write a small object, read its metadata back
+ * and delete it. Stops at the first failing step.
+ */
+export const checkR2Health = async (r2: R2Config): Promise<R2HealthCheck[]> => {
+  const client = createR2Client(r2)
+  const key = `.health-check/${randomUUID()}.txt`
+  const body = `Storage health check ${new Date().toISOString()}`
+  const checks: R2HealthCheck[] = []
+
+  const steps: [R2HealthCheck['step'], () => Promise<unknown>][] = [
+    ['headBucket', () => client.send(new HeadBucketCommand({ Bucket: r2.bucket }))],
+    [
+      'putObject',
+      () =>
+        client.send(
+          new PutObjectCommand({
+            Body: body,
+            Bucket: r2.bucket,
+            ContentType: 'text/plain',
+            Key: key,
+          }),
+        ),
+    ],
+    [
+      'headObject',
+      async () => {
+        const head = await client.send(new HeadObjectCommand({ Bucket: r2.bucket, Key: key }))
+        if (head.ContentLength !== Buffer.byteLength(body)) {
+          throw new Error(`Expected ${Buffer.byteLength(body)} bytes, found ${head.ContentLength}`)
+        }
+      },
+    ],
+    ['deleteObject', () => client.send(new DeleteObjectCommand({ Bucket: r2.bucket, Key: key }))],
+  ]
+
+  try {
+    for (const [step, run] of steps) {
+      const startedAt = Date.now()
+      try {
+        await run()
+        checks.push({ durationMs: Date.now() - startedAt, ok: true, step })
+      } catch (error) {
+        checks.push({
+          durationMs: Date.now() - startedAt,
+          error: error instanceof Error ? error.message : String(error),
+          ok: false,
+          step,
+        })
+        break
+      }
+    }
+  } finally {
+    // Don't leave the test object behind when a later step failed
+    const wrote = checks.some((check) => check.step === 'putObject' && check.ok)
+    const deleted = checks.some((check) => check.step === 'deleteObject')
+    if (wrote && !deleted) {
+      await client
+        .send(new DeleteObjectCommand({ Bucket: r2.bucket, Key: key }))
+        .catch(() => undefined)
+    }
+    client.destroy()
+  }
+
+  return checks
+}
@@ -0,0 +1,47 @@
+import type { PayloadRequest, TypeWithID } from 'payload'
+
+import { readFile } from 'fs/promises'
+import path from 'path'
+
+/**
+ * Read a stored media file (original or generated size) by filename.
+ *
+ * Goes through the collection's upload handlers first, which is how the cloud
+ * storage plugin serves files when `STORAGE_MODE=r2`, and falls back to the
+ * local `staticDir`. Returns `null` when the file can't be found.
+ */
+export const readMediaFile = async (
+  req: PayloadRequest,
+  filename: string,
+  doc?: TypeWithID,
+): Promise<Buffer | null> => {
+  const { upload } = req.payload.collections.media.config
+
+  for (const handler of upload.handlers || []) {
+    // Handlers honour range headers from the incoming request, so give them a clean set
+    const handlerReq = { ...req, headers: new Headers() } as PayloadRequest
+
+    const response = await handler(handlerReq, {
+      doc: doc || { id: filename },
+      params: { collection: 'media', filename },
+    })
+
+    if (response instanceof Response) {
+      // Signed downloads answer with a redirect to the bucket
+      if (response.status >= 300 && response.status < 400) {
+        const location = response.headers.get('location')
+        if (!location) return null
+        const redirected = await fetch(location)
+        return redirected.ok ? Buffer.from(await redirected.arrayBuffer()) : null
+      }
+
+      return response.ok ? Buffer.from(await response.arrayBuffer()) : null
+    }
+  }
+
+  try {
+    return await readFile(path.resolve(upload.staticDir || 'media', filename))
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,125 @@
+import { execFile } from 'child_process'
+import { randomUUID } from 'crypto'
+import { rm, writeFile } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { promisify } from 'util'
+
+const run = promisify(execFile)
+
+// Binaries default to the ones on PATH; the Docker image installs them from Alpine's ffmpeg package
+const ffprobePath = () => process.env.FFPROBE_PATH || 'ffprobe'
+const ffmpegPath = () => process.env.FFMPEG_PATH || 'ffmpeg'
+
+// Generous, since probing only reads headers but frame extraction may have to seek
+const TIMEOUT_MS = 60_000
+
+export type VideoProbe = {
+  codec: null | string
+  duration: null | number
+  height: null | number
+  width: null | number
+}
+
+type FfprobeOutput = {
+  format?: { duration?: string }
+  streams?: {
+    codec_name?: string
+    codec_type?: string
+    height?: number
+    width?: number
+    tags?: { rotate?: string }
+    side_data_list?: { rotation?: number }[]
+  }[]
+}
+
+/**
+ * Make a file available on disk for the duration of `fn`. Payload keeps small
+ * uploads in memory, while ffmpeg needs a seekable file (MP4 indexes are often at the end).
+ */
+export const withTempFile = async <T>(
+  data: Buffer,
+  extension: string,
+  fn: (filePath: string) => Promise<T>,
+): Promise<T> => {
+  const filePath = path.join(os.tmpdir(), `media-${randomUUID()}${extension}`)
+  await writeFile(filePath, new Uint8Array(data))
+
+  try {
+    return await fn(filePath)
+  } finally {
+    await rm(filePath, { force: true })
+  }
+}
+
+/**
+ * Read the duration, display resolution and video codec of a file with ffprobe.
+ */
+export const probeVideo = async (filePath: string): Promise<VideoProbe> => {
+  const { stdout } = await run(
+    ffprobePath(),
+    ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', filePath],
+    { maxBuffer: 10 * 1024 * 1024, timeout: TIMEOUT_MS },
+  )
+
+  const output: FfprobeOutput = JSON.parse(stdout)
+  const stream = output.streams?.find((candidate) => candidate.codec_type === 'video')
+  const duration = Number(output.format?.duration)
+
+  // Phone footage is often stored sideways with a rotation flag
+  const rotation = Math.abs(
+    Number(
+      stream?.side_data_list?.find((data) => data.rotation !== undefined)?.rotation ??
+        stream?.tags?.rotate ??
+        0,
+    ),
+  )
+  const sideways = rotation % 180 === 90
+
+  return {
+    codec: stream?.codec_name || null,
+    duration: Number.isFinite(duration) ? Math.round(duration * 100) / 100 : null,
+    height: (sideways ? stream?.width : stream?.height) || null,
+    width: (sideways ? stream?.height : stream?.width) || null,
+  }
+}
+
+/**
+ * Grab a single frame as a JPEG. ffmpeg applies the rotation flag itself.
+ */
+export const extractVideoFrame = async (filePath: string, atSeconds: number): Promise<Buffer> => {
+  const { stdout } = await run(
+    ffmpegPath(),
+    [
+      '-v',
+      'error',
+      '-ss',
+      atSeconds.toFixed(2),
+      '-i',
+      filePath,
+      '-frames:v',
+      '1',
+      '-q:v',
+      '3',
+      '-f',
+      'image2pipe',
+      '-vcodec',
+      'mjpeg',
+      'pipe:1',
+    ],
+    { encoding: 'buffer', maxBuffer: 50 * 1024 * 1024, timeout: TIMEOUT_MS },
+  )
+
+  if (stdout.length === 0) {
+    throw new Error(`ffmpeg returned no frame at ${atSeconds}s`)
+  }
+
+  return stdout
+}
+
+/**
+ * Where to take the poster frame: a second in, or halfway through very short clips,
+ * which avoids the black or faded-in first frame most videos start with.
+ */
+export const posterFrameTime = (duration: null | number) =>
+  duration && duration < 2 ? duration / 2 : 1
@@ -0,0 +1,148 @@
+import type { Block, Field } from 'payload'
+
+import { fieldAffectsData, tabHasName } from 'payload/shared'
+
+import { Banner } from '../../blocks/Banner/config'
+import { Code } from '../../blocks/Code/config'
+import { MediaBlock } from '../../blocks/MediaBlock/config'
+import { getRelationID } from '../Media/hooks/derivatives'
+
+export type FoundMediaReference = {
+  fieldPath: string
+  media: string
+}
+
+// Blocks that can be embedded in Lexical rich text via `BlocksFeature`
+const richTextBlocks = new Map<string, Block>([Banner, Code, MediaBlock].map((block) => [block.slug, block]))
+
+type LexicalNode = {
+  children?: LexicalNode[]
+  fields?: Record<string, unknown> & { blockType?: string }
+  relationTo?: string
+  type?: string
+  value?: unknown
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const joinPath = (path: string, segment: number | string) => (path ? `${path}.${segment}` : `${segment}`)
+
+const collectRelation = (
+  value: unknown,
+  relationTo: string | string[],
+  fieldPath: string,
+  found: FoundMediaReference[],
+) => {
+  const values = Array.isArray(value) ? value : [value]
+
+  for (const item of values) {
+    // Polymorphic relations store `{ relationTo, value }`
+    if (Array.isArray(relationTo)) {
+      if (isRecord(item) && item.relationTo === 'media') {
+        const id = getRelationID(item.value)
+        if (id) found.push({ fieldPath, media: id })
+      }
+      continue
+    }
+
+    const id = getRelationID(item)
+    if (id) found.push({ fieldPath, media: id })
+  }
+}
+
+const walkLexical = (node: LexicalNode | undefined, fieldPath: string, found: FoundMediaReference[]) => {
+  if (!node) return
+
+  if (node.type === 'upload' && node.relationTo === 'media') {
+    const id = getRelationID(node.value)
+    if (id) found.push({ fieldPath, media: id })
+  }
+
+  if ((node.type === 'block' || node.type === 'inlineBlock') && node.fields?.blockType) {
+    const block = richTextBlocks.get(node.fields.blockType)
+    if (block) walkFields(block.fields, node.fields, joinPath(fieldPath, block.slug), found)
+  }
+
+  node.children?.forEach((child) => walkLexical(child, fieldPath, found))
+}
+
+const walkFields = (fields: Field[], data: unknown, path: string, found: FoundMediaReference[]) => {
+  if (!isRecord(data)) return
+
+  for (const field of fields) {
+    if (field.type === 'tabs') {
+      for (const tab of field.tabs) {
+        if (tabHasName(tab)) {
+          walkFields(tab.fields, data[tab.name], joinPath(path, tab.name), found)
+        } else {
+          walkFields(tab.fields, data, path, found)
+        }
+      }
+      continue
+    }
+
+    if (!fieldAffectsData(field)) {
+      // Rows, collapsibles and unnamed groups keep their fields on the parent
+      if ('fields' in field) walkFields(field.fields, data, path, found)
+      continue
+    }
+
+    const value = data[field.name]
+    const fieldPath = joinPath(path, field.name)
+
+    if (value === null || value === undefined) continue
+
+    switch (field.type) {
+      case 'upload':
+      case 'relationship': {
+        const relationTo = field.relationTo
+        const targetsMedia = Array.isArray(relationTo) ? relationTo.includes('media') : relationTo === 'media'
+        if (targetsMedia) collectRelation(value, relationTo, fieldPath, found)
+        break
+      }
+
+      case 'group':
+        walkFields(field.fields, value, fieldPath, found)
+        break
+
+      case 'array':
+        if (Array.isArray(value)) {
+          value.forEach((row, index) => walkFields(field.fields, row, joinPath(fieldPath, index), found))
+        }
+        break
+
+      case 'blocks':
+        if (Array.isArray(value)) {
+          value.forEach((row, index) => {
+            const block = field.blocks.find((candidate) => candidate.slug === row?.blockType)
+            if (block) walkFields(block.fields, row, joinPath(fieldPath, index), found)
+          })
+        }
+        break
+
+      case 'richText':
+        if (isRecord(value)) walkLexical(value.root as LexicalNode, fieldPath, found)
+        break
+    }
+  }
+}
+
+/**
+ * List every media item referenced by a document, including uploads and media
+ * blocks nested in Lexical rich text. Duplicates at the same path are collapsed.
+ */
+export const findMediaReferences = (fields: Field[], data: unknown): FoundMediaReference[] => {
+  const found: FoundMediaReference[] = []
+
+  walkFields(fields, data, '', found)
+
+  const seen = new Set<string>()
+
+  return found.filter(({ fieldPath, media }) => {
+    const key = `${media}:${fieldPath}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
@@ -0,0 +1,161 @@
+import type {
+  CollectionAfterChangeHook,
+  CollectionAfterDeleteHook,
+  Field,
+  GlobalAfterChangeHook,
+  PayloadRequest,
+  Where,
+} from 'payload'
+
+import type { MediaReference } from '../../../payload-types'
+import { findMediaReferences } from '../findMediaReferences'
+
+type ReferenceStatus = NonNullable<MediaReference['status']>
+
+type ReferenceSource = {
+  documentId: string
+  documentTitle?: null | string
+  source: string
+  sourceType: MediaReference['sourceType']
+}
+
+const sourceWhere = ({ documentId, source, sourceType }: ReferenceSource): Where[] => [
+  { sourceType: { equals: sourceType } },
+  { source: { equals: source } },
+  { documentId: { equals: documentId } },
+]
+
+/**
+ * Bring the indexed references for one document (and status) in line with its
+ * current data, only writing the rows that changed so autosave stays cheap.
+ */
+export const syncMediaReferences = async ({
+  data,
+  fields,
+  req,
+  source,
+  status,
+}: {
+  data: unknown
+  fields: Field[]
+  req: PayloadRequest
+  source: ReferenceSource
+  status: ReferenceStatus
+}) => {
+  const { payload } = req
+  const found = findMediaReferences(fields, data)
+
+  const { docs: existing } = await payload.find({
+    collection: 'media-references',
+    depth: 0,
+    pagination: false,
+    where: { and: [...sourceWhere(source), { status: { equals: status } }] },
+    req,
+  })
+
+  const keyOf = (media: unknown, fieldPath: string) => `${media}:${fieldPath}`
+  const wanted = new Set(found.map(({ fieldPath, media }) => keyOf(media, fieldPath)))
+  const current = new Set(existing.map(({ fieldPath, media }) => keyOf(media, fieldPath)))
+
+  const stale = existing.filter(({ fieldPath, media }) => !wanted.has(keyOf(media, fieldPath)))
+  const added = found.filter(({ fieldPath, media }) => !current.has(keyOf(media, fieldPath)))
+  const renamed = existing.filter(
+    (reference) => !stale.includes(reference) && reference.documentTitle !== source.documentTitle,
+  )
+
+  if (stale.length > 0) {
+    await payload.delete({
+      collection: 'media-references',
+      where: { id: { in: stale.map(({ id }) => id) } },
+      req,
+    })
+  }
+
+  for (const { fieldPath, media } of added) {
+    await payload.create({
+      collection: 'media-references',
+      data: { ...source, fieldPath, media, status },
+      req,
+    })
+  }
+
+  if (renamed.length > 0) {
+    await payload.update({
+      collection: 'media-references',
+      data: { documentTitle: source.documentTitle },
+      where: { id: { in: renamed.map(({ id }) => id) } },
+      req,
+    })
+  }
+}
+
+const clearMediaReferences = async (source: ReferenceSource, req: PayloadRequest) => {
+  await req.payload.delete({
+    collection: 'media-references',
+    where: { and: sourceWhere(source) },
+    req,
+  })
+}
+
+const getStatus = (doc: Record<string, unknown>): ReferenceStatus =>
+  doc._status === 'draft' ? 'draft' : 'published'
+
+/**
+ * Index the media used by a collection document. Drafts are tracked apart from
+ * the published version; publishing replaces both with the published references.
+ */
+export const trackMediaReferences: CollectionAfterChangeHook = async ({ collection, doc, req }) => {
+  const useAsTitle = collection.admin?.useAsTitle
+  const status = getStatus(doc)
+
+  const source: ReferenceSource = {
+    documentId: String(doc.id),
+    documentTitle: useAsTitle && typeof doc[useAsTitle] === 'string' ? doc[useAsTitle] : null,
+    source: collection.slug,
+    sourceType: 'collection',
+  }
+
+  try {
+    await syncMediaReferences({ data: doc, fields: collection.fields, req, source, status })
+
+    if (status === 'published' && collection.versions?.drafts) {
+      await syncMediaReferences({ data: null, fields: collection.fields, req, source, status: 'draft' })
+    }
+  } catch (error) {
+    req.payload.logger.error({
+      err: error,
+      msg: `Failed to index media references for ${collection.slug} ${doc.id}`,
+    })
+  }
+
+  return doc
+}
+
+export const untrackMediaReferences: CollectionAfterDeleteHook = async ({ collection, doc, req }) => {
+  await clearMediaReferences(
+    { documentId: String(doc.id), source: collection.slug, sourceType: 'collection' },
+    req,
+  )
+
+  return doc
+}
+
+export const trackGlobalMediaReferences: GlobalAfterChangeHook = async ({ doc, global, req }) => {
+  const source: ReferenceSource = {
+    documentId: global.slug,
+    documentTitle: typeof global.label === 'string' ? global.label : global.slug,
+    source: global.slug,
+    sourceType: 'global',
+  }
+
+  try {
+    await syncMediaReferences({ data: doc, fields: global.fields, req, source, status: 'published' })
+  } catch (error) {
+    req.payload.logger.error({
+      err: error,
+      msg: `Failed to index media references for global ${global.slug}`,
+    })
+  }
+
+  return doc
+}
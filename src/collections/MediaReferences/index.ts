@@ -0,0 +1,72 @@
+import type { CollectionConfig } from 'payload'
+
+import { authenticated } from '../../access/authenticated'
+
+/**
+ * Index of where each media item is used. Maintained by the `trackMediaReferences`
+ * hooks on pages, posts and globals; never edited directly.
+ */
+export const MediaReferences: CollectionConfig = {
+  slug: 'media-references',
+  access: {
+    create: () => false,
+    delete: () => false,
+    read: authenticated,
+    update: () => false,
+  },
+  admin: {
+    hidden: true,
+  },
+  fields: [
+    {
+      name: 'media',
+      type: 'relationship',
+      relationTo: 'media',
+      index: true,
+      required: true,
+    },
+    {
+      name: 'sourceType',
+      type: 'select',
+      options: [
+        { label: 'Collection', value: 'collection' },
+        { label: 'Global', value: 'global' },
+      ],
+      required: true,
+    },
+    {
+      // Collection or global slug
+      name: 'source',
+      type: 'text',
+      index: true,
+      required: true,
+    },
+    {
+      // Document ID, or the global slug for globals
+      name: 'documentId',
+      type: 'text',
+      index: true,
+      required: true,
+    },
+    {
+      name: 'documentTitle',
+      type: 'text',
+    },
+    {
+      // Dotted path to the field holding the reference, e.g. `layout.2.media`
+      name: 'fieldPath',
+      type: 'text',
+      required: true,
+    },
+    {
+      // Drafts are indexed separately so a published reference survives draft edits
+      name: 'status',
+      type: 'select',
+      defaultValue: 'published',
+      options: [
+        { label: 'Published', value: 'published' },
+        { label: 'Draft', value: 'draft' },
+      ],
+    },
+  ],
+}
@@ -1,7 +1,7 @@
 import type { CollectionConfig } from 'payload'
 
-import { authenticated } from '../../access/authenticated'
 import { authenticatedOrPublished } from '../../access/authenticatedOrPublished'
+import { editors } from '../../access/editors'
 import { Archive } from '../../blocks/ArchiveBlock/config'
 import { CallToAction } from '../../blocks/CallToAction/config'
 import { Content } from '../../blocks/Content/config'
@@ -9,9 +9,16 @@ import { FormBlock } from '../../blocks/Form/config'
 import { MediaBlock } from '../../blocks/MediaBlock/config'
 import { hero } from '@/heros/config'
 import { slugField } from 'payload'
+import { expiryFields } from '../../fields/expiry'
+import { reviewTab, workflowFields } from '../../fields/workflow'
+import { enforceWorkflow } from '../../hooks/enforceWorkflow'
 import { populatePublishedAt } from '../../hooks/populatePublishedAt'
 import { generatePreviewPath } from '../../utilities/generatePreviewPath'
 import { revalidateDelete, revalidatePage } from './hooks/revalidatePage'
+import {
+  trackMediaReferences,
+  untrackMediaReferences,
+} from '../MediaReferences/hooks/trackMediaReferences'
 
 import {
   MetaDescriptionField,
@@ -24,10 +31,10 @@ import {
 export const Pages: CollectionConfig<'pages'> = {
   slug: 'pages',
   access: {
-    create: authenticated,
-    delete: authenticated,
+    create: editors,
+    delete: editors,
     read: authenticatedOrPublished,
-    update: authenticated,
+    update: editors,
   },
   // This config controls what's populated by default when a page is referenced
   // https://payloadcms.com/docs/queries/select#defaultpopulate-collection-config-property
@@ -37,7 +44,10 @@ export const Pages: CollectionConfig<'pages'> = {
     slug: true,
   },
   admin: {
-    defaultColumns: ['title', 'slug', 'updatedAt'],
+    components: {
+      beforeListTable: ['/components/admin/workflow/AssignedToMeFilter#AssignedToMeFilter'],
+    },
+    defaultColumns: ['title', 'slug', 'workflowStatus', 'updatedAt'],
     livePreview: {
       url: ({ data, req }) =>
         generatePreviewPath({
@@ -108,6 +118,7 @@ export const Pages: CollectionConfig<'pages'> = {
             }),
           ],
         },
+        reviewTab,
       ],
     },
     {
@@ -117,12 +128,14 @@ export const Pages: CollectionConfig<'pages'> = {
         position: 'sidebar',
       },
     },
+    ...expiryFields,
+    ...workflowFields,
     slugField(),
   ],
   hooks: {
-    afterChange: [revalidatePage],
-    beforeChange: [populatePublishedAt],
-    afterDelete: [revalidateDelete],
+    afterChange: [revalidatePage, trackMediaReferences],
+    beforeChange: [populatePublishedAt, enforceWorkflow],
+    afterDelete: [revalidateDelete, untrackMediaReferences],
   },
   versions: {
     drafts: {
@@ -0,0 +1,34 @@
+import type { Access, Where } from 'payload'
+
+import { hasRole } from '../../access/roles'
+
+// Authors and contributors only change the posts they are credited on
+const ownPosts = (id: number | string): Where => ({
+  authors: {
+    in: [id],
+  },
+})
+
+// Only approvers publish; everyone else sends posts for review (see `enforceWorkflow`).
+// The admin also asks with `_status: 'published'` to decide whether to show the publish button.
+const isPublishing = (data: unknown) =>
+  (data as { _status?: string } | undefined)?._status === 'published'
+
+export const createPost: Access = ({ data, req: { user } }) => {
+  if (hasRole(user, 'admin', 'editor')) return true
+  return hasRole(user, 'author', 'contributor') && !isPublishing(data)
+}
+
+export const updatePost: Access = ({ data, req: { user } }) => {
+  if (!user) return false
+  if (hasRole(user, 'admin', 'editor')) return true
+  if (hasRole(user, 'author', 'contributor') && !isPublishing(data)) return ownPosts(user.id)
+  return false
+}
+
+export const deletePost: Access = ({ req: { user } }) => {
+  if (!user) return false
+  if (hasRole(user, 'admin', 'editor')) return true
+  if (hasRole(user, 'author')) return ownPosts(user.id)
+  return false
+}
@@ -5,6 +5,7 @@ import { User } from 'src/payload-types'
 // This means that we need to populate the authors manually here to protect user privacy
 // GraphQL will not return mutated user data that differs from the underlying schema
 // So we use an alternative `populatedAuthors` field to populate the user data, hidden from the admin UI
+// Authors with a public profile (the `authors` collection) are credited with its name and slug
 export const populateAuthors: CollectionAfterReadHook = async ({ doc, req: { payload } }) => {
   if (doc?.authors && doc?.authors?.length > 0) {
     const authorDocs: User[] = []
@@ -20,17 +21,34 @@ export const populateAuthors: CollectionAfterReadHook = async ({ doc, req: { pay
         if (authorDoc) {
           authorDocs.push(authorDoc)
         }
-
-        if (authorDocs.length > 0) {
-          doc.populatedAuthors = authorDocs.map((authorDoc) => ({
-            id: authorDoc.id,
-            name: authorDoc.name,
-          }))
-        }
       } catch {
         // swallow error
       }
     }
+
+    if (authorDocs.length > 0) {
+      const { docs: profiles } = await payload.find({
+        collection: 'authors',
+        depth: 0,
+        pagination: false,
+        where: {
+          user: {
+            in: authorDocs.map((authorDoc) => authorDoc.id),
+          },
+        },
+      })
+
+      doc.populatedAuthors = authorDocs.map((authorDoc) => {
+        const profile = profiles.find((profile) => profile.user === authorDoc.id)
+
+        return {
+          id: authorDoc.id,
+          name: profile?.name || authorDoc.name,
+          roleTitle: profile?.roleTitle,
+          slug: profile?.slug,
+        }
+      })
+    }
   }
 
   return doc
@@ -1,14 +1,42 @@
-import type { CollectionAfterChangeHook, CollectionAfterDeleteHook } from 'payload'
+import type { CollectionAfterChangeHook, CollectionAfterDeleteHook, PayloadRequest } from 'payload'
 
 import { revalidatePath, revalidateTag } from 'next/cache'
 
 import type { Post } from '../../../payload-types'
 
-export const revalidatePost: CollectionAfterChangeHook<Post> = ({
+const getUserIds = (...posts: (null | Partial<Post> | undefined)[]) => [
+  ...new Set(
+    posts.flatMap((post) =>
+      (post?.authors || []).map((author) => (typeof author === 'object' ? author.id : author)),
+    ),
+  ),
+]
+
+// Author pages list the posts credited to them, including every page of the list
+const revalidateAuthorPages = async (req: PayloadRequest, userIds: string[]) => {
+  if (userIds.length === 0) return
+
+  const { docs } = await req.payload.find({
+    collection: 'authors',
+    depth: 0,
+    pagination: false,
+    req,
+    select: { slug: true },
+    where: { user: { in: userIds } },
+  })
+
+  for (const { slug } of docs) {
+    if (slug) revalidatePath(`/authors/${slug}`, 'layout')
+  }
+}
+
+export const revalidatePost: CollectionAfterChangeHook<Post> = async ({
   doc,
   previousDoc,
-  req: { payload, context },
+  req,
 }) => {
+  const { context, payload } = req
+
   if (!context.disableRevalidate) {
     if (doc._status === 'published') {
       const path = `/posts/${doc.slug}`
@@ -28,16 +56,23 @@ export const revalidatePost: CollectionAfterChangeHook<Post> = ({
       revalidatePath(oldPath)
       revalidateTag('posts-sitemap')
     }
+
+    // Published, unpublished or edited while live; authors taken off the post lose it too
+    if (doc._status === 'published' || previousDoc._status === 'published') {
+      await revalidateAuthorPages(req, getUserIds(doc, previousDoc))
+    }
   }
   return doc
 }
 
-export const revalidateDelete: CollectionAfterDeleteHook<Post> = ({ doc, req: { context } }) => {
-  if (!context.disableRevalidate) {
+export const revalidateDelete: CollectionAfterDeleteHook<Post> = async ({ doc, req }) => {
+  if (!req.context.disableRevalidate) {
     const path = `/posts/${doc?.slug}`
 
     revalidatePath(path)
     revalidateTag('posts-sitemap')
+
+    if (doc?._status === 'published') await revalidateAuthorPages(req, getUserIds(doc))
   }
 
   return doc
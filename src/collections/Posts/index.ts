@@ -9,14 +9,22 @@ import {
   lexicalEditor,
 } from '@payloadcms/richtext-lexical'
 
-import { authenticated } from '../../access/authenticated'
 import { authenticatedOrPublished } from '../../access/authenticatedOrPublished'
+import { editors } from '../../access/editors'
 import { Banner } from '../../blocks/Banner/config'
 import { Code } from '../../blocks/Code/config'
 import { MediaBlock } from '../../blocks/MediaBlock/config'
+import { expiryFields } from '../../fields/expiry'
+import { reviewTab, workflowFields } from '../../fields/workflow'
+import { enforceWorkflow } from '../../hooks/enforceWorkflow'
 import { generatePreviewPath } from '../../utilities/generatePreviewPath'
+import { createPost, deletePost, updatePost } from './access'
 import { populateAuthors } from './hooks/populateAuthors'
 import { revalidateDelete, revalidatePost } from './hooks/revalidatePost'
+import {
+  trackMediaReferences,
+  untrackMediaReferences,
+} from '../MediaReferences/hooks/trackMediaReferences'
 
 import {
   MetaDescriptionField,
@@ -30,10 +38,10 @@ import { slugField } from 'payload'
 export const Posts: CollectionConfig<'posts'> = {
   slug: 'posts',
   access: {
-    create: authenticated,
-    delete: authenticated,
+    create: createPost,
+    delete: deletePost,
     read: authenticatedOrPublished,
-    update: authenticated,
+    update: updatePost,
   },
   // This config controls what's populated by default when a post is referenced
   // https://payloadcms.com/docs/queries/select#defaultpopulate-collection-config-property
@@ -48,7 +56,10 @@ export const Posts: CollectionConfig<'posts'> = {
     },
   },
   admin: {
-    defaultColumns: ['title', 'slug', 'updatedAt'],
+    components: {
+      beforeListTable: ['/components/admin/workflow/AssignedToMeFilter#AssignedToMeFilter'],
+    },
+    defaultColumns: ['title', 'slug', 'workflowStatus', 'updatedAt'],
     livePreview: {
       url: ({ data, req }) =>
         generatePreviewPath({
@@ -159,6 +170,7 @@ export const Posts: CollectionConfig<'posts'> = {
             }),
           ],
         },
+        reviewTab,
       ],
     },
     {
@@ -184,9 +196,16 @@ export const Posts: CollectionConfig<'posts'> = {
     {
       name: 'authors',
       type: 'relationship',
+      // Credits decide who else can edit the post, so only editors change them;
+      // posts started by anyone else are credited to them
+      access: {
+        create: editors,
+        update: editors,
+      },
       admin: {
         position: 'sidebar',
       },
+      defaultValue: ({ user }) => (user ? [user.id] : undefined),
       hasMany: true,
       relationTo: 'users',
     },
@@ -212,14 +231,25 @@ export const Posts: CollectionConfig<'posts'> = {
           name: 'name',
           type: 'text',
         },
+        {
+          name: 'roleTitle',
+          type: 'text',
+        },
+        {
+          name: 'slug',
+          type: 'text',
+        },
       ],
     },
+    ...expiryFields,
+    ...workflowFields,
     slugField(),
   ],
   hooks: {
-    afterChange: [revalidatePost],
+    afterChange: [revalidatePost, trackMediaReferences],
     afterRead: [populateAuthors],
-    afterDelete: [revalidateDelete],
+    beforeChange: [enforceWorkflow],
+    afterDelete: [revalidateDelete, untrackMediaReferences],
   },
   versions: {
     drafts: {
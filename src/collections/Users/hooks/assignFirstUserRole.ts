@@ -0,0 +1,11 @@
+import type { CollectionBeforeChangeHook } from 'payload'
+
+// The account made on the create-first-user screen runs the site, so it is always an admin
+export const assignFirstUserRole: CollectionBeforeChangeHook = async ({ data, operation, req }) => {
+  if (operation !== 'create') return data
+
+  const { totalDocs } = await req.payload.count({ collection: 'users', req })
+  if (totalDocs === 0) data.role = 'admin'
+
+  return data
+}
@@ -1,18 +1,27 @@
 import type { CollectionConfig } from 'payload'
 
+import type { User } from '@/payload-types'
+
+import { admins } from '../../access/admins'
+import { adminsOrSelf } from '../../access/adminsOrSelf'
 import { authenticated } from '../../access/authenticated'
+import { hasRole } from '../../access/roles'
+import { assignFirstUserRole } from './hooks/assignFirstUserRole'
 
 export const Users: CollectionConfig = {
   slug: 'users',
   access: {
     admin: authenticated,
-    create: authenticated,
-    delete: authenticated,
+    create: admins,
+    delete: admins,
+    // Everyone logged in can pick post authors
     read: authenticated,
-    update: authenticated,
+    update: adminsOrSelf,
   },
   admin: {
-    defaultColumns: ['name', 'email'],
+    defaultColumns: ['name', 'email', 'role'],
+    // Other roles can still edit their own account from the account page
+    hidden: ({ user }) => !hasRole(user as User, 'admin'),
     useAsTitle: 'name',
   },
   auth: true,
@@ -21,6 +30,32 @@ export const Users: CollectionConfig = {
       name: 'name',
       type: 'text',
     },
+    {
+      name: 'role',
+      type: 'select',
+      access: {
+        create: admins,
+        update: admins,
+      },
+      admin: {
+        description:
+          'Admins manage users, site settings and storage. Editors manage, review and publish all content. Authors write and delete their own posts, and contributors write their own posts; both send them for review. Viewers can only look.',
+        position: 'sidebar',
+      },
+      defaultValue: 'viewer',
+      options: [
+        { label: 'Admin', value: 'admin' },
+        { label: 'Editor', value: 'editor' },
+        { label: 'Author', value: 'author' },
+        { label: 'Contributor', value: 'contributor' },
+        { label: 'Viewer', value: 'viewer' },
+      ],
+      required: true,
+      saveToJWT: true,
+    },
   ],
+  hooks: {
+    beforeChange: [assignFirstUserRole],
+  },
   timestamps: true,
 }
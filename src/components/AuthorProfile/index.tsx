@@ -0,0 +1,52 @@
+import React from 'react'
+
+import type { Author } from '@/payload-types'
+
+import { JsonLd } from '@/components/JsonLd'
+import { Media } from '@/components/Media'
+import { getProfilePageJsonLd } from '@/utilities/structuredData'
+
+const platformLabels: Record<string, string> = {
+  bluesky: 'Bluesky',
+  github: 'GitHub',
+  instagram: 'Instagram',
+  linkedin: 'LinkedIn',
+  mastodon: 'Mastodon',
+  website: 'Website',
+  x: 'X',
+}
+
+export const AuthorProfile: React.FC<{
+  author: Author
+}> = ({ author }) => {
+  const { avatar, bio, name, roleTitle, socialLinks } = author
+
+  return (
+    <div className="container mb-16 flex flex-col md:flex-row gap-8 items-start">
+      <JsonLd data={getProfilePageJsonLd(author)} />
+      {avatar && typeof avatar === 'object' && (
+        <div className="relative w-32 h-32 shrink-0 overflow-hidden rounded-full">
+          <Media fill imgClassName="object-cover" resource={avatar} size="8rem" />
+        </div>
+      )}
+
+      <div className="prose dark:prose-invert max-w-none">
+        <h1 className="mb-2">{name}</h1>
+        {roleTitle && <p className="mt-0 text-lg text-muted-foreground">{roleTitle}</p>}
+        {bio && <p className="whitespace-pre-line">{bio}</p>}
+
+        {socialLinks && socialLinks.length > 0 && (
+          <ul className="not-prose flex flex-wrap gap-4 p-0 list-none">
+            {socialLinks.map(({ id, platform, url }) => (
+              <li key={id}>
+                <a className="underline" href={url} rel="me noopener noreferrer" target="_blank">
+                  {platformLabels[platform] || platform}
+                </a>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,12 @@
+import React from 'react'
+
+/**
+ * Renders schema.org structured data. `<` is escaped so text from the CMS can't close the
+ * script tag.
+ */
+export const JsonLd: React.FC<{ data: Record<string, unknown> }> = ({ data }) => (
+  <script
+    dangerouslySetInnerHTML={{ __html: JSON.stringify(data).replace(/</g, '\\u003c') }}
+    type="application/ld+json"
+  />
+)
@@ -1,6 +1,6 @@
 'use client'
 
-import type { StaticImageData } from 'next/image'
+import type { ImageLoader, StaticImageData } from 'next/image'
 
 import { cn } from '@/utilities/ui'
 import NextImage from 'next/image'
@@ -8,14 +8,12 @@ import React from 'react'
 
 import type { Props as MediaProps } from '../types'
 
-import { cssVariables } from '@/cssVariables'
+import { getImageSizeBreakpoints, getModernFormatSources } from '@/collections/Media/imageSizes'
+import { getAltTextIssue } from '@/utilities/altText'
 import { getMediaUrl } from '@/utilities/getMediaUrl'
+import { createMediaTransformLoader } from '@/utilities/mediaTransformLoader'
 
-const { breakpoints } = cssVariables
-
-// A base64 encoded image to use as a placeholder while the image is loading
-const placeholderBlur =
-  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAACAAAAAgCAYAAABzenr0AAAAAXNSR0IArs4c6QAABchJREFUWEdtlwtTG0kMhHtGM7N+AAdcDsjj///EBLzenbtuadbLJaZUTlHB+tRqSesETB3IABqQG1KbUFqDlQorBSmboqeEBcC1d8zrCixXYGZcgMsFmH8B+AngHdurAmXKOE8nHOoBrU6opcGswPi5KSP9CcBaQ9kACJH/ALAA1xm4zMD8AczvQCcAQeJVAZsy7nYApTSUzwCHUKACeUJi9TsFci7AHmDtuHYqQIC9AgQYKnSwNAig4NyOOwXq/xU47gDYggarjIpsRSEA3Fqw7AGkwgW4fgALAdiC2btKgNZwbgdMbEFpqFR2UyCR8xwAhf8bUHIGk1ckMyB5C1YkeWAdAPQBAeiD6wVYPoD1HUgXwFagZAGc6oSpTmilopoD5GzISQD3odcNIFca0BUQQM5YA2DpHV0AYURBDIAL0C+ugC0C4GedSsVUmwC8/4w8TPiwU6AClJ5RWL1PgQNkrABWdKB3YF3cBwRY5lsI4ApkKpCQi+FIgFJU/TDgDuAxAAwonJuKpGD1rkCXCR1ALyrAUSSEQAhwBdYZ6DPAgSUA2c1wKIZmRcHxMzMYR9DH8NlbkAwwApSAcABwBwTAbb6owAr0AFiZPILVEyCtMmK2jCkTwFDNUNj7nJETQx744gCUmgkZVGJUHyakEZE4W91jtGFA9KsD8Z3JFYDlhGYZLWcllwJMnplcPy+csFAgAAaIDOgeuAGoB96GLZg4kmtfMjnr6ig5oSoySsoy3ya/FMivXZWxwr0KIf9nACbfqcBEgmBSAtAlIT83R+70IWpyACamIjf5E1Iqb9ECVmnoI/FvAIRk8s2J0Y5IquQDgB+5wpScw5AUTC75VTmTs+72NUzoCvQIaAXv5Q8PDAZKLD+MxLv3RFE7KlsQChgBIlKiCv5ByaZv3gJZNm8AnVMhAN+EjrtTYQMICJpu6/0aiQnhClANlz+Bw0cIWa8ev0sBrtrhAyaXEnrfGfATQJiRKih5vKeOHNXXPFrgyamAADh0Q4F2/sESojomDS9o9k0b0H83xjB8qL+JNoTjN+enjpaBpingRh4e8MSugudM030A8FeqMI6PFIgNyPehkpZWGFEAARIQdH5LcAAqIACHkAJqg4OoBccHAuz76wr4BbzFOEa8iBuAZB8AtJHLP2VgMgJw/EIBowo7HxCAH3V6dAXEE/vZ5aZIA8BP8RKhm7Cp8BnAMnAQADdgQDA520AVIpScP+enHz0Gwp25h4i2dPg5FkDXrbsdJikQwXuWgaM5gEMk1AgH4DKKFjDf3bMD+FjEeIxLlRKYnBk2BbquvSDCAQ4gwZiMAAmH4gBTyRtEsYxi7gP6QSrc//39BrDNqG8rtYTmC4BV1SfMhOhaumFCT87zy4pPhQBZEK1kQVRjJBBi7AOlePgyAPYjwlvtagx9e/dnQraAyS894TIkkAIEYMKEc8k4EqJ68lZ5jjNqcQC2QteQOf7659umwBgPybNtK4dg9WvnMyFwXYGP7uEO1lwJgAnPNeMYMVXbIIYKFioI4PGFt+BWPVfmWJdjW2lTUnLGCswECAgaUy86iwA1464ajo0QhgMBFGyBoZahANsMpMfXr1JA1SN29m5lqgXj+UPV85uRA7yv/KYUO4Tk7Hc1AZwbIRzg0AyNj2UlAMwfSLSMnl7fdAbcxHuA27YaAMvaQ4GOjwX4RTUGAG8Ge14N963g1AynqUiFqRX9noasxT4b8entNRQYyamk/3tYcHsO7R3XJRRYOn4tw4iUnwBM5gDnySGOreAwAGo8F9IDHEcq8Pz2Kg/oXCpuIL6tOPD8LsDn0ABYQoGFRowlsAEUPPDrGAGowAbgKsgDMmE8mDy/vXQ9IAwI7u4wta+gAdAdgB64Ah9SgD4IgGKhwACoAjgNgFDhtxY8f33ZTMjqdTAiHMBPrn8ZWkEfzFdX4Oc1AHg3+ADbvN8PU8WdFKg4Tt6CQy2+D4YHaMT/JP4XzbAq98cPDIUAAAAASUVORK5CYII='
+const imageSizeBreakpoints = getImageSizeBreakpoints()
 
 /**
  * ImageMedia
@@ -43,6 +41,22 @@ const placeholderBlur =
  *
  * TL;DR: Template uses relative URLs + getMediaUrl() to construct full URLs, then relies on
  * remotePatterns for optimization. Only add `loader` if using external CDNs with custom transforms.
+ *
+ * Transform route: with `MEDIA_TRANSFORM_SECRET` set, media items carry a `transformSignature`
+ * and are served through `/api/media-transform` via `createMediaTransformLoader` instead of
+ * the Next.js optimizer. That route reads from local storage and R2 alike and caches on disk.
+ *
+ * Art direction: image sizes with a crop set in the media manager (`sizeCrops`) are added as
+ * `<source>` elements, each for the viewport range of its size (see `getImageSizeBreakpoints`).
+ * Viewports without a cropped size fall back to the optimized image.
+ *
+ * Modern formats: the AVIF and WebP copies generated on upload (`modernFormatImageSizes`) are
+ * offered as typed `<source>` srcsets, so browsers that support them skip the optimizer.
+ * While loading, the image shows the blurred preview and dominant color stored in
+ * `placeholder`; images uploaded before those existed load without one.
+ *
+ * Alt text: in development, a resource whose alt text is missing or looks like a filename is
+ * logged with a warning. The Alt Text Audit admin view lists them all for published content.
  */
 
 export const ImageMedia: React.FC<MediaProps> = (props) => {
@@ -62,6 +76,20 @@ export const ImageMedia: React.FC<MediaProps> = (props) => {
   let height: number | undefined
   let alt = altFromProps
   let src: StaticImageData | string = srcFromProps || ''
+  let loader: ImageLoader | undefined
+  let blurDataURL: string | undefined
+  let dominantColor: string | undefined
+  let artDirectedSources: {
+    height?: null | number
+    media: string
+    srcSet: string
+    width?: null | number
+  }[] = []
+  let formatSources: { srcSet: string; type: string }[] = []
+
+  if (src && typeof src === 'object') {
+    blurDataURL = src.blurDataURL
+  }
 
   if (!src && resource && typeof resource === 'object') {
     const { alt: altFromResource, height: fullHeight, url, width: fullWidth } = resource
@@ -70,34 +98,78 @@ export const ImageMedia: React.FC<MediaProps> = (props) => {
     height = fullHeight!
     alt = altFromResource || ''
 
+    if (process.env.NODE_ENV === 'development') {
+      const altIssue = getAltTextIssue(alt, resource.filename)
+      if (altIssue) {
+        console.warn(
+          `[ImageMedia] ${resource.filename || resource.id} has ${altIssue === 'missing' ? 'no' : 'filename-like'} alt text`,
+        )
+      }
+    }
+
     const cacheTag = resource.updatedAt
 
     src = getMediaUrl(url, cacheTag)
+
+    if (resource.filename && resource.transformSignature) {
+      loader = createMediaTransformLoader(resource.filename, resource.transformSignature, cacheTag)
+    }
+
+    blurDataURL = resource.placeholder?.blurDataURL || undefined
+    dominantColor = resource.placeholder?.dominantColor || undefined
+
+    formatSources = getModernFormatSources(resource.sizes, (sizeUrl) =>
+      getMediaUrl(sizeUrl, cacheTag),
+    )
+
+    artDirectedSources = imageSizeBreakpoints.flatMap(({ media, name }) => {
+      const image = resource.sizeCrops?.find((crop) => crop.size === name)?.image
+      if (!image || typeof image !== 'object' || !image.url) return []
+
+      return [
+        {
+          height: image.height,
+          media,
+          srcSet: getMediaUrl(image.url, image.updatedAt),
+          width: image.width,
+        },
+      ]
+    })
   }
 
   const loading = loadingFromProps || (!priority ? 'lazy' : undefined)
 
-  // NOTE: this is used by the browser to determine which image to download at different screen sizes
-  const sizes = sizeFromProps
-    ? sizeFromProps
-    : Object.entries(breakpoints)
-        .map(([, value]) => `(max-width: ${value}px) ${value * 2}w`)
-        .join(', ')
+  // NOTE: this is used by the browser to pick a srcset candidate at different screen sizes.
+  // Pass `size` for images narrower than the viewport; full width is assumed otherwise.
+  const sizes = sizeFromProps || '100vw'
 
   return (
     <picture className={cn(pictureClassName)}>
+      {artDirectedSources.map((source) => (
+        <source
+          height={source.height ?? undefined}
+          key={source.media}
+          media={source.media}
+          srcSet={source.srcSet}
+          width={source.width ?? undefined}
+        />
+      ))}
+      {formatSources.map((source) => (
+        <source key={source.type} sizes={sizes} srcSet={source.srcSet} type={source.type} />
+      ))}
       <NextImage
         alt={alt || ''}
         className={cn(imgClassName)}
         fill={fill}
         height={!fill ? height : undefined}
-        placeholder="blur"
-        blurDataURL={placeholderBlur}
+        loader={loader}
+        placeholder={blurDataURL ? 'blur' : 'empty'}
+        blurDataURL={blurDataURL}
         priority={priority}
-        quality={100}
         loading={loading}
         sizes={sizes}
         src={src}
+        style={dominantColor ? { backgroundColor: dominantColor } : undefined}
         width={!fill ? width : undefined}
       />
     </picture>
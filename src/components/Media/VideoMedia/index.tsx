@@ -24,7 +24,11 @@ export const VideoMedia: React.FC<MediaProps> = (props) => {
   }, [])
 
   if (resource && typeof resource === 'object') {
-    const { filename } = resource
+    const { filename, videoMeta } = resource
+    const poster =
+      videoMeta?.thumbnail && typeof videoMeta.thumbnail === 'object' && videoMeta.thumbnail.url
+        ? getMediaUrl(videoMeta.thumbnail.url, videoMeta.thumbnail.updatedAt)
+        : undefined
 
     return (
       <video
@@ -35,6 +39,7 @@ export const VideoMedia: React.FC<MediaProps> = (props) => {
         muted
         onClick={onClick}
         playsInline
+        poster={poster}
         ref={videoRef}
       >
         <source src={getMediaUrl(`/media/${filename}`)} />
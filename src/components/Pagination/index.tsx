@@ -13,16 +13,25 @@ import { useRouter } from 'next/navigation'
 import React from 'react'
 
 export const Pagination: React.FC<{
+  // Pages are at `${basePath}/page/[pageNumber]`, or `${basePath}?page=` with `searchParams`
+  basePath?: string
   className?: string
   page: number
+  // Kept on every page's URL, e.g. a search query
+  searchParams?: Record<string, string>
   totalPages: number
 }> = (props) => {
   const router = useRouter()
 
-  const { className, page, totalPages } = props
+  const { basePath = '/posts', className, page, searchParams, totalPages } = props
   const hasNextPage = page < totalPages
   const hasPrevPage = page > 1
 
+  const getHref = (pageNumber: number) =>
+    searchParams
+      ? `${basePath}?${new URLSearchParams({ ...searchParams, page: String(pageNumber) })}`
+      : `${basePath}/page/${pageNumber}`
+
   const hasExtraPrevPages = page - 1 > 1
   const hasExtraNextPages = page + 1 < totalPages
 
@@ -34,7 +43,7 @@ export const Pagination: React.FC<{
             <PaginationPrevious
               disabled={!hasPrevPage}
               onClick={() => {
-                router.push(`/posts/page/${page - 1}`)
+                router.push(getHref(page - 1))
               }}
             />
           </PaginationItem>
@@ -49,7 +58,7 @@ export const Pagination: React.FC<{
             <PaginationItem>
               <PaginationLink
                 onClick={() => {
-                  router.push(`/posts/page/${page - 1}`)
+                  router.push(getHref(page - 1))
                 }}
               >
                 {page - 1}
@@ -61,7 +70,7 @@ export const Pagination: React.FC<{
             <PaginationLink
               isActive
               onClick={() => {
-                router.push(`/posts/page/${page}`)
+                router.push(getHref(page))
               }}
             >
               {page}
@@ -72,7 +81,7 @@ export const Pagination: React.FC<{
             <PaginationItem>
               <PaginationLink
                 onClick={() => {
-                  router.push(`/posts/page/${page + 1}`)
+                  router.push(getHref(page + 1))
                 }}
               >
                 {page + 1}
@@ -90,7 +99,7 @@ export const Pagination: React.FC<{
             <PaginationNext
               disabled={!hasNextPage}
               onClick={() => {
-                router.push(`/posts/page/${page + 1}`)
+                router.push(getHref(page + 1))
               }}
             />
           </PaginationItem>
@@ -0,0 +1,107 @@
+/**
+ * MediaArraySelectorButton Component
+ *
+ * Companion to MediaSelectorButton for array fields built with `mediaArrayField`.
+ * Opens the MediaManager in multi-select mode and appends one row per selected
+ * media item, so a gallery can be filled in one pass.
+ *
+ * Usage in collection config:
+ * ```typescript
+ * {
+ *   name: 'gallery',
+ *   type: 'array',
+ *   admin: {
+ *     components: {
+ *       beforeInput: ['/components/admin/MediaArraySelectorButton#MediaArraySelectorButton'],
+ *     },
+ *   },
+ *   fields: [{ name: 'image', type: 'upload', relationTo: 'media' }],
+ * }
+ * ```
+ */
+'use client'
+
+import React from 'react'
+import type { ArrayFieldClientProps } from 'payload'
+import { toast, useField, useForm } from '@payloadcms/ui'
+import { useMediaManager } from './media-manager/MediaManagerProvider'
+
+type Props = Partial<Pick<ArrayFieldClientProps, 'field' | 'path' | 'schemaPath'>>
+
+// Name of the upload field inside each row (see mediaArrayField)
+const ROW_UPLOAD_FIELD = 'image'
+
+/**
+ * Button component for adding several gallery rows from the custom media library
+ */
+export const MediaArraySelectorButton: React.FC<Props> = ({ field, path: pathFromProps, schemaPath }) => {
+  const { path, rows } = useField({ hasRows: true, potentiallyStalePath: pathFromProps })
+  const { addFieldRow } = useForm()
+  const { openModal } = useMediaManager()
+
+  const maxRows = field && 'maxRows' in field ? field.maxRows : undefined
+
+  const handleOpenLibrary = () => {
+    openModal({
+      mode: 'select',
+      allowMultiple: true,
+      onSelect: (items) => {
+        const existingRows = rows?.length || 0
+        const available = maxRows ? Math.max(0, maxRows - existingRows) : items.length
+
+        items.slice(0, available).forEach((media, index) => {
+          addFieldRow({
+            path,
+            rowIndex: existingRows + index,
+            schemaPath: schemaPath || path,
+            subFieldState: {
+              [ROW_UPLOAD_FIELD]: {
+                initialValue: media.id,
+                value: media.id,
+                valid: true,
+              },
+            },
+          })
+        })
+
+        if (items.length > available) {
+          toast.warning(`Only ${available} of ${items.length} items were added (at most ${maxRows} rows)`)
+        }
+      },
+    })
+  }
+
+  return (
+    <div className="media-selector-button-wrapper" style={{ marginBottom: '1rem' }}>
+      <button
+        type="button"
+        onClick={handleOpenLibrary}
+        className="btn btn--style-secondary btn--size-medium"
+        style={{
+          width: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          gap: '0.5rem',
+        }}
+      >
+        <svg
+          width="20"
+          height="20"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <path d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+        </svg>
+        <span>Add From Media Library</span>
+      </button>
+      <p style={{ marginTop: '0.5rem', fontSize: '0.875rem', color: 'var(--theme-elevation-500)' }}>
+        Shift-click or Ctrl/Cmd-click to pick several items at once
+      </p>
+    </div>
+  )
+}
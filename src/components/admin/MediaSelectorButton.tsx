@@ -25,6 +25,7 @@ import React from 'react'
 import { useField } from '@payloadcms/ui'
 import { useMediaManager } from './media-manager/MediaManagerProvider'
 import type { Media } from '@/payload-types'
+import type { MediaItem } from './media-manager/types'
 
 /**
  * Button component for selecting media from the custom media library
@@ -37,7 +38,7 @@ export const MediaSelectorButton: React.FC = () => {
     console.log('[MediaSelectorButton] Opening modal in select mode')
     openModal({
       mode: 'select',
-      onSelect: (media) => {
+      onSelect: (media: MediaItem) => {
         console.log('[MediaSelectorButton] Media selected:', media.id)
         // Set the field value to the selected media ID
         setValue(media.id)
@@ -0,0 +1,22 @@
+'use client'
+
+import { useConfig } from '@payloadcms/ui'
+import Link from 'next/link'
+import React from 'react'
+
+/**
+ * Sidebar link to the Alt Text Audit view, registered as an `afterNavLinks` component
+ */
+export const AltTextAuditNavLink: React.FC = () => {
+  const {
+    config: {
+      routes: { admin: adminRoute },
+    },
+  } = useConfig()
+
+  return (
+    <Link className="nav__link" href={`${adminRoute}/alt-text-audit`} prefetch={false}>
+      <span className="nav__link-label">Alt Text Audit</span>
+    </Link>
+  )
+}
@@ -0,0 +1,399 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+
+import type { AltTextAudit, AltTextAuditItem } from '@/endpoints/media-alt-audit'
+import { getAltTextIssue, type AltTextIssue } from '@/utilities/altText'
+
+// Payload admin theme variables, so the report follows light and dark mode
+const colors = {
+  cardBg: 'var(--theme-elevation-50)',
+  inputBg: 'var(--theme-input-bg)',
+  border: 'var(--theme-elevation-150)',
+  textPrimary: 'var(--theme-text)',
+  textSecondary: 'var(--theme-elevation-600)',
+  textMuted: 'var(--theme-elevation-500)',
+  link: 'var(--theme-success-500)',
+  error: 'var(--theme-error-500)',
+  errorBg: 'var(--theme-error-100)',
+  warning: 'var(--theme-warning-600)',
+  warningBg: 'var(--theme-warning-100)',
+}
+
+const issueLabels: Record<AltTextIssue, string> = {
+  filename: 'Filename-like',
+  missing: 'Missing',
+}
+
+type Tab = 'content' | 'images'
+
+const IssueBadge: React.FC<{ issue: AltTextIssue }> = ({ issue }) => (
+  <span
+    style={{
+      padding: '0.125rem 0.5rem',
+      borderRadius: '9999px',
+      fontSize: '0.75rem',
+      fontWeight: 600,
+      whiteSpace: 'nowrap',
+      color: issue === 'missing' ? colors.error : colors.warning,
+      backgroundColor: issue === 'missing' ? colors.errorBg : colors.warningBg,
+    }}
+  >
+    {issueLabels[issue]}
+  </span>
+)
+
+/**
+ * Drop a fixed image from the report, including the published content that only
+ * listed it
+ */
+const removeItem = (audit: AltTextAudit, item: AltTextAuditItem): AltTextAudit => {
+  const items = audit.items.filter((other) => other.id !== item.id)
+  const publishedContent = audit.publishedContent
+    .map((document) => ({
+      ...document,
+      images: document.images.filter((image) => image.id !== item.id),
+    }))
+    .filter((document) => document.images.length > 0)
+
+  return {
+    items,
+    publishedContent,
+    summary: {
+      ...audit.summary,
+      [item.issue]: audit.summary[item.issue] - 1,
+      publishedDocuments: publishedContent.length,
+    },
+  }
+}
+
+const AuditRow: React.FC<{
+  adminRoute: string
+  item: AltTextAuditItem
+  onSaved: (item: AltTextAuditItem, alt: string) => void
+}> = ({ adminRoute, item, onSaved }) => {
+  const [alt, setAlt] = useState(item.alt)
+  const [isSaving, setIsSaving] = useState(false)
+  const [showUsages, setShowUsages] = useState(false)
+  const [error, setError] = useState<null | string>(null)
+
+  const pendingIssue = getAltTextIssue(alt, item.filename)
+
+  const handleSave = useCallback(async () => {
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/media/${item.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ alt: alt.trim() }),
+      })
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => null)
+        throw new Error(result?.errors?.[0]?.message || 'Failed to save alt text')
+      }
+
+      onSaved(item, alt.trim())
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save alt text')
+    } finally {
+      setIsSaving(false)
+    }
+  }, [alt, item, onSaved])
+
+  return (
+    <li
+      style={{
+        display: 'grid',
+        gridTemplateColumns: '4rem 1fr',
+        gap: '1rem',
+        padding: '1rem',
+        border: `1px solid ${colors.border}`,
+        borderRadius: '0.5rem',
+        backgroundColor: colors.cardBg,
+      }}
+    >
+      {item.thumbnailUrl ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          alt=""
+          src={item.thumbnailUrl}
+          style={{ width: '4rem', height: '4rem', objectFit: 'cover', borderRadius: '0.25rem' }}
+        />
+      ) : (
+        <div style={{ width: '4rem', height: '4rem', backgroundColor: colors.border }} />
+      )}
+
+      <div style={{ minWidth: 0 }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap' }}>
+          <a
+            href={`${adminRoute}/collections/media/${item.id}`}
+            style={{ fontWeight: 600, color: colors.textPrimary, wordBreak: 'break-all' }}
+          >
+            {item.filename}
+          </a>
+          <IssueBadge issue={item.issue} />
+          <button
+            type="button"
+            onClick={() => setShowUsages(!showUsages)}
+            disabled={item.publishedDocuments === 0}
+            style={{
+              border: 'none',
+              background: 'none',
+              padding: 0,
+              fontSize: '0.875rem',
+              color: item.publishedDocuments ? colors.link : colors.textMuted,
+              cursor: item.publishedDocuments ? 'pointer' : 'default',
+            }}
+          >
+            {item.publishedDocuments === 0
+              ? 'Not on any published page or post'
+              : `On ${item.publishedDocuments} published ${item.publishedDocuments === 1 ? 'page or post' : 'pages and posts'}`}
+          </button>
+        </div>
+
+        {showUsages && (
+          <ul style={{ margin: '0.5rem 0 0', paddingLeft: '1.25rem', fontSize: '0.875rem' }}>
+            {item.usages.map((usage) => (
+              <li key={usage.id}>
+                <a href={usage.adminUrl} style={{ color: colors.link }}>
+                  {usage.documentTitle}
+                </a>{' '}
+                <span style={{ color: colors.textMuted }}>
+                  ({usage.sourceLabel}, {usage.fieldPath})
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.75rem' }}>
+          <input
+            type="text"
+            value={alt}
+            onChange={(e) => setAlt(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && alt.trim() !== item.alt) handleSave()
+            }}
+            placeholder="Describe what the image shows"
+            aria-label={`Alt text for ${item.filename}`}
+            style={{
+              flex: 1,
+              padding: '0.5rem 0.75rem',
+              fontSize: '0.875rem',
+              border: `1px solid ${colors.border}`,
+              borderRadius: '0.25rem',
+              backgroundColor: colors.inputBg,
+              color: colors.textPrimary,
+            }}
+          />
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving || alt.trim() === item.alt}
+            className="btn btn--style-primary btn--size-small"
+            style={{ margin: 0 }}
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+
+        {pendingIssue && alt.trim() !== item.alt && (
+          <p style={{ fontSize: '0.75rem', marginTop: '0.375rem', color: colors.warning }}>
+            {pendingIssue === 'missing'
+              ? 'Leave alt text empty only for purely decorative images'
+              : 'This still looks like a filename'}
+          </p>
+        )}
+        {error && (
+          <p style={{ fontSize: '0.75rem', marginTop: '0.375rem', color: colors.error }}>{error}</p>
+        )}
+      </div>
+    </li>
+  )
+}
+
+/**
+ * Client side of the Alt Text Audit view: loads `/api/media-alt-audit` and saves alt
+ * text straight to the media collection
+ */
+export const AltTextAuditReport: React.FC<{ adminRoute: string }> = ({ adminRoute }) => {
+  const [audit, setAudit] = useState<AltTextAudit | null>(null)
+  const [error, setError] = useState<null | string>(null)
+  const [tab, setTab] = useState<Tab>('images')
+
+  useEffect(() => {
+    const loadAudit = async () => {
+      try {
+        const response = await fetch('/api/media-alt-audit', { credentials: 'include' })
+
+        if (!response.ok) {
+          const result = await response.json().catch(() => null)
+          throw new Error(result?.error || 'Failed to load the audit')
+        }
+
+        setAudit(await response.json())
+      } catch (loadError) {
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load the audit')
+      }
+    }
+
+    loadAudit()
+  }, [])
+
+  const handleSaved = useCallback((item: AltTextAuditItem, alt: string) => {
+    const issue = getAltTextIssue(alt, item.filename)
+
+    setAudit((prev) => {
+      if (!prev) return prev
+      if (!issue) return removeItem(prev, item)
+
+      // Still flagged: keep the row with the saved text
+      const summary = { ...prev.summary }
+      summary[item.issue]--
+      summary[issue]++
+
+      return {
+        items: prev.items.map((other) => (other.id === item.id ? { ...other, alt, issue } : other)),
+        publishedContent: prev.publishedContent.map((document) => ({
+          ...document,
+          images: document.images.map((image) =>
+            image.id === item.id ? { ...image, issue } : image,
+          ),
+        })),
+        summary,
+      }
+    })
+  }, [])
+
+  if (error) {
+    return <p style={{ color: colors.error }}>{error}</p>
+  }
+
+  if (!audit) {
+    return <p style={{ color: colors.textMuted }}>Checking alt text...</p>
+  }
+
+  const stats = [
+    { label: 'Images checked', value: audit.summary.images },
+    { label: 'Missing alt text', value: audit.summary.missing },
+    { label: 'Filename-like alt text', value: audit.summary.filename },
+    { label: 'Published pages and posts affected', value: audit.summary.publishedDocuments },
+  ]
+
+  const tabButton = (value: Tab, label: string) => (
+    <button
+      type="button"
+      onClick={() => setTab(value)}
+      className={`btn btn--size-small ${tab === value ? 'btn--style-primary' : 'btn--style-secondary'}`}
+      style={{ margin: 0 }}
+    >
+      {label}
+    </button>
+  )
+
+  return (
+    <div>
+      <div
+        style={{
+          display: 'grid',
+          gridTemplateColumns: 'repeat(auto-fit, minmax(12rem, 1fr))',
+          gap: '1rem',
+          marginBottom: '2rem',
+        }}
+      >
+        {stats.map((stat) => (
+          <div
+            key={stat.label}
+            style={{
+              padding: '1rem',
+              border: `1px solid ${colors.border}`,
+              borderRadius: '0.5rem',
+              backgroundColor: colors.cardBg,
+            }}
+          >
+            <div style={{ fontSize: '1.75rem', fontWeight: 600, color: colors.textPrimary }}>
+              {stat.value}
+            </div>
+            <div style={{ fontSize: '0.875rem', color: colors.textSecondary }}>{stat.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '1rem' }}>
+        {tabButton('images', `Images (${audit.items.length})`)}
+        {tabButton('content', `Published content (${audit.publishedContent.length})`)}
+      </div>
+
+      {tab === 'images' &&
+        (audit.items.length === 0 ? (
+          <p style={{ color: colors.textSecondary }}>Every image has meaningful alt text.</p>
+        ) : (
+          <ul
+            style={{
+              listStyle: 'none',
+              margin: 0,
+              padding: 0,
+              display: 'grid',
+              gap: '0.75rem',
+            }}
+          >
+            {audit.items.map((item) => (
+              <AuditRow key={item.id} adminRoute={adminRoute} item={item} onSaved={handleSaved} />
+            ))}
+          </ul>
+        ))}
+
+      {tab === 'content' &&
+        (audit.publishedContent.length === 0 ? (
+          <p style={{ color: colors.textSecondary }}>
+            No published page or post shows an image without meaningful alt text.
+          </p>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem' }}>
+            <thead>
+              <tr style={{ textAlign: 'left', color: colors.textSecondary }}>
+                <th style={{ padding: '0.5rem' }}>Document</th>
+                <th style={{ padding: '0.5rem' }}>Field</th>
+                <th style={{ padding: '0.5rem' }}>Image</th>
+                <th style={{ padding: '0.5rem' }}>Issue</th>
+              </tr>
+            </thead>
+            <tbody>
+              {audit.publishedContent.flatMap((document) =>
+                document.images.map((image, index) => (
+                  <tr
+                    key={`${document.source}:${document.documentId}:${image.fieldPath}:${image.id}`}
+                    style={{ borderTop: `1px solid ${colors.border}` }}
+                  >
+                    <td style={{ padding: '0.5rem' }}>
+                      {index === 0 && (
+                        <>
+                          <a href={document.adminUrl} style={{ color: colors.link }}>
+                            {document.documentTitle}
+                          </a>{' '}
+                          <span style={{ color: colors.textMuted }}>({document.sourceLabel})</span>
+                        </>
+                      )}
+                    </td>
+                    <td style={{ padding: '0.5rem', fontFamily: 'monospace' }}>
+                      {image.fieldPath}
+                    </td>
+                    <td style={{ padding: '0.5rem', wordBreak: 'break-all' }}>
+                      {audit.items.find((item) => item.id === image.id)?.filename || image.id}
+                    </td>
+                    <td style={{ padding: '0.5rem' }}>
+                      <IssueBadge issue={image.issue} />
+                    </td>
+                  </tr>
+                )),
+              )}
+            </tbody>
+          </table>
+        ))}
+    </div>
+  )
+}
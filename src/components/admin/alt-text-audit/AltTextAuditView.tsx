@@ -0,0 +1,49 @@
+import type { AdminViewServerProps } from 'payload'
+
+import { DefaultTemplate } from '@payloadcms/next/templates'
+import { Gutter } from '@payloadcms/ui'
+import { redirect } from 'next/navigation'
+import React from 'react'
+
+import { AltTextAuditReport } from './AltTextAuditReport'
+
+/**
+ * Alt Text Audit admin view (`/admin/alt-text-audit`)
+ *
+ * Lists images whose alt text is missing or looks like a filename, ranked by how many
+ * published pages and posts show them, and the published content affected. Registered
+ * under `admin.components.views` in payload.config.ts.
+ */
+export const AltTextAuditView: React.FC<AdminViewServerProps> = ({
+  initPageResult,
+  params,
+  searchParams,
+}) => {
+  const { locale, permissions, req, visibleEntities } = initPageResult
+
+  if (!req.user) {
+    redirect(`${req.payload.config.routes.admin}/login`)
+  }
+
+  return (
+    <DefaultTemplate
+      i18n={req.i18n}
+      locale={locale}
+      params={params}
+      payload={req.payload}
+      permissions={permissions}
+      searchParams={searchParams}
+      user={req.user}
+      visibleEntities={visibleEntities}
+    >
+      <Gutter>
+        <h1 style={{ marginBottom: '0.5rem' }}>Alt Text Audit</h1>
+        <p style={{ marginBottom: '2rem', color: 'var(--theme-elevation-500)' }}>
+          Images with missing or filename-like alt text, most widely published first. Screen readers
+          announce these as the file name or skip them entirely.
+        </p>
+        <AltTextAuditReport adminRoute={req.payload.config.routes.admin} />
+      </Gutter>
+    </DefaultTemplate>
+  )
+}
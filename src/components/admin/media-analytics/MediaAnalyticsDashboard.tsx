@@ -0,0 +1,373 @@
+'use client'
+
+import { useConfig } from '@payloadcms/ui'
+import React, { useEffect, useState } from 'react'
+
+import type {
+  MediaAnalytics,
+  MediaAnalyticsGroup,
+  MediaAnalyticsItem,
+} from '@/endpoints/media-analytics'
+
+// Payload admin theme variables, so the dashboard follows light and dark mode
+const colors = {
+  cardBg: 'var(--theme-elevation-50)',
+  barBg: 'var(--theme-elevation-100)',
+  border: 'var(--theme-elevation-150)',
+  bar: 'var(--theme-success-500)',
+  textPrimary: 'var(--theme-text)',
+  textSecondary: 'var(--theme-elevation-600)',
+  textMuted: 'var(--theme-elevation-500)',
+  error: 'var(--theme-error-500)',
+  warning: 'var(--theme-warning-500)',
+}
+
+// Groups shown per breakdown; the rest are summed into one row
+const GROUP_LIMIT = 6
+// Months shown in the growth chart
+const GROWTH_MONTHS = 12
+
+const formatBytes = (bytes: number): string => {
+  if (bytes <= 0) return '0 B'
+  const units = ['B', 'KB', 'MB', 'GB', 'TB']
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1)
+  return `${parseFloat((bytes / 1024 ** i).toFixed(1))} ${units[i]}`
+}
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: '2-digit' })
+
+const cardStyle: React.CSSProperties = {
+  padding: '1rem',
+  border: `1px solid ${colors.border}`,
+  borderRadius: '0.5rem',
+  backgroundColor: colors.cardBg,
+}
+
+const headingStyle: React.CSSProperties = {
+  margin: '0 0 0.75rem',
+  fontSize: '1rem',
+  fontWeight: 600,
+  color: colors.textPrimary,
+}
+
+const Bar: React.FC<{ color?: string; share: number }> = ({ color = colors.bar, share }) => (
+  <div style={{ height: '0.5rem', borderRadius: '9999px', backgroundColor: colors.barBg }}>
+    <div
+      style={{
+        width: `${Math.min(Math.max(share, 0), 1) * 100}%`,
+        height: '100%',
+        borderRadius: '9999px',
+        backgroundColor: color,
+      }}
+    />
+  </div>
+)
+
+const Breakdown: React.FC<{ groups: MediaAnalyticsGroup[]; title: string; total: number }> = ({
+  groups,
+  title,
+  total,
+}) => {
+  const shown = groups.slice(0, GROUP_LIMIT)
+  const rest = groups.slice(GROUP_LIMIT)
+  if (rest.length > 0) {
+    shown.push({
+      bytes: rest.reduce((sum, group) => sum + group.bytes, 0),
+      count: rest.reduce((sum, group) => sum + group.count, 0),
+      id: 'other',
+      label: `${rest.length} more`,
+    })
+  }
+
+  return (
+    <section style={cardStyle}>
+      <h3 style={headingStyle}>{title}</h3>
+      {shown.length === 0 && <p style={{ margin: 0, color: colors.textMuted }}>No media yet</p>}
+      <ul style={{ listStyle: 'none', margin: 0, padding: 0, display: 'grid', gap: '0.75rem' }}>
+        {shown.map((group) => (
+          <li key={group.id ?? 'none'}>
+            <div
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                gap: '0.5rem',
+                marginBottom: '0.25rem',
+                fontSize: '0.875rem',
+              }}
+            >
+              <span
+                style={{ color: colors.textPrimary, overflow: 'hidden', textOverflow: 'ellipsis' }}
+              >
+                {group.label}
+                <span style={{ color: colors.textMuted }}> · {group.count}</span>
+              </span>
+              <span style={{ color: colors.textSecondary, whiteSpace: 'nowrap' }}>
+                {formatBytes(group.bytes)}
+              </span>
+            </div>
+            <Bar share={total > 0 ? group.bytes / total : 0} />
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
+
+const ItemList: React.FC<{ empty: string; items: MediaAnalyticsItem[]; title: string }> = ({
+  empty,
+  items,
+  title,
+}) => (
+  <section style={cardStyle}>
+    <h3 style={headingStyle}>{title}</h3>
+    {items.length === 0 && <p style={{ margin: 0, color: colors.textMuted }}>{empty}</p>}
+    <ul style={{ listStyle: 'none', margin: 0, padding: 0, display: 'grid', gap: '0.5rem' }}>
+      {items.map((item) => (
+        <li key={item.id} style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+          {item.thumbnailUrl ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={item.thumbnailUrl}
+              alt=""
+              style={{ width: '2rem', height: '2rem', objectFit: 'cover', borderRadius: '0.25rem' }}
+            />
+          ) : (
+            <div
+              style={{
+                width: '2rem',
+                height: '2rem',
+                flexShrink: 0,
+                borderRadius: '0.25rem',
+                backgroundColor: colors.barBg,
+              }}
+            />
+          )}
+          <a
+            href={item.adminUrl}
+            style={{
+              flex: 1,
+              minWidth: 0,
+              fontSize: '0.875rem',
+              color: colors.textPrimary,
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            {item.filename}
+          </a>
+          <span style={{ fontSize: '0.875rem', color: colors.textSecondary, whiteSpace: 'nowrap' }}>
+            {formatBytes(item.bytes)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  </section>
+)
+
+const GrowthChart: React.FC<{ growth: MediaAnalytics['growth'] }> = ({ growth }) => {
+  const months = growth.slice(-GROWTH_MONTHS)
+  const max = Math.max(...months.map((month) => month.bytes), 1)
+
+  return (
+    <section style={cardStyle}>
+      <h3 style={headingStyle}>Added per month</h3>
+      {months.length === 0 && <p style={{ margin: 0, color: colors.textMuted }}>No media yet</p>}
+      <div style={{ display: 'flex', alignItems: 'flex-end', gap: '0.5rem', height: '8rem' }}>
+        {months.map((month) => (
+          <div
+            key={month.month}
+            title={`${formatMonth(month.month)}: ${formatBytes(month.bytes)} added, ${month.count} items, ${formatBytes(month.totalBytes)} in total`}
+            style={{
+              flex: 1,
+              display: 'flex',
+              flexDirection: 'column',
+              justifyContent: 'flex-end',
+              height: '100%',
+            }}
+          >
+            <div
+              style={{
+                height: `${Math.max((month.bytes / max) * 100, 2)}%`,
+                borderRadius: '0.25rem 0.25rem 0 0',
+                backgroundColor: colors.bar,
+              }}
+            />
+          </div>
+        ))}
+      </div>
+      <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.25rem' }}>
+        {months.map((month) => (
+          <span
+            key={month.month}
+            style={{ flex: 1, fontSize: '0.6875rem', color: colors.textMuted, textAlign: 'center' }}
+          >
+            {formatMonth(month.month)}
+          </span>
+        ))}
+      </div>
+    </section>
+  )
+}
+
+/**
+ * Media storage overview on the admin dashboard: space used (against
+ * `MEDIA_STORAGE_QUOTA_GB` when set) by media type, folder and uploader, the largest
+ * and unused items, growth per month and images without generated sizes.
+ * Registered under `admin.components.beforeDashboard` in payload.config.ts.
+ */
+export const MediaAnalyticsDashboard: React.FC = () => {
+  const {
+    config: {
+      routes: { admin: adminRoute },
+    },
+  } = useConfig()
+  const [analytics, setAnalytics] = useState<MediaAnalytics | null>(null)
+  const [error, setError] = useState<null | string>(null)
+  // Only editors and admins see the overview; everyone else gets no panel at all
+  const [forbidden, setForbidden] = useState(false)
+
+  useEffect(() => {
+    const loadAnalytics = async () => {
+      try {
+        const response = await fetch('/api/media-analytics', { credentials: 'include' })
+
+        if (response.status === 403) {
+          setForbidden(true)
+          return
+        }
+
+        if (!response.ok) {
+          const result = await response.json().catch(() => null)
+          throw new Error(result?.error || 'Failed to load media analytics')
+        }
+
+        setAnalytics(await response.json())
+      } catch (loadError) {
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load media analytics')
+      }
+    }
+
+    loadAnalytics()
+  }, [])
+
+  if (forbidden) return null
+
+  const content = (() => {
+    if (error) return <p style={{ color: colors.error }}>{error}</p>
+    if (!analytics) return <p style={{ color: colors.textMuted }}>Measuring media storage...</p>
+
+    const { imageSizes, quotaBytes, totals, unused } = analytics
+    const quotaShare = quotaBytes ? totals.totalBytes / quotaBytes : null
+
+    const stats = [
+      { label: `Total storage in ${totals.files} files`, value: formatBytes(totals.totalBytes) },
+      {
+        label: `Originals of ${totals.items} media items`,
+        value: formatBytes(totals.originalBytes),
+      },
+      {
+        label: 'Generated sizes, variants, crops, posters and revisions',
+        value: formatBytes(totals.sizesBytes + totals.derivativeBytes),
+      },
+      { label: `Used by ${unused.count} unreferenced items`, value: formatBytes(unused.bytes) },
+      {
+        label: `${imageSizes.withoutSizes} of ${imageSizes.images} images have no generated sizes`,
+        value: `${imageSizes.images > 0 ? Math.round((imageSizes.withoutSizes / imageSizes.images) * 100) : 0}%`,
+      },
+    ]
+
+    return (
+      <>
+        {quotaBytes && quotaShare !== null && (
+          <div style={{ ...cardStyle, marginBottom: '1rem' }}>
+            <div
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                marginBottom: '0.5rem',
+                fontSize: '0.875rem',
+                color: colors.textSecondary,
+              }}
+            >
+              <span>
+                {formatBytes(totals.totalBytes)} of {formatBytes(quotaBytes)} quota used
+              </span>
+              <span>{Math.round(quotaShare * 100)}%</span>
+            </div>
+            <Bar
+              color={
+                quotaShare >= 0.9 ? colors.error : quotaShare >= 0.75 ? colors.warning : colors.bar
+              }
+              share={quotaShare}
+            />
+          </div>
+        )}
+
+        <div
+          style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fit, minmax(12rem, 1fr))',
+            gap: '1rem',
+            marginBottom: '1rem',
+          }}
+        >
+          {stats.map((stat) => (
+            <div key={stat.label} style={cardStyle}>
+              <div style={{ fontSize: '1.5rem', fontWeight: 600, color: colors.textPrimary }}>
+                {stat.value}
+              </div>
+              <div style={{ fontSize: '0.875rem', color: colors.textSecondary }}>{stat.label}</div>
+            </div>
+          ))}
+        </div>
+
+        <div
+          style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fit, minmax(18rem, 1fr))',
+            gap: '1rem',
+          }}
+        >
+          <Breakdown
+            groups={analytics.byMediaType}
+            title="By media type"
+            total={totals.totalBytes}
+          />
+          <Breakdown groups={analytics.byFolder} title="By folder" total={totals.totalBytes} />
+          <Breakdown groups={analytics.byUploader} title="By uploader" total={totals.totalBytes} />
+          <GrowthChart growth={analytics.growth} />
+          <ItemList empty="No media yet" items={analytics.largest} title="Largest items" />
+          <ItemList
+            empty="Every item is used somewhere"
+            items={unused.largest}
+            title="Largest unused items"
+          />
+          {imageSizes.missing.length > 0 && (
+            <ItemList empty="" items={imageSizes.missing} title="Recent images without sizes" />
+          )}
+        </div>
+      </>
+    )
+  })()
+
+  return (
+    <section style={{ marginBottom: '2.5rem' }}>
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'baseline',
+          justifyContent: 'space-between',
+          marginBottom: '1rem',
+        }}
+      >
+        <h2 style={{ margin: 0 }}>Media storage</h2>
+        <a href={`${adminRoute}/collections/media`} style={{ fontSize: '0.875rem' }}>
+          Open media library
+        </a>
+      </div>
+      {content}
+    </section>
+  )
+}
@@ -0,0 +1,217 @@
+'use client'
+
+import { useEffect, useState, type CSSProperties } from 'react'
+import Image from 'next/image'
+import type { DuplicatePrompt, DuplicateResolution } from './types'
+
+// Dark theme color palette
+const colors = {
+  backdrop: 'rgba(0, 0, 0, 0.85)',
+  modalBg: '#0a0e1a',
+  headerBg: '#0f1422',
+  cardBg: '#151b2b',
+  inputBg: '#1a2234',
+  border: '#1e2739',
+  borderLight: '#2d3748',
+  textPrimary: '#f1f5f9',
+  textSecondary: '#94a3b8',
+  textMuted: '#64748b',
+  primary: '#3b82f6',
+  success: '#10b981',
+  warning: '#f59e0b',
+  white: '#ffffff',
+}
+
+// Bits in a perceptual hash, used to show similarity as a percentage
+const HASH_BITS = 64
+
+const buttonStyle: CSSProperties = {
+  padding: '10px 18px',
+  fontSize: '14px',
+  fontWeight: 600,
+  borderRadius: '10px',
+  border: `1px solid ${colors.borderLight}`,
+  backgroundColor: colors.cardBg,
+  color: colors.textSecondary,
+  cursor: 'pointer',
+}
+
+interface DuplicateUploadDialogProps {
+  prompt: DuplicatePrompt
+  onResolve: (resolution: DuplicateResolution) => void
+}
+
+/**
+ * Shown before uploading a file that is already in the library
+ * Offers using the existing item, replacing its file, or uploading a separate copy
+ */
+export function DuplicateUploadDialog({ prompt, onResolve }: DuplicateUploadDialogProps) {
+  const { file, matches } = prompt
+  const [targetId, setTargetId] = useState(matches[0]?.media.id)
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null)
+
+  const target = matches.find(m => m.media.id === targetId)?.media || matches[0]?.media
+  const hasExactMatch = matches.some(m => m.match === 'exact')
+
+  useEffect(() => {
+    if (!file.type.startsWith('image/')) return
+    const url = URL.createObjectURL(file)
+    setPreviewUrl(url)
+    return () => URL.revokeObjectURL(url)
+  }, [file])
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 1000003,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: colors.backdrop,
+        padding: '24px',
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="duplicate-upload-title"
+        style={{
+          width: '100%',
+          maxWidth: '640px',
+          maxHeight: '90vh',
+          display: 'flex',
+          flexDirection: 'column',
+          borderRadius: '16px',
+          overflow: 'hidden',
+          backgroundColor: colors.modalBg,
+          border: `1px solid ${colors.border}`,
+          boxShadow: '0 25px 50px rgba(0, 0, 0, 0.5)',
+        }}
+      >
+        {/* Header */}
+        <div style={{ padding: '20px 24px', backgroundColor: colors.headerBg, borderBottom: `1px solid ${colors.border}` }}>
+          <h2 id="duplicate-upload-title" style={{ fontSize: '18px', fontWeight: 700, margin: 0, color: colors.textPrimary }}>
+            {hasExactMatch ? 'This file is already in the library' : 'Similar media already exists'}
+          </h2>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginTop: '12px' }}>
+            {previewUrl && (
+              <Image
+                unoptimized
+                src={previewUrl}
+                alt="Preview"
+                width={48}
+                height={48}
+                style={{ width: '48px', height: '48px', objectFit: 'cover', borderRadius: '8px' }}
+              />
+            )}
+            <p style={{ fontSize: '14px', margin: 0, color: colors.textSecondary, wordBreak: 'break-all' }}>
+              Uploading <strong style={{ color: colors.textPrimary }}>{file.name}</strong>
+            </p>
+          </div>
+        </div>
+
+        {/* Matches */}
+        <div style={{ padding: '16px 24px', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+          {matches.map(({ media, match, distance }) => {
+            const isTarget = media.id === target?.id
+            const thumbnailUrl = media.sizes?.thumbnail?.url || media.url
+
+            return (
+              <label
+                key={media.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '12px',
+                  padding: '10px 12px',
+                  borderRadius: '10px',
+                  border: `1px solid ${isTarget ? colors.primary : colors.border}`,
+                  backgroundColor: colors.cardBg,
+                  cursor: 'pointer',
+                }}
+              >
+                <input
+                  type="radio"
+                  name="duplicate-target"
+                  checked={isTarget}
+                  onChange={() => setTargetId(media.id)}
+                  style={{ accentColor: colors.primary }}
+                />
+                <div
+                  style={{
+                    width: '56px',
+                    height: '56px',
+                    flexShrink: 0,
+                    borderRadius: '8px',
+                    overflow: 'hidden',
+                    backgroundColor: colors.inputBg,
+                  }}
+                >
+                  {thumbnailUrl && media.mimeType?.startsWith('image/') && (
+                    <Image
+                      unoptimized
+                      src={thumbnailUrl}
+                      alt={media.alt || media.filename}
+                      width={56}
+                      height={56}
+                      style={{ width: '100%', height: '100%', objectFit: 'cover' }}
+                    />
+                  )}
+                </div>
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <p style={{ fontSize: '14px', margin: 0, color: colors.textPrimary, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {media.filename}
+                  </p>
+                  <p style={{ fontSize: '12px', margin: '2px 0 0', color: match === 'exact' ? colors.success : colors.warning }}>
+                    {match === 'exact'
+                      ? 'Identical file'
+                      : `Looks similar (${Math.round((1 - distance / HASH_BITS) * 100)}% match)`}
+                    {media.width && media.height ? (
+                      <span style={{ color: colors.textMuted }}> · {media.width} × {media.height}px</span>
+                    ) : null}
+                  </p>
+                </div>
+              </label>
+            )
+          })}
+        </div>
+
+        {/* Actions */}
+        <div
+          style={{
+            padding: '16px 24px',
+            borderTop: `1px solid ${colors.border}`,
+            backgroundColor: colors.headerBg,
+          }}
+        >
+          <p style={{ fontSize: '12px', margin: '0 0 12px', color: colors.textMuted }}>
+            Replace swaps the file on the selected item and keeps the old one in its file history.
+          </p>
+          <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px' }}>
+            <button type="button" onClick={() => onResolve({ action: 'keep-both' })} style={buttonStyle}>
+              Keep Both
+            </button>
+            <button
+              type="button"
+              disabled={!target}
+              onClick={() => target && onResolve({ action: 'replace', target })}
+              style={buttonStyle}
+            >
+              Replace
+            </button>
+            <button
+              type="button"
+              disabled={!target}
+              onClick={() => target && onResolve({ action: 'use-existing', target })}
+              style={{ ...buttonStyle, border: 'none', backgroundColor: colors.primary, color: colors.white }}
+            >
+              Use Existing
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
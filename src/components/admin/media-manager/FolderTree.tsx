@@ -1,8 +1,9 @@
 'use client'
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect, useRef, type DragEvent } from 'react'
 import { useMediaManager } from './MediaManagerProvider'
-import type { FolderItem, FolderTreeNode } from './types'
+import { FOLDER_DRAG_TYPE, getParentFolderId, isWithinFolder, MEDIA_DRAG_TYPE } from './folders'
+import type { FolderContents, FolderDeleteMode, FolderItem, FolderTreeNode } from './types'
 
 // Dark theme color palette matching MediaGrid and Modal
 const colors = {
@@ -66,8 +67,14 @@ interface FolderTreeItemProps {
   selectedFolderId: string | null
   onSelect: (folder: FolderItem | null) => void
   onToggle: (folderId: string) => void
-  onDelete: (folderId: string) => void
-  onCreateChild: (parentId: string) => void
+  onDelete: (folder: FolderTreeNode) => void
+  onCreateChild: (parentId: string, parentName: string) => void
+  onExport: (folderId: string) => void
+  onRename: (folderId: string, name: string) => Promise<boolean>
+  canDrop: (e: DragEvent, folderId: string | null) => boolean
+  onDropItems: (e: DragEvent, folderId: string | null) => void
+  onFolderDragStart: (folderId: string) => void
+  onFolderDragEnd: () => void
   expandedFolders: Set<string>
 }
 
@@ -79,16 +86,64 @@ function FolderTreeItem({
   onToggle,
   onDelete,
   onCreateChild,
+  onExport,
+  onRename,
+  canDrop,
+  onDropItems,
+  onFolderDragStart,
+  onFolderDragEnd,
   expandedFolders,
 }: FolderTreeItemProps) {
   const [showActions, setShowActions] = useState(false)
+  const [isRenaming, setIsRenaming] = useState(false)
+  const [draftName, setDraftName] = useState(folder.name)
+  const [isDropTarget, setIsDropTarget] = useState(false)
+  // Set once Enter, Escape or blur has ended the rename, so it is only submitted once
+  const renameClosedRef = useRef(false)
   const hasChildren = folder.children.length > 0
   const isExpanded = expandedFolders.has(folder.id)
   const isSelected = selectedFolderId === folder.id
 
+  const startRename = () => {
+    renameClosedRef.current = false
+    setDraftName(folder.name)
+    setIsRenaming(true)
+  }
+
+  const cancelRename = () => {
+    renameClosedRef.current = true
+    setIsRenaming(false)
+  }
+
+  const submitRename = async () => {
+    if (renameClosedRef.current) return
+    renameClosedRef.current = true
+
+    const name = draftName.trim()
+    if (!name || name === folder.name) {
+      setIsRenaming(false)
+      return
+    }
+
+    if (await onRename(folder.id, name)) {
+      setIsRenaming(false)
+    } else {
+      renameClosedRef.current = false
+    }
+  }
+
+  const handleDragOver = (e: DragEvent) => {
+    if (!canDrop(e, folder.id)) return
+    e.preventDefault()
+    e.stopPropagation()
+    e.dataTransfer.dropEffect = 'move'
+    setIsDropTarget(true)
+  }
+
   return (
     <div>
       <div
+        draggable={!isRenaming}
         style={{
           display: 'flex',
           alignItems: 'center',
@@ -99,12 +154,32 @@ function FolderTreeItem({
           transition: 'all 0.15s ease',
           marginBottom: '4px',
           marginLeft: `${depth * 20}px`,
-          backgroundColor: isSelected ? colors.hoverBg : 'transparent',
+          backgroundColor: isDropTarget ? colors.cardBg : isSelected ? colors.hoverBg : 'transparent',
           borderLeft: isSelected ? `3px solid ${colors.primary}` : '3px solid transparent',
+          outline: isDropTarget ? `2px dashed ${colors.primary}` : 'none',
         }}
         onClick={() => onSelect(folder)}
         onMouseEnter={() => setShowActions(true)}
         onMouseLeave={() => setShowActions(false)}
+        onDragStart={(e) => {
+          e.stopPropagation()
+          e.dataTransfer.setData(FOLDER_DRAG_TYPE, folder.id)
+          e.dataTransfer.effectAllowed = 'move'
+          onFolderDragStart(folder.id)
+        }}
+        onDragEnd={onFolderDragEnd}
+        onDragEnter={handleDragOver}
+        onDragOver={handleDragOver}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDropTarget(false)
+        }}
+        onDrop={(e) => {
+          setIsDropTarget(false)
+          if (!canDrop(e, folder.id)) return
+          e.preventDefault()
+          e.stopPropagation()
+          onDropItems(e, folder.id)
+        }}
       >
         {/* Expand/collapse button */}
         <button
@@ -174,28 +249,64 @@ function FolderTreeItem({
           </svg>
         </div>
 
-        {/* Folder name */}
-        <span
-          style={{
-            flex: 1,
-            fontSize: '16px',
-            fontWeight: 500,
-            overflow: 'hidden',
-            textOverflow: 'ellipsis',
-            whiteSpace: 'nowrap',
-            color: isSelected ? colors.textAccent : colors.textPrimary,
-          }}
-        >
-          {folder.name}
-        </span>
+        {/* Folder name (double-click to rename) */}
+        {isRenaming ? (
+          <input
+            type="text"
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            onClick={(e) => e.stopPropagation()}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault()
+                submitRename()
+              } else if (e.key === 'Escape') {
+                e.stopPropagation()
+                cancelRename()
+              }
+            }}
+            onBlur={submitRename}
+            autoFocus
+            aria-label="Folder name"
+            style={{
+              flex: 1,
+              minWidth: 0,
+              padding: '6px 10px',
+              fontSize: '15px',
+              borderRadius: '8px',
+              border: `2px solid ${colors.borderFocus}`,
+              outline: 'none',
+              backgroundColor: colors.inputBg,
+              color: colors.textPrimary,
+            }}
+          />
+        ) : (
+          <span
+            onDoubleClick={(e) => {
+              e.stopPropagation()
+              startRename()
+            }}
+            style={{
+              flex: 1,
+              fontSize: '16px',
+              fontWeight: 500,
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              whiteSpace: 'nowrap',
+              color: isSelected ? colors.textAccent : colors.textPrimary,
+            }}
+          >
+            {folder.name}
+          </span>
+        )}
 
         {/* Actions */}
-        {showActions && (
+        {showActions && !isRenaming && (
           <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
             <button
               onClick={(e) => {
                 e.stopPropagation()
-                onCreateChild(folder.id)
+                onCreateChild(folder.id, folder.name)
               }}
               style={{
                 padding: '8px',
@@ -217,9 +328,51 @@ function FolderTreeItem({
             <button
               onClick={(e) => {
                 e.stopPropagation()
-                if (confirm(`Delete folder "${folder.name}"? Media will be moved to root.`)) {
-                  onDelete(folder.id)
-                }
+                startRename()
+              }}
+              style={{
+                padding: '8px',
+                borderRadius: '8px',
+                transition: 'opacity 0.2s ease',
+                backgroundColor: colors.cardBg,
+                color: colors.textSecondary,
+                border: 'none',
+                cursor: 'pointer',
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.opacity = '0.8'}
+              onMouseLeave={(e) => e.currentTarget.style.opacity = '1'}
+              title="Rename folder"
+            >
+              <svg style={{ width: '16px', height: '16px' }} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+              </svg>
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation()
+                onExport(folder.id)
+              }}
+              style={{
+                padding: '8px',
+                borderRadius: '8px',
+                transition: 'opacity 0.2s ease',
+                backgroundColor: colors.cardBg,
+                color: colors.textSecondary,
+                border: 'none',
+                cursor: 'pointer',
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.opacity = '0.8'}
+              onMouseLeave={(e) => e.currentTarget.style.opacity = '1'}
+              title="Export folder as ZIP"
+            >
+              <svg style={{ width: '16px', height: '16px' }} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+              </svg>
+            </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation()
+                onDelete(folder)
               }}
               style={{
                 padding: '8px',
@@ -255,6 +408,12 @@ function FolderTreeItem({
               onToggle={onToggle}
               onDelete={onDelete}
               onCreateChild={onCreateChild}
+              onExport={onExport}
+              onRename={onRename}
+              canDrop={canDrop}
+              onDropItems={onDropItems}
+              onFolderDragStart={onFolderDragStart}
+              onFolderDragEnd={onFolderDragEnd}
               expandedFolders={expandedFolders}
             />
           ))}
@@ -408,6 +567,190 @@ function CreateFolderDialog({ parentId, parentName, onClose, onCreate }: CreateF
   )
 }
 
+interface DeleteFolderDialogProps {
+  folder: FolderTreeNode
+  parentName: string
+  onClose: () => void
+  onDelete: (folderId: string, mode: FolderDeleteMode) => Promise<void>
+  getContents: (folderId: string) => Promise<FolderContents | null>
+}
+
+function DeleteFolderDialog({ folder, parentName, onClose, onDelete, getContents }: DeleteFolderDialogProps) {
+  const [mode, setMode] = useState<FolderDeleteMode>('move-to-parent')
+  const [contents, setContents] = useState<FolderContents | null | undefined>(undefined)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    getContents(folder.id).then((result) => {
+      if (!cancelled) setContents(result)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [folder.id, getContents])
+
+  const isEmpty = contents?.folders === 0 && contents.media === 0
+  const summary = contents === undefined
+    ? 'Counting contents...'
+    : contents === null
+      ? 'Could not count the contents of this folder.'
+      : isEmpty
+        ? 'This folder is empty.'
+        : `Contains ${contents.folders} subfolder${contents.folders === 1 ? '' : 's'} and ${contents.media} media item${contents.media === 1 ? '' : 's'}.`
+
+  const handleDelete = async () => {
+    setIsDeleting(true)
+    await onDelete(folder.id, mode)
+    setIsDeleting(false)
+    onClose()
+  }
+
+  const optionStyle = (selected: boolean): React.CSSProperties => ({
+    display: 'flex',
+    alignItems: 'flex-start',
+    gap: '12px',
+    padding: '14px 16px',
+    marginBottom: '12px',
+    borderRadius: '12px',
+    cursor: 'pointer',
+    border: `2px solid ${selected ? colors.borderFocus : colors.border}`,
+    backgroundColor: colors.cardBg,
+  })
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 10003,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: '16px',
+        backgroundColor: colors.backdrop,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          borderRadius: '16px',
+          boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.5), 0 10px 10px -5px rgba(0, 0, 0, 0.4)',
+          width: '100%',
+          maxWidth: '480px',
+          padding: '32px',
+          border: `1px solid ${colors.border}`,
+          backgroundColor: colors.modalBg,
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '16px', marginBottom: '24px' }}>
+          <div
+            style={{
+              width: '48px',
+              height: '48px',
+              borderRadius: '12px',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              backgroundColor: colors.errorBg,
+            }}
+          >
+            <svg style={{ width: '24px', height: '24px', color: colors.error }} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+          </div>
+          <div style={{ minWidth: 0 }}>
+            <h3 style={{ fontSize: '20px', fontWeight: 600, color: colors.textPrimary, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+              Delete &quot;{folder.name}&quot;
+            </h3>
+            <p style={{ fontSize: '14px', marginTop: '2px', color: colors.textSecondary }}>{summary}</p>
+          </div>
+        </div>
+
+        {!isEmpty && (
+          <div style={{ marginBottom: '24px' }}>
+            <label style={optionStyle(mode === 'move-to-parent')}>
+              <input
+                type="radio"
+                name="delete-folder-mode"
+                checked={mode === 'move-to-parent'}
+                onChange={() => setMode('move-to-parent')}
+                style={{ marginTop: '3px', accentColor: colors.primary }}
+              />
+              <span>
+                <span style={{ display: 'block', fontSize: '15px', fontWeight: 500, color: colors.textPrimary }}>Keep contents</span>
+                <span style={{ display: 'block', fontSize: '13px', marginTop: '2px', color: colors.textSecondary }}>
+                  Subfolders and media move to {parentName}
+                </span>
+              </span>
+            </label>
+            <label style={{ ...optionStyle(mode === 'recursive'), marginBottom: 0 }}>
+              <input
+                type="radio"
+                name="delete-folder-mode"
+                checked={mode === 'recursive'}
+                onChange={() => setMode('recursive')}
+                style={{ marginTop: '3px', accentColor: colors.error }}
+              />
+              <span>
+                <span style={{ display: 'block', fontSize: '15px', fontWeight: 500, color: colors.textPrimary }}>Delete everything</span>
+                <span style={{ display: 'block', fontSize: '13px', marginTop: '2px', color: colors.textSecondary }}>
+                  {contents
+                    ? `Permanently deletes ${contents.folders} subfolder${contents.folders === 1 ? '' : 's'} and ${contents.media} media item${contents.media === 1 ? '' : 's'}. `
+                    : ''}
+                  Media still used in pages, posts or globals is kept and moved to {parentName}.
+                </span>
+              </span>
+            </label>
+          </div>
+        )}
+
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'flex-end', gap: '12px' }}>
+          <button
+            type="button"
+            onClick={onClose}
+            style={{
+              padding: '12px 24px',
+              fontSize: '16px',
+              fontWeight: 500,
+              borderRadius: '12px',
+              transition: 'opacity 0.2s ease',
+              color: colors.textSecondary,
+              backgroundColor: colors.cardBg,
+              border: 'none',
+              cursor: 'pointer',
+            }}
+            onMouseEnter={(e) => e.currentTarget.style.opacity = '0.8'}
+            onMouseLeave={(e) => e.currentTarget.style.opacity = '1'}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleDelete}
+            disabled={isDeleting || contents === undefined}
+            style={{
+              padding: '12px 24px',
+              fontSize: '16px',
+              fontWeight: 600,
+              borderRadius: '12px',
+              transition: 'opacity 0.2s ease',
+              opacity: isDeleting || contents === undefined ? 0.5 : 1,
+              cursor: isDeleting || contents === undefined ? 'not-allowed' : 'pointer',
+              backgroundColor: colors.error,
+              color: colors.white,
+              border: 'none',
+            }}
+          >
+            {isDeleting ? 'Deleting...' : mode === 'recursive' && !isEmpty ? 'Delete Everything' : 'Delete Folder'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
 /**
  * Folder tree navigation component
  */
@@ -419,14 +762,23 @@ export function FolderTree() {
     toggleFolderExpanded,
     expandedFolders,
     isFoldersLoading,
+    folders,
     createFolder,
+    renameFolder,
+    moveFolder,
+    getFolderContents,
     deleteFolder,
+    moveMediaToFolder,
+    exportMediaArchive,
     showToast,
   } = useMediaManager()
 
   const [createDialogOpen, setCreateDialogOpen] = useState(false)
   const [createParentId, setCreateParentId] = useState<string | null>(null)
   const [createParentName, setCreateParentName] = useState<string | undefined>()
+  const [folderToDelete, setFolderToDelete] = useState<FolderTreeNode | null>(null)
+  const [draggingFolderId, setDraggingFolderId] = useState<string | null>(null)
+  const [isRootDropTarget, setIsRootDropTarget] = useState(false)
 
   const handleCreateFolder = useCallback(async (name: string, parentId?: string) => {
     const folder = await createFolder(name, parentId)
@@ -435,10 +787,31 @@ export function FolderTree() {
     }
   }, [createFolder, showToast])
 
-  const handleDeleteFolder = useCallback(async (folderId: string) => {
-    await deleteFolder(folderId)
-    showToast('success', 'Folder deleted')
-  }, [deleteFolder, showToast])
+  // Media cards can be dropped on any folder; folders only where it wouldn't create a cycle
+  const canDrop = useCallback((e: DragEvent, folderId: string | null) => {
+    const { types } = e.dataTransfer
+    if (types.includes(MEDIA_DRAG_TYPE)) return true
+    if (!types.includes(FOLDER_DRAG_TYPE) || !draggingFolderId) return false
+    return folderId === null || !isWithinFolder(folders, folderId, draggingFolderId)
+  }, [draggingFolderId, folders])
+
+  const handleDropItems = useCallback((e: DragEvent, folderId: string | null) => {
+    const mediaIds = e.dataTransfer.getData(MEDIA_DRAG_TYPE)
+    const draggedFolderId = e.dataTransfer.getData(FOLDER_DRAG_TYPE)
+    setDraggingFolderId(null)
+
+    if (mediaIds) {
+      moveMediaToFolder(JSON.parse(mediaIds) as string[], folderId)
+    } else if (draggedFolderId) {
+      moveFolder(draggedFolderId, folderId)
+    }
+  }, [moveFolder, moveMediaToFolder])
+
+  const getParentName = useCallback((folder: FolderItem) => {
+    const parentId = getParentFolderId(folder)
+    const parent = parentId ? folders.find(f => f.id === parentId) : null
+    return parent ? `"${parent.name}"` : 'All Media'
+  }, [folders])
 
   const openCreateDialog = useCallback((parentId?: string, parentName?: string) => {
     setCreateParentId(parentId || null)
@@ -520,10 +893,28 @@ export function FolderTree() {
             cursor: 'pointer',
             transition: 'all 0.15s ease',
             marginBottom: '8px',
-            backgroundColor: currentFolder === null ? colors.hoverBg : 'transparent',
+            backgroundColor: isRootDropTarget ? colors.cardBg : currentFolder === null ? colors.hoverBg : 'transparent',
             borderLeft: currentFolder === null ? `3px solid ${colors.primary}` : '3px solid transparent',
+            outline: isRootDropTarget ? `2px dashed ${colors.primary}` : 'none',
           }}
           onClick={() => setCurrentFolder(null)}
+          onDragOver={(e) => {
+            if (!canDrop(e, null)) return
+            e.preventDefault()
+            e.stopPropagation()
+            e.dataTransfer.dropEffect = 'move'
+            setIsRootDropTarget(true)
+          }}
+          onDragLeave={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsRootDropTarget(false)
+          }}
+          onDrop={(e) => {
+            setIsRootDropTarget(false)
+            if (!canDrop(e, null)) return
+            e.preventDefault()
+            e.stopPropagation()
+            handleDropItems(e, null)
+          }}
         >
           <div
             style={{
@@ -614,8 +1005,14 @@ export function FolderTree() {
               selectedFolderId={currentFolder?.id || null}
               onSelect={setCurrentFolder}
               onToggle={toggleFolderExpanded}
-              onDelete={handleDeleteFolder}
-              onCreateChild={(parentId) => openCreateDialog(parentId, folder.name)}
+              onDelete={setFolderToDelete}
+              onCreateChild={openCreateDialog}
+              onExport={(folderId) => exportMediaArchive({ folderId })}
+              onRename={renameFolder}
+              canDrop={canDrop}
+              onDropItems={handleDropItems}
+              onFolderDragStart={setDraggingFolderId}
+              onFolderDragEnd={() => setDraggingFolderId(null)}
               expandedFolders={expandedFolders}
             />
           ))
@@ -631,6 +1028,17 @@ export function FolderTree() {
           onCreate={handleCreateFolder}
         />
       )}
+
+      {/* Delete folder dialog */}
+      {folderToDelete && (
+        <DeleteFolderDialog
+          folder={folderToDelete}
+          parentName={getParentName(folderToDelete)}
+          onClose={() => setFolderToDelete(null)}
+          onDelete={deleteFolder}
+          getContents={getFolderContents}
+        />
+      )}
     </div>
   )
 }
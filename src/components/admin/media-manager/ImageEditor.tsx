@@ -1,7 +1,22 @@
 'use client'
 
-import { useState, useRef, useCallback, useEffect } from 'react'
-import NextImage from 'next/image'
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react'
+import type { CSSProperties, ReactNode } from 'react'
+import {
+  ASPECT_PRESETS,
+  DEFAULT_EDITS,
+  OUTPUT_FORMATS,
+  applyAdjustments,
+  exportEditedImage,
+  getCenteredCrop,
+  getDraggedCrop,
+  getOutputSize,
+  getRotatedSize,
+  getSupportedFormats,
+  renderTransformedImage,
+  useUndoableState,
+} from './imageEdits'
+import type { CropArea, ImageEdits, OutputFormat } from './imageEdits'
 
 // Explicit color constants to avoid Payload theme conflicts
 const colors = {
@@ -23,11 +38,36 @@ const colors = {
   blue600: '#2563eb',
 }
 
-interface CropArea {
-  x: number
-  y: number
-  width: number
-  height: number
+// Crops smaller than this (in display pixels) are treated as a click and reset the crop
+const MIN_CROP_SIZE = 20
+
+const buttonStyle: CSSProperties = {
+  padding: '8px 12px',
+  fontSize: '13px',
+  fontWeight: 500,
+  borderRadius: '8px',
+  border: `1px solid ${colors.slate200}`,
+  backgroundColor: colors.white,
+  color: colors.slate600,
+  cursor: 'pointer',
+  boxShadow: '0 1px 2px rgba(0, 0, 0, 0.05)',
+}
+
+const activeButtonStyle: CSSProperties = {
+  ...buttonStyle,
+  borderColor: colors.indigo500,
+  backgroundColor: colors.indigo50,
+  color: colors.indigo700,
+}
+
+const inputStyle: CSSProperties = {
+  width: '100%',
+  padding: '8px 10px',
+  fontSize: '13px',
+  borderRadius: '8px',
+  border: `1px solid ${colors.slate200}`,
+  backgroundColor: colors.white,
+  color: colors.slate900,
 }
 
 interface ImageEditorProps {
@@ -36,68 +76,51 @@ interface ImageEditorProps {
   onCancel: () => void
 }
 
+function getInitialEdits(file: File): ImageEdits {
+  // Keep WebP/AVIF as they are, and transparency-capable PNG/GIF as WebP
+  const format = OUTPUT_FORMATS.some(option => option.value === file.type)
+    ? file.type as OutputFormat
+    : file.type === 'image/png' || file.type === 'image/gif' ? 'image/webp' : 'image/jpeg'
+
+  return { ...DEFAULT_EDITS, format }
+}
+
 /**
- * Simple image editor with crop, rotate, and quality controls
- * Scales consistently to fill available space
+ * Image editor with crop presets, rotation, flip, straightening, colour adjustments
+ * and output size/format. Every change can be undone.
  */
 export function ImageEditor({ file, onSave, onCancel }: ImageEditorProps) {
-  console.log('📸 [IMAGE EDITOR] Component function called with file:', file.name)
   const containerRef = useRef<HTMLDivElement>(null)
-  const imageRef = useRef<HTMLImageElement>(null)
+  const previewRef = useRef<HTMLCanvasElement>(null)
 
-  // Log when component actually renders to DOM
-  useEffect(() => {
-    console.log('✅ [IMAGE EDITOR] Component mounted to DOM!')
-    return () => {
-      console.log('❌ [IMAGE EDITOR] Component unmounting from DOM')
-    }
-  }, [])
-
-  const [imageUrl, setImageUrl] = useState<string>('')
-  const [imageDimensions, setImageDimensions] = useState({ width: 0, height: 0 })
-  const [displayDimensions, setDisplayDimensions] = useState({ width: 0, height: 0 })
+  const [sourceImage, setSourceImage] = useState<HTMLImageElement | null>(null)
   const [containerSize, setContainerSize] = useState({ width: 800, height: 500 })
+  const [supportedFormats, setSupportedFormats] = useState<OutputFormat[]>(['image/jpeg'])
 
-  const [rotation, setRotation] = useState(0)
-  const [quality, setQuality] = useState(85)
+  const { state: edits, set: setEdits, endMerge, undo, redo, canUndo, canRedo } =
+    useUndoableState<ImageEdits>(getInitialEdits(file))
 
-  // Crop state (in display coordinates)
-  const [crop, setCrop] = useState<CropArea | null>(null)
-  const [isDragging, setIsDragging] = useState(false)
-  const [dragStart, setDragStart] = useState({ x: 0, y: 0 })
+  // Crop being dragged, committed to the history on mouse up
+  const [draftCrop, setDraftCrop] = useState<CropArea | null>(null)
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null)
 
   const [isProcessing, setIsProcessing] = useState(false)
 
-  // Load image and get its dimensions
+  // Load the image
   useEffect(() => {
-    console.log('📸 [IMAGE EDITOR] Loading file:', file.name)
     const url = URL.createObjectURL(file)
-    setImageUrl(url)
-    console.log('📸 [IMAGE EDITOR] Image URL created:', url)
-
-    // Load image to get dimensions BEFORE rendering
     const img = new Image()
-    img.onload = () => {
-      console.log('📸 [IMAGE EDITOR] Image loaded:', {
-        width: img.naturalWidth,
-        height: img.naturalHeight,
-      })
-      setImageDimensions({
-        width: img.naturalWidth,
-        height: img.naturalHeight,
-      })
-    }
-    img.onerror = (e) => {
-      console.error('❌ [IMAGE EDITOR] Image load error:', e)
-    }
+    img.onload = () => setSourceImage(img)
+    img.onerror = (e) => console.error('Image load error:', e)
     img.src = url
 
-    return () => {
-      console.log('📸 [IMAGE EDITOR] Cleaning up URL')
-      URL.revokeObjectURL(url)
-    }
+    return () => URL.revokeObjectURL(url)
   }, [file])
 
+  useEffect(() => {
+    setSupportedFormats(getSupportedFormats())
+  }, [])
+
   // Measure container size
   useEffect(() => {
     const updateContainerSize = () => {
@@ -116,80 +139,75 @@ export function ImageEditor({ file, onSave, onCancel }: ImageEditorProps) {
     return () => window.removeEventListener('resize', updateContainerSize)
   }, [])
 
-  // Calculate display dimensions when image loads or container resizes
-  const calculateDisplayDimensions = useCallback(() => {
-    console.log('📸 [IMAGE EDITOR] calculateDisplayDimensions called:', {
-      imageDimensions,
-      containerSize,
-    })
+  const rotatedSize = useMemo(
+    () => sourceImage
+      ? getRotatedSize(sourceImage.naturalWidth, sourceImage.naturalHeight, edits.rotation)
+      : null,
+    [sourceImage, edits.rotation],
+  )
 
-    if (!imageDimensions.width || !imageDimensions.height) {
-      console.log('❌ [IMAGE EDITOR] No image dimensions yet, skipping calculation')
-      return
-    }
+  // Fit the rotated image into the available space
+  const displayDimensions = useMemo(() => {
+    if (!rotatedSize) return { width: 0, height: 0 }
 
-    const maxWidth = Math.min(containerSize.width, 900)
-    const maxHeight = Math.min(containerSize.height, 600)
+    const maxWidth = Math.max(Math.min(containerSize.width, 900), 200)
+    const maxHeight = Math.max(Math.min(containerSize.height, 600), 200)
+    const scale = Math.min(maxWidth / rotatedSize.width, maxHeight / rotatedSize.height)
 
-    const imageRatio = imageDimensions.width / imageDimensions.height
-    const containerRatio = maxWidth / maxHeight
+    return {
+      width: Math.round(rotatedSize.width * scale),
+      height: Math.round(rotatedSize.height * scale),
+    }
+  }, [rotatedSize, containerSize])
 
-    let displayWidth: number
-    let displayHeight: number
+  const { rotation, straighten, flipHorizontal, flipVertical, brightness, contrast, saturation } = edits
 
-    if (imageRatio > containerRatio) {
-      // Image is wider than container ratio - fit to width
-      displayWidth = maxWidth
-      displayHeight = maxWidth / imageRatio
-    } else {
-      // Image is taller than container ratio - fit to height
-      displayHeight = maxHeight
-      displayWidth = maxHeight * imageRatio
-    }
+  // Render the preview whenever anything but the crop or output settings changes
+  useEffect(() => {
+    const canvas = previewRef.current
+    if (!canvas || !sourceImage || !rotatedSize || !displayDimensions.width) return
 
-    // Ensure minimum size
-    displayWidth = Math.max(displayWidth, 200)
-    displayHeight = Math.max(displayHeight, 200)
+    const previewEdits = { ...DEFAULT_EDITS, rotation, straighten, flipHorizontal, flipVertical, brightness, contrast, saturation }
+    const transformed = renderTransformedImage(sourceImage, previewEdits, displayDimensions.width / rotatedSize.width)
+    applyAdjustments(transformed, previewEdits)
 
-    console.log('📸 [IMAGE EDITOR] Calculated display dimensions:', {
-      displayWidth: Math.round(displayWidth),
-      displayHeight: Math.round(displayHeight),
-    })
+    canvas.width = displayDimensions.width
+    canvas.height = displayDimensions.height
+    canvas.getContext('2d')?.drawImage(transformed, 0, 0, canvas.width, canvas.height)
+  }, [sourceImage, rotatedSize, displayDimensions, rotation, straighten, flipHorizontal, flipVertical, brightness, contrast, saturation])
 
-    setDisplayDimensions({
-      width: Math.round(displayWidth),
-      height: Math.round(displayHeight),
-    })
+  const preset = ASPECT_PRESETS.find(option => option.id === edits.aspectPreset) || ASPECT_PRESETS[0]
 
-    // Reset crop to full image when dimensions change
-    setCrop({
-      x: 0,
-      y: 0,
-      width: Math.round(displayWidth),
-      height: Math.round(displayHeight),
-    })
-  }, [imageDimensions, containerSize])
+  const centeredCrop = useCallback((ratio: number | null, size = rotatedSize) => (
+    size ? getCenteredCrop(size.width, size.height, ratio) : getCenteredCrop(1, 1, null)
+  ), [rotatedSize])
 
+  // Keyboard shortcuts for undo and redo (text fields keep their own)
   useEffect(() => {
-    calculateDisplayDimensions()
-  }, [calculateDisplayDimensions])
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null
+      if (target?.tagName === 'INPUT' && (target as HTMLInputElement).type !== 'range') return
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return
+
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        redo()
+      }
+    }
 
-  // Handle image load
-  const handleImageLoad = useCallback(() => {
-    if (!imageRef.current) return
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
 
-    const img = imageRef.current
-    setImageDimensions({
-      width: img.naturalWidth,
-      height: img.naturalHeight,
-    })
-  }, [])
-
-  // Get mouse position relative to image
+  // Get mouse position relative to the preview
   const getMousePosition = useCallback((e: React.MouseEvent) => {
-    if (!imageRef.current) return { x: 0, y: 0 }
+    if (!previewRef.current) return { x: 0, y: 0 }
 
-    const rect = imageRef.current.getBoundingClientRect()
+    const rect = previewRef.current.getBoundingClientRect()
     return {
       x: Math.max(0, Math.min(e.clientX - rect.left, displayDimensions.width)),
       y: Math.max(0, Math.min(e.clientY - rect.top, displayDimensions.height)),
@@ -200,209 +218,98 @@ export function ImageEditor({ file, onSave, onCancel }: ImageEditorProps) {
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
     e.preventDefault()
     const pos = getMousePosition(e)
-    setIsDragging(true)
     setDragStart(pos)
-    setCrop({ x: pos.x, y: pos.y, width: 0, height: 0 })
-  }, [getMousePosition])
+    setDraftCrop({ x: pos.x / displayDimensions.width, y: pos.y / displayDimensions.height, width: 0, height: 0 })
+  }, [getMousePosition, displayDimensions])
 
   const handleMouseMove = useCallback((e: React.MouseEvent) => {
-    if (!isDragging) return
-
-    const pos = getMousePosition(e)
+    if (!dragStart) return
 
-    const newCrop = {
-      x: Math.min(dragStart.x, pos.x),
-      y: Math.min(dragStart.y, pos.y),
-      width: Math.abs(pos.x - dragStart.x),
-      height: Math.abs(pos.y - dragStart.y),
-    }
-
-    setCrop(newCrop)
-  }, [isDragging, dragStart, getMousePosition])
+    setDraftCrop(getDraggedCrop(dragStart, getMousePosition(e), displayDimensions, preset.ratio))
+  }, [dragStart, getMousePosition, preset.ratio, displayDimensions])
 
   const handleMouseUp = useCallback(() => {
-    setIsDragging(false)
+    if (!dragStart) return
 
-    // If crop is too small, reset to full image
-    if (crop && (crop.width < 20 || crop.height < 20)) {
-      setCrop({ x: 0, y: 0, width: displayDimensions.width, height: displayDimensions.height })
+    if (draftCrop) {
+      const tooSmall = draftCrop.width * displayDimensions.width < MIN_CROP_SIZE
+        || draftCrop.height * displayDimensions.height < MIN_CROP_SIZE
+
+      setEdits({ crop: tooSmall ? centeredCrop(preset.ratio) : draftCrop })
     }
-  }, [crop, displayDimensions])
 
-  // Rotate
+    setDragStart(null)
+    setDraftCrop(null)
+  }, [dragStart, draftCrop, displayDimensions, setEdits, centeredCrop, preset.ratio])
+
+  // Quarter turns change the image's shape, so the crop starts over
   const rotate = useCallback((degrees: number) => {
-    setRotation((prev) => (prev + degrees + 360) % 360)
-  }, [])
+    if (!sourceImage) return
+
+    const nextRotation = ((edits.rotation + degrees + 360) % 360) as ImageEdits['rotation']
+    const nextSize = getRotatedSize(sourceImage.naturalWidth, sourceImage.naturalHeight, nextRotation)
+    setEdits({ rotation: nextRotation, crop: centeredCrop(preset.ratio, nextSize) })
+  }, [sourceImage, edits.rotation, setEdits, centeredCrop, preset.ratio])
+
+  // Flipping mirrors the crop with the image
+  const flip = useCallback((direction: 'horizontal' | 'vertical') => {
+    setEdits(prev => direction === 'horizontal'
+      ? { ...prev, flipHorizontal: !prev.flipHorizontal, crop: { ...prev.crop, x: 1 - prev.crop.x - prev.crop.width } }
+      : { ...prev, flipVertical: !prev.flipVertical, crop: { ...prev.crop, y: 1 - prev.crop.y - prev.crop.height } })
+  }, [setEdits])
+
+  const selectPreset = useCallback((presetId: string) => {
+    const next = ASPECT_PRESETS.find(option => option.id === presetId)
+    if (!next) return
+
+    setEdits({
+      aspectPreset: next.id,
+      crop: centeredCrop(next.ratio),
+      outputWidth: next.width ?? null,
+    })
+  }, [setEdits, centeredCrop])
 
-  // Reset crop
   const resetCrop = useCallback(() => {
-    setCrop({ x: 0, y: 0, width: displayDimensions.width, height: displayDimensions.height })
-  }, [displayDimensions])
+    setEdits({ crop: centeredCrop(preset.ratio) })
+  }, [setEdits, centeredCrop, preset.ratio])
+
+  const resetAll = useCallback(() => {
+    setEdits(prev => ({ ...DEFAULT_EDITS, format: prev.format, quality: prev.quality }))
+  }, [setEdits])
+
+  const outputSize = sourceImage ? getOutputSize(sourceImage, edits) : null
+
+  const setOutputHeight = useCallback((height: number | null) => {
+    if (!outputSize) return
+    setEdits({
+      outputWidth: height ? Math.max(1, Math.round(height * (outputSize.cropWidth / outputSize.cropHeight))) : null,
+    }, 'outputSize')
+  }, [outputSize, setEdits])
 
   // Process and save
   const handleSave = useCallback(async () => {
-    if (!crop || !imageRef.current) return
+    if (!sourceImage) return
 
     setIsProcessing(true)
 
     try {
-      // Calculate scale from display to original
-      const scaleX = imageDimensions.width / displayDimensions.width
-      const scaleY = imageDimensions.height / displayDimensions.height
-
-      // Convert crop from display coordinates to original image coordinates
-      const originalCrop = {
-        x: Math.round(crop.x * scaleX),
-        y: Math.round(crop.y * scaleY),
-        width: Math.round(crop.width * scaleX),
-        height: Math.round(crop.height * scaleY),
-      }
-
-      // Ensure crop is within bounds
-      originalCrop.x = Math.max(0, Math.min(originalCrop.x, imageDimensions.width - 1))
-      originalCrop.y = Math.max(0, Math.min(originalCrop.y, imageDimensions.height - 1))
-      originalCrop.width = Math.min(originalCrop.width, imageDimensions.width - originalCrop.x)
-      originalCrop.height = Math.min(originalCrop.height, imageDimensions.height - originalCrop.y)
-
-      // Create a new image element for processing
-      const img = new Image()
-      img.crossOrigin = 'anonymous'
-
-      await new Promise<void>((resolve, reject) => {
-        img.onload = () => resolve()
-        img.onerror = () => reject(new Error('Failed to load image'))
-        img.src = imageUrl
-      })
-
-      // Step 1: Create canvas for rotation (if needed)
-      let sourceCanvas: HTMLCanvasElement
-      let sourceCtx: CanvasRenderingContext2D | null
-
-      if (rotation !== 0) {
-        // For 90/270 rotation, swap dimensions
-        const swap = rotation === 90 || rotation === 270
-        const rotatedWidth = swap ? img.height : img.width
-        const rotatedHeight = swap ? img.width : img.height
-
-        sourceCanvas = document.createElement('canvas')
-        sourceCanvas.width = rotatedWidth
-        sourceCanvas.height = rotatedHeight
-        sourceCtx = sourceCanvas.getContext('2d')
-
-        if (!sourceCtx) throw new Error('Could not get canvas context')
-
-        // Rotate around center
-        sourceCtx.translate(rotatedWidth / 2, rotatedHeight / 2)
-        sourceCtx.rotate((rotation * Math.PI) / 180)
-        sourceCtx.translate(-img.width / 2, -img.height / 2)
-        sourceCtx.drawImage(img, 0, 0)
-      } else {
-        // No rotation - draw original image
-        sourceCanvas = document.createElement('canvas')
-        sourceCanvas.width = img.width
-        sourceCanvas.height = img.height
-        sourceCtx = sourceCanvas.getContext('2d')
-
-        if (!sourceCtx) throw new Error('Could not get canvas context')
-        sourceCtx.drawImage(img, 0, 0)
-      }
-
-      // Step 2: Crop from the (potentially rotated) source
-      // Adjust crop coordinates if rotated
-      let finalCrop = { ...originalCrop }
-
-      if (rotation === 90) {
-        finalCrop = {
-          x: originalCrop.y,
-          y: imageDimensions.width - originalCrop.x - originalCrop.width,
-          width: originalCrop.height,
-          height: originalCrop.width,
-        }
-      } else if (rotation === 180) {
-        finalCrop = {
-          x: imageDimensions.width - originalCrop.x - originalCrop.width,
-          y: imageDimensions.height - originalCrop.y - originalCrop.height,
-          width: originalCrop.width,
-          height: originalCrop.height,
-        }
-      } else if (rotation === 270) {
-        finalCrop = {
-          x: imageDimensions.height - originalCrop.y - originalCrop.height,
-          y: originalCrop.x,
-          width: originalCrop.height,
-          height: originalCrop.width,
-        }
-      }
-
-      // Ensure final crop is valid
-      finalCrop.x = Math.max(0, finalCrop.x)
-      finalCrop.y = Math.max(0, finalCrop.y)
-      finalCrop.width = Math.max(1, Math.min(finalCrop.width, sourceCanvas.width - finalCrop.x))
-      finalCrop.height = Math.max(1, Math.min(finalCrop.height, sourceCanvas.height - finalCrop.y))
-
-      // Create output canvas with crop dimensions
-      const outputCanvas = document.createElement('canvas')
-      outputCanvas.width = finalCrop.width
-      outputCanvas.height = finalCrop.height
-      const outputCtx = outputCanvas.getContext('2d')
-
-      if (!outputCtx) throw new Error('Could not get output canvas context')
-
-      // Draw cropped region
-      outputCtx.drawImage(
-        sourceCanvas,
-        finalCrop.x, finalCrop.y, finalCrop.width, finalCrop.height,
-        0, 0, finalCrop.width, finalCrop.height
-      )
-
-      // Convert to blob
-      const blob = await new Promise<Blob>((resolve, reject) => {
-        outputCanvas.toBlob(
-          (b) => b ? resolve(b) : reject(new Error('Failed to create blob')),
-          'image/jpeg',
-          quality / 100
-        )
-      })
-
-      // Create new file
-      const editedFile = new File([blob], file.name.replace(/\.[^.]+$/, '.jpg'), {
-        type: 'image/jpeg',
-        lastModified: Date.now(),
-      })
-
-      onSave(editedFile)
+      onSave(await exportEditedImage(sourceImage, edits, file.name))
     } catch (error) {
       console.error('Error processing image:', error)
       alert('Failed to process image. Please try again.')
     } finally {
       setIsProcessing(false)
     }
-  }, [crop, rotation, quality, imageUrl, imageDimensions, displayDimensions, file.name, onSave])
-
-  // Calculate crop info for display
-  const getCropInfo = () => {
-    if (!crop || !displayDimensions.width) return null
-
-    const scaleX = imageDimensions.width / displayDimensions.width
-    const scaleY = imageDimensions.height / displayDimensions.height
-
-    return {
-      width: Math.round(crop.width * scaleX),
-      height: Math.round(crop.height * scaleY),
-    }
+  }, [sourceImage, edits, file.name, onSave])
+
+  const crop = draftCrop || edits.crop
+  const cropPixels = {
+    x: crop.x * displayDimensions.width,
+    y: crop.y * displayDimensions.height,
+    width: crop.width * displayDimensions.width,
+    height: crop.height * displayDimensions.height,
   }
 
-  const cropInfo = getCropInfo()
-
-  console.log('📸 [IMAGE EDITOR] Render state:', {
-    imageUrl,
-    displayWidth: displayDimensions.width,
-    displayHeight: displayDimensions.height,
-    imageWidth: imageDimensions.width,
-    imageHeight: imageDimensions.height,
-    shouldShowImage: !!(imageUrl && displayDimensions.width > 0),
-  })
-
   return (
     <div
       style={{
@@ -426,7 +333,7 @@ export function ImageEditor({ file, onSave, onCancel }: ImageEditorProps) {
           borderRadius: '16px',
           boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.5)',
           width: '100%',
-          maxWidth: '1200px',
+          maxWidth: '1400px',
           height: '90vh',
           maxHeight: '900px',
           display: 'flex',
@@ -458,11 +365,31 @@ export function ImageEditor({ file, onSave, onCancel }: ImageEditorProps) {
               </div>
             </div>
             <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
-              {imageDimensions.width > 0 && (
+              {sourceImage && (
                 <span style={{ fontSize: '14px', color: colors.slate400 }}>
-                  Original: {imageDimensions.width} × {imageDimensions.height}px
+                  Original: {sourceImage.naturalWidth} × {sourceImage.naturalHeight}px
                 </span>
               )}
+              <div style={{ display: 'flex', gap: '4px' }}>
+                <button
+                  type="button"
+                  onClick={undo}
+                  disabled={!canUndo}
+                  title="Undo (Ctrl+Z)"
+                  style={{ ...buttonStyle, opacity: canUndo ? 1 : 0.4, cursor: canUndo ? 'pointer' : 'not-allowed' }}
+                >
+                  Undo
+                </button>
+                <button
+                  type="button"
+                  onClick={redo}
+                  disabled={!canRedo}
+                  title="Redo (Ctrl+Shift+Z)"
+                  style={{ ...buttonStyle, opacity: canRedo ? 1 : 0.4, cursor: canRedo ? 'pointer' : 'not-allowed' }}
+                >
+                  Redo
+                </button>
+              </div>
               <button
                 onClick={onCancel}
                 style={{
@@ -482,71 +409,62 @@ export function ImageEditor({ file, onSave, onCancel }: ImageEditorProps) {
           </div>
         </div>
 
-        {/* Image area - takes remaining space */}
-        <div
-          ref={containerRef}
-          style={{
-            flex: 1,
-            position: 'relative',
-            display: 'flex',
-            alignItems: 'center',
-            justifyContent: 'center',
-            padding: '32px',
-            overflow: 'hidden',
-            backgroundColor: colors.slate900,
-          }}
-        >
-          {imageUrl && displayDimensions.width > 0 ? (
-            <div
-              style={{
-                position: 'relative',
-                userSelect: 'none',
-                cursor: 'crosshair',
-                width: displayDimensions.width,
-                height: displayDimensions.height,
-                transform: `rotate(${rotation}deg)`,
-                transition: 'transform 0.3s ease',
-              }}
-              onMouseDown={handleMouseDown}
-              onMouseMove={handleMouseMove}
-              onMouseUp={handleMouseUp}
-              onMouseLeave={handleMouseUp}
-            >
-              {/* Image */}
-              <NextImage
-                unoptimized
-                ref={imageRef}
-                src={imageUrl}
-                alt="Preview"
-                onLoad={handleImageLoad}
-                width={displayDimensions.width}
-                height={displayDimensions.height}
+        <div style={{ flex: 1, display: 'flex', minHeight: 0 }}>
+          {/* Image area - takes remaining space */}
+          <div
+            ref={containerRef}
+            style={{
+              flex: 1,
+              position: 'relative',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              padding: '32px',
+              overflow: 'hidden',
+              backgroundColor: colors.slate900,
+            }}
+          >
+            {sourceImage && displayDimensions.width > 0 ? (
+              <div
                 style={{
-                  display: 'block',
-                  borderRadius: '8px',
-                  boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.5)',
+                  position: 'relative',
+                  userSelect: 'none',
+                  cursor: 'crosshair',
                   width: displayDimensions.width,
                   height: displayDimensions.height,
                 }}
-                draggable={false}
-              />
+                onMouseDown={handleMouseDown}
+                onMouseMove={handleMouseMove}
+                onMouseUp={handleMouseUp}
+                onMouseLeave={handleMouseUp}
+              >
+                {/* Preview */}
+                <canvas
+                  ref={previewRef}
+                  style={{
+                    display: 'block',
+                    borderRadius: '8px',
+                    boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.5)',
+                    width: displayDimensions.width,
+                    height: displayDimensions.height,
+                  }}
+                />
 
-              {/* Crop selection with shadow overlay */}
-              {crop && (
+                {/* Crop selection with shadow overlay */}
                 <div
                   style={{
                     position: 'absolute',
                     border: '2px solid white',
                     pointerEvents: 'none',
-                    left: crop.x,
-                    top: crop.y,
-                    width: Math.max(crop.width, 1),
-                    height: Math.max(crop.height, 1),
+                    left: cropPixels.x,
+                    top: cropPixels.y,
+                    width: Math.max(cropPixels.width, 1),
+                    height: Math.max(cropPixels.height, 1),
                     boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.6)',
                   }}
                 >
                   {/* Corner handles */}
-                  {crop.width > 30 && crop.height > 30 && (
+                  {cropPixels.width > 30 && cropPixels.height > 30 && (
                     <>
                       <div style={{ position: 'absolute', top: '-8px', left: '-8px', width: '16px', height: '16px', backgroundColor: 'white', borderRadius: '9999px', boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.1)', border: `2px solid ${colors.indigo500}` }} />
                       <div style={{ position: 'absolute', top: '-8px', right: '-8px', width: '16px', height: '16px', backgroundColor: 'white', borderRadius: '9999px', boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.1)', border: `2px solid ${colors.indigo500}` }} />
@@ -564,191 +482,220 @@ export function ImageEditor({ file, onSave, onCancel }: ImageEditorProps) {
                   )}
 
                   {/* Crop dimensions label */}
-                  {crop.width > 60 && crop.height > 40 && cropInfo && (
+                  {cropPixels.width > 60 && cropPixels.height > 40 && rotatedSize && (
                     <div style={{ position: 'absolute', inset: 0, display: 'flex', alignItems: 'center', justifyContent: 'center', pointerEvents: 'none' }}>
                       <span style={{ padding: '0.25rem 0.5rem', backgroundColor: 'rgba(0, 0, 0, 0.7)', borderRadius: '0.25rem', color: 'white', fontSize: '0.75rem', fontFamily: 'monospace' }}>
-                        {cropInfo.width} × {cropInfo.height}
+                        {Math.round(crop.width * rotatedSize.width)} × {Math.round(crop.height * rotatedSize.height)}
                       </span>
                     </div>
                   )}
                 </div>
-              )}
-            </div>
-          ) : (
-            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
-              <div
-                style={{
-                  width: '40px',
-                  height: '40px',
-                  border: '2px solid white',
-                  borderTopColor: 'transparent',
-                  borderRadius: '50%',
-                  animation: 'spin 1s linear infinite',
-                }}
-              />
-            </div>
-          )}
-
-          {/* Instructions overlay */}
-          <div
-            style={{
-              position: 'absolute',
-              bottom: '24px',
-              left: '50%',
-              transform: 'translateX(-50%)',
-              padding: '8px 16px',
-              backgroundColor: 'rgba(0, 0, 0, 0.6)',
-              backdropFilter: 'blur(4px)',
-              borderRadius: '9999px',
-            }}
-          >
-            <p style={{ color: 'rgba(255, 255, 255, 0.9)', fontSize: '14px', fontWeight: 500, margin: 0 }}>
-              Click and drag to select crop area
-            </p>
-          </div>
+              </div>
+            ) : (
+              <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                <div
+                  style={{
+                    width: '40px',
+                    height: '40px',
+                    border: '2px solid white',
+                    borderTopColor: 'transparent',
+                    borderRadius: '50%',
+                    animation: 'spin 1s linear infinite',
+                  }}
+                />
+              </div>
+            )}
 
-          {/* Rotation indicator */}
-          {rotation !== 0 && (
+            {/* Instructions overlay */}
             <div
               style={{
                 position: 'absolute',
-                top: '24px',
+                bottom: '24px',
                 left: '50%',
                 transform: 'translateX(-50%)',
-                padding: '6px 12px',
+                padding: '8px 16px',
+                backgroundColor: 'rgba(0, 0, 0, 0.6)',
+                backdropFilter: 'blur(4px)',
                 borderRadius: '9999px',
-                backgroundColor: colors.indigo600,
               }}
             >
-              <p style={{ fontSize: '14px', fontWeight: 500, color: colors.white, margin: 0 }}>
-                {rotation}° rotation
+              <p style={{ color: 'rgba(255, 255, 255, 0.9)', fontSize: '14px', fontWeight: 500, margin: 0 }}>
+                {preset.ratio ? `Click and drag to select a ${preset.label} crop` : 'Click and drag to select crop area'}
               </p>
             </div>
-          )}
-        </div>
+          </div>
 
-        {/* Controls */}
-        <div
-          style={{
-            flexShrink: 0,
-            padding: '16px 24px',
-            borderTop: `1px solid ${colors.slate200}`,
-            backgroundColor: colors.slate50,
-          }}
-        >
-          <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', justifyContent: 'space-between', gap: '16px' }}>
-            <div style={{ display: 'flex', alignItems: 'center', gap: '24px' }}>
-              {/* Rotation */}
-              <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
-                <span style={{ fontSize: '14px', fontWeight: 500, color: colors.slate700 }}>Rotate:</span>
-                <div
-                  style={{
-                    display: 'flex',
-                    alignItems: 'center',
-                    borderRadius: '8px',
-                    border: `1px solid ${colors.slate200}`,
-                    backgroundColor: colors.white,
-                    boxShadow: '0 1px 2px rgba(0, 0, 0, 0.05)',
-                  }}
-                >
-                  <button
-                    onClick={() => rotate(-90)}
-                    style={{
-                      padding: '10px',
-                      borderTopLeftRadius: '8px',
-                      borderBottomLeftRadius: '8px',
-                      backgroundColor: 'transparent',
-                      color: colors.slate600,
-                      cursor: 'pointer',
-                      border: 'none',
-                      borderRight: `1px solid ${colors.slate200}`,
-                    }}
-                    title="Rotate left 90°"
-                  >
-                    <svg style={{ width: '20px', height: '20px' }} fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
-                    </svg>
-                  </button>
+          {/* Controls */}
+          <div
+            style={{
+              width: '300px',
+              flexShrink: 0,
+              overflowY: 'auto',
+              padding: '20px',
+              display: 'flex',
+              flexDirection: 'column',
+              gap: '24px',
+              borderLeft: `1px solid ${colors.slate200}`,
+              backgroundColor: colors.slate50,
+            }}
+          >
+            <ControlSection title="Aspect Ratio">
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+                {ASPECT_PRESETS.map(option => (
                   <button
-                    onClick={() => rotate(90)}
-                    style={{
-                      padding: '10px',
-                      borderTopRightRadius: '8px',
-                      borderBottomRightRadius: '8px',
-                      backgroundColor: 'transparent',
-                      color: colors.slate600,
-                      cursor: 'pointer',
-                      border: 'none',
-                    }}
-                    title="Rotate right 90°"
+                    key={option.id}
+                    type="button"
+                    onClick={() => selectPreset(option.id)}
+                    title={option.width && option.height ? `${option.width} × ${option.height}px` : undefined}
+                    style={option.id === preset.id ? activeButtonStyle : buttonStyle}
                   >
-                    <svg style={{ width: '20px', height: '20px', transform: 'scaleX(-1)' }} fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
-                    </svg>
+                    {option.label}
                   </button>
-                </div>
+                ))}
               </div>
-
-              {/* Quality slider */}
-              <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
-                <span style={{ fontSize: '14px', fontWeight: 500, color: colors.slate700 }}>Quality:</span>
-                <div
-                  style={{
-                    display: 'flex',
-                    alignItems: 'center',
-                    gap: '8px',
-                    padding: '8px 12px',
-                    borderRadius: '8px',
-                    border: `1px solid ${colors.slate200}`,
-                    backgroundColor: colors.white,
-                    boxShadow: '0 1px 2px rgba(0, 0, 0, 0.05)',
-                  }}
+              <button type="button" onClick={resetCrop} style={{ ...buttonStyle, marginTop: '8px' }}>
+                Reset Crop
+              </button>
+            </ControlSection>
+
+            <ControlSection title="Transform">
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px' }}>
+                <button type="button" onClick={() => rotate(-90)} title="Rotate left 90°" style={buttonStyle}>
+                  ↺ Rotate left
+                </button>
+                <button type="button" onClick={() => rotate(90)} title="Rotate right 90°" style={buttonStyle}>
+                  ↻ Rotate right
+                </button>
+                <button
+                  type="button"
+                  onClick={() => flip('horizontal')}
+                  style={flipHorizontal ? activeButtonStyle : buttonStyle}
+                >
+                  ⇆ Flip horizontal
+                </button>
+                <button
+                  type="button"
+                  onClick={() => flip('vertical')}
+                  style={flipVertical ? activeButtonStyle : buttonStyle}
                 >
+                  ⇅ Flip vertical
+                </button>
+              </div>
+              <SliderControl
+                label="Straighten"
+                value={straighten}
+                min={-45}
+                max={45}
+                step={0.5}
+                unit="°"
+                onChange={(value) => setEdits({ straighten: value }, 'straighten')}
+                onCommit={endMerge}
+              />
+            </ControlSection>
+
+            <ControlSection title="Adjustments">
+              <SliderControl
+                label="Brightness"
+                value={brightness}
+                min={0}
+                max={200}
+                unit="%"
+                onChange={(value) => setEdits({ brightness: value }, 'brightness')}
+                onCommit={endMerge}
+              />
+              <SliderControl
+                label="Contrast"
+                value={contrast}
+                min={0}
+                max={200}
+                unit="%"
+                onChange={(value) => setEdits({ contrast: value }, 'contrast')}
+                onCommit={endMerge}
+              />
+              <SliderControl
+                label="Saturation"
+                value={saturation}
+                min={0}
+                max={200}
+                unit="%"
+                onChange={(value) => setEdits({ saturation: value }, 'saturation')}
+                onCommit={endMerge}
+              />
+              {(brightness !== 100 || contrast !== 100 || saturation !== 100) && (
+                <button
+                  type="button"
+                  onClick={() => setEdits({ brightness: 100, contrast: 100, saturation: 100 })}
+                  style={buttonStyle}
+                >
+                  Reset Adjustments
+                </button>
+              )}
+            </ControlSection>
+
+            <ControlSection title="Output">
+              <div style={{ display: 'flex', alignItems: 'flex-end', gap: '8px' }}>
+                <label style={{ flex: 1, fontSize: '12px', color: colors.slate500 }}>
+                  Width
                   <input
-                    type="range"
-                    min="10"
-                    max="100"
-                    value={quality}
-                    onChange={(e) => setQuality(Number(e.target.value))}
-                    style={{
-                      width: '128px',
-                      height: '8px',
-                      borderRadius: '8px',
-                      cursor: 'pointer',
-                      accentColor: colors.indigo600,
-                    }}
+                    type="number"
+                    min={1}
+                    value={outputSize?.width ?? ''}
+                    onChange={(e) => setEdits({ outputWidth: e.target.value ? Math.max(1, Number(e.target.value)) : null }, 'outputSize')}
+                    onBlur={endMerge}
+                    style={{ ...inputStyle, marginTop: '4px' }}
                   />
-                  <span style={{ fontSize: '14px', fontFamily: 'monospace', fontWeight: 500, width: '40px', textAlign: 'right', color: colors.slate700 }}>
-                    {quality}%
-                  </span>
-                </div>
+                </label>
+                <span style={{ paddingBottom: '8px', color: colors.slate400 }}>×</span>
+                <label style={{ flex: 1, fontSize: '12px', color: colors.slate500 }}>
+                  Height
+                  <input
+                    type="number"
+                    min={1}
+                    value={outputSize?.height ?? ''}
+                    onChange={(e) => setOutputHeight(e.target.value ? Number(e.target.value) : null)}
+                    onBlur={endMerge}
+                    style={{ ...inputStyle, marginTop: '4px' }}
+                  />
+                </label>
               </div>
+              <p style={{ fontSize: '12px', color: colors.slate500, margin: 0 }}>
+                {edits.outputWidth === null
+                  ? 'Cropped size. Height follows the crop\'s aspect ratio.'
+                  : outputSize && outputSize.width > outputSize.cropWidth
+                    ? `Upscaled from ${outputSize.cropWidth} × ${outputSize.cropHeight}px`
+                    : 'Height follows the crop\'s aspect ratio.'}
+              </p>
+              {edits.outputWidth !== null && (
+                <button type="button" onClick={() => setEdits({ outputWidth: null })} style={buttonStyle}>
+                  Use Cropped Size
+                </button>
+              )}
 
-              {/* Reset crop */}
-              <button
-                onClick={resetCrop}
-                style={{
-                  padding: '8px 16px',
-                  fontSize: '14px',
-                  fontWeight: 500,
-                  borderRadius: '8px',
-                  border: `1px solid ${colors.slate200}`,
-                  backgroundColor: colors.white,
-                  color: colors.slate600,
-                  cursor: 'pointer',
-                  boxShadow: '0 1px 2px rgba(0, 0, 0, 0.05)',
-                }}
-              >
-                Reset Crop
-              </button>
-            </div>
-
-            {/* Output info */}
-            {cropInfo && (
-              <div style={{ fontSize: '14px', color: colors.slate500 }}>
-                Output: <span style={{ fontFamily: 'monospace', fontWeight: 500, color: colors.slate700 }}>{cropInfo.width} × {cropInfo.height}px</span>
-              </div>
-            )}
+              <label style={{ fontSize: '12px', color: colors.slate500 }}>
+                Format
+                <select
+                  value={edits.format}
+                  onChange={(e) => setEdits({ format: e.target.value as OutputFormat })}
+                  style={{ ...inputStyle, marginTop: '4px' }}
+                >
+                  {OUTPUT_FORMATS.map(option => (
+                    <option key={option.value} value={option.value} disabled={!supportedFormats.includes(option.value)}>
+                      {option.label}{supportedFormats.includes(option.value) ? '' : ' (not supported by this browser)'}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <SliderControl
+                label="Quality"
+                value={edits.quality}
+                min={10}
+                max={100}
+                unit="%"
+                onChange={(value) => setEdits({ quality: value }, 'quality')}
+                onCommit={endMerge}
+              />
+            </ControlSection>
           </div>
         </div>
 
@@ -764,65 +711,123 @@ export function ImageEditor({ file, onSave, onCancel }: ImageEditorProps) {
             justifyContent: 'space-between',
           }}
         >
-          <button
-            onClick={onCancel}
-            style={{
-              padding: '10px 20px',
-              fontSize: '14px',
-              fontWeight: 500,
-              borderRadius: '12px',
-              backgroundColor: 'transparent',
-              border: 'none',
-              color: colors.slate600,
-              cursor: 'pointer',
-            }}
-          >
-            Skip Editing
-          </button>
-          <button
-            onClick={handleSave}
-            disabled={isProcessing || !crop}
-            style={{
-              display: 'flex',
-              alignItems: 'center',
-              gap: '8px',
-              padding: '10px 32px',
-              fontSize: '14px',
-              fontWeight: 600,
-              borderRadius: '12px',
-              border: 'none',
-              color: colors.white,
-              background: isProcessing || !crop ? colors.slate400 : `linear-gradient(to right, ${colors.indigo600}, ${colors.blue600})`,
-              cursor: isProcessing || !crop ? 'not-allowed' : 'pointer',
-              boxShadow: '0 4px 12px rgba(79, 70, 229, 0.3)',
-              opacity: isProcessing || !crop ? 0.5 : 1,
-            }}
-          >
-            {isProcessing ? (
-              <>
-                <div
-                  style={{
-                    width: '16px',
-                    height: '16px',
-                    border: `2px solid ${colors.white}`,
-                    borderTopColor: 'transparent',
-                    borderRadius: '50%',
-                    animation: 'spin 1s linear infinite',
-                  }}
-                />
-                Processing...
-              </>
-            ) : (
-              <>
-                <svg style={{ width: '20px', height: '20px' }} fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                </svg>
-                Apply & Upload
-              </>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <button
+              onClick={onCancel}
+              style={{
+                padding: '10px 20px',
+                fontSize: '14px',
+                fontWeight: 500,
+                borderRadius: '12px',
+                backgroundColor: 'transparent',
+                border: 'none',
+                color: colors.slate600,
+                cursor: 'pointer',
+              }}
+            >
+              Skip Editing
+            </button>
+            <button type="button" onClick={resetAll} style={buttonStyle}>
+              Reset All
+            </button>
+          </div>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '16px' }}>
+            {/* Output info */}
+            {outputSize && (
+              <div style={{ fontSize: '14px', color: colors.slate500 }}>
+                Output: <span style={{ fontFamily: 'monospace', fontWeight: 500, color: colors.slate700 }}>{outputSize.width} × {outputSize.height}px</span>
+              </div>
             )}
-          </button>
+            <button
+              onClick={handleSave}
+              disabled={isProcessing || !sourceImage}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                padding: '10px 32px',
+                fontSize: '14px',
+                fontWeight: 600,
+                borderRadius: '12px',
+                border: 'none',
+                color: colors.white,
+                background: isProcessing || !sourceImage ? colors.slate400 : `linear-gradient(to right, ${colors.indigo600}, ${colors.blue600})`,
+                cursor: isProcessing || !sourceImage ? 'not-allowed' : 'pointer',
+                boxShadow: '0 4px 12px rgba(79, 70, 229, 0.3)',
+                opacity: isProcessing || !sourceImage ? 0.5 : 1,
+              }}
+            >
+              {isProcessing ? (
+                <>
+                  <div
+                    style={{
+                      width: '16px',
+                      height: '16px',
+                      border: `2px solid ${colors.white}`,
+                      borderTopColor: 'transparent',
+                      borderRadius: '50%',
+                      animation: 'spin 1s linear infinite',
+                    }}
+                  />
+                  Processing...
+                </>
+              ) : (
+                <>
+                  <svg style={{ width: '20px', height: '20px' }} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                  </svg>
+                  Apply & Upload
+                </>
+              )}
+            </button>
+          </div>
         </div>
       </div>
     </div>
   )
 }
+
+function ControlSection({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+      <h4 style={{ fontSize: '12px', fontWeight: 600, textTransform: 'uppercase', letterSpacing: '0.05em', color: colors.slate500, margin: 0 }}>
+        {title}
+      </h4>
+      {children}
+    </section>
+  )
+}
+
+interface SliderControlProps {
+  label: string
+  value: number
+  min: number
+  max: number
+  step?: number
+  unit: string
+  onChange: (value: number) => void
+  onCommit: () => void // Drag finished; the next change starts a new undo step
+}
+
+function SliderControl({ label, value, min, max, step = 1, unit, onChange, onCommit }: SliderControlProps) {
+  return (
+    <label style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '13px', fontWeight: 500, color: colors.slate700 }}>
+      <span style={{ display: 'flex', justifyContent: 'space-between' }}>
+        {label}
+        <span style={{ fontFamily: 'monospace', color: colors.slate500 }}>{value}{unit}</span>
+      </span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        onPointerUp={onCommit}
+        onKeyUp={onCommit}
+        onBlur={onCommit}
+        style={{ width: '100%', cursor: 'pointer', accentColor: colors.indigo600 }}
+      />
+    </label>
+  )
+}
@@ -0,0 +1,220 @@
+'use client'
+
+import { useRef, useState, type CSSProperties } from 'react'
+import { useMediaManager } from './MediaManagerProvider'
+import type { ArchiveConflictMode, ArchiveImportReport } from './types'
+
+// Dark theme color palette
+const colors = {
+  backdrop: 'rgba(0, 0, 0, 0.85)',
+  modalBg: '#0a0e1a',
+  headerBg: '#0f1422',
+  cardBg: '#151b2b',
+  inputBg: '#1a2234',
+  border: '#1e2739',
+  borderLight: '#2d3748',
+  textPrimary: '#f1f5f9',
+  textSecondary: '#94a3b8',
+  textMuted: '#64748b',
+  primary: '#3b82f6',
+  success: '#10b981',
+  error: '#ef4444',
+  white: '#ffffff',
+}
+
+const buttonStyle: CSSProperties = {
+  padding: '10px 18px',
+  fontSize: '14px',
+  fontWeight: 600,
+  borderRadius: '10px',
+  border: `1px solid ${colors.borderLight}`,
+  backgroundColor: colors.cardBg,
+  color: colors.textSecondary,
+  cursor: 'pointer',
+}
+
+const conflictOptions: { value: ArchiveConflictMode; label: string; description: string }[] = [
+  { value: 'skip', label: 'Skip', description: 'Leave existing items as they are' },
+  { value: 'update', label: 'Update', description: 'Overwrite their details and folder from the archive, keeping their files' },
+  { value: 'copy', label: 'Keep both', description: 'Import every file as a new item' },
+]
+
+interface ImportArchiveDialogProps {
+  onClose: () => void
+}
+
+/**
+ * Import a ZIP exported from the media library into the current folder
+ * Folders from the archive are recreated under it; existing items are matched by filename or file content
+ */
+export function ImportArchiveDialog({ onClose }: ImportArchiveDialogProps) {
+  const { currentFolder, importMediaArchive } = useMediaManager()
+
+  const [file, setFile] = useState<File | null>(null)
+  const [conflict, setConflict] = useState<ArchiveConflictMode>('skip')
+  const [isImporting, setIsImporting] = useState(false)
+  const [report, setReport] = useState<ArchiveImportReport | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleImport = async () => {
+    if (!file) return
+    setIsImporting(true)
+    try {
+      setReport(await importMediaArchive(file, { conflict, folderId: currentFolder?.id || null }))
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 1000003,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: colors.backdrop,
+        padding: '24px',
+      }}
+      onClick={isImporting ? undefined : onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-archive-title"
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          width: '100%',
+          maxWidth: '520px',
+          maxHeight: '90vh',
+          display: 'flex',
+          flexDirection: 'column',
+          borderRadius: '16px',
+          overflow: 'hidden',
+          backgroundColor: colors.modalBg,
+          border: `1px solid ${colors.border}`,
+          boxShadow: '0 25px 50px rgba(0, 0, 0, 0.5)',
+        }}
+      >
+        {/* Header */}
+        <div style={{ padding: '20px 24px', backgroundColor: colors.headerBg, borderBottom: `1px solid ${colors.border}` }}>
+          <h2 id="import-archive-title" style={{ fontSize: '18px', fontWeight: 700, margin: 0, color: colors.textPrimary }}>
+            Import ZIP
+          </h2>
+          <p style={{ fontSize: '14px', margin: '8px 0 0', color: colors.textSecondary }}>
+            Into <strong style={{ color: colors.textPrimary }}>{currentFolder?.name || 'All Media'}</strong>
+          </p>
+        </div>
+
+        {report ? (
+          /* Result */
+          <div style={{ padding: '20px 24px', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+            <p style={{ fontSize: '14px', margin: 0, color: colors.textPrimary }}>
+              {report.created} created, {report.updated} updated, {report.skipped} skipped
+              {report.foldersCreated > 0 && `, ${report.foldersCreated} folders created`}
+            </p>
+            {report.failed.length > 0 && (
+              <>
+                <p style={{ fontSize: '14px', margin: '8px 0 0', fontWeight: 600, color: colors.error }}>
+                  {report.failed.length} failed
+                </p>
+                {report.failed.map(({ file: failedFile, error }) => (
+                  <p key={failedFile} style={{ fontSize: '12px', margin: 0, color: colors.textSecondary, wordBreak: 'break-all' }}>
+                    {failedFile}: <span style={{ color: colors.textMuted }}>{error}</span>
+                  </p>
+                ))}
+              </>
+            )}
+          </div>
+        ) : (
+          /* Options */
+          <div style={{ padding: '20px 24px', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '16px' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+              <button type="button" onClick={() => fileInputRef.current?.click()} style={buttonStyle}>
+                Choose File
+              </button>
+              <span style={{ fontSize: '14px', color: file ? colors.textPrimary : colors.textMuted, wordBreak: 'break-all' }}>
+                {file ? file.name : 'No archive selected'}
+              </span>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".zip,application/zip"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                style={{ display: 'none' }}
+              />
+            </div>
+
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+              <p style={{ fontSize: '13px', fontWeight: 600, margin: 0, color: colors.textSecondary }}>
+                When a file is already in the library
+              </p>
+              {conflictOptions.map((option) => (
+                <label
+                  key={option.value}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'flex-start',
+                    gap: '12px',
+                    padding: '10px 12px',
+                    borderRadius: '10px',
+                    border: `1px solid ${conflict === option.value ? colors.primary : colors.border}`,
+                    backgroundColor: colors.cardBg,
+                    cursor: 'pointer',
+                  }}
+                >
+                  <input
+                    type="radio"
+                    name="archive-conflict"
+                    checked={conflict === option.value}
+                    onChange={() => setConflict(option.value)}
+                    style={{ accentColor: colors.primary, marginTop: '3px' }}
+                  />
+                  <div>
+                    <p style={{ fontSize: '14px', margin: 0, color: colors.textPrimary }}>{option.label}</p>
+                    <p style={{ fontSize: '12px', margin: '2px 0 0', color: colors.textMuted }}>{option.description}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div
+          style={{
+            padding: '16px 24px',
+            borderTop: `1px solid ${colors.border}`,
+            backgroundColor: colors.headerBg,
+            display: 'flex',
+            justifyContent: 'flex-end',
+            gap: '8px',
+          }}
+        >
+          <button type="button" disabled={isImporting} onClick={onClose} style={buttonStyle}>
+            {report ? 'Done' : 'Cancel'}
+          </button>
+          {!report && (
+            <button
+              type="button"
+              disabled={!file || isImporting}
+              onClick={handleImport}
+              style={{
+                ...buttonStyle,
+                border: 'none',
+                backgroundColor: colors.primary,
+                color: colors.white,
+                opacity: !file || isImporting ? 0.5 : 1,
+                cursor: !file || isImporting ? 'not-allowed' : 'pointer',
+              }}
+            >
+              {isImporting ? 'Importing...' : 'Import'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
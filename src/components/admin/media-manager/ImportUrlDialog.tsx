@@ -0,0 +1,157 @@
+'use client'
+
+import { useState, type CSSProperties, type FormEvent } from 'react'
+import { useMediaManager } from './MediaManagerProvider'
+
+// Dark theme color palette
+const colors = {
+  backdrop: 'rgba(0, 0, 0, 0.85)',
+  modalBg: '#0a0e1a',
+  headerBg: '#0f1422',
+  cardBg: '#151b2b',
+  inputBg: '#1a2234',
+  border: '#1e2739',
+  borderLight: '#2d3748',
+  borderFocus: '#3b82f6',
+  textPrimary: '#f1f5f9',
+  textSecondary: '#94a3b8',
+  textMuted: '#64748b',
+  primary: '#3b82f6',
+  white: '#ffffff',
+}
+
+const buttonStyle: CSSProperties = {
+  padding: '10px 18px',
+  fontSize: '14px',
+  fontWeight: 600,
+  borderRadius: '10px',
+  border: `1px solid ${colors.borderLight}`,
+  backgroundColor: colors.cardBg,
+  color: colors.textSecondary,
+  cursor: 'pointer',
+}
+
+interface ImportUrlDialogProps {
+  onClose: () => void
+}
+
+/**
+ * Asks for the URL of an image, video, audio file or PDF to add to the library
+ * The file is downloaded by the server, then opens in the metadata form like any upload
+ */
+export function ImportUrlDialog({ onClose }: ImportUrlDialogProps) {
+  const { importFromUrl } = useMediaManager()
+
+  const [url, setUrl] = useState('')
+  const [isFetching, setIsFetching] = useState(false)
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!url.trim()) return
+
+    setIsFetching(true)
+    const imported = await importFromUrl(url.trim())
+    setIsFetching(false)
+
+    if (imported) onClose()
+  }
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 1000003,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: colors.backdrop,
+        padding: '24px',
+      }}
+      onClick={isFetching ? undefined : onClose}
+    >
+      <form
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-url-title"
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={handleSubmit}
+        style={{
+          width: '100%',
+          maxWidth: '520px',
+          borderRadius: '16px',
+          overflow: 'hidden',
+          backgroundColor: colors.modalBg,
+          border: `1px solid ${colors.border}`,
+          boxShadow: '0 25px 50px rgba(0, 0, 0, 0.5)',
+        }}
+      >
+        {/* Header */}
+        <div style={{ padding: '20px 24px', backgroundColor: colors.headerBg, borderBottom: `1px solid ${colors.border}` }}>
+          <h2 id="import-url-title" style={{ fontSize: '18px', fontWeight: 700, margin: 0, color: colors.textPrimary }}>
+            Import from URL
+          </h2>
+          <p style={{ fontSize: '14px', margin: '8px 0 0', color: colors.textSecondary }}>
+            Images, video, audio and PDFs up to 100 MB. The URL is saved as the original source.
+          </p>
+        </div>
+
+        {/* URL */}
+        <div style={{ padding: '20px 24px' }}>
+          <input
+            type="url"
+            autoFocus
+            required
+            value={url}
+            disabled={isFetching}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/photo.jpg"
+            style={{
+              width: '100%',
+              padding: '12px 14px',
+              fontSize: '14px',
+              borderRadius: '10px',
+              backgroundColor: colors.inputBg,
+              border: `1px solid ${colors.borderLight}`,
+              color: colors.textPrimary,
+              outline: 'none',
+              boxSizing: 'border-box',
+            }}
+            onFocus={(e) => e.target.style.borderColor = colors.borderFocus}
+            onBlur={(e) => e.target.style.borderColor = colors.borderLight}
+          />
+        </div>
+
+        {/* Actions */}
+        <div
+          style={{
+            padding: '16px 24px',
+            borderTop: `1px solid ${colors.border}`,
+            backgroundColor: colors.headerBg,
+            display: 'flex',
+            justifyContent: 'flex-end',
+            gap: '8px',
+          }}
+        >
+          <button type="button" disabled={isFetching} onClick={onClose} style={buttonStyle}>
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!url.trim() || isFetching}
+            style={{
+              ...buttonStyle,
+              border: 'none',
+              backgroundColor: colors.primary,
+              color: colors.white,
+              opacity: !url.trim() || isFetching ? 0.5 : 1,
+              cursor: !url.trim() || isFetching ? 'not-allowed' : 'pointer',
+            }}
+          >
+            {isFetching ? 'Downloading...' : 'Continue'}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
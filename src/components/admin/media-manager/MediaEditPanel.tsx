@@ -2,8 +2,10 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import Image from 'next/image'
+import { mediaImageSizes } from '@/collections/Media/imageSizes'
 import { useMediaManager } from './MediaManagerProvider'
-import type { MediaItem } from './types'
+import { SizeCropDialog } from './SizeCropDialog'
+import type { FileVersionInfo, MediaItem, MediaRevision, MediaUsage, SizeCrop } from './types'
 
 // Dark theme color palette matching MediaGrid, Modal, and FolderTree
 const colors = {
@@ -68,6 +70,7 @@ export function MediaEditPanel({ media, onClose }: MediaEditPanelProps) {
   const [tags, setTags] = useState<string[]>(media.tags || [])
   const [tagInput, setTagInput] = useState('')
   const [featured, setFeatured] = useState(media.featured || false)
+  const [visibility, setVisibility] = useState(media.visibility || 'public')
 
   // Video metadata state
   const [videoDuration, setVideoDuration] = useState<number | undefined>(media.videoMeta?.duration)
@@ -91,6 +94,7 @@ export function MediaEditPanel({ media, onClose }: MediaEditPanelProps) {
       description !== (media.description || '') ||
       mediaType !== (media.mediaType || 'image') ||
       featured !== (media.featured || false) ||
+      visibility !== (media.visibility || 'public') ||
       JSON.stringify(tags) !== JSON.stringify(media.tags || []) ||
       // Video metadata changes
       videoDuration !== media.videoMeta?.duration ||
@@ -102,7 +106,7 @@ export function MediaEditPanel({ media, onClose }: MediaEditPanelProps) {
       seoCopyright !== (media.seoMeta?.copyrightInfo || '') ||
       seoSource !== (media.seoMeta?.originalSource || '')
     setHasChanges(changed)
-  }, [alt, caption, description, mediaType, tags, featured, videoDuration, videoAutoplay, videoMuted, seoKeywords, seoPhotographer, seoCopyright, seoSource, media])
+  }, [alt, caption, description, mediaType, tags, featured, visibility, videoDuration, videoAutoplay, videoMuted, seoKeywords, seoPhotographer, seoCopyright, seoSource, media])
 
   // Handle tag add
   const addTag = useCallback(() => {
@@ -129,6 +133,7 @@ export function MediaEditPanel({ media, onClose }: MediaEditPanelProps) {
         alt,
         mediaType,
         featured,
+        visibility,
       }
       if (caption) updateData.caption = caption
       if (description) updateData.description = description
@@ -160,7 +165,7 @@ export function MediaEditPanel({ media, onClose }: MediaEditPanelProps) {
     } finally {
       setIsSaving(false)
     }
-  }, [hasChanges, updateMedia, media.id, alt, caption, description, mediaType, tags, featured, videoDuration, videoAutoplay, videoMuted, seoKeywords, seoPhotographer, seoCopyright, seoSource, onClose])
+  }, [hasChanges, updateMedia, media.id, alt, caption, description, mediaType, tags, featured, visibility, videoDuration, videoAutoplay, videoMuted, seoKeywords, seoPhotographer, seoCopyright, seoSource, onClose])
 
   return (
     <div
@@ -409,6 +414,45 @@ export function MediaEditPanel({ media, onClose }: MediaEditPanelProps) {
             </select>
           </div>
 
+          {/* Visibility */}
+          <div>
+            <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: 500, marginBottom: '0.5rem', color: colors.textPrimary }}>
+              Visibility
+            </label>
+            <select
+              value={visibility}
+              onChange={(e) => setVisibility(e.target.value as 'public' | 'authenticated' | 'private')}
+              style={{
+                width: '100%',
+                padding: '0.75rem 1rem',
+                fontSize: '1rem',
+                border: `1px solid ${colors.border}`,
+                borderRadius: '0.75rem',
+                outline: 'none',
+                transition: 'all 0.2s ease',
+                appearance: 'none',
+                backgroundColor: colors.inputBg,
+                color: colors.textPrimary,
+                cursor: 'pointer',
+              }}
+              onFocus={(e) => {
+                e.currentTarget.style.borderColor = colors.borderFocus
+                e.currentTarget.style.boxShadow = `0 0 0 3px ${colors.primary}20`
+              }}
+              onBlur={(e) => {
+                e.currentTarget.style.borderColor = colors.border
+                e.currentTarget.style.boxShadow = 'none'
+              }}
+            >
+              <option value="public">Public</option>
+              <option value="authenticated">Logged-in users</option>
+              <option value="private">Private (signed links only)</option>
+            </select>
+            <p style={{ fontSize: '0.75rem', marginTop: '0.375rem', color: colors.textMuted }}>
+              Copying the URL of a file that isn&apos;t public creates a link that expires after a day
+            </p>
+          </div>
+
           {/* Tags */}
           <div>
             <label style={{ display: 'block', fontSize: '0.875rem', fontWeight: 500, marginBottom: '0.5rem', color: colors.textPrimary }}>
@@ -790,6 +834,14 @@ export function MediaEditPanel({ media, onClose }: MediaEditPanelProps) {
             </div>
           </div>
 
+          {/* Used In */}
+          <UsageList mediaId={media.id} />
+
+          {/* File History */}
+          {(media.fileVersion?.kind || (media.revisions && media.revisions.length > 0)) && (
+            <FileHistory media={media} />
+          )}
+
           {/* File Info */}
           <div
             style={{
@@ -823,6 +875,14 @@ export function MediaEditPanel({ media, onClose }: MediaEditPanelProps) {
               </div>
             </dl>
           </div>
+
+          {/* Embedded Metadata */}
+          {media.embeddedMetadata && <EmbeddedMetadataInfo metadata={media.embeddedMetadata} />}
+
+          {/* Image Size Crops */}
+          {media.mimeType?.startsWith('image/') && media.mimeType !== 'image/svg+xml' && (
+            <SizeCropList media={media} />
+          )}
           </div>
         </div>
 
@@ -920,6 +980,391 @@ export function MediaEditPanel({ media, onClose }: MediaEditPanelProps) {
   )
 }
 
+/**
+ * Pages, posts and globals that reference this media item
+ */
+function UsageList({ mediaId }: { mediaId: string }) {
+  const { getMediaUsage } = useMediaManager()
+  const [usages, setUsages] = useState<MediaUsage[] | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+
+    getMediaUsage(mediaId).then((result) => {
+      if (cancelled) return
+      setUsages(result)
+      setIsLoading(false)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [mediaId, getMediaUsage])
+
+  return (
+    <div
+      style={{
+        padding: '1rem',
+        borderRadius: '0.75rem',
+        border: `1px solid ${colors.border}`,
+        backgroundColor: colors.cardBg,
+      }}
+    >
+      <h4 style={{ fontSize: '0.875rem', fontWeight: 500, marginBottom: '0.75rem', color: colors.textPrimary }}>
+        Used In{usages && usages.length > 0 ? ` (${usages.length})` : ''}
+      </h4>
+
+      {isLoading ? (
+        <p style={{ fontSize: '0.875rem', margin: 0, color: colors.textMuted }}>Checking references...</p>
+      ) : usages === null ? (
+        <p style={{ fontSize: '0.875rem', margin: 0, color: colors.error }}>Could not load references</p>
+      ) : usages.length === 0 ? (
+        <p style={{ fontSize: '0.875rem', margin: 0, color: colors.textMuted }}>
+          Not used in any pages, posts or globals
+        </p>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+          {usages.map((usage) => (
+            <a
+              key={usage.id}
+              href={usage.adminUrl}
+              target="_blank"
+              rel="noreferrer"
+              style={{
+                display: 'block',
+                padding: '0.5rem 0.75rem',
+                borderRadius: '0.5rem',
+                backgroundColor: colors.inputBg,
+                textDecoration: 'none',
+              }}
+            >
+              <p style={{ fontSize: '0.875rem', margin: 0, color: colors.textAccent }}>
+                {usage.documentTitle}
+                {usage.status === 'draft' && (
+                  <span style={{ marginLeft: '0.5rem', fontSize: '0.75rem', color: colors.warning }}>Draft</span>
+                )}
+              </p>
+              <p style={{ fontSize: '0.75rem', margin: '0.125rem 0 0', color: colors.textMuted }}>
+                {usage.sourceLabel} · {usage.fieldPath}
+              </p>
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+const versionLabels: Record<NonNullable<FileVersionInfo['kind']>, string> = {
+  original: 'Original upload',
+  edit: 'Edited',
+  revert: 'Restored',
+}
+
+/**
+ * File history: the current file plus archived revisions with preview and restore
+ */
+function FileHistory({ media }: { media: MediaItem }) {
+  const { revertToRevision } = useMediaManager()
+  const [previewId, setPreviewId] = useState<string | null>(null)
+  const [revertingId, setRevertingId] = useState<string | null>(null)
+
+  const revisions = (media.revisions || []).filter(
+    (revision): revision is MediaRevision & { file: Exclude<MediaRevision['file'], string> } =>
+      typeof revision.file === 'object' && revision.file !== null,
+  )
+
+  const handleRevert = useCallback(async (revisionId: string) => {
+    if (!confirm('Restore this version? The current file will be kept in the history.')) return
+
+    setRevertingId(revisionId)
+    try {
+      await revertToRevision(media.id, revisionId)
+      setPreviewId(null)
+    } finally {
+      setRevertingId(null)
+    }
+  }, [media.id, revertToRevision])
+
+  return (
+    <div
+      style={{
+        padding: '1rem',
+        borderRadius: '0.75rem',
+        border: `1px solid ${colors.border}`,
+        backgroundColor: colors.cardBg,
+      }}
+    >
+      <h4 style={{ fontSize: '0.875rem', fontWeight: 500, marginBottom: '0.75rem', color: colors.textPrimary }}>
+        File History
+      </h4>
+
+      {/* Current file */}
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.875rem', marginBottom: revisions.length > 0 ? '0.75rem' : 0 }}>
+        <span style={{ color: colors.textPrimary }}>
+          Current · {versionLabels[media.fileVersion?.kind || 'original']}
+        </span>
+        <span style={{ color: colors.textMuted }}>
+          {describeSaved(media.fileVersion || { savedAt: media.createdAt })}
+        </span>
+      </div>
+
+      {/* Archived revisions, newest first */}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+        {revisions.map((revision) => {
+          const file = revision.file
+          const thumbnailUrl = file.sizes?.thumbnail?.url || file.url || ''
+          const isPreviewing = previewId === file.id
+
+          return (
+            <div
+              key={revision.id || file.id}
+              style={{
+                padding: '0.5rem',
+                borderRadius: '0.5rem',
+                border: `1px solid ${isPreviewing ? colors.primary : colors.border}`,
+                backgroundColor: colors.inputBg,
+              }}
+            >
+              <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+                <button
+                  type="button"
+                  onClick={() => setPreviewId(isPreviewing ? null : file.id)}
+                  title="Preview"
+                  style={{
+                    width: '3rem',
+                    height: '3rem',
+                    flexShrink: 0,
+                    padding: 0,
+                    borderRadius: '0.375rem',
+                    overflow: 'hidden',
+                    border: 'none',
+                    cursor: 'pointer',
+                    backgroundColor: colors.cardBg,
+                  }}
+                >
+                  {thumbnailUrl && (
+                    <Image
+                      unoptimized
+                      src={thumbnailUrl}
+                      alt=""
+                      width={48}
+                      height={48}
+                      style={{ width: '100%', height: '100%', objectFit: 'cover' }}
+                    />
+                  )}
+                </button>
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <p style={{ fontSize: '0.875rem', margin: 0, color: colors.textPrimary }}>
+                    {versionLabels[revision.kind || 'original']}
+                    {file.width && file.height ? ` · ${file.width} × ${file.height}px` : ''}
+                  </p>
+                  <p style={{ fontSize: '0.75rem', margin: '0.125rem 0 0', color: colors.textMuted }}>
+                    {describeSaved(revision)}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleRevert(file.id)}
+                  disabled={revertingId !== null}
+                  style={{
+                    padding: '0.375rem 0.75rem',
+                    fontSize: '0.75rem',
+                    fontWeight: 600,
+                    borderRadius: '0.5rem',
+                    border: `1px solid ${colors.borderLight}`,
+                    backgroundColor: 'transparent',
+                    color: colors.textSecondary,
+                    cursor: revertingId !== null ? 'not-allowed' : 'pointer',
+                    opacity: revertingId !== null && revertingId !== file.id ? 0.5 : 1,
+                  }}
+                >
+                  {revertingId === file.id ? 'Restoring...' : 'Restore'}
+                </button>
+              </div>
+
+              {isPreviewing && (
+                <div
+                  style={{
+                    marginTop: '0.5rem',
+                    aspectRatio: '16 / 9',
+                    borderRadius: '0.5rem',
+                    overflow: 'hidden',
+                    backgroundColor: colors.cardBg,
+                  }}
+                >
+                  <Image
+                    unoptimized
+                    src={file.sizes?.card?.url || file.url || ''}
+                    alt={`Previous version of ${media.filename}`}
+                    width={800}
+                    height={450}
+                    style={{ width: '100%', height: '100%', objectFit: 'contain' }}
+                  />
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Read-only EXIF, IPTC and XMP details read from the file on upload
+ */
+/**
+ * Image sizes with their art-directed crop, if any. Crops saved here are stored on the
+ * media item right away, separately from the form above.
+ */
+function SizeCropList({ media }: { media: MediaItem }) {
+  const [sizeCrops, setSizeCrops] = useState<SizeCrop[]>(media.sizeCrops || [])
+  const [editingSize, setEditingSize] = useState<SizeCrop['size'] | null>(null)
+
+  return (
+    <div
+      style={{
+        padding: '1rem',
+        borderRadius: '0.75rem',
+        border: `1px solid ${colors.border}`,
+        backgroundColor: colors.cardBg,
+      }}
+    >
+      <h4 style={{ fontSize: '0.875rem', fontWeight: 500, marginBottom: '0.25rem', color: colors.textPrimary }}>
+        Image Size Crops
+      </h4>
+      <p style={{ fontSize: '0.75rem', margin: '0 0 0.75rem', color: colors.textMuted }}>
+        Replace the focal point crop for individual sizes
+      </p>
+      <ul style={{ listStyle: 'none', padding: 0, margin: 0, display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+        {mediaImageSizes.map(({ name, width, height }) => {
+          const crop = sizeCrops.find(row => row.size === name)
+
+          return (
+            <li key={name} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', fontSize: '0.875rem' }}>
+              <span style={{ color: colors.textSecondary }}>
+                {name.charAt(0).toUpperCase() + name.slice(1)}
+                <span style={{ color: colors.textMuted }}> · {width}{height ? ` × ${height}` : ''}px</span>
+                {crop && <span style={{ color: colors.success }}> · Custom crop</span>}
+              </span>
+              <button
+                onClick={() => setEditingSize(name as SizeCrop['size'])}
+                style={{
+                  padding: '0.25rem 0.75rem',
+                  fontSize: '0.75rem',
+                  fontWeight: 500,
+                  borderRadius: '0.5rem',
+                  border: `1px solid ${colors.borderLight}`,
+                  backgroundColor: 'transparent',
+                  color: colors.textAccent,
+                  cursor: 'pointer',
+                }}
+              >
+                {crop ? 'Edit crop' : 'Set crop'}
+              </button>
+            </li>
+          )
+        })}
+      </ul>
+
+      {editingSize && (
+        <SizeCropDialog
+          media={{ ...media, sizeCrops }}
+          size={editingSize}
+          onSaved={(updated) => {
+            setSizeCrops(updated.sizeCrops || [])
+            setEditingSize(null)
+          }}
+          onClose={() => setEditingSize(null)}
+        />
+      )}
+    </div>
+  )
+}
+
+function EmbeddedMetadataInfo({ metadata }: { metadata: NonNullable<MediaItem['embeddedMetadata']> }) {
+  const { capturedAt, latitude, longitude, raw } = metadata
+  const hasLocation = typeof latitude === 'number' && typeof longitude === 'number'
+  const rawBlocks = Object.entries(raw || {}).filter(([, values]) => values && Object.keys(values).length > 0)
+
+  if (!capturedAt && !hasLocation && rawBlocks.length === 0) return null
+
+  return (
+    <div
+      style={{
+        padding: '1rem',
+        borderRadius: '0.75rem',
+        border: `1px solid ${colors.border}`,
+        backgroundColor: colors.cardBg,
+      }}
+    >
+      <h4 style={{ fontSize: '0.875rem', fontWeight: 500, marginBottom: '0.75rem', color: colors.textPrimary }}>
+        Embedded Metadata
+      </h4>
+      <dl style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', fontSize: '0.875rem', margin: 0 }}>
+        {capturedAt && (
+          <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+            <dt style={{ color: colors.textMuted }}>Captured</dt>
+            <dd style={{ color: colors.textSecondary, margin: 0 }}>{formatDateTime(capturedAt)}</dd>
+          </div>
+        )}
+        {hasLocation && (
+          <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+            <dt style={{ color: colors.textMuted }}>Location</dt>
+            <dd style={{ margin: 0 }}>
+              <a
+                href={`https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=15/${latitude}/${longitude}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                style={{ color: colors.textAccent }}
+              >
+                {latitude.toFixed(5)}, {longitude.toFixed(5)}
+              </a>
+            </dd>
+          </div>
+        )}
+      </dl>
+
+      {rawBlocks.map(([block, values]) => (
+        <details key={block} style={{ marginTop: '0.75rem' }}>
+          <summary style={{ fontSize: '0.75rem', fontWeight: 600, cursor: 'pointer', color: colors.textSecondary }}>
+            {block.toUpperCase()} ({Object.keys(values).length})
+          </summary>
+          <dl style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem', fontSize: '0.75rem', margin: '0.5rem 0 0' }}>
+            {Object.entries(values).map(([key, value]) => (
+              <div key={key} style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem' }}>
+                <dt style={{ color: colors.textMuted }}>{key}</dt>
+                <dd style={{ color: colors.textSecondary, margin: 0, textAlign: 'right', wordBreak: 'break-word' }}>
+                  {Array.isArray(value) ? value.join(', ') : String(value)}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </details>
+      ))}
+    </div>
+  )
+}
+
+function describeSaved({ savedBy, savedAt }: FileVersionInfo): string {
+  const who = typeof savedBy === 'object' && savedBy ? savedBy.name || savedBy.email : null
+  const when = savedAt ? formatDateTime(savedAt) : null
+  return [who, when].filter(Boolean).join(' · ') || 'Unknown'
+}
+
+function formatDateTime(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
 function formatFileSize(bytes: number): string {
   if (bytes === 0) return '0 B'
   const k = 1024
@@ -0,0 +1,341 @@
+'use client'
+
+import { useEffect, useState, type CSSProperties, type ReactNode } from 'react'
+import { useMediaManager } from './MediaManagerProvider'
+import { countActiveFilters, MEDIA_SORT_OPTIONS } from './mediaFilters'
+import type { MediaFilters, MediaSort } from './types'
+
+// Dark theme color palette
+const colors = {
+  headerBg: '#0f1422',
+  cardBg: '#151b2b',
+  inputBg: '#1a2234',
+  border: '#1e2739',
+  borderLight: '#2d3748',
+  textPrimary: '#f1f5f9',
+  textSecondary: '#94a3b8',
+  textMuted: '#64748b',
+  primary: '#3b82f6',
+  white: '#ffffff',
+}
+
+const BYTES_PER_MB = 1024 * 1024
+
+const controlStyle: CSSProperties = {
+  padding: '8px 12px',
+  fontSize: '13px',
+  borderRadius: '8px',
+  backgroundColor: colors.inputBg,
+  border: `1px solid ${colors.borderLight}`,
+  color: colors.textPrimary,
+  outline: 'none',
+  boxSizing: 'border-box',
+}
+
+const labelStyle: CSSProperties = {
+  display: 'block',
+  fontSize: '12px',
+  fontWeight: 600,
+  marginBottom: '6px',
+  color: colors.textMuted,
+  textTransform: 'uppercase',
+  letterSpacing: '0.05em',
+}
+
+/**
+ * Sort and filter controls shown above the media grid
+ * Changes apply immediately and are saved to the user's preferences
+ */
+export function MediaFilterBar() {
+  const { filters, sort, setFilters, resetFilters, setSort } = useMediaManager()
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  const activeCount = countActiveFilters(filters)
+
+  return (
+    <div
+      style={{
+        flexShrink: 0,
+        padding: '12px 32px',
+        backgroundColor: colors.headerBg,
+        borderBottom: `1px solid ${colors.border}`,
+      }}
+    >
+      {/* Always visible: sort, media type and the panel toggle */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '12px', flexWrap: 'wrap' }}>
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as MediaSort)}
+          aria-label="Sort media"
+          style={controlStyle}
+        >
+          {MEDIA_SORT_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+
+        <select
+          value={filters.mediaType || ''}
+          onChange={(e) => setFilters({ mediaType: (e.target.value || null) as MediaFilters['mediaType'] })}
+          aria-label="Media type"
+          style={controlStyle}
+        >
+          <option value="">All media types</option>
+          <option value="image">Images</option>
+          <option value="video">Videos</option>
+          <option value="audio">Audio</option>
+          <option value="document">Documents</option>
+        </select>
+
+        <button
+          type="button"
+          onClick={() => setIsExpanded(!isExpanded)}
+          style={{
+            ...controlStyle,
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            cursor: 'pointer',
+            fontWeight: 600,
+            borderColor: activeCount > 0 ? colors.primary : colors.borderLight,
+          }}
+        >
+          Filters
+          {activeCount > 0 && (
+            <span
+              style={{
+                padding: '0 8px',
+                borderRadius: '9999px',
+                fontSize: '12px',
+                backgroundColor: colors.primary,
+                color: colors.white,
+              }}
+            >
+              {activeCount}
+            </span>
+          )}
+          <span style={{ color: colors.textMuted }}>{isExpanded ? '▲' : '▼'}</span>
+        </button>
+
+        {activeCount > 0 && (
+          <button
+            type="button"
+            onClick={resetFilters}
+            style={{ background: 'none', border: 'none', padding: 0, fontSize: '13px', color: colors.textSecondary, cursor: 'pointer' }}
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {/* Full filter panel */}
+      {isExpanded && (
+        <div
+          style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fill, minmax(220px, 1fr))',
+            gap: '16px',
+            marginTop: '16px',
+            padding: '16px',
+            borderRadius: '12px',
+            backgroundColor: colors.cardBg,
+            border: `1px solid ${colors.border}`,
+          }}
+        >
+          <FilterField label="File kind">
+            <select
+              value={filters.mimeFamily || ''}
+              onChange={(e) => setFilters({ mimeFamily: (e.target.value || null) as MediaFilters['mimeFamily'] })}
+              style={{ ...controlStyle, width: '100%' }}
+            >
+              <option value="">Any</option>
+              <option value="image">image/*</option>
+              <option value="video">video/*</option>
+              <option value="audio">audio/*</option>
+              <option value="application">application/* (PDF, archives…)</option>
+              <option value="text">text/*</option>
+            </select>
+          </FilterField>
+
+          <FilterField label="Featured">
+            <select
+              value={filters.featured === null ? '' : String(filters.featured)}
+              onChange={(e) => setFilters({ featured: e.target.value === '' ? null : e.target.value === 'true' })}
+              style={{ ...controlStyle, width: '100%' }}
+            >
+              <option value="">Any</option>
+              <option value="true">Featured only</option>
+              <option value="false">Not featured</option>
+            </select>
+          </FilterField>
+
+          <FilterField label="Orientation">
+            <select
+              value={filters.orientation || ''}
+              onChange={(e) => setFilters({ orientation: (e.target.value || null) as MediaFilters['orientation'] })}
+              style={{ ...controlStyle, width: '100%' }}
+            >
+              <option value="">Any</option>
+              <option value="landscape">Landscape</option>
+              <option value="portrait">Portrait</option>
+              <option value="square">Square</option>
+            </select>
+          </FilterField>
+
+          <FilterField label="Tags">
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <CommitInput
+                value={filters.tags.join(', ')}
+                placeholder="hero, team"
+                onCommit={(value) => setFilters({ tags: value.split(',').map(tag => tag.trim()).filter(Boolean) })}
+                style={{ ...controlStyle, flex: 1, minWidth: 0 }}
+              />
+              <select
+                value={filters.tagMatch}
+                onChange={(e) => setFilters({ tagMatch: e.target.value as MediaFilters['tagMatch'] })}
+                aria-label="Tag matching"
+                style={controlStyle}
+              >
+                <option value="any">Any</option>
+                <option value="all">All</option>
+              </select>
+            </div>
+          </FilterField>
+
+          <FilterField label="Uploaded between">
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <input
+                type="date"
+                value={filters.uploadedAfter || ''}
+                max={filters.uploadedBefore || undefined}
+                onChange={(e) => setFilters({ uploadedAfter: e.target.value || null })}
+                aria-label="Uploaded on or after"
+                style={{ ...controlStyle, flex: 1, minWidth: 0, colorScheme: 'dark' }}
+              />
+              <input
+                type="date"
+                value={filters.uploadedBefore || ''}
+                min={filters.uploadedAfter || undefined}
+                onChange={(e) => setFilters({ uploadedBefore: e.target.value || null })}
+                aria-label="Uploaded on or before"
+                style={{ ...controlStyle, flex: 1, minWidth: 0, colorScheme: 'dark' }}
+              />
+            </div>
+          </FilterField>
+
+          <FilterField label="Minimum size (px)">
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <CommitInput
+                type="number"
+                value={filters.minWidth?.toString() || ''}
+                placeholder="Width"
+                onCommit={(value) => setFilters({ minWidth: parsePositive(value) })}
+                style={{ ...controlStyle, flex: 1, minWidth: 0 }}
+              />
+              <CommitInput
+                type="number"
+                value={filters.minHeight?.toString() || ''}
+                placeholder="Height"
+                onCommit={(value) => setFilters({ minHeight: parsePositive(value) })}
+                style={{ ...controlStyle, flex: 1, minWidth: 0 }}
+              />
+            </div>
+          </FilterField>
+
+          <FilterField label="File size (MB)">
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <CommitInput
+                type="number"
+                value={formatMegabytes(filters.minFileSize)}
+                placeholder="Min"
+                onCommit={(value) => setFilters({ minFileSize: toBytes(value) })}
+                style={{ ...controlStyle, flex: 1, minWidth: 0 }}
+              />
+              <CommitInput
+                type="number"
+                value={formatMegabytes(filters.maxFileSize)}
+                placeholder="Max"
+                onCommit={(value) => setFilters({ maxFileSize: toBytes(value) })}
+                style={{ ...controlStyle, flex: 1, minWidth: 0 }}
+              />
+            </div>
+          </FilterField>
+
+          <FilterField label="Accessibility">
+            <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '13px', color: colors.textSecondary, cursor: 'pointer', paddingTop: '8px' }}>
+              <input
+                type="checkbox"
+                checked={filters.missingAlt}
+                onChange={(e) => setFilters({ missingAlt: e.target.checked })}
+                style={{ accentColor: colors.primary }}
+              />
+              Missing alt text only
+            </label>
+          </FilterField>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function FilterField({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div>
+      <span style={labelStyle}>{label}</span>
+      {children}
+    </div>
+  )
+}
+
+/**
+ * Text input that applies its value on blur or Enter instead of on every keystroke,
+ * so typing a number doesn't refetch the library for each digit
+ */
+function CommitInput({
+  value,
+  onCommit,
+  ...props
+}: {
+  value: string
+  onCommit: (value: string) => void
+  type?: string
+  placeholder?: string
+  style?: CSSProperties
+}) {
+  const [draft, setDraft] = useState(value)
+
+  useEffect(() => {
+    setDraft(value)
+  }, [value])
+
+  const commit = () => {
+    if (draft !== value) onCommit(draft)
+  }
+
+  return (
+    <input
+      {...props}
+      min={props.type === 'number' ? 0 : undefined}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit()
+      }}
+    />
+  )
+}
+
+function parsePositive(value: string): number | null {
+  const number = parseFloat(value)
+  return Number.isFinite(number) && number > 0 ? number : null
+}
+
+function toBytes(megabytes: string): number | null {
+  const number = parsePositive(megabytes)
+  return number === null ? null : Math.round(number * BYTES_PER_MB)
+}
+
+function formatMegabytes(bytes: number | null): string {
+  return bytes ? String(parseFloat((bytes / BYTES_PER_MB).toFixed(2))) : ''
+}
@@ -4,7 +4,8 @@ import { useState, useRef, useEffect } from 'react'
 import Image from 'next/image'
 import { createPortal } from 'react-dom'
 import { useMediaManager } from './MediaManagerProvider'
-import type { MediaItem, FolderItem } from './types'
+import { MEDIA_DRAG_TYPE } from './folders'
+import type { MediaItem, FolderItem, SelectionModifiers } from './types'
 
 // Dark theme color palette
 const colors = {
@@ -69,8 +70,8 @@ export function MediaGrid() {
   const {
     media,
     isLoading,
-    selectedMedia,
-    selectMedia,
+    selectedItems,
+    toggleMediaSelection,
     copyPublicUrl,
     deleteMedia,
     editMediaImage,
@@ -79,8 +80,13 @@ export function MediaGrid() {
     fetchMedia,
     folders,
     moveMediaToFolder,
+    modalOptions,
   } = useMediaManager()
 
+  // Field selectors that expect a single value only allow single selection
+  const canMultiSelect = modalOptions?.mode !== 'select' || Boolean(modalOptions.allowMultiple)
+  const isItemSelected = (item: MediaItem) => selectedItems.some(m => m.id === item.id)
+
   if (isLoading && media.length === 0) {
     return (
       <>
@@ -160,13 +166,14 @@ export function MediaGrid() {
             <MediaGridItem
               key={item.id}
               item={item}
-              isSelected={selectedMedia?.id === item.id}
-              onSelect={() => selectMedia(selectedMedia?.id === item.id ? null : item)}
-              onCopyUrl={() => copyPublicUrl(item.publicUrl || item.url)}
+              isSelected={isItemSelected(item)}
+              onSelect={(modifiers) => toggleMediaSelection(item, canMultiSelect ? modifiers : undefined)}
+              onCopyUrl={() => copyPublicUrl(item)}
               onDelete={() => deleteMedia(item.id)}
               onEditImage={() => editMediaImage(item)}
               folders={folders}
               onMoveToFolder={(folderId) => moveMediaToFolder(item.id, folderId)}
+              dragIds={isItemSelected(item) ? selectedItems.map(m => m.id) : [item.id]}
             />
           ))}
         </div>
@@ -277,18 +284,19 @@ export function MediaGrid() {
 interface MediaGridItemProps {
   item: MediaItem
   isSelected: boolean
-  onSelect: () => void
+  onSelect: (modifiers: SelectionModifiers) => void
   onCopyUrl: () => void
   onDelete: () => void
   onEditImage: () => void
   folders: FolderItem[]
   onMoveToFolder: (folderId: string | null) => void
+  dragIds: string[] // Items moved when this card is dropped on a folder
 }
 
 /**
  * Individual media item in the grid
  */
-function MediaGridItem({ item, isSelected, onSelect, onCopyUrl, onDelete, onEditImage, folders, onMoveToFolder }: MediaGridItemProps) {
+function MediaGridItem({ item, isSelected, onSelect, onCopyUrl, onDelete, onEditImage, folders, onMoveToFolder, dragIds }: MediaGridItemProps) {
   const [isHovered, setIsHovered] = useState(false)
   const [showActions, setShowActions] = useState(false)
   const [showFolderMenu, setShowFolderMenu] = useState(false)
@@ -339,12 +347,17 @@ function MediaGridItem({ item, isSelected, onSelect, onCopyUrl, onDelete, onEdit
         backgroundColor: colors.cardBg,
         border: `1px solid ${colors.border}`,
       }}
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData(MEDIA_DRAG_TYPE, JSON.stringify(dragIds))
+        e.dataTransfer.effectAllowed = 'move'
+      }}
       onClick={(e) => {
         const target = e.target as HTMLElement
         if (target.closest('button') || target.closest('a')) {
           return
         }
-        onSelect()
+        onSelect({ range: e.shiftKey, additive: e.metaKey || e.ctrlKey })
       }}
       onMouseEnter={() => {
         // Clear any pending leave timer
@@ -807,27 +820,38 @@ function MediaGridItem({ item, isSelected, onSelect, onCopyUrl, onDelete, onEdit
         document.body
       )}
 
-      {/* Selection indicator */}
-      {isSelected && (
-        <div
+      {/* Selection checkbox - click to add/remove without clearing the selection */}
+      {(isSelected || isHovered) && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation()
+            onSelect({ range: e.shiftKey, additive: true })
+          }}
+          title={isSelected ? 'Remove from selection' : 'Add to selection'}
           style={{
             position: 'absolute',
             top: '12px',
             left: '12px',
             width: '28px',
             height: '28px',
+            padding: 0,
             borderRadius: '50%',
             display: 'flex',
             alignItems: 'center',
             justifyContent: 'center',
             boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.3)',
-            backgroundColor: colors.primary,
+            backgroundColor: isSelected ? colors.primary : 'rgba(15, 20, 34, 0.7)',
+            border: isSelected ? 'none' : `2px solid ${colors.textSecondary}`,
+            cursor: 'pointer',
           }}
         >
-          <svg style={{ width: '16px', height: '16px', color: colors.white }} fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M5 13l4 4L19 7" />
-          </svg>
-        </div>
+          {isSelected && (
+            <svg style={{ width: '16px', height: '16px', color: colors.white, pointerEvents: 'none' }} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M5 13l4 4L19 7" />
+            </svg>
+          )}
+        </button>
       )}
     </div>
   )
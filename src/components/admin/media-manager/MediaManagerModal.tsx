@@ -9,6 +9,12 @@ import { ToastContainer } from './Toast'
 import { ImageEditor } from './ImageEditor'
 import { MediaUploadMetadataForm } from './MediaUploadMetadataForm'
 import { MediaEditPanel } from './MediaEditPanel'
+import { SelectionToolbar } from './SelectionToolbar'
+import { DuplicateUploadDialog } from './DuplicateUploadDialog'
+import { MediaFilterBar } from './MediaFilterBar'
+import { UploadQueue } from './UploadQueue'
+import { ImportArchiveDialog } from './ImportArchiveDialog'
+import { ImportUrlDialog } from './ImportUrlDialog'
 
 // Dark theme color palette - Modern, sleek, professional
 const colors = {
@@ -68,12 +74,14 @@ export function MediaManagerModal() {
     searchQuery,
     setSearchQuery,
     selectedMedia,
+    selectedItems,
     copyPublicUrl,
     totalDocs,
     toasts,
     dismissToast,
     editingFile,
     metadataEditingFile,
+    metadataSourceUrl,
     editingMedia,
     editingMediaId,
     setEditingFile,
@@ -88,11 +96,15 @@ export function MediaManagerModal() {
     folders,
     moveMediaToFolder,
     modalOptions,
+    duplicatePrompt,
+    resolveDuplicatePrompt,
   } = useMediaManager()
 
   const [isDragging, setIsDragging] = useState(false)
   const [showMoveMenu, setShowMoveMenu] = useState(false)
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false)
+  const [showImportDialog, setShowImportDialog] = useState(false)
+  const [showUrlDialog, setShowUrlDialog] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const dragCounterRef = useRef(0)
 
@@ -118,6 +130,10 @@ export function MediaManagerModal() {
           setMetadataEditingFile(null)
         } else if (editingMedia) {
           setEditingMedia(null)
+        } else if (showImportDialog) {
+          setShowImportDialog(false)
+        } else if (showUrlDialog) {
+          setShowUrlDialog(false)
         } else if (isOpen) {
           closeModal()
         }
@@ -125,7 +141,7 @@ export function MediaManagerModal() {
     }
     document.addEventListener('keydown', handleEscape)
     return () => document.removeEventListener('keydown', handleEscape)
-  }, [isOpen, editingFile, metadataEditingFile, editingMedia, closeModal, setEditingFile, setMetadataEditingFile, setEditingMedia])
+  }, [isOpen, editingFile, metadataEditingFile, editingMedia, showImportDialog, showUrlDialog, closeModal, setEditingFile, setMetadataEditingFile, setEditingMedia])
 
   // Prevent body scroll when modal or editors are open
   useEffect(() => {
@@ -139,10 +155,11 @@ export function MediaManagerModal() {
     }
   }, [isOpen, editingFile, metadataEditingFile, editingMedia])
 
-  // Drag and drop handlers
+  // Drag and drop handlers (files only; media cards and folders are dragged onto the folder tree)
   const handleDragEnter = useCallback((e: DragEvent) => {
     e.preventDefault()
     e.stopPropagation()
+    if (!e.dataTransfer.types.includes('Files')) return
     dragCounterRef.current++
     if (e.dataTransfer.items && e.dataTransfer.items.length > 0) {
       setIsDragging(true)
@@ -152,6 +169,7 @@ export function MediaManagerModal() {
   const handleDragLeave = useCallback((e: DragEvent) => {
     e.preventDefault()
     e.stopPropagation()
+    if (!e.dataTransfer.types.includes('Files')) return
     dragCounterRef.current--
     if (dragCounterRef.current === 0) {
       setIsDragging(false)
@@ -199,10 +217,14 @@ export function MediaManagerModal() {
 
   // Handle select in selection mode
   const handleSelect = useCallback(() => {
-    if (selectedMedia && modalOptions?.onSelect) {
+    if (!selectedMedia || !modalOptions?.onSelect) return
+
+    if (modalOptions.allowMultiple) {
+      modalOptions.onSelect([selectedMedia])
+    } else {
       modalOptions.onSelect(selectedMedia)
-      closeModal()
     }
+    closeModal()
   }, [selectedMedia, modalOptions, closeModal])
 
   // Determine if we're in selection mode
@@ -336,7 +358,7 @@ export function MediaManagerModal() {
                 </div>
               </div>
 
-              {/* Right: Search, Upload, Close */}
+              {/* Right: Search, Import, From URL, Upload, Close */}
               <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
                 {/* Search Bar */}
                 <div style={{ position: 'relative' }}>
@@ -390,6 +412,60 @@ export function MediaManagerModal() {
                   />
                 </div>
 
+                {/* Import ZIP Button */}
+                <button
+                  onClick={() => setShowImportDialog(true)}
+                  title="Import a ZIP exported from the media library"
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '10px',
+                    padding: '14px 20px',
+                    fontSize: '14px',
+                    fontWeight: 600,
+                    borderRadius: '12px',
+                    border: `1px solid ${colors.border}`,
+                    backgroundColor: colors.cardBg,
+                    color: colors.textSecondary,
+                    cursor: 'pointer',
+                    transition: 'all 0.2s ease',
+                  }}
+                  onMouseEnter={(e) => e.currentTarget.style.color = colors.textPrimary}
+                  onMouseLeave={(e) => e.currentTarget.style.color = colors.textSecondary}
+                >
+                  <svg style={{ width: '20px', height: '20px' }} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                  </svg>
+                  <span>Import</span>
+                </button>
+
+                {/* Import from URL Button */}
+                <button
+                  onClick={() => setShowUrlDialog(true)}
+                  title="Import a file from a URL"
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '10px',
+                    padding: '14px 20px',
+                    fontSize: '14px',
+                    fontWeight: 600,
+                    borderRadius: '12px',
+                    border: `1px solid ${colors.border}`,
+                    backgroundColor: colors.cardBg,
+                    color: colors.textSecondary,
+                    cursor: 'pointer',
+                    transition: 'all 0.2s ease',
+                  }}
+                  onMouseEnter={(e) => e.currentTarget.style.color = colors.textPrimary}
+                  onMouseLeave={(e) => e.currentTarget.style.color = colors.textSecondary}
+                >
+                  <svg style={{ width: '20px', height: '20px' }} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+                  </svg>
+                  <span>From URL</span>
+                </button>
+
                 {/* Upload Button */}
                 <button
                   onClick={() => {
@@ -512,6 +588,12 @@ export function MediaManagerModal() {
               </div>
             )}
 
+            {/* Sort and Filters */}
+            <MediaFilterBar />
+
+            {/* Chunked upload progress */}
+            <UploadQueue />
+
             {/* Content Area */}
             <div style={{ flex: 1, display: 'flex', overflow: 'hidden', position: 'relative' }}>
               {/* Folder Sidebar */}
@@ -650,8 +732,11 @@ export function MediaManagerModal() {
               </div>
             </div>
 
+            {/* Footer - Bulk selection */}
+            {selectedItems.length > 1 && <SelectionToolbar />}
+
             {/* Footer - Selected Media */}
-            {selectedMedia && (
+            {selectedMedia && selectedItems.length <= 1 && (
               <div
                 style={{
                   flexShrink: 0,
@@ -961,7 +1046,7 @@ export function MediaManagerModal() {
 
                     {/* Copy URL */}
                     <button
-                      onClick={() => copyPublicUrl(selectedMedia.publicUrl || selectedMedia.url)}
+                      onClick={() => copyPublicUrl(selectedMedia)}
                       style={{
                         display: 'flex',
                         alignItems: 'center',
@@ -1077,6 +1162,7 @@ export function MediaManagerModal() {
       {metadataEditingFile && (
         <MediaUploadMetadataForm
           file={metadataEditingFile}
+          sourceUrl={metadataSourceUrl}
           onUpload={(metadata) => {
             console.log('✅ [METADATA FORM] Upload clicked')
             uploadWithMetadata(metadataEditingFile, metadata)
@@ -1092,6 +1178,21 @@ export function MediaManagerModal() {
         />
       )}
 
+      {/* Duplicate Prompt - Rendered above the metadata form while an upload waits on a decision */}
+      {duplicatePrompt && (
+        <DuplicateUploadDialog
+          key={duplicatePrompt.file.name}
+          prompt={duplicatePrompt}
+          onResolve={resolveDuplicatePrompt}
+        />
+      )}
+
+      {/* Import ZIP Dialog */}
+      {showImportDialog && <ImportArchiveDialog onClose={() => setShowImportDialog(false)} />}
+
+      {/* Import from URL Dialog */}
+      {showUrlDialog && <ImportUrlDialog onClose={() => setShowUrlDialog(false)} />}
+
       {/* Media Edit Panel - Always rendered when editingMedia exists, independent of modal */}
       {editingMedia && <MediaEditPanel key={editingMedia.id} media={editingMedia} onClose={() => setEditingMedia(null)} />}
 
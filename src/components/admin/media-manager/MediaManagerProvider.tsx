@@ -1,26 +1,53 @@
 'use client'
 
-import { createContext, useContext, useCallback, useState, useEffect, type ReactNode } from 'react'
+import { createContext, useContext, useCallback, useState, useEffect, useRef, type ReactNode } from 'react'
+import { usePreferences } from '@payloadcms/ui'
+import type { Where } from 'payload'
 import type {
   MediaManagerContextValue,
   MediaManagerState,
   MediaItem,
   MediaApiResponse,
   FolderItem,
-  FolderTreeNode,
   FolderApiResponse,
+  FolderContents,
+  FolderDeleteMode,
+  SelectionModifiers,
+  MediaUsage,
+  DuplicateMatch,
+  DuplicatePrompt,
+  DuplicateResolution,
+  MediaFilters,
+  MediaSort,
+  UploadProgress,
+  ArchiveConflictMode,
+  ArchiveImportReport,
 } from './types'
 import type { ToastMessage } from './Toast'
 import type { MediaMetadata } from './MediaUploadMetadataForm'
+import { hashFile } from './fileHashing'
+import { createChunkedUpload, type ChunkedUpload } from './chunkedUpload'
+import { appendWhereParams, buildFilterConditions, DEFAULT_MEDIA_FILTERS, DEFAULT_MEDIA_SORT } from './mediaFilters'
+import { buildFolderTree, getDescendantFolderIds, getParentFolderId, isWithinFolder } from './folders'
+
+// User preference key for the saved filters and sort
+const PREFERENCES_KEY = 'media-manager-filters'
+
+interface MediaManagerPreferences {
+  filters?: Partial<MediaFilters>
+  sort?: MediaSort
+}
 
 interface ExtendedState extends MediaManagerState {
   toasts: ToastMessage[]
   editingFile: File | null
   metadataEditingFile: File | null
+  metadataSourceUrl: string | null // Where metadataEditingFile was imported from, if anywhere
   editingMedia: MediaItem | null
   editingMediaId: string | null // Track which media item is being re-edited via ImageEditor
   pendingFiles: File[]
   modalOptions: import('./types').MediaManagerModalOptions | null
+  duplicatePrompt: DuplicatePrompt | null // Upload waiting on "use existing / replace / keep both"
 }
 
 const initialState: ExtendedState = {
@@ -30,6 +57,8 @@ const initialState: ExtendedState = {
   isUploading: false,
   error: null,
   selectedMedia: null,
+  selectedItems: [],
+  selectionAnchorId: null,
   searchQuery: '',
   currentPage: 1,
   totalPages: 1,
@@ -37,16 +66,21 @@ const initialState: ExtendedState = {
   toasts: [],
   editingFile: null,
   metadataEditingFile: null,
+  metadataSourceUrl: null,
   editingMedia: null,
   editingMediaId: null,
   pendingFiles: [],
   modalOptions: null,
+  duplicatePrompt: null,
   // Folder state
   folders: [],
   folderTree: [],
   currentFolder: null,
   isFoldersLoading: false,
   expandedFolders: new Set<string>(),
+  filters: DEFAULT_MEDIA_FILTERS,
+  sort: DEFAULT_MEDIA_SORT,
+  uploads: [],
 }
 
 interface ExtendedContextValue extends MediaManagerContextValue {
@@ -55,10 +89,13 @@ interface ExtendedContextValue extends MediaManagerContextValue {
   showToast: (type: ToastMessage['type'], message: string) => void
   editingFile: File | null
   metadataEditingFile: File | null
+  metadataSourceUrl: string | null
   editingMedia: MediaItem | null
   editingMediaId: string | null
   pendingFiles: File[]
   modalOptions: import('./types').MediaManagerModalOptions | null
+  duplicatePrompt: DuplicatePrompt | null
+  resolveDuplicatePrompt: (resolution: DuplicateResolution) => void
   setEditingFile: (file: File | null) => void
   setMetadataEditingFile: (file: File | null) => void
   setEditingMedia: (media: MediaItem | null) => void
@@ -88,46 +125,25 @@ interface MediaManagerProviderProps {
 }
 
 /**
- * Build folder tree from flat folder list
+ * Build a `where[id][in]` query for Payload's bulk REST operations
  */
-function buildFolderTree(folders: FolderItem[]): FolderTreeNode[] {
-  const folderMap = new Map<string, FolderTreeNode>()
-  const rootFolders: FolderTreeNode[] = []
-
-  // First pass: create tree nodes
-  folders.forEach((folder) => {
-    folderMap.set(folder.id, { ...folder, children: [] })
-  })
-
-  // Second pass: build hierarchy
-  folders.forEach((folder) => {
-    const node = folderMap.get(folder.id)
-    if (!node) return
-
-    const parentId = typeof folder.folder === 'string'
-      ? folder.folder
-      : folder.folder?.id
-
-    if (parentId) {
-      const parent = folderMap.get(parentId)
-      if (parent) {
-        parent.children.push(node)
-      } else {
-        rootFolders.push(node)
-      }
-    } else {
-      rootFolders.push(node)
-    }
-  })
+function buildIdsQuery(ids: string[]): string {
+  const params = new URLSearchParams()
+  ids.forEach((id, index) => params.append(`where[id][in][${index}]`, id))
+  return params.toString()
+}
 
-  // Sort children by name
-  const sortFolders = (nodes: FolderTreeNode[]) => {
-    nodes.sort((a, b) => a.name.localeCompare(b.name))
-    nodes.forEach((node) => sortFolders(node.children))
+/**
+ * Summarise where media is used for a delete confirmation prompt
+ */
+function describeUsages(usages: MediaUsage[], limit = 5): string {
+  const lines = usages.slice(0, limit).map(usage =>
+    `• ${usage.sourceLabel} "${usage.documentTitle}" (${usage.fieldPath})${usage.status === 'draft' ? ' [draft]' : ''}`,
+  )
+  if (usages.length > limit) {
+    lines.push(`…and ${usages.length - limit} more`)
   }
-  sortFolders(rootFolders)
-
-  return rootFolders
+  return lines.join('\n')
 }
 
 /**
@@ -135,6 +151,21 @@ function buildFolderTree(folders: FolderItem[]): FolderTreeNode[] {
  */
 export function MediaManagerProvider({ children }: MediaManagerProviderProps) {
   const [state, setState] = useState<ExtendedState>(initialState)
+  const { getPreference, setPreference } = usePreferences()
+
+  // Restore the user's saved filters and sort
+  useEffect(() => {
+    getPreference<MediaManagerPreferences | undefined>(PREFERENCES_KEY)
+      .then((preferences) => {
+        if (!preferences) return
+        setState(prev => ({
+          ...prev,
+          filters: { ...DEFAULT_MEDIA_FILTERS, ...preferences.filters },
+          sort: preferences.sort || DEFAULT_MEDIA_SORT,
+        }))
+      })
+      .catch((error) => console.warn('Failed to load media manager preferences:', error))
+  }, [getPreference])
 
   // Toast management
   const showToast = useCallback((type: ToastMessage['type'], message: string) => {
@@ -173,8 +204,13 @@ export function MediaManagerProvider({ children }: MediaManagerProviderProps) {
       mediaType?: 'image' | 'video' | 'audio' | 'document' | null
       tags?: string[] | null
       featured?: boolean | null
+      visibility?: MediaItem['visibility'] | null
       videoMeta?: MediaItem['videoMeta']
       seoMeta?: MediaItem['seoMeta']
+      embeddedMetadata?: MediaItem['embeddedMetadata'] | null
+      sizeCrops?: MediaItem['sizeCrops'] | null
+      fileVersion?: MediaItem['fileVersion'] | null
+      revisions?: MediaItem['revisions'] | null
     }
     return {
       id: d.id,
@@ -196,9 +232,15 @@ export function MediaManagerProvider({ children }: MediaManagerProviderProps) {
       mediaType: d.mediaType ?? undefined,
       tags: d.tags ?? undefined,
       featured: d.featured ?? undefined,
+      visibility: d.visibility ?? undefined,
       // Nested group fields
       videoMeta: d.videoMeta,
       seoMeta: d.seoMeta,
+      embeddedMetadata: d.embeddedMetadata ?? undefined,
+      sizeCrops: d.sizeCrops ?? undefined,
+      // File history
+      fileVersion: d.fileVersion ?? undefined,
+      revisions: d.revisions ?? undefined,
     }
   }, [])
 
@@ -260,31 +302,93 @@ export function MediaManagerProvider({ children }: MediaManagerProviderProps) {
     }
   }, [fetchFolders, showToast])
 
-  // Delete folder
-  const deleteFolder = useCallback(async (id: string) => {
+  // Rename folder
+  const renameFolder = useCallback(async (id: string, name: string): Promise<boolean> => {
     try {
       const response = await fetch(`/api/payload-folders/${id}`, {
-        method: 'DELETE',
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
       })
 
       if (!response.ok) {
-        throw new Error('Failed to delete folder')
+        throw new Error('Failed to rename folder')
       }
 
-      // Refresh folders
       await fetchFolders()
 
-      // If deleted folder was current, go to root
       setState(prev => ({
         ...prev,
-        currentFolder: prev.currentFolder?.id === id ? null : prev.currentFolder,
+        currentFolder: prev.currentFolder?.id === id ? { ...prev.currentFolder, name } : prev.currentFolder,
       }))
+      return true
     } catch (error) {
-      console.error('Failed to delete folder:', error)
-      showToast('error', 'Failed to delete folder')
+      console.error('Failed to rename folder:', error)
+      showToast('error', 'Failed to rename folder')
+      return false
     }
   }, [fetchFolders, showToast])
 
+  // Move folder under another folder (null = root)
+  const moveFolder = useCallback(async (id: string, parentId: string | null) => {
+    const folder = state.folders.find(f => f.id === id)
+    if (!folder || getParentFolderId(folder) === parentId) return
+
+    if (parentId && isWithinFolder(state.folders, parentId, id)) {
+      showToast('error', 'A folder cannot be moved into itself or one of its subfolders')
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/payload-folders/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ folder: parentId }),
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to move folder')
+      }
+
+      await fetchFolders()
+
+      // Reveal the folder in its new place
+      setState(prev => {
+        if (!parentId) return prev
+        const expandedFolders = new Set(prev.expandedFolders)
+        expandedFolders.add(parentId)
+        return { ...prev, expandedFolders }
+      })
+
+      const parentName = parentId ? state.folders.find(f => f.id === parentId)?.name : null
+      showToast('success', `Moved "${folder.name}" to ${parentName ? `"${parentName}"` : 'root'}`)
+    } catch (error) {
+      console.error('Failed to move folder:', error)
+      showToast('error', 'Failed to move folder')
+    }
+  }, [fetchFolders, showToast, state.folders])
+
+  // Count what a folder contains, for the delete preview
+  const getFolderContents = useCallback(async (id: string): Promise<FolderContents | null> => {
+    const descendantIds = getDescendantFolderIds(state.folders, id)
+
+    try {
+      const params = new URLSearchParams({ limit: '1', depth: '0' })
+      appendWhereParams(params, { folder: { in: [id, ...descendantIds] } })
+
+      const response = await fetch(`/api/media?${params.toString()}`, { credentials: 'include' })
+      if (!response.ok) {
+        throw new Error(`Failed to count folder contents: ${response.statusText}`)
+      }
+
+      const data: MediaApiResponse = await response.json()
+      return { folders: descendantIds.length, media: data.totalDocs }
+    } catch (error) {
+      console.error('Failed to count folder contents:', error)
+      return null
+    }
+  }, [state.folders])
+
   // Set current folder
   const setCurrentFolder = useCallback((folder: FolderItem | null) => {
     setState(prev => ({ ...prev, currentFolder: folder, currentPage: 1 }))
@@ -303,12 +407,17 @@ export function MediaManagerProvider({ children }: MediaManagerProviderProps) {
     })
   }, [])
 
-  // Move media to folder
-  const moveMediaToFolder = useCallback(async (mediaId: string, folderId: string | null) => {
+  // Move media to folder (accepts a single ID or a bulk selection)
+  const moveMediaToFolder = useCallback(async (mediaId: string | string[], folderId: string | null) => {
+    const ids = Array.isArray(mediaId) ? mediaId : [mediaId]
+    if (ids.length === 0) return
+
     try {
-      const response = await fetch(`/api/media/${mediaId}`, {
+      const url = ids.length === 1 ? `/api/media/${ids[0]}` : `/api/media?${buildIdsQuery(ids)}`
+      const response = await fetch(url, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
         body: JSON.stringify({
           folder: folderId,
         }),
@@ -320,7 +429,8 @@ export function MediaManagerProvider({ children }: MediaManagerProviderProps) {
 
       // Refresh media in current folder view
       await fetchMedia(state.currentPage)
-      showToast('success', folderId ? 'Moved to folder' : 'Moved to root')
+      const target = folderId ? 'folder' : 'root'
+      showToast('success', ids.length > 1 ? `Moved ${ids.length} items to ${target}` : `Moved to ${target}`)
     } catch (error) {
       console.error('Failed to move media:', error)
       showToast('error', 'Failed to move media')
@@ -336,21 +446,31 @@ export function MediaManagerProvider({ children }: MediaManagerProviderProps) {
       const params = new URLSearchParams({
         page: page.toString(),
         limit: '24',
-        sort: '-createdAt',
+        sort: state.sort,
         depth: '1', // Include folder relationship
       })
 
+      // Generated variants are managed through their source media
+      const conditions: Where[] = [{ sourceMedia: { exists: false } }]
+
       // Add search filter if query exists
       if (state.searchQuery) {
-        params.append('where[or][0][alt][contains]', state.searchQuery)
-        params.append('where[or][1][filename][contains]', state.searchQuery)
+        conditions.push({
+          or: [
+            { alt: { contains: state.searchQuery } },
+            { filename: { contains: state.searchQuery } },
+          ],
+        })
       }
 
       // Add folder filter
       if (state.currentFolder) {
-        params.append('where[folder][equals]', state.currentFolder.id)
+        conditions.push({ folder: { equals: state.currentFolder.id } })
       }
 
+      conditions.push(...buildFilterConditions(state.filters))
+      appendWhereParams(params, { and: conditions })
+
       const response = await fetch(`/api/media?${params.toString()}`)
 
       if (!response.ok) {
@@ -375,7 +495,285 @@ export function MediaManagerProvider({ children }: MediaManagerProviderProps) {
       }))
       showToast('error', 'Failed to load media')
     }
-  }, [state.searchQuery, state.currentFolder, transformMedia, showToast])
+  }, [state.searchQuery, state.currentFolder, state.filters, state.sort, transformMedia, showToast])
+
+  // Delete folder, either keeping its contents in the parent or deleting them with it
+  const deleteFolder = useCallback(async (id: string, mode: FolderDeleteMode = 'move-to-parent') => {
+    const folder = state.folders.find(f => f.id === id)
+    const parentId = folder ? getParentFolderId(folder) : null
+    const folderIds = [id, ...getDescendantFolderIds(state.folders, id)]
+
+    const moveMediaOut = async (fromIds: string[]) => {
+      const params = new URLSearchParams()
+      appendWhereParams(params, { folder: { in: fromIds } })
+      const response = await fetch(`/api/media?${params.toString()}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ folder: parentId }),
+      })
+      if (!response.ok) {
+        throw new Error('Failed to move folder contents')
+      }
+    }
+
+    try {
+      let deletedMedia = 0
+      let keptMedia = 0
+
+      if (mode === 'recursive') {
+        const params = new URLSearchParams()
+        appendWhereParams(params, { folder: { in: folderIds } })
+        const response = await fetch(`/api/media?${params.toString()}`, {
+          method: 'DELETE',
+          credentials: 'include',
+        })
+
+        // Media still used by pages or posts is refused by the server and kept
+        const result: { docs?: unknown[]; errors?: unknown[] } = await response.json().catch(() => ({}))
+        deletedMedia = result.docs?.length || 0
+        keptMedia = result.errors?.length || 0
+
+        // Payload deletes subfolders with their parent; kept media would otherwise land in root
+        if (keptMedia > 0) await moveMediaOut(folderIds)
+      } else {
+        // Payload deletes subfolders with their parent, so lift them out first
+        const params = new URLSearchParams()
+        appendWhereParams(params, { folder: { equals: id } })
+        const response = await fetch(`/api/payload-folders?${params.toString()}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ folder: parentId }),
+        })
+        if (!response.ok) {
+          throw new Error('Failed to move subfolders')
+        }
+
+        await moveMediaOut([id])
+      }
+
+      const response = await fetch(`/api/payload-folders/${id}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to delete folder')
+      }
+
+      // Refresh folders
+      await fetchFolders()
+
+      // If the current folder was deleted, go to root
+      const deletedIds = mode === 'recursive' ? folderIds : [id]
+      setState(prev => ({
+        ...prev,
+        currentFolder: prev.currentFolder && deletedIds.includes(prev.currentFolder.id) ? null : prev.currentFolder,
+      }))
+      await fetchMedia(state.currentPage)
+
+      const name = folder ? `"${folder.name}"` : 'folder'
+      if (mode === 'move-to-parent') {
+        showToast('success', `Deleted ${name}; its contents were moved up`)
+      } else if (keptMedia > 0) {
+        showToast('info', `Deleted ${name} and ${deletedMedia} media items; ${keptMedia} still in use were kept`)
+      } else {
+        showToast('success', `Deleted ${name} and ${deletedMedia} media items`)
+      }
+    } catch (error) {
+      console.error('Failed to delete folder:', error)
+      showToast('error', 'Failed to delete folder')
+      await fetchFolders()
+    }
+  }, [fetchFolders, fetchMedia, showToast, state.currentPage, state.folders])
+
+  // Replace the file of an existing item (the previous file is kept as a revision)
+  const replaceMediaFile = useCallback(async (id: string, file: File, data: Record<string, unknown> = {}): Promise<MediaItem> => {
+    const formData = new FormData()
+    formData.append('file', file)
+    formData.append('_payload', JSON.stringify(data))
+
+    const response = await fetch(`/api/media/${id}`, {
+      method: 'PATCH',
+      credentials: 'include',
+      body: formData,
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to replace file with ${file.name}`)
+    }
+
+    const result = await response.json()
+    return transformMedia(result.doc || result)
+  }, [transformMedia])
+
+  // Answer the pending duplicate prompt
+  const resolveDuplicatePrompt = useCallback((resolution: DuplicateResolution) => {
+    state.duplicatePrompt?.resolve(resolution)
+    setState(prev => ({ ...prev, duplicatePrompt: null }))
+  }, [state.duplicatePrompt])
+
+  // Check a file against the library before uploading it and ask what to do with matches.
+  // Resolves to true when the caller should upload it as a new item; `data` is applied
+  // when the user chooses to replace an existing item instead.
+  const handleDuplicateUpload = useCallback(async (file: File, data: Record<string, unknown> = {}): Promise<boolean> => {
+    let matches: DuplicateMatch[]
+
+    try {
+      const hashes = await hashFile(file)
+      if (!hashes) return true
+
+      const response = await fetch('/api/media-duplicates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(hashes),
+      })
+
+      if (!response.ok) return true
+
+      const result: { matches?: { doc: Record<string, unknown>; match: DuplicateMatch['match']; distance: number }[] } = await response.json()
+      matches = (result.matches || []).map(({ doc, match, distance }) => ({ media: transformMedia(doc), match, distance }))
+    } catch (error) {
+      // Never block an upload because the check itself failed
+      console.warn('Duplicate check failed for', file.name, error)
+      return true
+    }
+
+    if (matches.length === 0) return true
+
+    const resolution = await new Promise<DuplicateResolution>((resolve) => {
+      setState(prev => ({ ...prev, duplicatePrompt: { file, matches, resolve } }))
+    })
+
+    if (resolution.action === 'keep-both') return true
+
+    const { target } = resolution
+
+    if (resolution.action === 'use-existing') {
+      setState(prev => ({
+        ...prev,
+        selectedMedia: target,
+        selectedItems: [target],
+        selectionAnchorId: target.id,
+      }))
+      showToast('info', `Using existing ${target.filename}`)
+      return false
+    }
+
+    try {
+      const updated = await replaceMediaFile(target.id, file, data)
+      setState(prev => ({
+        ...prev,
+        media: prev.media.map(m => m.id === updated.id ? updated : m),
+        selectedMedia: updated,
+        selectedItems: [updated],
+        selectionAnchorId: updated.id,
+      }))
+      showToast('success', `Replaced ${target.filename} with ${file.name}`)
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to replace file')
+    }
+
+    return false
+  }, [replaceMediaFile, showToast, transformMedia])
+
+  // Chunked uploads that can still be paused, resumed or retried
+  const chunkedUploadsRef = useRef(new Map<string, { upload: ChunkedUpload; filename: string }>())
+
+  // Stop sending chunks when the admin panel goes away; the server expires the sessions
+  useEffect(() => {
+    const chunkedUploads = chunkedUploadsRef.current
+    return () => chunkedUploads.forEach(({ upload }) => upload.pause())
+  }, [])
+
+  const updateUploadProgress = useCallback((id: string, changes: Partial<UploadProgress>) => {
+    setState(prev => ({
+      ...prev,
+      uploads: prev.uploads.map(u => u.id === id ? { ...u, ...changes } : u),
+    }))
+  }, [])
+
+  // Send a chunked upload until it completes, pauses or fails; resolves to the created doc
+  const runChunkedUpload = useCallback(async (id: string): Promise<Record<string, unknown> | null> => {
+    const entry = chunkedUploadsRef.current.get(id)
+    if (!entry) return null
+
+    updateUploadProgress(id, { status: 'uploading', error: undefined })
+
+    try {
+      const result = await entry.upload.run()
+
+      if (result.status === 'paused') {
+        updateUploadProgress(id, { status: 'paused' })
+        return null
+      }
+      if (result.status === 'cancelled') return null
+
+      chunkedUploadsRef.current.delete(id)
+      updateUploadProgress(id, { status: 'complete', progress: 100 })
+
+      // Leave the finished bar visible briefly
+      setTimeout(() => {
+        setState(prev => ({ ...prev, uploads: prev.uploads.filter(u => u.id !== id) }))
+      }, 3000)
+
+      return result.doc
+    } catch (error) {
+      console.error('Chunked upload failed for', entry.filename, error)
+      updateUploadProgress(id, {
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Upload failed',
+      })
+      return null
+    }
+  }, [updateUploadProgress])
+
+  // Upload a new media item in chunks, with its progress shown in the upload list.
+  // Resolves to null when the upload was paused, cancelled or failed.
+  const uploadNewMedia = useCallback(async (file: File, data: Record<string, unknown>) => {
+    const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+
+    const upload = createChunkedUpload(file, data, {
+      onProgress: (bytesUploaded) => updateUploadProgress(id, {
+        bytesUploaded,
+        progress: file.size > 0 ? Math.round((bytesUploaded / file.size) * 100) : 100,
+      }),
+      onProcessing: () => updateUploadProgress(id, { status: 'processing' }),
+    })
+
+    chunkedUploadsRef.current.set(id, { upload, filename: file.name })
+    setState(prev => ({
+      ...prev,
+      uploads: [
+        ...prev.uploads,
+        { id, filename: file.name, size: file.size, bytesUploaded: 0, progress: 0, status: 'pending' },
+      ],
+    }))
+
+    return runChunkedUpload(id)
+  }, [runChunkedUpload, updateUploadProgress])
+
+  const pauseUpload = useCallback((id: string) => {
+    chunkedUploadsRef.current.get(id)?.upload.pause()
+  }, [])
+
+  const cancelUpload = useCallback(async (id: string) => {
+    const entry = chunkedUploadsRef.current.get(id)
+    chunkedUploadsRef.current.delete(id)
+    setState(prev => ({ ...prev, uploads: prev.uploads.filter(u => u.id !== id) }))
+    await entry?.upload.cancel()
+  }, [])
+
+  // Continue a paused upload, or retry a failed one from the chunks the server is missing
+  const resumeUpload = useCallback(async (id: string) => {
+    const filename = chunkedUploadsRef.current.get(id)?.filename
+    const doc = await runChunkedUpload(id)
+
+    if (doc) {
+      await fetchMedia(1)
+      showToast('success', `Uploaded ${filename}`)
+    }
+  }, [fetchMedia, runChunkedUpload, showToast])
 
   // Upload files directly without editing
   const uploadFilesDirectly = useCallback(async (files: File[]) => {
@@ -394,19 +792,25 @@ export function MediaManagerProvider({ children }: MediaManagerProviderProps) {
       return
     }
 
+    // Files already in the library are resolved one at a time before the rest upload
+    const filesToUpload: File[] = []
+    for (const file of files) {
+      if (await handleDuplicateUpload(file)) {
+        filesToUpload.push(file)
+      }
+    }
+
+    if (filesToUpload.length === 0) return
+
     setState(prev => ({ ...prev, isUploading: true, error: null }))
 
-    const uploadPromises = files.map(async (file) => {
-      console.log('📤 [UPLOAD] Starting direct upload for:', {
+    const uploadPromises = filesToUpload.map(async (file) => {
+      console.log('📤 [UPLOAD] Starting chunked upload for:', {
         name: file.name,
         size: file.size,
         type: file.type,
-        lastModified: file.lastModified,
       })
 
-      const formData = new FormData()
-      formData.append('file', file)
-
       const altText = file.name
         .replace(/\.[^/.]+$/, '')
         .replace(/[-_]/g, ' ')
@@ -418,64 +822,23 @@ export function MediaManagerProvider({ children }: MediaManagerProviderProps) {
         payload.folder = state.currentFolder.id
       }
 
-      console.log('📝 [UPLOAD] Payload data:', payload)
-      formData.append('_payload', JSON.stringify(payload))
-
-      console.log('🌐 [UPLOAD] Sending request to /api/media')
-      const response = await fetch('/api/media', {
-        method: 'POST',
-        credentials: 'include', // CRITICAL: Include auth cookies
-        body: formData,
-      })
-
-      console.log('📨 [UPLOAD] Response status:', response.status, response.statusText)
-
-      if (!response.ok) {
-        // Log the actual error response for debugging
-        const errorText = await response.text()
-        console.error('❌ [UPLOAD] Upload failed for', file.name, ':', response.status, errorText)
-
-        // Provide specific error messages based on status code
-        let userMessage = `Failed to upload ${file.name}`
-        if (response.status === 401 || response.status === 403) {
-          userMessage = 'Authentication required. Please log in to upload files.'
-        } else if (response.status === 413) {
-          userMessage = `File too large: ${file.name}. Please upload a smaller file.`
-        } else if (response.status === 415) {
-          userMessage = `Unsupported file type: ${file.name}`
-        } else if (response.status >= 500) {
-          userMessage = 'Server error. Please try again or contact support.'
-        }
-
-        throw new Error(userMessage)
-      }
-
-      const result = await response.json()
-      console.log('✅ [UPLOAD] Upload successful:', {
-        id: result.doc?.id,
-        url: result.doc?.url,
-        sizes: result.doc?.sizes ? Object.keys(result.doc.sizes) : 'none',
-      })
-
-      return result
+      return uploadNewMedia(file, payload)
     })
 
-    try {
-      await Promise.all(uploadPromises)
+    // Paused and failed uploads stay in the upload list to be resumed or retried
+    const results = await Promise.all(uploadPromises)
+    const uploaded = results.filter(Boolean).length
+    setState(prev => ({ ...prev, isUploading: false }))
+
+    if (uploaded > 0) {
       await fetchMedia(1)
-      setState(prev => ({ ...prev, isUploading: false }))
-      showToast('success', `Uploaded ${files.length} file${files.length > 1 ? 's' : ''}`)
-    } catch (error) {
-      console.error('Upload error:', error)
-      const errorMessage = error instanceof Error ? error.message : 'Upload failed'
-      setState(prev => ({
-        ...prev,
-        isUploading: false,
-        error: errorMessage,
-      }))
-      showToast('error', errorMessage)
+      showToast('success', `Uploaded ${uploaded} file${uploaded > 1 ? 's' : ''}`)
     }
-  }, [fetchMedia, showToast, state.currentFolder])
+    if (uploaded < filesToUpload.length) {
+      const unfinished = filesToUpload.length - uploaded
+      showToast('info', `${unfinished} upload${unfinished > 1 ? 's were' : ' was'} not completed`)
+    }
+  }, [fetchMedia, handleDuplicateUpload, showToast, state.currentFolder, uploadNewMedia])
 
   // Handle file selection - show editor for images
   const handleFilesSelected = useCallback((files: FileList | File[]) => {
@@ -542,8 +905,8 @@ export function MediaManagerProvider({ children }: MediaManagerProviderProps) {
         .replace(/[-_]/g, ' ')
         .replace(/\b\w/g, c => c.toUpperCase())
 
-      // Include folder if uploading to a specific folder
-      const payload: Record<string, unknown> = { alt: altText }
+      // Replacing the file of an existing item keeps its metadata
+      const payload: Record<string, unknown> = isUpdating ? {} : { alt: altText }
       if (state.currentFolder && !isUpdating) {
         payload.folder = state.currentFolder.id
       }
@@ -623,6 +986,7 @@ export function MediaManagerProvider({ children }: MediaManagerProviderProps) {
       ...prev,
       editingFile: null,
       metadataEditingFile: file,
+      metadataSourceUrl: null,
     }))
   }, [])
 
@@ -643,95 +1007,65 @@ export function MediaManagerProvider({ children }: MediaManagerProviderProps) {
       return
     }
 
-    setState(prev => ({ ...prev, isUploading: true, metadataEditingFile: null }))
-
-    try {
-      console.log('📤 [UPLOAD WITH METADATA] Starting upload for:', {
-        name: file.name,
-        size: file.size,
-        type: file.type,
-        lastModified: file.lastModified,
-      })
-
-      const formData = new FormData()
-      formData.append('file', file)
-
-      // Build payload with provided metadata
-      const payload: Record<string, unknown> = {
-        alt: metadata.alt,
-        mediaType: metadata.mediaType,
-        featured: metadata.featured,
-      }
-
-      if (metadata.caption) payload.caption = metadata.caption
-      if (metadata.description) payload.description = metadata.description
-      if (metadata.tags && metadata.tags.length > 0) payload.tags = metadata.tags
-      if (metadata.videoMeta) payload.videoMeta = metadata.videoMeta
-      if (metadata.seoMeta) payload.seoMeta = metadata.seoMeta
-
-      // Include folder if uploading to a specific folder
-      if (state.currentFolder) {
-        payload.folder = state.currentFolder.id
-      }
-
-      console.log('📝 [UPLOAD WITH METADATA] Payload data:', payload)
-      formData.append('_payload', JSON.stringify(payload))
-
-      console.log('🌐 [UPLOAD WITH METADATA] Sending request to /api/media')
-      const response = await fetch('/api/media', {
-        method: 'POST',
-        credentials: 'include',
-        body: formData,
-      })
-
-      console.log('📨 [UPLOAD WITH METADATA] Response status:', response.status, response.statusText)
-
-      if (!response.ok) {
-        const errorText = await response.text()
-        console.error('❌ [UPLOAD WITH METADATA] Upload failed for', file.name, ':', response.status, errorText)
-
-        // Provide specific error messages based on status code
-        let userMessage = `Failed to upload ${file.name}`
-        if (response.status === 401 || response.status === 403) {
-          userMessage = 'Authentication required. Please log in to upload files.'
-        } else if (response.status === 413) {
-          userMessage = `File too large: ${file.name}`
-        } else if (response.status === 415) {
-          userMessage = `Unsupported file type: ${file.name}`
-        }
-
-        throw new Error(userMessage)
-      }
+    // Build payload with provided metadata
+    const payload: Record<string, unknown> = {
+      alt: metadata.alt,
+      mediaType: metadata.mediaType,
+      featured: metadata.featured,
+    }
 
-      const result = await response.json()
-      console.log('✅ [UPLOAD WITH METADATA] Upload successful:', {
-        id: result.doc?.id,
-        url: result.doc?.url,
-        publicUrl: result.doc?.publicUrl,
-        sizes: result.doc?.sizes ? Object.keys(result.doc.sizes) : 'none',
-      })
+    if (metadata.caption) payload.caption = metadata.caption
+    if (metadata.description) payload.description = metadata.description
+    if (metadata.tags && metadata.tags.length > 0) payload.tags = metadata.tags
+    if (metadata.videoMeta) payload.videoMeta = metadata.videoMeta
+    if (metadata.seoMeta) payload.seoMeta = metadata.seoMeta
 
-      // Move to next file in queue or close
+    // A replaced item keeps its folder; the entered metadata is applied to it
+    if (!(await handleDuplicateUpload(file, { ...payload }))) {
       setState(prev => {
         const remainingFiles = prev.pendingFiles.slice(1)
         return {
           ...prev,
-          isUploading: false,
           pendingFiles: remainingFiles,
           editingFile: remainingFiles[0] || null,
           metadataEditingFile: null,
         }
       })
+      return
+    }
+
+    // Include folder if uploading to a specific folder
+    if (state.currentFolder) {
+      payload.folder = state.currentFolder.id
+    }
+
+    setState(prev => ({ ...prev, isUploading: true, metadataEditingFile: null }))
+
+    console.log('📤 [UPLOAD WITH METADATA] Starting chunked upload for:', {
+      name: file.name,
+      size: file.size,
+      type: file.type,
+    })
 
+    const doc = await uploadNewMedia(file, payload)
+
+    // Move to the next file in the queue; an unfinished upload stays in the upload list
+    setState(prev => {
+      const remainingFiles = prev.pendingFiles.slice(1)
+      return {
+        ...prev,
+        isUploading: false,
+        pendingFiles: remainingFiles,
+        editingFile: remainingFiles[0] || null,
+        metadataEditingFile: null,
+      }
+    })
+
+    if (doc) {
       await fetchMedia(1)
       showToast('success', `Uploaded ${file.name}`)
-    } catch (error) {
-      console.error('Upload error:', error)
-      const errorMessage = error instanceof Error ? error.message : 'Upload failed'
-      setState(prev => ({ ...prev, isUploading: false }))
-      showToast('error', errorMessage)
     }
-  }, [fetchMedia, showToast, state.currentFolder])
+  }, [fetchMedia, handleDuplicateUpload, showToast, state.currentFolder, uploadNewMedia])
 
   // Set editing file
   const setEditingFile = useCallback((file: File | null) => {
@@ -745,7 +1079,7 @@ export function MediaManagerProvider({ children }: MediaManagerProviderProps) {
 
   // Set metadata editing file
   const setMetadataEditingFile = useCallback((file: File | null) => {
-    setState(prev => ({ ...prev, metadataEditingFile: file }))
+    setState(prev => ({ ...prev, metadataEditingFile: file, metadataSourceUrl: null }))
   }, [])
 
   // Set editing media
@@ -790,27 +1124,59 @@ export function MediaManagerProvider({ children }: MediaManagerProviderProps) {
     handleFilesSelected(files)
   }, [handleFilesSelected])
 
+  // Pages, posts and globals that reference a media item
+  const getMediaUsage = useCallback(async (id: string): Promise<MediaUsage[] | null> => {
+    try {
+      const response = await fetch(`/api/media-usage/${id}`, {
+        credentials: 'include',
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to load media usage')
+      }
+
+      const result: { usages?: MediaUsage[] } = await response.json()
+      return result.usages || []
+    } catch (error) {
+      console.error('Failed to load media usage:', error)
+      return null
+    }
+  }, [])
+
   // Delete media item
+  // Referenced media needs a second confirmation and is then deleted with `force`;
+  // if the usage lookup fails the server still refuses to delete referenced media
   const deleteMedia = useCallback(async (id: string) => {
     try {
-      const response = await fetch(`/api/media/${id}`, {
+      const usages = await getMediaUsage(id)
+      const isReferenced = Boolean(usages && usages.length > 0)
+
+      if (usages && isReferenced) {
+        const message = `This media is used in ${usages.length} place${usages.length === 1 ? '' : 's'}:\n\n${describeUsages(usages)}\n\nDelete it anyway? These references will be left without an image.`
+        if (!confirm(message)) return
+      }
+
+      const response = await fetch(`/api/media/${id}${isReferenced ? '?force=true' : ''}`, {
         method: 'DELETE',
+        credentials: 'include',
       })
 
       if (!response.ok) {
-        throw new Error('Failed to delete media')
+        const result = await response.json().catch(() => null)
+        throw new Error(result?.errors?.[0]?.message || 'Failed to delete media')
       }
 
       setState(prev => ({
         ...prev,
         media: prev.media.filter(m => m.id !== id),
         selectedMedia: prev.selectedMedia?.id === id ? null : prev.selectedMedia,
+        selectedItems: prev.selectedItems.filter(m => m.id !== id),
       }))
       showToast('success', 'Media deleted')
-    } catch (_error) {
-      showToast('error', 'Failed to delete media')
+    } catch (error) {
+      showToast('error', error instanceof Error ? error.message : 'Failed to delete media')
     }
-  }, [showToast])
+  }, [getMediaUsage, showToast])
 
   // Update media item
   const updateMedia = useCallback(async (id: string, data: Record<string, unknown>): Promise<MediaItem | null> => {
@@ -834,6 +1200,7 @@ export function MediaManagerProvider({ children }: MediaManagerProviderProps) {
         ...prev,
         media: prev.media.map(m => m.id === id ? updatedItem : m),
         selectedMedia: prev.selectedMedia?.id === id ? updatedItem : prev.selectedMedia,
+        selectedItems: prev.selectedItems.map(m => m.id === id ? updatedItem : m),
       }))
 
       showToast('success', 'Media updated')
@@ -844,6 +1211,270 @@ export function MediaManagerProvider({ children }: MediaManagerProviderProps) {
     }
   }, [showToast, transformMedia])
 
+  // Replace updated documents in the grid and selection after a bulk operation
+  const applyUpdatedDocs = useCallback((docs: Record<string, unknown>[]) => {
+    const updated = new Map(docs.map(doc => {
+      const item = transformMedia(doc)
+      return [item.id, item] as const
+    }))
+    const replace = (m: MediaItem) => updated.get(m.id) || m
+
+    setState(prev => ({
+      ...prev,
+      media: prev.media.map(replace),
+      selectedMedia: prev.selectedMedia ? replace(prev.selectedMedia) : null,
+      selectedItems: prev.selectedItems.map(replace),
+    }))
+  }, [transformMedia])
+
+  // Bulk delete selected media
+  const bulkDeleteMedia = useCallback(async (ids: string[]) => {
+    if (ids.length === 0) return
+
+    try {
+      const usages = await Promise.all(ids.map(id => getMediaUsage(id)))
+      const knownItems = new Map([...state.selectedItems, ...state.media].map(m => [m.id, m] as const))
+      const referenced = ids
+        .map((id, index) => ({ id, usages: usages[index] || [] }))
+        .filter(entry => entry.usages.length > 0)
+
+      if (referenced.length > 0) {
+        const lines = referenced.slice(0, 5).map(({ id, usages: entryUsages }) =>
+          `• ${knownItems.get(id)?.filename || id}: ${entryUsages.length} place${entryUsages.length === 1 ? '' : 's'}`,
+        )
+        if (referenced.length > 5) lines.push(`…and ${referenced.length - 5} more`)
+
+        const message = `${referenced.length} of ${ids.length} items are still in use:\n\n${lines.join('\n')}\n\nDelete them anyway? These references will be left without an image.`
+        if (!confirm(message)) return
+      }
+
+      const query = buildIdsQuery(ids) + (referenced.length > 0 ? '&force=true' : '')
+      const response = await fetch(`/api/media?${query}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      })
+
+      // Payload reports per-document failures alongside the deleted docs
+      const result: { docs?: { id: string }[]; errors?: unknown[] } = await response.json().catch(() => ({}))
+      const deletedIds = new Set((result.docs || []).map(doc => doc.id))
+
+      setState(prev => ({
+        ...prev,
+        media: prev.media.filter(m => !deletedIds.has(m.id)),
+        selectedMedia: prev.selectedMedia && deletedIds.has(prev.selectedMedia.id) ? null : prev.selectedMedia,
+        selectedItems: prev.selectedItems.filter(m => !deletedIds.has(m.id)),
+      }))
+
+      if (!response.ok || (result.errors && result.errors.length > 0)) {
+        showToast('error', `Deleted ${deletedIds.size} of ${ids.length} items`)
+      } else {
+        showToast('success', `Deleted ${deletedIds.size} items`)
+      }
+
+      await fetchMedia(state.currentPage)
+    } catch (error) {
+      console.error('Bulk delete failed:', error)
+      showToast('error', 'Failed to delete media')
+    }
+  }, [fetchMedia, getMediaUsage, showToast, state.currentPage, state.media, state.selectedItems])
+
+  // Add and/or remove tags on every selected item
+  const bulkUpdateTags = useCallback(async (ids: string[], changes: { add?: string[]; remove?: string[] }) => {
+    const add = (changes.add || []).map(tag => tag.trim()).filter(Boolean)
+    const remove = new Set((changes.remove || []).map(tag => tag.trim()).filter(Boolean))
+    if (ids.length === 0 || (add.length === 0 && remove.size === 0)) return
+
+    const knownItems = new Map(
+      [...state.selectedItems, ...state.media].map(m => [m.id, m] as const),
+    )
+
+    // Tags differ per document, so each item gets its own PATCH
+    const results = await Promise.allSettled(ids.map(async (id) => {
+      const current = knownItems.get(id)?.tags || []
+      const tags = Array.from(new Set([...current.filter(tag => !remove.has(tag)), ...add]))
+
+      const response = await fetch(`/api/media/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ tags }),
+      })
+
+      if (!response.ok) {
+        throw new Error(`Failed to update tags for ${id}`)
+      }
+
+      const result = await response.json()
+      return (result.doc || result) as Record<string, unknown>
+    }))
+
+    const docs = results
+      .filter((r): r is PromiseFulfilledResult<Record<string, unknown>> => r.status === 'fulfilled')
+      .map(r => r.value)
+    applyUpdatedDocs(docs)
+
+    if (docs.length < ids.length) {
+      showToast('error', `Updated tags on ${docs.length} of ${ids.length} items`)
+    } else {
+      showToast('success', `Updated tags on ${docs.length} items`)
+    }
+  }, [applyUpdatedDocs, showToast, state.media, state.selectedItems])
+
+  // Set or clear the featured flag on every selected item
+  const bulkSetFeatured = useCallback(async (ids: string[], featured: boolean) => {
+    if (ids.length === 0) return
+
+    try {
+      const response = await fetch(`/api/media?${buildIdsQuery(ids)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ featured }),
+      })
+
+      const result: { docs?: Record<string, unknown>[]; errors?: unknown[] } = await response.json().catch(() => ({}))
+      applyUpdatedDocs(result.docs || [])
+
+      if (!response.ok || (result.errors && result.errors.length > 0)) {
+        showToast('error', `Updated ${result.docs?.length || 0} of ${ids.length} items`)
+      } else {
+        showToast('success', featured ? `Marked ${ids.length} items as featured` : `Removed featured from ${ids.length} items`)
+      }
+    } catch (error) {
+      console.error('Bulk featured update failed:', error)
+      showToast('error', 'Failed to update media')
+    }
+  }, [applyUpdatedDocs, showToast])
+
+  // Restore an archived file revision (the current file becomes a revision itself)
+  const revertToRevision = useCallback(async (mediaId: string, revisionId: string): Promise<MediaItem | null> => {
+    try {
+      const response = await fetch(`/api/media-revisions/${revisionId}/revert`, {
+        method: 'POST',
+        credentials: 'include',
+      })
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => null)
+        throw new Error(result?.error || 'Failed to restore revision')
+      }
+
+      const result = await response.json()
+      const updatedItem = transformMedia(result.doc)
+
+      setState(prev => ({
+        ...prev,
+        media: prev.media.map(m => m.id === mediaId ? updatedItem : m),
+        selectedMedia: prev.selectedMedia?.id === mediaId ? updatedItem : prev.selectedMedia,
+        selectedItems: prev.selectedItems.map(m => m.id === mediaId ? updatedItem : m),
+        editingMedia: prev.editingMedia?.id === mediaId ? updatedItem : prev.editingMedia,
+      }))
+
+      showToast('success', 'Revision restored')
+      return updatedItem
+    } catch (error) {
+      console.error('Revert failed:', error)
+      showToast('error', error instanceof Error ? error.message : 'Failed to restore revision')
+      return null
+    }
+  }, [showToast, transformMedia])
+
+  // Fetch a remote file through the server (which checks the URL, type and size) and
+  // open it in the metadata form with its source filled in
+  const importFromUrl = useCallback(async (url: string): Promise<boolean> => {
+    try {
+      const response = await fetch('/api/media-url-import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ url }),
+      })
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => null)
+        throw new Error(result?.error || 'Failed to import from URL')
+      }
+
+      const encodedName = response.headers.get('Content-Disposition')?.match(/filename\*=UTF-8''(.+)$/)?.[1]
+      const blob = await response.blob()
+      const file = new File([blob], encodedName ? decodeURIComponent(encodedName) : 'imported', { type: blob.type })
+
+      setState(prev => ({
+        ...prev,
+        editingFile: null,
+        pendingFiles: [file],
+        metadataEditingFile: file,
+        metadataSourceUrl: url,
+      }))
+      return true
+    } catch (error) {
+      console.error('Import from URL failed:', error)
+      showToast('error', error instanceof Error ? error.message : 'Failed to import from URL')
+      return false
+    }
+  }, [showToast])
+
+  // Download selected items, or a folder and everything below it, as a ZIP with a metadata manifest
+  const exportMediaArchive = useCallback(async (target: { ids: string[] } | { folderId: string }) => {
+    try {
+      const response = await fetch('/api/media-archive/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(target),
+      })
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => null)
+        throw new Error(result?.error || 'Failed to export media')
+      }
+
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || 'media.zip'
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      console.error('Export failed:', error)
+      showToast('error', error instanceof Error ? error.message : 'Failed to export media')
+    }
+  }, [showToast])
+
+  // Import a ZIP made by exportMediaArchive into a folder (null = root), recreating its folders
+  const importMediaArchive = useCallback(async (
+    file: File,
+    { conflict, folderId }: { conflict: ArchiveConflictMode; folderId: string | null },
+  ): Promise<ArchiveImportReport | null> => {
+    try {
+      const params = new URLSearchParams({ conflict })
+      if (folderId) params.set('folder', folderId)
+
+      const response = await fetch(`/api/media-archive/import?${params}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/zip' },
+        credentials: 'include',
+        body: file,
+      })
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => null)
+        throw new Error(result?.error || 'Failed to import archive')
+      }
+
+      const report: ArchiveImportReport = await response.json()
+      await Promise.all([fetchFolders(), fetchMedia(1)])
+
+      showToast(report.failed.length > 0 ? 'error' : 'success', `Imported ${report.created} new, updated ${report.updated}, skipped ${report.skipped}${report.failed.length > 0 ? `, ${report.failed.length} failed` : ''}`)
+      return report
+    } catch (error) {
+      console.error('Import failed:', error)
+      showToast('error', error instanceof Error ? error.message : 'Failed to import archive')
+      return null
+    }
+  }, [fetchFolders, fetchMedia, showToast])
+
   // Modal controls
   const openModal = useCallback((options?: import('./types').MediaManagerModalOptions) => {
     console.log('[MediaManagerProvider] ========== openModal CALLED ==========')
@@ -865,6 +1496,8 @@ export function MediaManagerProvider({ children }: MediaManagerProviderProps) {
       ...prev,
       isOpen: false,
       selectedMedia: null,
+      selectedItems: [],
+      selectionAnchorId: null,
       editingFile: null,
       metadataEditingFile: null,
       editingMedia: null,
@@ -876,18 +1509,118 @@ export function MediaManagerProvider({ children }: MediaManagerProviderProps) {
 
   // Selection and search
   const selectMedia = useCallback((media: MediaItem | null) => {
-    setState(prev => ({ ...prev, selectedMedia: media }))
+    setState(prev => ({
+      ...prev,
+      selectedMedia: media,
+      selectedItems: media ? [media] : [],
+      selectionAnchorId: media?.id ?? null,
+    }))
+  }, [])
+
+  // Click selection: plain click selects one item, ctrl/cmd toggles, shift selects a range
+  const toggleMediaSelection = useCallback((media: MediaItem, modifiers: SelectionModifiers = {}) => {
+    setState(prev => {
+      const isSelected = prev.selectedItems.some(m => m.id === media.id)
+      const anchorIndex = prev.selectionAnchorId
+        ? prev.media.findIndex(m => m.id === prev.selectionAnchorId)
+        : -1
+      const targetIndex = prev.media.findIndex(m => m.id === media.id)
+
+      let selectedItems: MediaItem[]
+      let selectionAnchorId = prev.selectionAnchorId
+
+      if (modifiers.range && anchorIndex !== -1 && targetIndex !== -1) {
+        const [start, end] = anchorIndex < targetIndex ? [anchorIndex, targetIndex] : [targetIndex, anchorIndex]
+        const range = prev.media.slice(start, end + 1)
+        const base = modifiers.additive ? prev.selectedItems : []
+        const baseIds = new Set(base.map(m => m.id))
+        selectedItems = [...base, ...range.filter(m => !baseIds.has(m.id))]
+      } else if (modifiers.additive || modifiers.range) {
+        selectedItems = isSelected
+          ? prev.selectedItems.filter(m => m.id !== media.id)
+          : [...prev.selectedItems, media]
+        selectionAnchorId = media.id
+      } else {
+        // Plain click toggles a lone selection, otherwise collapses to this item
+        const isOnlySelection = isSelected && prev.selectedItems.length === 1
+        selectedItems = isOnlySelection ? [] : [media]
+        selectionAnchorId = isOnlySelection ? null : media.id
+      }
+
+      const stillSelected = selectedItems.some(m => m.id === media.id)
+
+      return {
+        ...prev,
+        selectedItems,
+        selectionAnchorId,
+        selectedMedia: stillSelected ? media : selectedItems[selectedItems.length - 1] || null,
+      }
+    })
+  }, [])
+
+  const clearSelection = useCallback(() => {
+    setState(prev => ({ ...prev, selectedMedia: null, selectedItems: [], selectionAnchorId: null }))
   }, [])
 
   const setSearchQuery = useCallback((query: string) => {
     setState(prev => ({ ...prev, searchQuery: query }))
   }, [])
 
-  // Copy URL to clipboard with toast feedback
-  const copyPublicUrl = useCallback(async (url: string) => {
+  // Filters and sort are saved per user so they survive closing the modal
+  const savePreferences = useCallback((filters: MediaFilters, sort: MediaSort) => {
+    setPreference<MediaManagerPreferences>(PREFERENCES_KEY, { filters, sort })
+      .catch((error) => console.warn('Failed to save media manager preferences:', error))
+  }, [setPreference])
+
+  const setFilters = useCallback((changes: Partial<MediaFilters>) => {
+    const filters = { ...state.filters, ...changes }
+    setState(prev => ({ ...prev, filters }))
+    savePreferences(filters, state.sort)
+  }, [savePreferences, state.filters, state.sort])
+
+  const resetFilters = useCallback(() => {
+    setState(prev => ({ ...prev, filters: DEFAULT_MEDIA_FILTERS }))
+    savePreferences(DEFAULT_MEDIA_FILTERS, state.sort)
+  }, [savePreferences, state.sort])
+
+  const setSort = useCallback((sort: MediaSort) => {
+    setState(prev => ({ ...prev, sort }))
+    savePreferences(state.filters, sort)
+  }, [savePreferences, state.filters])
+
+  // Copy URL to clipboard with toast feedback. Items that aren't public get a
+  // time-limited signed link instead, so it opens without logging in.
+  const copyPublicUrl = useCallback(async (media: MediaItem) => {
+    let url = media.publicUrl || media.url
+    let message = 'URL copied to clipboard'
+
+    if (media.visibility && media.visibility !== 'public') {
+      try {
+        const response = await fetch(`/api/media-signed-url/${media.id}`, {
+          method: 'POST',
+          credentials: 'include',
+        })
+
+        if (!response.ok) {
+          const result = await response.json().catch(() => null)
+          throw new Error(result?.error || 'Failed to create link')
+        }
+
+        const result: { expiresAt: string | null; url: string } = await response.json()
+        url = result.url
+        if (result.expiresAt) {
+          message = `Link copied, valid until ${new Date(result.expiresAt).toLocaleString()}`
+        }
+      } catch (error) {
+        console.error('Signing URL failed:', error)
+        showToast('error', error instanceof Error ? error.message : 'Failed to create link')
+        return
+      }
+    }
+
     try {
       await navigator.clipboard.writeText(url)
-      showToast('success', 'URL copied to clipboard')
+      showToast('success', message)
     } catch (_error) {
       // Fallback for older browsers
       const textArea = document.createElement('textarea')
@@ -898,7 +1631,7 @@ export function MediaManagerProvider({ children }: MediaManagerProviderProps) {
       textArea.select()
       try {
         document.execCommand('copy')
-        showToast('success', 'URL copied to clipboard')
+        showToast('success', message)
       } catch (_e) {
         showToast('error', 'Failed to copy URL')
       }
@@ -914,12 +1647,12 @@ export function MediaManagerProvider({ children }: MediaManagerProviderProps) {
     }
   }, [state.isOpen, fetchFolders, fetchMedia])
 
-  // Refetch media when search query or current folder changes
+  // Refetch media when search query, current folder, filters or sort change
   useEffect(() => {
     if (state.isOpen) {
       fetchMedia(1)
     }
-  }, [state.searchQuery, state.currentFolder, state.isOpen, fetchMedia])
+  }, [state.searchQuery, state.currentFolder, state.filters, state.sort, state.isOpen, fetchMedia])
 
   const contextValue: ExtendedContextValue = {
     ...state,
@@ -945,11 +1678,37 @@ export function MediaManagerProvider({ children }: MediaManagerProviderProps) {
     // Folder actions
     fetchFolders,
     createFolder,
+    renameFolder,
+    moveFolder,
+    getFolderContents,
     deleteFolder,
     setCurrentFolder,
     toggleFolderExpanded,
     moveMediaToFolder,
     updateMedia,
+    // Multi-selection actions
+    toggleMediaSelection,
+    clearSelection,
+    bulkDeleteMedia,
+    bulkUpdateTags,
+    bulkSetFeatured,
+    // File history
+    revertToRevision,
+    getMediaUsage,
+    importFromUrl,
+    // ZIP archives
+    exportMediaArchive,
+    importMediaArchive,
+    // Duplicate uploads
+    resolveDuplicatePrompt,
+    // Chunked uploads
+    pauseUpload,
+    resumeUpload,
+    cancelUpload,
+    // Filtering and sorting
+    setFilters,
+    resetFilters,
+    setSort,
   }
 
   return (
@@ -25,6 +25,7 @@ const colors = {
 
 interface MediaUploadMetadataFormProps {
   file: File
+  sourceUrl?: string | null // Prefills the original source for files imported from a URL
   onUpload: (metadata: MediaMetadata) => void
   onCancel: () => void
 }
@@ -52,7 +53,7 @@ export interface MediaMetadata {
 /**
  * Form for editing media metadata before upload
  */
-export function MediaUploadMetadataForm({ file, onUpload, onCancel }: MediaUploadMetadataFormProps) {
+export function MediaUploadMetadataForm({ file, sourceUrl, onUpload, onCancel }: MediaUploadMetadataFormProps) {
   // Generate smart default alt text from filename
   const defaultAlt = file.name
     .replace(/\.[^/.]+$/, '')
@@ -85,7 +86,7 @@ export function MediaUploadMetadataForm({ file, onUpload, onCancel }: MediaUploa
   const [seoKeywords, setSeoKeywords] = useState('')
   const [seoPhotographer, setSeoPhotographer] = useState('')
   const [seoCopyright, setSeoCopyright] = useState('')
-  const [seoSource, setSeoSource] = useState('')
+  const [seoSource, setSeoSource] = useState(sourceUrl || '')
 
   // Preview URL
   const [previewUrl, setPreviewUrl] = useState<string>('')
@@ -0,0 +1,313 @@
+'use client'
+
+import { useState, type CSSProperties, type ReactNode } from 'react'
+import { useMediaManager } from './MediaManagerProvider'
+
+// Dark theme color palette
+const colors = {
+  headerBg: '#0f1422',
+  cardBg: '#151b2b',
+  inputBg: '#1a2234',
+  hoverBg: '#1e2739',
+  border: '#1e2739',
+  borderLight: '#2d3748',
+  textPrimary: '#f1f5f9',
+  textSecondary: '#94a3b8',
+  textMuted: '#64748b',
+  primary: '#3b82f6',
+  success: '#10b981',
+  error: '#ef4444',
+  gold: '#f59e0b',
+  white: '#ffffff',
+}
+
+const buttonStyle: CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '8px',
+  padding: '10px 16px',
+  fontSize: '14px',
+  fontWeight: 600,
+  borderRadius: '10px',
+  backgroundColor: colors.cardBg,
+  border: `1px solid ${colors.border}`,
+  color: colors.textSecondary,
+  cursor: 'pointer',
+  transition: 'all 0.2s ease',
+}
+
+const popoverStyle: CSSProperties = {
+  position: 'absolute',
+  bottom: '100%',
+  right: 0,
+  marginBottom: '12px',
+  width: '288px',
+  borderRadius: '16px',
+  backgroundColor: colors.cardBg,
+  border: `1px solid ${colors.border}`,
+  boxShadow: '0 10px 40px rgba(0, 0, 0, 0.4)',
+  padding: '8px',
+  zIndex: 20,
+  maxHeight: '320px',
+  overflowY: 'auto',
+}
+
+type OpenMenu = 'move' | 'tags' | null
+
+/**
+ * Footer toolbar shown when more than one media item is selected
+ * Bulk move, tag, feature, export and delete in browse mode; insert all in multi-select mode
+ */
+export function SelectionToolbar() {
+  const {
+    selectedItems,
+    clearSelection,
+    folders,
+    moveMediaToFolder,
+    bulkDeleteMedia,
+    bulkUpdateTags,
+    bulkSetFeatured,
+    exportMediaArchive,
+    modalOptions,
+    closeModal,
+  } = useMediaManager()
+
+  const [openMenu, setOpenMenu] = useState<OpenMenu>(null)
+  const [tagInput, setTagInput] = useState('')
+  const [isWorking, setIsWorking] = useState(false)
+
+  const ids = selectedItems.map(m => m.id)
+  const isSelectionMode = modalOptions?.mode === 'select'
+  const allFeatured = selectedItems.every(m => m.featured)
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true)
+    setOpenMenu(null)
+    try {
+      await action()
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const parseTags = () => tagInput.split(',').map(tag => tag.trim()).filter(Boolean)
+
+  const handleInsert = () => {
+    if (modalOptions?.allowMultiple) {
+      modalOptions.onSelect?.(selectedItems)
+      closeModal()
+    }
+  }
+
+  const handleDelete = () => {
+    if (confirm(`Delete ${ids.length} items? This action cannot be undone.`)) {
+      run(() => bulkDeleteMedia(ids))
+    }
+  }
+
+  return (
+    <div
+      style={{
+        flexShrink: 0,
+        padding: '20px 32px',
+        backgroundColor: colors.headerBg,
+        borderTop: `1px solid ${colors.border}`,
+        boxShadow: '0 -4px 20px rgba(0, 0, 0, 0.3)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        gap: '16px',
+        opacity: isWorking ? 0.6 : 1,
+        pointerEvents: isWorking ? 'none' : 'auto',
+      }}
+    >
+      {/* Left: Selection summary */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '16px' }}>
+        <p style={{ fontSize: '18px', fontWeight: 700, color: colors.textPrimary, margin: 0 }}>
+          {selectedItems.length} selected
+        </p>
+        <button
+          type="button"
+          onClick={clearSelection}
+          style={{ ...buttonStyle, padding: '6px 12px', backgroundColor: 'transparent', border: 'none' }}
+        >
+          Clear selection
+        </button>
+        <span style={{ fontSize: '13px', color: colors.textMuted }}>
+          Shift-click selects a range, Ctrl/Cmd-click toggles items
+        </span>
+      </div>
+
+      {/* Right: Actions */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+        {isSelectionMode && modalOptions?.allowMultiple && (
+          <button
+            type="button"
+            onClick={handleInsert}
+            style={{
+              ...buttonStyle,
+              border: 'none',
+              backgroundColor: colors.success,
+              color: colors.white,
+              boxShadow: '0 4px 20px rgba(16, 185, 129, 0.4)',
+            }}
+          >
+            Insert {selectedItems.length} Items
+          </button>
+        )}
+
+        {!isSelectionMode && (
+          <>
+            {/* Move */}
+            <div style={{ position: 'relative' }}>
+              <button
+                type="button"
+                onClick={() => setOpenMenu(openMenu === 'move' ? null : 'move')}
+                style={buttonStyle}
+              >
+                Move
+              </button>
+              {openMenu === 'move' && (
+                <>
+                  <div
+                    onClick={() => setOpenMenu(null)}
+                    style={{ position: 'fixed', inset: 0, zIndex: 10 }}
+                  />
+                  <div style={popoverStyle}>
+                    <MenuButton onClick={() => run(() => moveMediaToFolder(ids, null))}>
+                      Root (No folder)
+                    </MenuButton>
+                    <div style={{ height: '1px', backgroundColor: colors.border, margin: '8px 0' }} />
+                    {folders.map((folder) => (
+                      <MenuButton key={folder.id} onClick={() => run(() => moveMediaToFolder(ids, folder.id))}>
+                        {folder.name}
+                      </MenuButton>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Tags */}
+            <div style={{ position: 'relative' }}>
+              <button
+                type="button"
+                onClick={() => setOpenMenu(openMenu === 'tags' ? null : 'tags')}
+                style={buttonStyle}
+              >
+                Tags
+              </button>
+              {openMenu === 'tags' && (
+                <>
+                  <div
+                    onClick={() => setOpenMenu(null)}
+                    style={{ position: 'fixed', inset: 0, zIndex: 10 }}
+                  />
+                  <div style={{ ...popoverStyle, padding: '16px' }}>
+                    <input
+                      type="text"
+                      autoFocus
+                      value={tagInput}
+                      onChange={(e) => setTagInput(e.target.value)}
+                      placeholder="tag-one, tag-two"
+                      style={{
+                        width: '100%',
+                        padding: '10px 12px',
+                        fontSize: '14px',
+                        borderRadius: '8px',
+                        backgroundColor: colors.inputBg,
+                        border: `1px solid ${colors.borderLight}`,
+                        color: colors.textPrimary,
+                        outline: 'none',
+                        boxSizing: 'border-box',
+                      }}
+                    />
+                    <div style={{ display: 'flex', gap: '8px', marginTop: '12px' }}>
+                      <button
+                        type="button"
+                        disabled={parseTags().length === 0}
+                        onClick={() => run(() => bulkUpdateTags(ids, { add: parseTags() })).then(() => setTagInput(''))}
+                        style={{ ...buttonStyle, flex: 1, justifyContent: 'center', backgroundColor: colors.primary, color: colors.white, border: 'none' }}
+                      >
+                        Add
+                      </button>
+                      <button
+                        type="button"
+                        disabled={parseTags().length === 0}
+                        onClick={() => run(() => bulkUpdateTags(ids, { remove: parseTags() })).then(() => setTagInput(''))}
+                        style={{ ...buttonStyle, flex: 1, justifyContent: 'center' }}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Featured */}
+            <button
+              type="button"
+              onClick={() => run(() => bulkSetFeatured(ids, !allFeatured))}
+              style={{ ...buttonStyle, color: colors.gold }}
+            >
+              {allFeatured ? 'Unmark Featured' : 'Mark Featured'}
+            </button>
+
+            {/* Export */}
+            <button
+              type="button"
+              onClick={() => run(() => exportMediaArchive({ ids }))}
+              style={buttonStyle}
+            >
+              Export ZIP
+            </button>
+
+            {/* Delete */}
+            <button
+              type="button"
+              onClick={handleDelete}
+              style={{ ...buttonStyle, color: colors.error, borderColor: colors.error }}
+            >
+              Delete
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function MenuButton({ children, onClick }: { children: ReactNode; onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      style={{
+        width: '100%',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '12px',
+        padding: '12px 16px',
+        fontSize: '14px',
+        fontWeight: 500,
+        borderRadius: '8px',
+        backgroundColor: 'transparent',
+        border: 'none',
+        color: colors.textSecondary,
+        cursor: 'pointer',
+        textAlign: 'left',
+      }}
+      onMouseEnter={(e) => {
+        e.currentTarget.style.backgroundColor = colors.hoverBg
+        e.currentTarget.style.color = colors.textPrimary
+      }}
+      onMouseLeave={(e) => {
+        e.currentTarget.style.backgroundColor = 'transparent'
+        e.currentTarget.style.color = colors.textSecondary
+      }}
+    >
+      {children}
+    </button>
+  )
+}
@@ -0,0 +1,256 @@
+'use client'
+
+import { useState, useRef, useCallback } from 'react'
+import { mediaImageSizes } from '@/collections/Media/imageSizes'
+import { useMediaManager } from './MediaManagerProvider'
+import { getCenteredCrop, getDraggedCrop } from './imageEdits'
+import type { CropArea } from './imageEdits'
+import type { MediaItem, SizeCrop } from './types'
+
+// Dark theme color palette matching MediaEditPanel
+const colors = {
+  backdrop: 'rgba(0, 0, 0, 0.85)',
+  modalBg: '#0a0e1a',
+  headerBg: '#0f1422',
+  border: '#1e2739',
+  textPrimary: '#f1f5f9',
+  textSecondary: '#94a3b8',
+  textMuted: '#64748b',
+  primary: '#3b82f6',
+  error: '#ef4444',
+  white: '#ffffff',
+}
+
+// Drags smaller than this (in preview pixels) are treated as clicks
+const MIN_CROP_SIZE = 20
+
+interface SizeCropDialogProps {
+  media: MediaItem
+  size: SizeCrop['size']
+  onSaved: (media: MediaItem) => void
+  onClose: () => void
+}
+
+const toPercent = (value: number) => Math.round(value * 10000) / 100
+
+/**
+ * Pick the crop rectangle used for one image size instead of the focal point crop.
+ * Sizes with a fixed height keep their aspect ratio.
+ */
+export function SizeCropDialog({ media, size, onSaved, onClose }: SizeCropDialogProps) {
+  const { updateMedia } = useMediaManager()
+  const imageSize = mediaImageSizes.find(option => option.name === size)
+  const ratio = imageSize?.width && imageSize?.height ? imageSize.width / imageSize.height : null
+  const existing = media.sizeCrops?.find(crop => crop.size === size)
+
+  const imageRef = useRef<HTMLImageElement>(null)
+  const [displaySize, setDisplaySize] = useState<{ width: number; height: number } | null>(null)
+  const [crop, setCrop] = useState<CropArea | null>(existing
+    ? { x: existing.x / 100, y: existing.y / 100, width: existing.width / 100, height: existing.height / 100 }
+    : null)
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null)
+  const [draftCrop, setDraftCrop] = useState<CropArea | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleImageLoad = useCallback(() => {
+    const image = imageRef.current
+    if (!image) return
+
+    setDisplaySize({ width: image.clientWidth, height: image.clientHeight })
+    setCrop(prev => prev ?? getCenteredCrop(image.naturalWidth, image.naturalHeight, ratio))
+  }, [ratio])
+
+  const getMousePosition = useCallback((e: React.MouseEvent) => {
+    if (!imageRef.current || !displaySize) return { x: 0, y: 0 }
+
+    const rect = imageRef.current.getBoundingClientRect()
+    return {
+      x: Math.max(0, Math.min(e.clientX - rect.left, displaySize.width)),
+      y: Math.max(0, Math.min(e.clientY - rect.top, displaySize.height)),
+    }
+  }, [displaySize])
+
+  const handleMouseDown = useCallback((e: React.MouseEvent) => {
+    e.preventDefault()
+    setDragStart(getMousePosition(e))
+  }, [getMousePosition])
+
+  const handleMouseMove = useCallback((e: React.MouseEvent) => {
+    if (!dragStart || !displaySize) return
+
+    setDraftCrop(getDraggedCrop(dragStart, getMousePosition(e), displaySize, ratio))
+  }, [dragStart, displaySize, getMousePosition, ratio])
+
+  const handleMouseUp = useCallback(() => {
+    if (!dragStart || !displaySize) return
+
+    if (draftCrop
+      && draftCrop.width * displaySize.width >= MIN_CROP_SIZE
+      && draftCrop.height * displaySize.height >= MIN_CROP_SIZE) {
+      setCrop(draftCrop)
+    }
+
+    setDragStart(null)
+    setDraftCrop(null)
+  }, [dragStart, draftCrop, displaySize])
+
+  const saveCrops = useCallback(async (next: SizeCrop | null) => {
+    setIsSaving(true)
+
+    // Rows keep their id so unchanged crops keep their generated image
+    const sizeCrops = (media.sizeCrops || [])
+      .filter(row => row.size !== size)
+      .map(({ id, size: rowSize, x, y, width, height }) => ({ id, size: rowSize, x, y, width, height }))
+
+    const updated = await updateMedia(media.id, { sizeCrops: next ? [...sizeCrops, next] : sizeCrops })
+    setIsSaving(false)
+    if (updated) onSaved(updated)
+  }, [media.id, media.sizeCrops, size, updateMedia, onSaved])
+
+  const handleSave = useCallback(() => {
+    if (!crop) return
+
+    const x = toPercent(crop.x)
+    const y = toPercent(crop.y)
+    saveCrops({
+      id: existing?.id,
+      size,
+      x,
+      y,
+      width: Math.min(toPercent(crop.width), 100 - x),
+      height: Math.min(toPercent(crop.height), 100 - y),
+    })
+  }, [crop, existing?.id, size, saveCrops])
+
+  const shownCrop = draftCrop || crop
+  const label = `${size.charAt(0).toUpperCase()}${size.slice(1)}`
+
+  const buttonStyle: React.CSSProperties = {
+    padding: '0.5rem 1rem',
+    fontSize: '0.875rem',
+    fontWeight: 500,
+    borderRadius: '0.5rem',
+    border: `1px solid ${colors.border}`,
+    backgroundColor: 'transparent',
+    color: colors.textSecondary,
+    cursor: isSaving ? 'not-allowed' : 'pointer',
+  }
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        zIndex: 1000001,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: '16px',
+        backgroundColor: colors.backdrop,
+      }}
+      onClick={(e) => {
+        e.stopPropagation()
+        onClose()
+      }}
+    >
+      <div
+        style={{
+          backgroundColor: colors.modalBg,
+          border: `1px solid ${colors.border}`,
+          borderRadius: '16px',
+          maxWidth: '1000px',
+          width: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          overflow: 'hidden',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div style={{ padding: '1rem 1.5rem', borderBottom: `1px solid ${colors.border}`, backgroundColor: colors.headerBg }}>
+          <h3 style={{ margin: 0, fontSize: '1rem', fontWeight: 600, color: colors.textPrimary }}>
+            {label} crop
+          </h3>
+          <p style={{ margin: '0.25rem 0 0', fontSize: '0.8125rem', color: colors.textMuted }}>
+            {imageSize?.width}{imageSize?.height ? ` × ${imageSize.height}` : ''}px
+            {' · '}Drag to choose the part of the image shown at this size
+          </p>
+        </div>
+
+        {/* Crop area */}
+        <div style={{ padding: '1.5rem', display: 'flex', justifyContent: 'center', userSelect: 'none' }}>
+          <div
+            style={{ position: 'relative', cursor: 'crosshair', lineHeight: 0, overflow: 'hidden' }}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseUp}
+          >
+            {/* eslint-disable-next-line @next/next/no-img-element -- measured directly for the crop overlay */}
+            <img
+              ref={imageRef}
+              src={media.url}
+              alt={media.alt}
+              draggable={false}
+              onLoad={handleImageLoad}
+              style={{ display: 'block', maxWidth: '100%', maxHeight: '60vh' }}
+            />
+
+            {shownCrop && displaySize && (
+              <div
+                style={{
+                  position: 'absolute',
+                  pointerEvents: 'none',
+                  border: `2px solid ${colors.white}`,
+                  boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.6)',
+                  left: shownCrop.x * displaySize.width,
+                  top: shownCrop.y * displaySize.height,
+                  width: Math.max(shownCrop.width * displaySize.width, 1),
+                  height: Math.max(shownCrop.height * displaySize.height, 1),
+                }}
+              />
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div
+          style={{
+            padding: '1rem 1.5rem',
+            borderTop: `1px solid ${colors.border}`,
+            display: 'flex',
+            justifyContent: 'space-between',
+            backgroundColor: colors.headerBg,
+          }}
+        >
+          <div>
+            {existing && (
+              <button
+                onClick={() => saveCrops(null)}
+                disabled={isSaving}
+                style={{ ...buttonStyle, color: colors.error }}
+              >
+                Remove crop
+              </button>
+            )}
+          </div>
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <button onClick={onClose} disabled={isSaving} style={buttonStyle}>
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !crop}
+              style={{ ...buttonStyle, border: 'none', backgroundColor: colors.primary, color: colors.white }}
+            >
+              {isSaving ? 'Saving...' : 'Save crop'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,139 @@
+'use client'
+
+import type { CSSProperties } from 'react'
+import { useMediaManager } from './MediaManagerProvider'
+import type { UploadProgress } from './types'
+
+// Dark theme color palette
+const colors = {
+  headerBg: '#0f1422',
+  cardBg: '#151b2b',
+  inputBg: '#1a2234',
+  border: '#1e2739',
+  borderLight: '#2d3748',
+  textPrimary: '#f1f5f9',
+  textSecondary: '#94a3b8',
+  textMuted: '#64748b',
+  primary: '#3b82f6',
+  success: '#10b981',
+  error: '#ef4444',
+  warning: '#f59e0b',
+}
+
+const statusLabels: Record<UploadProgress['status'], string> = {
+  pending: 'Waiting',
+  uploading: 'Uploading',
+  paused: 'Paused',
+  processing: 'Processing',
+  complete: 'Uploaded',
+  error: 'Failed',
+}
+
+const buttonStyle: CSSProperties = {
+  padding: '4px 10px',
+  fontSize: '12px',
+  fontWeight: 600,
+  borderRadius: '6px',
+  border: `1px solid ${colors.borderLight}`,
+  backgroundColor: colors.inputBg,
+  color: colors.textSecondary,
+  cursor: 'pointer',
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+/**
+ * Progress of chunked uploads, with pause, resume, retry and cancel
+ */
+export function UploadQueue() {
+  const { uploads, pauseUpload, resumeUpload, cancelUpload } = useMediaManager()
+
+  if (uploads.length === 0) return null
+
+  return (
+    <div
+      style={{
+        flexShrink: 0,
+        maxHeight: '200px',
+        overflowY: 'auto',
+        padding: '12px 32px',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '10px',
+        backgroundColor: colors.headerBg,
+        borderBottom: `1px solid ${colors.border}`,
+      }}
+    >
+      {uploads.map(upload => {
+        const barColor = upload.status === 'error'
+          ? colors.error
+          : upload.status === 'paused'
+            ? colors.warning
+            : upload.status === 'complete'
+              ? colors.success
+              : colors.primary
+
+        return (
+          <div key={upload.id} style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', gap: '12px', fontSize: '13px', marginBottom: '6px' }}>
+                <span style={{ color: colors.textPrimary, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {upload.filename}
+                </span>
+                <span style={{ flexShrink: 0, color: upload.status === 'error' ? colors.error : colors.textMuted }}>
+                  {statusLabels[upload.status]}
+                  {upload.status !== 'complete' && ` · ${formatMegabytes(upload.bytesUploaded)} of ${formatMegabytes(upload.size)} (${upload.progress}%)`}
+                </span>
+              </div>
+              <div
+                role="progressbar"
+                aria-label={`Upload progress for ${upload.filename}`}
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={upload.progress}
+                style={{ height: '6px', borderRadius: '9999px', overflow: 'hidden', backgroundColor: colors.cardBg }}
+              >
+                <div
+                  style={{
+                    width: `${upload.progress}%`,
+                    height: '100%',
+                    borderRadius: '9999px',
+                    backgroundColor: barColor,
+                    transition: 'width 0.2s ease',
+                  }}
+                />
+              </div>
+              {upload.error && (
+                <p style={{ fontSize: '12px', margin: '4px 0 0', color: colors.error }}>{upload.error}</p>
+              )}
+            </div>
+
+            <div style={{ display: 'flex', gap: '6px', flexShrink: 0 }}>
+              {upload.status === 'uploading' && (
+                <button type="button" onClick={() => pauseUpload(upload.id)} style={buttonStyle}>
+                  Pause
+                </button>
+              )}
+              {(upload.status === 'paused' || upload.status === 'error') && (
+                <button type="button" onClick={() => resumeUpload(upload.id)} style={buttonStyle}>
+                  {upload.status === 'error' ? 'Retry' : 'Resume'}
+                </button>
+              )}
+              {upload.status !== 'processing' && upload.status !== 'complete' && (
+                <button
+                  type="button"
+                  onClick={() => cancelUpload(upload.id)}
+                  style={{ ...buttonStyle, color: colors.error }}
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,187 @@
+// Attempts per chunk before the upload is reported as failed
+const MAX_CHUNK_ATTEMPTS = 4
+const RETRY_BASE_DELAY_MS = 1000
+
+interface UploadStatusResponse {
+  id: string
+  chunkSize: number
+  totalChunks: number
+  receivedChunks: number[]
+}
+
+export type ChunkedUploadResult =
+  | { status: 'complete'; doc: Record<string, unknown> }
+  | { status: 'paused' }
+  | { status: 'cancelled' }
+
+export interface ChunkedUploadCallbacks {
+  onProgress: (bytesUploaded: number) => void
+  onProcessing: () => void // All chunks sent, the server is creating the media item
+}
+
+/**
+ * Uploads a file to /api/media-uploads in chunks
+ * `run` can be called again after a pause or failure and continues with the chunks
+ * the server has not received yet
+ */
+export interface ChunkedUpload {
+  run: () => Promise<ChunkedUploadResult>
+  pause: () => void
+  cancel: () => Promise<void>
+}
+
+class UploadRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+  }
+}
+
+// Network errors, timeouts, rate limits and server errors are worth retrying
+const isRetryable = (error: unknown) =>
+  !(error instanceof UploadRequestError) || error.status === 408 || error.status === 429 || error.status >= 500
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, { credentials: 'include', ...init })
+  const result = await response.json().catch(() => null)
+
+  if (!response.ok) {
+    throw new UploadRequestError(result?.error || `Upload request failed (${response.status})`, response.status)
+  }
+
+  return result as T
+}
+
+export function createChunkedUpload(
+  file: File,
+  data: Record<string, unknown>,
+  { onProgress, onProcessing }: ChunkedUploadCallbacks,
+): ChunkedUpload {
+  let uploadId: string | null = null
+  let stopped: 'paused' | 'cancelled' | null = null
+  let currentRequest: XMLHttpRequest | null = null
+
+  // XHR rather than fetch, for upload progress within a chunk
+  const sendChunk = (id: string, index: number, chunk: Blob, onChunkProgress: (loaded: number) => void) =>
+    new Promise<void>((resolve, reject) => {
+      const xhr = new XMLHttpRequest()
+      currentRequest = xhr
+
+      xhr.open('PUT', `/api/media-uploads/${id}/chunks/${index}`)
+      xhr.withCredentials = true
+      xhr.upload.onprogress = (event) => onChunkProgress(event.loaded)
+      xhr.onload = () => {
+        currentRequest = null
+        if (xhr.status >= 200 && xhr.status < 300) {
+          resolve()
+        } else {
+          let message = `Failed to upload part ${index + 1} of ${file.name}`
+          try {
+            message = JSON.parse(xhr.responseText).error || message
+          } catch {
+            // Not a JSON error body
+          }
+          reject(new UploadRequestError(message, xhr.status))
+        }
+      }
+      xhr.onerror = () => {
+        currentRequest = null
+        reject(new Error(`Network error while uploading ${file.name}`))
+      }
+      xhr.onabort = () => {
+        currentRequest = null
+        reject(new Error('Upload aborted'))
+      }
+      xhr.send(chunk)
+    })
+
+  // Resume the known session, or start a new one if there is none or it expired
+  const openSession = async (): Promise<UploadStatusResponse> => {
+    if (uploadId) {
+      try {
+        return await requestJson<UploadStatusResponse>(`/api/media-uploads/${uploadId}`)
+      } catch (error) {
+        if (!(error instanceof UploadRequestError && error.status === 404)) throw error
+      }
+    }
+
+    const session = await requestJson<UploadStatusResponse>('/api/media-uploads', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ filename: file.name, mimeType: file.type, size: file.size }),
+    })
+    uploadId = session.id
+    return session
+  }
+
+  const run = async (): Promise<ChunkedUploadResult> => {
+    stopped = null
+
+    const session = await openSession()
+    const received = new Set(session.receivedChunks)
+    const chunkBounds = (index: number) => [index * session.chunkSize, Math.min(file.size, (index + 1) * session.chunkSize)]
+
+    let uploadedBytes = 0
+    received.forEach((index) => {
+      const [start, end] = chunkBounds(index)
+      uploadedBytes += end - start
+    })
+    onProgress(uploadedBytes)
+
+    for (let index = 0; index < session.totalChunks; index++) {
+      if (received.has(index)) continue
+
+      const [start, end] = chunkBounds(index)
+      const chunk = file.slice(start, end)
+
+      for (let attempt = 1; ; attempt++) {
+        if (stopped) return { status: stopped }
+
+        try {
+          await sendChunk(session.id, index, chunk, (loaded) => onProgress(uploadedBytes + loaded))
+          break
+        } catch (error) {
+          if (stopped) return { status: stopped }
+          if (attempt >= MAX_CHUNK_ATTEMPTS || !isRetryable(error)) throw error
+
+          console.warn(`Retrying part ${index + 1} of ${file.name} (attempt ${attempt + 1})`, error)
+          onProgress(uploadedBytes)
+          await wait(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1))
+        }
+      }
+
+      uploadedBytes += chunk.size
+      onProgress(uploadedBytes)
+    }
+
+    if (stopped) return { status: stopped }
+
+    onProcessing()
+    const result = await requestJson<{ doc: Record<string, unknown> }>(`/api/media-uploads/${session.id}/complete`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ data }),
+    })
+
+    uploadId = null
+    return { status: 'complete', doc: result.doc }
+  }
+
+  const pause = () => {
+    stopped = 'paused'
+    currentRequest?.abort()
+  }
+
+  const cancel = async () => {
+    stopped = 'cancelled'
+    currentRequest?.abort()
+
+    if (uploadId) {
+      await fetch(`/api/media-uploads/${uploadId}`, { method: 'DELETE', credentials: 'include' }).catch(() => undefined)
+      uploadId = null
+    }
+  }
+
+  return { run, pause, cancel }
+}
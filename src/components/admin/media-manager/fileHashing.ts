@@ -0,0 +1,76 @@
+import { DHASH_HEIGHT, DHASH_WIDTH, dHash } from '@/utilities/perceptualHash'
+
+export interface FileHashes {
+  contentHash: string
+  perceptualHash?: string
+}
+
+// Intermediate width for downscaling; a single huge-to-tiny draw aliases badly
+const DOWNSCALE_WIDTH = 256
+
+/**
+ * Hash a file in the browser the same way the Media collection does on upload,
+ * so it can be checked against the library before it is sent.
+ * Returns null where SubtleCrypto is unavailable (non-secure contexts).
+ */
+export async function hashFile(file: File): Promise<FileHashes | null> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null
+
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer())
+  const contentHash = Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+
+  if (!file.type.startsWith('image/') || file.type === 'image/svg+xml') {
+    return { contentHash }
+  }
+
+  try {
+    return { contentHash, perceptualHash: await perceptualHashOf(file) }
+  } catch (error) {
+    console.warn('Could not compute perceptual hash for', file.name, error)
+    return { contentHash }
+  }
+}
+
+async function perceptualHashOf(file: File): Promise<string> {
+  const bitmap = await createImageBitmap(file)
+
+  try {
+    const scale = Math.min(1, DOWNSCALE_WIDTH / bitmap.width)
+    const intermediate = drawOnWhite(bitmap, Math.max(1, Math.round(bitmap.width * scale)), Math.max(1, Math.round(bitmap.height * scale)))
+    const thumbnail = drawOnWhite(intermediate, DHASH_WIDTH, DHASH_HEIGHT)
+
+    const context = thumbnail.getContext('2d')
+    if (!context) throw new Error('Canvas 2D context unavailable')
+
+    const { data } = context.getImageData(0, 0, DHASH_WIDTH, DHASH_HEIGHT)
+    const pixels = new Uint8Array(DHASH_WIDTH * DHASH_HEIGHT)
+
+    // Rec. 709 luma, matching sharp's greyscale conversion
+    for (let i = 0; i < pixels.length; i++) {
+      pixels[i] = Math.round(0.2126 * data[i * 4] + 0.7152 * data[i * 4 + 1] + 0.0722 * data[i * 4 + 2])
+    }
+
+    return dHash(pixels)
+  } finally {
+    bitmap.close()
+  }
+}
+
+function drawOnWhite(source: CanvasImageSource, width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Canvas 2D context unavailable')
+
+  context.fillStyle = '#ffffff'
+  context.fillRect(0, 0, width, height)
+  context.imageSmoothingEnabled = true
+  context.imageSmoothingQuality = 'high'
+  context.drawImage(source, 0, 0, width, height)
+
+  return canvas
+}
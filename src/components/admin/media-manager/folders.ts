@@ -0,0 +1,90 @@
+import type { FolderItem, FolderTreeNode } from './types'
+
+// Drag data types used when moving media and folders onto folder nodes
+export const MEDIA_DRAG_TYPE = 'application/x-media-ids'
+export const FOLDER_DRAG_TYPE = 'application/x-folder-id'
+
+export function getParentFolderId(folder: FolderItem): string | null {
+  if (!folder.folder) return null
+  return typeof folder.folder === 'string' ? folder.folder : folder.folder.id
+}
+
+/**
+ * Whether `folderId` is `ancestorId` itself or sits anywhere below it
+ * Stops on cycles in the parent chain instead of looping forever
+ */
+export function isWithinFolder(folders: FolderItem[], folderId: string, ancestorId: string): boolean {
+  const byId = new Map(folders.map((folder) => [folder.id, folder]))
+  const visited = new Set<string>()
+  let currentId: string | null = folderId
+
+  while (currentId && !visited.has(currentId)) {
+    if (currentId === ancestorId) return true
+    visited.add(currentId)
+    const current = byId.get(currentId)
+    currentId = current ? getParentFolderId(current) : null
+  }
+
+  return false
+}
+
+/**
+ * IDs of every folder nested below `folderId`, nearest first
+ */
+export function getDescendantFolderIds(folders: FolderItem[], folderId: string): string[] {
+  const descendants: string[] = []
+  const queue = [folderId]
+  const visited = new Set(queue)
+
+  while (queue.length > 0) {
+    const parentId = queue.shift()
+    for (const folder of folders) {
+      if (getParentFolderId(folder) === parentId && !visited.has(folder.id)) {
+        visited.add(folder.id)
+        descendants.push(folder.id)
+        queue.push(folder.id)
+      }
+    }
+  }
+
+  return descendants
+}
+
+/**
+ * Build folder tree from flat folder list
+ * Folders whose parent is missing, or whose parent chain loops back on itself,
+ * are shown at the root so they stay reachable
+ */
+export function buildFolderTree(folders: FolderItem[]): FolderTreeNode[] {
+  const folderMap = new Map<string, FolderTreeNode>()
+  const rootFolders: FolderTreeNode[] = []
+
+  // First pass: create tree nodes
+  folders.forEach((folder) => {
+    folderMap.set(folder.id, { ...folder, children: [] })
+  })
+
+  // Second pass: build hierarchy
+  folders.forEach((folder) => {
+    const node = folderMap.get(folder.id)
+    if (!node) return
+
+    const parentId = getParentFolderId(folder)
+    const parent = parentId ? folderMap.get(parentId) : undefined
+
+    if (parent && parentId && !isWithinFolder(folders, parentId, folder.id)) {
+      parent.children.push(node)
+    } else {
+      rootFolders.push(node)
+    }
+  })
+
+  // Sort children by name
+  const sortFolders = (nodes: FolderTreeNode[]) => {
+    nodes.sort((a, b) => a.name.localeCompare(b.name))
+    nodes.forEach((node) => sortFolders(node.children))
+  }
+  sortFolders(rootFolders)
+
+  return rootFolders
+}
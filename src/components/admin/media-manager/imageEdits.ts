@@ -0,0 +1,347 @@
+import { useCallback, useRef, useState } from 'react'
+import { mediaImageSizes } from '@/collections/Media/imageSizes'
+
+/**
+ * Crop rectangle as fractions (0–1) of the rotated, flipped and straightened image,
+ * so it stays valid at any display or output scale
+ */
+export interface CropArea {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export type OutputFormat = 'image/jpeg' | 'image/webp' | 'image/avif'
+
+export interface ImageEdits {
+  crop: CropArea
+  aspectPreset: string // AspectPreset id
+  rotation: 0 | 90 | 180 | 270
+  straighten: number // Fine rotation in degrees, -45 to 45
+  flipHorizontal: boolean
+  flipVertical: boolean
+  brightness: number // Percent, 100 is unchanged
+  contrast: number
+  saturation: number
+  outputWidth: number | null // null keeps the cropped size; height follows the crop's aspect ratio
+  format: OutputFormat
+  quality: number
+}
+
+export interface AspectPreset {
+  id: string
+  label: string
+  ratio: number | null // width / height; null for a free crop
+  width?: number // Output size the preset is made for
+  height?: number
+}
+
+export const FULL_CROP: CropArea = { x: 0, y: 0, width: 1, height: 1 }
+
+export const DEFAULT_EDITS: ImageEdits = {
+  crop: FULL_CROP,
+  aspectPreset: 'free',
+  rotation: 0,
+  straighten: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+  outputWidth: null,
+  format: 'image/jpeg',
+  quality: 85,
+}
+
+export const OUTPUT_FORMATS: { value: OutputFormat; label: string; extension: string }[] = [
+  { value: 'image/jpeg', label: 'JPEG', extension: 'jpg' },
+  { value: 'image/webp', label: 'WebP', extension: 'webp' },
+  { value: 'image/avif', label: 'AVIF', extension: 'avif' },
+]
+
+const greatestCommonDivisor = (a: number, b: number): number => (b === 0 ? a : greatestCommonDivisor(b, a % b))
+
+const ratioLabel = (width: number, height: number) => {
+  const divisor = greatestCommonDivisor(width, height)
+  return `${width / divisor}:${height / divisor}`
+}
+
+/**
+ * Crop presets: the Media collection's fixed-size image sizes, plus the hero and
+ * social sharing formats used by the site
+ */
+export const ASPECT_PRESETS: AspectPreset[] = [
+  { id: 'free', label: 'Free', ratio: null },
+  ...mediaImageSizes
+    .filter((size): size is typeof size & { width: number; height: number } => Boolean(size.width && size.height))
+    .map(size => ({
+      id: size.name,
+      label: `${size.name.charAt(0).toUpperCase()}${size.name.slice(1)} ${ratioLabel(size.width, size.height)}`,
+      ratio: size.width / size.height,
+      width: size.width,
+      height: size.height,
+    })),
+  { id: 'hero', label: 'Hero 16:9', ratio: 16 / 9, width: 1920, height: 1080 },
+  { id: 'og', label: 'Social 1.91:1', ratio: 1200 / 630, width: 1200, height: 630 },
+]
+
+/**
+ * Size of the image once rotated by a multiple of 90°
+ */
+export function getRotatedSize(width: number, height: number, rotation: ImageEdits['rotation']) {
+  return rotation % 180 === 0 ? { width, height } : { width: height, height: width }
+}
+
+/**
+ * The largest centred crop with the given aspect ratio, as fractions of an image of this size
+ */
+export function getCenteredCrop(imageWidth: number, imageHeight: number, ratio: number | null): CropArea {
+  if (!ratio) return FULL_CROP
+
+  const imageRatio = imageWidth / imageHeight
+  if (ratio > imageRatio) {
+    const height = imageRatio / ratio
+    return { x: 0, y: (1 - height) / 2, width: 1, height }
+  }
+
+  const width = ratio / imageRatio
+  return { x: (1 - width) / 2, y: 0, width, height: 1 }
+}
+
+/**
+ * Crop for a drag from `start` to `end` (pixels in a preview of the given size). With a ratio
+ * the crop keeps that aspect, shrinking to stay inside the image.
+ */
+export function getDraggedCrop(
+  start: { x: number; y: number },
+  end: { x: number; y: number },
+  bounds: { width: number; height: number },
+  ratio: number | null,
+): CropArea {
+  let width = Math.abs(end.x - start.x)
+  let height = Math.abs(end.y - start.y)
+
+  if (ratio) {
+    const maxWidth = end.x >= start.x ? bounds.width - start.x : start.x
+    const maxHeight = end.y >= start.y ? bounds.height - start.y : start.y
+
+    width = Math.max(width, height * ratio)
+    width = Math.min(width, maxWidth, maxHeight * ratio)
+    height = width / ratio
+  }
+
+  const x = end.x >= start.x ? start.x : start.x - width
+  const y = end.y >= start.y ? start.y : start.y - height
+
+  return {
+    x: x / bounds.width,
+    y: y / bounds.height,
+    width: width / bounds.width,
+    height: height / bounds.height,
+  }
+}
+
+/**
+ * How far a straightened image is enlarged so it still covers the frame without empty corners
+ */
+function getStraightenScale(width: number, height: number, degrees: number): number {
+  const angle = Math.abs((degrees * Math.PI) / 180)
+  return Math.cos(angle) + Math.max(width / height, height / width) * Math.sin(angle)
+}
+
+/**
+ * Draw the image rotated, flipped and straightened at the given scale (1 is full resolution)
+ */
+export function renderTransformedImage(image: HTMLImageElement, edits: ImageEdits, scale = 1): HTMLCanvasElement {
+  const imageWidth = image.naturalWidth * scale
+  const imageHeight = image.naturalHeight * scale
+  const { width, height } = getRotatedSize(imageWidth, imageHeight, edits.rotation)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(width))
+  canvas.height = Math.max(1, Math.round(height))
+
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Could not get canvas context')
+
+  const straightenScale = getStraightenScale(width, height, edits.straighten)
+
+  // Applied in reverse: quarter-turn first, then flips in the rotated view, then straightening
+  ctx.imageSmoothingQuality = 'high'
+  ctx.translate(canvas.width / 2, canvas.height / 2)
+  ctx.rotate((edits.straighten * Math.PI) / 180)
+  ctx.scale(straightenScale, straightenScale)
+  ctx.scale(edits.flipHorizontal ? -1 : 1, edits.flipVertical ? -1 : 1)
+  ctx.rotate((edits.rotation * Math.PI) / 180)
+  ctx.drawImage(image, -imageWidth / 2, -imageHeight / 2, imageWidth, imageHeight)
+
+  return canvas
+}
+
+/**
+ * Brightness, contrast and saturation, computed per pixel the same way as the
+ * CSS filters of the same name (canvas `filter` is not available in every browser)
+ */
+export function applyAdjustments(canvas: HTMLCanvasElement, { brightness, contrast, saturation }: ImageEdits) {
+  if (brightness === 100 && contrast === 100 && saturation === 100) return
+
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Could not get canvas context')
+
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
+  const pixels = imageData.data
+  const brightnessFactor = brightness / 100
+  const contrastFactor = contrast / 100
+  const saturationFactor = saturation / 100
+
+  for (let i = 0; i < pixels.length; i += 4) {
+    let r = (pixels[i] * brightnessFactor - 127.5) * contrastFactor + 127.5
+    let g = (pixels[i + 1] * brightnessFactor - 127.5) * contrastFactor + 127.5
+    let b = (pixels[i + 2] * brightnessFactor - 127.5) * contrastFactor + 127.5
+
+    const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b
+    r = luminance + (r - luminance) * saturationFactor
+    g = luminance + (g - luminance) * saturationFactor
+    b = luminance + (b - luminance) * saturationFactor
+
+    // Uint8ClampedArray clamps to 0–255
+    pixels[i] = r
+    pixels[i + 1] = g
+    pixels[i + 2] = b
+  }
+
+  ctx.putImageData(imageData, 0, 0)
+}
+
+/**
+ * Pixel size of the crop, and of the output once resized
+ */
+export function getOutputSize(image: HTMLImageElement, edits: ImageEdits) {
+  const rotated = getRotatedSize(image.naturalWidth, image.naturalHeight, edits.rotation)
+  const cropWidth = Math.max(1, Math.round(edits.crop.width * rotated.width))
+  const cropHeight = Math.max(1, Math.round(edits.crop.height * rotated.height))
+  const width = edits.outputWidth ?? cropWidth
+
+  return {
+    cropWidth,
+    cropHeight,
+    width,
+    height: Math.max(1, Math.round(width * (cropHeight / cropWidth))),
+  }
+}
+
+/**
+ * Apply all edits at full resolution and encode the result
+ */
+export async function exportEditedImage(image: HTMLImageElement, edits: ImageEdits, filename: string): Promise<File> {
+  const transformed = renderTransformedImage(image, edits)
+  const { width, height } = getOutputSize(image, edits)
+
+  const output = document.createElement('canvas')
+  output.width = width
+  output.height = height
+
+  const ctx = output.getContext('2d')
+  if (!ctx) throw new Error('Could not get output canvas context')
+
+  // JPEG has no transparency; fill it white rather than black
+  if (edits.format === 'image/jpeg') {
+    ctx.fillStyle = '#ffffff'
+    ctx.fillRect(0, 0, width, height)
+  }
+
+  ctx.imageSmoothingQuality = 'high'
+  ctx.drawImage(
+    transformed,
+    edits.crop.x * transformed.width,
+    edits.crop.y * transformed.height,
+    edits.crop.width * transformed.width,
+    edits.crop.height * transformed.height,
+    0, 0, width, height,
+  )
+
+  applyAdjustments(output, edits)
+
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    output.toBlob(
+      (b) => b ? resolve(b) : reject(new Error('Failed to create blob')),
+      edits.format,
+      edits.quality / 100,
+    )
+  })
+
+  // Browsers fall back to PNG for formats they cannot encode
+  const format = OUTPUT_FORMATS.find(option => option.value === blob.type)
+  const extension = format?.extension || 'png'
+
+  return new File([blob], filename.replace(/\.[^.]+$/, '') + `.${extension}`, {
+    type: blob.type,
+    lastModified: Date.now(),
+  })
+}
+
+/**
+ * Output formats this browser can encode (AVIF support in canvas is still patchy)
+ */
+export function getSupportedFormats(): OutputFormat[] {
+  const canvas = document.createElement('canvas')
+  canvas.width = 1
+  canvas.height = 1
+
+  return OUTPUT_FORMATS
+    .map(format => format.value)
+    .filter(format => canvas.toDataURL(format).startsWith(`data:${format}`))
+}
+
+/**
+ * State with undo and redo. Updates sharing a `mergeKey` (e.g. dragging one slider)
+ * become a single history step until `endMerge` is called.
+ */
+export function useUndoableState<T>(initial: T) {
+  const [history, setHistory] = useState({ past: [] as T[], present: initial, future: [] as T[] })
+  const mergeKeyRef = useRef<string | null>(null)
+
+  const set = useCallback((update: Partial<T> | ((prev: T) => T), mergeKey?: string) => {
+    const merge = mergeKey !== undefined && mergeKey === mergeKeyRef.current
+    mergeKeyRef.current = mergeKey ?? null
+
+    setHistory(prev => ({
+      past: merge ? prev.past : [...prev.past, prev.present],
+      present: typeof update === 'function' ? update(prev.present) : { ...prev.present, ...update },
+      future: [],
+    }))
+  }, [])
+
+  const endMerge = useCallback(() => {
+    mergeKeyRef.current = null
+  }, [])
+
+  const undo = useCallback(() => {
+    mergeKeyRef.current = null
+    setHistory(prev => prev.past.length === 0 ? prev : {
+      past: prev.past.slice(0, -1),
+      present: prev.past[prev.past.length - 1],
+      future: [prev.present, ...prev.future],
+    })
+  }, [])
+
+  const redo = useCallback(() => {
+    mergeKeyRef.current = null
+    setHistory(prev => prev.future.length === 0 ? prev : {
+      past: [...prev.past, prev.present],
+      present: prev.future[0],
+      future: prev.future.slice(1),
+    })
+  }, [])
+
+  return {
+    state: history.present,
+    set,
+    endMerge,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  }
+}
@@ -6,9 +6,12 @@
  * - Floating action button to open media library
  * - Full-screen modal with grid view
  * - Drag and drop file upload
- * - Image editor with crop, rotate, and quality controls
+ * - Chunked, resumable uploads with progress
+ * - Image editor with crop presets, rotate/flip/straighten, adjustments, resize and format, with undo
  * - Toast notifications for user feedback
  * - Copy public URL to clipboard
+ * - Import from URL
+ * - ZIP export and import with a metadata manifest
  * - Search and pagination
  */
 
@@ -21,7 +24,14 @@ export { MediaManagerButton } from './MediaManagerButton'
 export { MediaManagerModal } from './MediaManagerModal'
 export { MediaGrid } from './MediaGrid'
 export { FolderTree } from './FolderTree'
+export { SelectionToolbar } from './SelectionToolbar'
+export { DuplicateUploadDialog } from './DuplicateUploadDialog'
+export { MediaFilterBar } from './MediaFilterBar'
+export { UploadQueue } from './UploadQueue'
+export { ImportArchiveDialog } from './ImportArchiveDialog'
+export { ImportUrlDialog } from './ImportUrlDialog'
 export { ImageEditor } from './ImageEditor'
+export { SizeCropDialog } from './SizeCropDialog'
 export { ToastContainer, useToast } from './Toast'
 
 // Types
@@ -29,12 +39,25 @@ export type {
   MediaItem,
   FolderItem,
   FolderTreeNode,
+  FolderContents,
+  FolderDeleteMode,
   MediaManagerState,
   MediaManagerActions,
   MediaManagerContextValue,
+  MediaManagerModalOptions,
+  SelectionModifiers,
+  MediaUsage,
+  SizeCrop,
+  DuplicateMatch,
+  DuplicateResolution,
+  MediaFilters,
+  MediaSort,
   UploadProgress,
+  ArchiveConflictMode,
+  ArchiveImportReport,
   MediaApiResponse,
   FolderApiResponse,
 } from './types'
 
+export type { ImageEdits, AspectPreset, OutputFormat } from './imageEdits'
 export type { ToastMessage } from './Toast'
@@ -0,0 +1,89 @@
+import type { Where } from 'payload'
+import type { MediaFilters, MediaSort } from './types'
+
+export const DEFAULT_MEDIA_FILTERS: MediaFilters = {
+  mediaType: null,
+  mimeFamily: null,
+  featured: null,
+  tags: [],
+  tagMatch: 'any',
+  uploadedAfter: null,
+  uploadedBefore: null,
+  orientation: null,
+  minWidth: null,
+  minHeight: null,
+  minFileSize: null,
+  maxFileSize: null,
+  missingAlt: false,
+}
+
+export const DEFAULT_MEDIA_SORT: MediaSort = '-createdAt'
+
+export const MEDIA_SORT_OPTIONS: { value: MediaSort; label: string }[] = [
+  { value: '-createdAt', label: 'Newest first' },
+  { value: 'createdAt', label: 'Oldest first' },
+  { value: 'filename', label: 'Name (A–Z)' },
+  { value: '-filename', label: 'Name (Z–A)' },
+  { value: '-filesize', label: 'Largest first' },
+  { value: 'filesize', label: 'Smallest first' },
+]
+
+/**
+ * Translate the filter panel into Payload `where` conditions
+ */
+export function buildFilterConditions(filters: MediaFilters): Where[] {
+  const conditions: Where[] = []
+
+  if (filters.mediaType) conditions.push({ mediaType: { equals: filters.mediaType } })
+  if (filters.mimeFamily) conditions.push({ mimeType: { like: `${filters.mimeFamily}/` } })
+  if (filters.featured !== null) conditions.push({ featured: { equals: filters.featured } })
+  if (filters.orientation) conditions.push({ orientation: { equals: filters.orientation } })
+
+  if (filters.tags.length > 0) {
+    conditions.push({ tags: { [filters.tagMatch === 'all' ? 'all' : 'in']: filters.tags } })
+  }
+
+  // Dates are whole days in the user's timezone
+  if (filters.uploadedAfter) {
+    conditions.push({ createdAt: { greater_than_equal: new Date(`${filters.uploadedAfter}T00:00:00`).toISOString() } })
+  }
+  if (filters.uploadedBefore) {
+    conditions.push({ createdAt: { less_than_equal: new Date(`${filters.uploadedBefore}T23:59:59.999`).toISOString() } })
+  }
+
+  if (filters.minWidth) conditions.push({ width: { greater_than_equal: filters.minWidth } })
+  if (filters.minHeight) conditions.push({ height: { greater_than_equal: filters.minHeight } })
+  if (filters.minFileSize) conditions.push({ filesize: { greater_than_equal: filters.minFileSize } })
+  if (filters.maxFileSize) conditions.push({ filesize: { less_than_equal: filters.maxFileSize } })
+
+  if (filters.missingAlt) {
+    conditions.push({ or: [{ alt: { exists: false } }, { alt: { equals: '' } }] })
+  }
+
+  return conditions
+}
+
+/**
+ * Number of filters that differ from the defaults, for the filter button badge
+ */
+export function countActiveFilters(filters: MediaFilters): number {
+  return (Object.keys(DEFAULT_MEDIA_FILTERS) as (keyof MediaFilters)[]).filter((key) => {
+    if (key === 'tagMatch') return false
+    const value = filters[key]
+    return Array.isArray(value) ? value.length > 0 : value !== DEFAULT_MEDIA_FILTERS[key]
+  }).length
+}
+
+/**
+ * Serialise a `where` object into query params the way Payload's REST API reads them,
+ * e.g. `where[and][0][tags][in][0]=hero`
+ */
+export function appendWhereParams(params: URLSearchParams, value: unknown, prefix = 'where') {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => appendWhereParams(params, item, `${prefix}[${index}]`))
+  } else if (value !== null && typeof value === 'object') {
+    Object.entries(value).forEach(([key, item]) => appendWhereParams(params, item, `${prefix}[${key}]`))
+  } else if (value !== undefined) {
+    params.append(prefix, String(value))
+  }
+}
@@ -24,6 +24,17 @@ export interface FolderTreeNode extends FolderItem {
   isExpanded?: boolean
 }
 
+/**
+ * Everything nested inside a folder, shown before it is deleted
+ */
+export interface FolderContents {
+  folders: number // Subfolders at any depth
+  media: number // Media items in the folder and its subfolders
+}
+
+// 'move-to-parent' keeps the contents, 'recursive' deletes subfolders and media too
+export type FolderDeleteMode = 'move-to-parent' | 'recursive'
+
 export interface MediaItem {
   id: string
   filename: string
@@ -43,6 +54,8 @@ export interface MediaItem {
   mediaType?: 'image' | 'video' | 'audio' | 'document'
   tags?: string[]
   featured?: boolean
+  // Who can open the file; anything but 'public' is shared through signed links
+  visibility?: 'public' | 'authenticated' | 'private'
   // Video-specific metadata (nested group)
   videoMeta?: {
     duration?: number
@@ -62,6 +75,126 @@ export interface MediaItem {
     tablet?: { url: string; width: number; height: number }
     desktop?: { url: string; width: number; height: number }
   }
+  // Read from the file's EXIF, IPTC and XMP on upload (read-only)
+  embeddedMetadata?: {
+    capturedAt?: string | null
+    latitude?: number | null
+    longitude?: number | null
+    raw?: Record<string, Record<string, unknown>> | null
+  }
+  // Art-directed crops for individual image sizes
+  sizeCrops?: SizeCrop[]
+  // File history (who saved the current file, plus archived previous files)
+  fileVersion?: FileVersionInfo
+  revisions?: MediaRevision[]
+}
+
+/**
+ * Crop rectangle for one image size, in percent of the image; `image` is populated at depth 1
+ */
+export interface SizeCrop {
+  id?: string | null
+  size: NonNullable<Media['sizeCrops']>[number]['size']
+  x: number
+  y: number
+  width: number
+  height: number
+  image?: string | { id: string; url?: string | null; width?: number | null; height?: number | null } | null
+}
+
+export interface FileVersionInfo {
+  kind?: 'original' | 'edit' | 'revert' | null
+  savedBy?: string | { id: string; name?: string | null; email?: string } | null
+  savedAt?: string | null
+}
+
+/**
+ * Archived file revision; `file` is populated at depth 1
+ */
+export interface MediaRevision extends FileVersionInfo {
+  id?: string | null
+  file: string | {
+    id: string
+    filename?: string | null
+    url?: string | null
+    mimeType?: string | null
+    filesize?: number | null
+    width?: number | null
+    height?: number | null
+    sizes?: MediaItem['sizes']
+  }
+}
+
+/**
+ * A page, post or global that references a media item (see /api/media-usage)
+ */
+export interface MediaUsage {
+  id: string
+  source: string // Collection or global slug
+  sourceLabel: string
+  sourceType: 'collection' | 'global'
+  documentId: string
+  documentTitle: string
+  fieldPath: string // e.g. 'hero.media', 'layout.2.media', 'meta.image'
+  status: 'published' | 'draft'
+  adminUrl: string
+}
+
+// How a ZIP import treats items already in the library (same filename or same content)
+export type ArchiveConflictMode = 'skip' | 'update' | 'copy'
+
+/**
+ * Result of importing a media ZIP (see /api/media-archive/import)
+ */
+export interface ArchiveImportReport {
+  created: number
+  updated: number
+  skipped: number
+  failed: { file: string; error: string }[]
+  foldersCreated: number
+}
+
+/**
+ * Library filters applied to the `/api/media` query; null or empty means "any"
+ */
+export interface MediaFilters {
+  mediaType: NonNullable<MediaItem['mediaType']> | null
+  mimeFamily: 'image' | 'video' | 'audio' | 'application' | 'text' | null // Leading part of the MIME type
+  featured: boolean | null
+  tags: string[]
+  tagMatch: 'any' | 'all'
+  uploadedAfter: string | null // yyyy-mm-dd, inclusive
+  uploadedBefore: string | null // yyyy-mm-dd, inclusive
+  orientation: 'landscape' | 'portrait' | 'square' | null
+  minWidth: number | null // px
+  minHeight: number | null // px
+  minFileSize: number | null // bytes
+  maxFileSize: number | null // bytes
+  missingAlt: boolean
+}
+
+// Payload sort strings; a leading `-` sorts descending
+export type MediaSort = '-createdAt' | 'createdAt' | 'filename' | '-filename' | '-filesize' | 'filesize'
+
+/**
+ * Existing library item that matches a file about to be uploaded
+ */
+export interface DuplicateMatch {
+  media: MediaItem
+  match: 'exact' | 'similar'
+  distance: number // Differing perceptual hash bits, 0 for identical files
+}
+
+// What to do with an upload that is already in the library
+export type DuplicateResolution =
+  | { action: 'use-existing'; target: MediaItem }
+  | { action: 'replace'; target: MediaItem }
+  | { action: 'keep-both' }
+
+export interface DuplicatePrompt {
+  file: File
+  matches: DuplicateMatch[]
+  resolve: (resolution: DuplicateResolution) => void
 }
 
 export interface MediaManagerState {
@@ -71,6 +204,9 @@ export interface MediaManagerState {
   isUploading: boolean
   error: string | null
   selectedMedia: MediaItem | null
+  // Multi-selection (shift/ctrl click), kept across pages and folders
+  selectedItems: MediaItem[]
+  selectionAnchorId: string | null // Last plainly clicked item, start of shift-click ranges
   searchQuery: string
   currentPage: number
   totalPages: number
@@ -81,6 +217,11 @@ export interface MediaManagerState {
   currentFolder: FolderItem | null // null = root/all media
   isFoldersLoading: boolean
   expandedFolders: Set<string>
+  // Filters and sort, saved to the user's preferences
+  filters: MediaFilters
+  sort: MediaSort
+  // Chunked uploads, shown with progress until they finish
+  uploads: UploadProgress[]
 }
 
 export interface MediaManagerActions {
@@ -91,33 +232,78 @@ export interface MediaManagerActions {
   deleteMedia: (id: string) => Promise<void>
   selectMedia: (media: MediaItem | null) => void
   setSearchQuery: (query: string) => void
-  copyPublicUrl: (url: string) => Promise<void>
+  copyPublicUrl: (media: MediaItem) => Promise<void>
   // Folder actions
   fetchFolders: () => Promise<void>
   createFolder: (name: string, parentId?: string) => Promise<FolderItem | null>
-  deleteFolder: (id: string) => Promise<void>
+  renameFolder: (id: string, name: string) => Promise<boolean>
+  moveFolder: (id: string, parentId: string | null) => Promise<void>
+  getFolderContents: (id: string) => Promise<FolderContents | null>
+  deleteFolder: (id: string, mode?: FolderDeleteMode) => Promise<void>
   setCurrentFolder: (folder: FolderItem | null) => void
   toggleFolderExpanded: (folderId: string) => void
-  moveMediaToFolder: (mediaId: string, folderId: string | null) => Promise<void>
+  moveMediaToFolder: (mediaId: string | string[], folderId: string | null) => Promise<void>
   updateMedia: (id: string, data: Record<string, unknown>) => Promise<MediaItem | null>
+  // Multi-selection actions
+  toggleMediaSelection: (media: MediaItem, modifiers?: SelectionModifiers) => void
+  clearSelection: () => void
+  bulkDeleteMedia: (ids: string[]) => Promise<void>
+  bulkUpdateTags: (ids: string[], changes: { add?: string[]; remove?: string[] }) => Promise<void>
+  bulkSetFeatured: (ids: string[], featured: boolean) => Promise<void>
+  // File history
+  revertToRevision: (mediaId: string, revisionId: string) => Promise<MediaItem | null>
+  // Filtering and sorting
+  setFilters: (changes: Partial<MediaFilters>) => void
+  resetFilters: () => void
+  setSort: (sort: MediaSort) => void
+  // Chunked uploads (failed uploads are retried with resumeUpload)
+  pauseUpload: (id: string) => void
+  resumeUpload: (id: string) => Promise<void>
+  cancelUpload: (id: string) => Promise<void>
+  // Where a media item is used; null when the lookup failed
+  getMediaUsage: (id: string) => Promise<MediaUsage[] | null>
+  // Download a remote file and open it in the metadata form; false when the download failed
+  importFromUrl: (url: string) => Promise<boolean>
+  // ZIP export (selected items or a whole folder) and import; import returns null on failure
+  exportMediaArchive: (target: { ids: string[] } | { folderId: string }) => Promise<void>
+  importMediaArchive: (file: File, options: { conflict: ArchiveConflictMode; folderId: string | null }) => Promise<ArchiveImportReport | null>
+}
+
+/**
+ * Keyboard modifiers held while clicking a grid item
+ */
+export interface SelectionModifiers {
+  range?: boolean // Shift: select everything between the anchor and this item
+  additive?: boolean // Ctrl/Cmd: toggle this item without clearing the selection
 }
 
 /**
  * Options for opening media manager modal
  */
-export interface MediaManagerModalOptions {
+interface BaseModalOptions {
   mode?: 'browse' | 'select' // Browse mode = general library, Select mode = field selector
-  onSelect?: (media: MediaItem) => void // Callback when media is selected in select mode
-  allowMultiple?: boolean // Future: allow multi-select
   filterMimeType?: string // Filter by mime type (e.g., 'image/', 'video/')
 }
 
+export type MediaManagerModalOptions =
+  | (BaseModalOptions & {
+      allowMultiple?: false
+      onSelect?: (media: MediaItem) => void // Callback when media is selected in select mode
+    })
+  | (BaseModalOptions & {
+      allowMultiple: true
+      onSelect?: (media: MediaItem[]) => void // Receives every selected item, in selection order
+    })
+
 export interface MediaManagerContextValue extends MediaManagerState, MediaManagerActions {}
 
 export interface UploadProgress {
+  id: string
   filename: string
-  progress: number
-  status: 'pending' | 'uploading' | 'complete' | 'error'
+  size: number // bytes
+  bytesUploaded: number
+  progress: number // 0-100
+  status: 'pending' | 'uploading' | 'paused' | 'processing' | 'complete' | 'error'
   error?: string
 }
 
@@ -0,0 +1,77 @@
+'use client'
+
+import { useAuth, useListQuery } from '@payloadcms/ui'
+import React from 'react'
+
+import type { Where } from 'payload'
+
+import { addReviewerFilter, hasReviewerFilter, removeReviewerFilter } from './reviewerFilter'
+
+const colors = {
+  border: 'var(--theme-elevation-150)',
+  activeBg: 'var(--theme-elevation-800)',
+  activeText: 'var(--theme-elevation-0)',
+  text: 'var(--theme-elevation-800)',
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '0.375rem 0.875rem',
+  border: 'none',
+  fontSize: '0.875rem',
+  cursor: 'pointer',
+}
+
+/**
+ * Switches a pages or posts list between everything and the documents the current user
+ * is a reviewer on, keeping any other filters. Registered under
+ * `admin.components.beforeListTable`.
+ */
+export const AssignedToMeFilter: React.FC = () => {
+  const { user } = useAuth()
+  const { handleWhereChange, query } = useListQuery()
+
+  if (!user || !handleWhereChange) return null
+
+  const userID = String(user.id)
+  const where = query.where as undefined | Where
+  const isAssigned = hasReviewerFilter(where, userID)
+
+  const options: { active: boolean; label: string; where: () => Where }[] = [
+    { active: !isAssigned, label: 'All', where: () => removeReviewerFilter(where, userID) },
+    {
+      active: isAssigned,
+      label: 'Assigned to me',
+      where: () => addReviewerFilter(where, userID),
+    },
+  ]
+
+  return (
+    <div
+      role="group"
+      aria-label="Filter by reviewer"
+      style={{
+        display: 'inline-flex',
+        marginBottom: '1rem',
+        border: `1px solid ${colors.border}`,
+        borderRadius: '9999px',
+        overflow: 'hidden',
+      }}
+    >
+      {options.map((option) => (
+        <button
+          key={option.label}
+          type="button"
+          aria-pressed={option.active}
+          onClick={() => !option.active && handleWhereChange(option.where())}
+          style={{
+            ...buttonStyle,
+            backgroundColor: option.active ? colors.activeBg : 'transparent',
+            color: option.active ? colors.activeText : colors.text,
+          }}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+import type { Where } from 'payload'
+
+const isReviewerClause = (where: Where, userID: string) => {
+  const keys = Object.keys(where)
+  const reviewers = where.reviewers as { equals?: unknown } | undefined
+  return keys.length === 1 && String(reviewers?.equals) === userID
+}
+
+const isEmpty = (where: Where) => Object.keys(where).length === 0
+
+/**
+ * Whether every result of `where` must have `userID` as a reviewer: the clause sits at
+ * the top, in an `and`, or in every branch of an `or` (the shape the list filters use).
+ */
+export const hasReviewerFilter = (where: undefined | Where, userID: string): boolean => {
+  if (!where) return false
+  if (isReviewerClause(where, userID)) return true
+  if (Array.isArray(where.and) && where.and.some((item) => hasReviewerFilter(item, userID))) {
+    return true
+  }
+  return (
+    Array.isArray(where.or) &&
+    where.or.length > 0 &&
+    where.or.every((item) => hasReviewerFilter(item, userID))
+  )
+}
+
+/**
+ * `where` without the reviewer clause for `userID`, leaving every other filter in place
+ */
+export const removeReviewerFilter = (where: undefined | Where, userID: string): Where => {
+  if (!where || isReviewerClause(where, userID)) return {}
+
+  const result: Where = { ...where }
+  for (const key of ['and', 'or'] as const) {
+    const items = where[key]
+    if (!Array.isArray(items)) continue
+
+    const kept = items
+      .map((item) => removeReviewerFilter(item, userID))
+      .filter((item) => !isEmpty(item))
+    if (kept.length > 0) result[key] = kept
+    else delete result[key]
+  }
+
+  return result
+}
+
+/**
+ * `where` narrowed to documents with `userID` as a reviewer. Each `or` branch gets the
+ * clause added to its `and`, so the list's filter controls can still show the rest.
+ */
+export const addReviewerFilter = (where: undefined | Where, userID: string): Where => {
+  const clause: Where = { reviewers: { equals: userID } }
+  const rest = removeReviewerFilter(where, userID)
+
+  if (Array.isArray(rest.or) && Object.keys(rest).length === 1) {
+    return {
+      or: rest.or.map((branch) => ({
+        and: [
+          ...(Array.isArray(branch.and) && Object.keys(branch).length === 1
+            ? branch.and
+            : [branch]),
+          clause,
+        ],
+      })),
+    }
+  }
+  if (Array.isArray(rest.and) && Object.keys(rest).length === 1) {
+    return { and: [...rest.and, clause] }
+  }
+
+  return isEmpty(rest) ? clause : { and: [rest, clause] }
+}
@@ -0,0 +1,134 @@
+import type { PayloadRequest } from 'payload'
+
+import { toMediaUsage, type MediaUsage } from '@/endpoints/media-usage'
+import { getAltTextIssue, type AltTextIssue } from '@/utilities/altText'
+
+// Only published pages and posts count towards an image's reach
+const auditedCollections = ['pages', 'posts']
+
+export type AltTextAuditItem = {
+  alt: string
+  filename: string
+  id: string
+  issue: AltTextIssue
+  // Published pages and posts showing the image
+  publishedDocuments: number
+  thumbnailUrl: null | string
+  usages: MediaUsage[]
+}
+
+export type AltTextAuditDocument = {
+  adminUrl: string
+  documentId: string
+  documentTitle: string
+  images: { fieldPath: string; id: string; issue: AltTextIssue }[]
+  source: string
+  sourceLabel: string
+}
+
+export type AltTextAudit = {
+  items: AltTextAuditItem[]
+  // Published pages and posts that render at least one image without meaningful alt text
+  publishedContent: AltTextAuditDocument[]
+  summary: {
+    filename: number
+    images: number
+    missing: number
+    publishedDocuments: number
+  }
+}
+
+/**
+ * Images whose alt text is missing or looks like a filename, most widely published first,
+ * along with the published pages and posts that show them.
+ */
+export const getAltTextAudit = async ({ req }: { req: PayloadRequest }): Promise<AltTextAudit> => {
+  const { payload } = req
+
+  const { docs: images } = await payload.find({
+    collection: 'media',
+    depth: 0,
+    pagination: false,
+    select: { alt: true, filename: true, sizes: { thumbnail: true } },
+    sort: 'filename',
+    where: {
+      and: [{ mediaType: { equals: 'image' } }, { sourceMedia: { exists: false } }],
+    },
+    overrideAccess: false,
+    req,
+  })
+
+  const flagged = images.flatMap((image) => {
+    const issue = getAltTextIssue(image.alt, image.filename)
+    return issue ? [{ image, issue }] : []
+  })
+
+  const { docs: references } = flagged.length
+    ? await payload.find({
+        collection: 'media-references',
+        depth: 0,
+        pagination: false,
+        sort: ['source', 'documentTitle'],
+        where: {
+          and: [
+            { media: { in: flagged.map(({ image }) => image.id) } },
+            { source: { in: auditedCollections } },
+            { status: { equals: 'published' } },
+          ],
+        },
+        overrideAccess: false,
+        req,
+      })
+    : { docs: [] }
+
+  const usagesByMedia = new Map<string, MediaUsage[]>()
+  const documents = new Map<string, AltTextAuditDocument>()
+  const issues = new Map(flagged.map(({ image, issue }) => [image.id, issue]))
+
+  for (const reference of references) {
+    const mediaId = String(reference.media)
+    const usage = toMediaUsage(payload, reference)
+    usagesByMedia.set(mediaId, [...(usagesByMedia.get(mediaId) || []), usage])
+
+    const key = `${usage.source}:${usage.documentId}`
+    const document = documents.get(key) || {
+      adminUrl: usage.adminUrl,
+      documentId: usage.documentId,
+      documentTitle: usage.documentTitle,
+      images: [],
+      source: usage.source,
+      sourceLabel: usage.sourceLabel,
+    }
+    document.images.push({ fieldPath: usage.fieldPath, id: mediaId, issue: issues.get(mediaId)! })
+    documents.set(key, document)
+  }
+
+  const items = flagged
+    .map(({ image, issue }) => {
+      const usages = usagesByMedia.get(image.id) || []
+
+      return {
+        alt: image.alt || '',
+        filename: image.filename || '',
+        id: image.id,
+        issue,
+        publishedDocuments: new Set(usages.map((usage) => `${usage.source}:${usage.documentId}`))
+          .size,
+        thumbnailUrl: image.sizes?.thumbnail?.url || null,
+        usages,
+      }
+    })
+    // Stable, so images used equally often stay in filename order
+    .sort((a, b) => b.publishedDocuments - a.publishedDocuments)
+
+  return {
+    items,
+    publishedContent: [...documents.values()].sort((a, b) => b.images.length - a.images.length),
+    summary: {
+      filename: items.filter((item) => item.issue === 'filename').length,
+      images: images.length,
+      missing: items.filter((item) => item.issue === 'missing').length,
+      publishedDocuments: documents.size,
+    },
+  }
+}
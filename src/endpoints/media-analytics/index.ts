@@ -0,0 +1,388 @@
+import type { MongooseAdapter } from '@payloadcms/db-mongodb'
+import type { PayloadRequest } from 'payload'
+
+import { APIError } from 'payload'
+
+import { editors } from '@/access/editors'
+import type { Media } from '@/payload-types'
+
+// How many items the largest, unused and missing-sizes lists show
+const LIST_LIMIT = 10
+
+export type MediaAnalyticsGroup = {
+  bytes: number
+  // Library items (generated files are counted with the item they belong to)
+  count: number
+  id: null | string
+  label: string
+}
+
+export type MediaAnalyticsItem = {
+  adminUrl: string
+  // The file, its generated sizes and any variants, crops, posters and revisions
+  bytes: number
+  filename: string
+  id: string
+  mediaType: Media['mediaType']
+  thumbnailUrl: null | string
+}
+
+export type MediaAnalytics = {
+  byFolder: MediaAnalyticsGroup[]
+  byMediaType: MediaAnalyticsGroup[]
+  // Grouped by who saved each item's current file
+  byUploader: MediaAnalyticsGroup[]
+  // Bytes added per month, with the running total
+  growth: { bytes: number; count: number; month: string; totalBytes: number }[]
+  imageSizes: {
+    // Raster images (SVGs are never resized)
+    images: number
+    missing: MediaAnalyticsItem[]
+    withoutSizes: number
+  }
+  largest: MediaAnalyticsItem[]
+  // null when MEDIA_STORAGE_QUOTA_GB isn't set
+  quotaBytes: null | number
+  totals: {
+    // Generated files stored as their own media items
+    derivativeBytes: number
+    files: number
+    items: number
+    originalBytes: number
+    sizesBytes: number
+    totalBytes: number
+  }
+  unused: { bytes: number; count: number; largest: MediaAnalyticsItem[] }
+}
+
+type GroupRow = { _id: unknown; bytes: number; count: number }
+type ItemRow = { _id: unknown; bytes: number }
+
+type FacetResult = {
+  byFolder: GroupRow[]
+  byMediaType: GroupRow[]
+  byUploader: GroupRow[]
+  images: { images: number; withoutSizes: number }[]
+  largest: ItemRow[]
+  missingSizes: ItemRow[]
+  totals: Omit<MediaAnalytics['totals'], 'totalBytes'>[]
+  unused: { bytes: number; count: number }[]
+  unusedLargest: ItemRow[]
+}
+
+const MEDIA_TYPE_LABELS: Record<string, string> = {
+  audio: 'Audio',
+  document: 'Documents',
+  image: 'Images',
+  video: 'Video',
+}
+
+// Bytes of every generated size stored alongside a file
+const sizesBytes = (path: string) => ({
+  $reduce: {
+    input: { $objectToArray: { $ifNull: [path, {}] } },
+    initialValue: 0,
+    in: { $add: ['$$value', { $ifNull: ['$$this.v.filesize', 0] }] },
+  },
+})
+
+const toID = (value: unknown) => (value == null ? null : String(value))
+
+const getQuotaBytes = () => {
+  const quota = Number(process.env.MEDIA_STORAGE_QUOTA_GB)
+  return Number.isFinite(quota) && quota > 0 ? Math.round(quota * 1024 ** 3) : null
+}
+
+/**
+ * Storage used by the media library, broken down by media type, folder and uploader,
+ * with the largest and unused items, growth per month and the share of images that
+ * have no generated sizes.
+ *
+ * Generated files (responsive variants, crops, posters and revisions) are separate
+ * media documents; their bytes count towards the item they were generated from.
+ * Runs as MongoDB aggregations, so it needs the Mongo adapter.
+ */
+export const getMediaAnalytics = async ({
+  req,
+}: {
+  req: PayloadRequest
+}): Promise<MediaAnalytics> => {
+  const { payload } = req
+
+  // Includes uploaders' names and emails, so it is limited to those who manage all media
+  if (!editors({ req })) throw new APIError('You are not allowed to view media analytics.', 403)
+
+  if (payload.db.name !== 'mongoose') {
+    throw new APIError('Media analytics need the MongoDB adapter', 501)
+  }
+
+  const { collections } = payload.db as unknown as MongooseAdapter
+  const media = collections.media!
+  const references = collections['media-references']!
+
+  const [[facets], growthRows] = await Promise.all([
+    media.aggregate<FacetResult>([
+      {
+        $project: {
+          root: { $ifNull: ['$sourceMedia', '$_id'] },
+          isSource: { $eq: [{ $ifNull: ['$sourceMedia', null] }, null] },
+          originalBytes: { $ifNull: ['$filesize', 0] },
+          sizesBytes: sizesBytes('$sizes'),
+        },
+      },
+      // One row per library item, with everything generated from it
+      {
+        $group: {
+          _id: '$root',
+          originalBytes: { $sum: { $cond: ['$isSource', '$originalBytes', 0] } },
+          sizesBytes: { $sum: { $cond: ['$isSource', '$sizesBytes', 0] } },
+          derivativeBytes: {
+            $sum: { $cond: ['$isSource', 0, { $add: ['$originalBytes', '$sizesBytes'] }] },
+          },
+          files: { $sum: 1 },
+        },
+      },
+      { $addFields: { bytes: { $add: ['$originalBytes', '$sizesBytes', '$derivativeBytes'] } } },
+      {
+        $lookup: {
+          from: media.collection.name,
+          localField: '_id',
+          foreignField: '_id',
+          as: 'source',
+          pipeline: [
+            {
+              $project: {
+                folder: 1,
+                mediaType: 1,
+                mimeType: 1,
+                savedBy: '$fileVersion.savedBy',
+                sizes: 1,
+                createdAt: 1,
+              },
+            },
+          ],
+        },
+      },
+      // Generated files whose item is gone still take up space; they keep an empty source
+      { $unwind: { path: '$source', preserveNullAndEmptyArrays: true } },
+      {
+        $lookup: {
+          from: references.collection.name,
+          localField: '_id',
+          foreignField: 'media',
+          as: 'references',
+          pipeline: [{ $limit: 1 }, { $project: { _id: 1 } }],
+        },
+      },
+      {
+        $addFields: {
+          isUnused: { $eq: [{ $size: '$references' }, 0] },
+          isRasterImage: {
+            $and: [
+              { $regexMatch: { input: { $ifNull: ['$source.mimeType', ''] }, regex: '^image/' } },
+              { $ne: ['$source.mimeType', 'image/svg+xml'] },
+            ],
+          },
+          hasSizes: {
+            $gt: [
+              {
+                $size: {
+                  $filter: {
+                    input: { $objectToArray: { $ifNull: ['$source.sizes', {}] } },
+                    cond: { $ne: [{ $ifNull: ['$$this.v.filename', null] }, null] },
+                  },
+                },
+              },
+              0,
+            ],
+          },
+        },
+      },
+      {
+        $facet: {
+          totals: [
+            {
+              $group: {
+                _id: null,
+                derivativeBytes: { $sum: '$derivativeBytes' },
+                files: { $sum: '$files' },
+                items: { $sum: 1 },
+                originalBytes: { $sum: '$originalBytes' },
+                sizesBytes: { $sum: '$sizesBytes' },
+              },
+            },
+            { $project: { _id: 0 } },
+          ],
+          byMediaType: [
+            { $group: { _id: '$source.mediaType', bytes: { $sum: '$bytes' }, count: { $sum: 1 } } },
+            { $sort: { bytes: -1 } },
+          ],
+          byFolder: [
+            { $group: { _id: '$source.folder', bytes: { $sum: '$bytes' }, count: { $sum: 1 } } },
+            { $sort: { bytes: -1 } },
+          ],
+          byUploader: [
+            { $group: { _id: '$source.savedBy', bytes: { $sum: '$bytes' }, count: { $sum: 1 } } },
+            { $sort: { bytes: -1 } },
+          ],
+          largest: [
+            { $match: { source: { $exists: true } } },
+            { $sort: { bytes: -1 } },
+            { $limit: LIST_LIMIT },
+            { $project: { bytes: 1 } },
+          ],
+          unused: [
+            { $match: { isUnused: true, source: { $exists: true } } },
+            { $group: { _id: null, bytes: { $sum: '$bytes' }, count: { $sum: 1 } } },
+          ],
+          unusedLargest: [
+            { $match: { isUnused: true, source: { $exists: true } } },
+            { $sort: { bytes: -1 } },
+            { $limit: LIST_LIMIT },
+            { $project: { bytes: 1 } },
+          ],
+          images: [
+            { $match: { isRasterImage: true } },
+            {
+              $group: {
+                _id: null,
+                images: { $sum: 1 },
+                withoutSizes: { $sum: { $cond: ['$hasSizes', 0, 1] } },
+              },
+            },
+          ],
+          missingSizes: [
+            { $match: { isRasterImage: true, hasSizes: false } },
+            { $sort: { 'source.createdAt': -1 } },
+            { $limit: LIST_LIMIT },
+            { $project: { bytes: 1 } },
+          ],
+        },
+      },
+    ]),
+    media.aggregate<{ _id: string; bytes: number; count: number }>([
+      {
+        $group: {
+          _id: { $dateToString: { date: '$createdAt', format: '%Y-%m' } },
+          bytes: { $sum: { $add: [{ $ifNull: ['$filesize', 0] }, sizesBytes('$sizes')] } },
+          count: { $sum: { $cond: [{ $ifNull: ['$sourceMedia', false] }, 0, 1] } },
+        },
+      },
+      { $sort: { _id: 1 } },
+    ]),
+  ])
+
+  if (!facets) throw new APIError('Could not aggregate media storage', 500)
+
+  // Names for the folders, uploaders and items the breakdowns point to
+  const folderIDs = facets.byFolder.map(({ _id }) => toID(_id)).filter((id) => id !== null)
+  const userIDs = facets.byUploader.map(({ _id }) => toID(_id)).filter((id) => id !== null)
+  const itemRows = [...facets.largest, ...facets.unusedLargest, ...facets.missingSizes]
+
+  const [folders, users, items] = await Promise.all([
+    folderIDs.length
+      ? payload.find({
+          collection: 'payload-folders',
+          depth: 0,
+          pagination: false,
+          select: { name: true },
+          where: { id: { in: folderIDs } },
+          overrideAccess: false,
+          req,
+        })
+      : { docs: [] },
+    userIDs.length
+      ? payload.find({
+          collection: 'users',
+          depth: 0,
+          pagination: false,
+          select: { email: true, name: true },
+          where: { id: { in: userIDs } },
+          overrideAccess: false,
+          req,
+        })
+      : { docs: [] },
+    itemRows.length
+      ? payload.find({
+          collection: 'media',
+          depth: 0,
+          pagination: false,
+          select: { filename: true, mediaType: true, sizes: { thumbnail: true } },
+          where: { id: { in: [...new Set(itemRows.map(({ _id }) => String(_id)))] } },
+          overrideAccess: false,
+          req,
+        })
+      : { docs: [] },
+  ])
+
+  const folderNames = new Map(folders.docs.map((folder) => [folder.id, folder.name]))
+  const userNames = new Map(users.docs.map((user) => [user.id, user.name || user.email]))
+  const itemDocs = new Map(items.docs.map((doc) => [doc.id, doc]))
+  const adminRoute = payload.config.routes.admin
+
+  const toGroups = (rows: GroupRow[], getLabel: (id: null | string) => string) =>
+    rows.map(({ _id, bytes, count }) => {
+      const id = toID(_id)
+      return { bytes, count, id, label: getLabel(id) }
+    })
+
+  const toItems = (rows: ItemRow[]) =>
+    rows.flatMap(({ _id, bytes }) => {
+      const doc = itemDocs.get(String(_id))
+      if (!doc) return []
+
+      return [
+        {
+          adminUrl: `${adminRoute}/collections/media/${doc.id}`,
+          bytes,
+          filename: doc.filename || '',
+          id: doc.id,
+          mediaType: doc.mediaType,
+          thumbnailUrl: doc.sizes?.thumbnail?.url || null,
+        },
+      ]
+    })
+
+  let totalBytes = 0
+  const growth = growthRows.map(({ _id, bytes, count }) => {
+    totalBytes += bytes
+    return { bytes, count, month: _id, totalBytes }
+  })
+
+  const totals = facets.totals[0] || {
+    derivativeBytes: 0,
+    files: 0,
+    items: 0,
+    originalBytes: 0,
+    sizesBytes: 0,
+  }
+
+  return {
+    byFolder: toGroups(facets.byFolder, (id) =>
+      id ? folderNames.get(id) || 'Deleted folder' : 'No folder',
+    ),
+    byMediaType: toGroups(facets.byMediaType, (id) =>
+      id ? MEDIA_TYPE_LABELS[id] || id : 'Unclassified',
+    ),
+    byUploader: toGroups(facets.byUploader, (id) =>
+      id ? userNames.get(id) || 'Deleted user' : 'Unknown',
+    ),
+    growth,
+    imageSizes: {
+      images: facets.images[0]?.images || 0,
+      missing: toItems(facets.missingSizes),
+      withoutSizes: facets.images[0]?.withoutSizes || 0,
+    },
+    largest: toItems(facets.largest),
+    quotaBytes: getQuotaBytes(),
+    totals: {
+      ...totals,
+      totalBytes: totals.originalBytes + totals.sizesBytes + totals.derivativeBytes,
+    },
+    unused: {
+      bytes: facets.unused[0]?.bytes || 0,
+      count: facets.unused[0]?.count || 0,
+      largest: toItems(facets.unusedLargest),
+    },
+  }
+}
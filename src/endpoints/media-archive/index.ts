@@ -0,0 +1,512 @@
+import type { PayloadRequest, Where } from 'payload'
+
+import { APIError } from 'payload'
+
+import { randomUUID } from 'crypto'
+import { createWriteStream } from 'fs'
+import { mkdir, open, rm } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { Readable, Transform } from 'stream'
+import { pipeline } from 'stream/promises'
+import type { ReadableStream as NodeReadableStream } from 'stream/web'
+
+import { readMediaFile } from '@/collections/Media/storage'
+import type { FolderInterface, Media } from '@/payload-types'
+import { createZipStream, readZipDirectory, readZipEntry, type ZipEntryInput } from './zip'
+
+const MANIFEST_NAME = 'manifest.json'
+const MANIFEST_VERSION = 1
+
+// Same limit as chunked uploads: Payload holds each file in memory while storing it
+const MAX_FILE_SIZE = 1024 * 1024 * 1024
+
+// Limits checked before anything is extracted, so a crafted archive can't fill the disk
+export const MAX_ARCHIVE_SIZE = 2 * 1024 * 1024 * 1024
+const MAX_ARCHIVE_ENTRIES = 10_000
+const MAX_UNCOMPRESSED_SIZE = 16 * 1024 * 1024 * 1024
+const MAX_MANIFEST_SIZE = 32 * 1024 * 1024
+
+export const CONFLICT_MODES = ['skip', 'update', 'copy'] as const
+
+// What to do when an imported file already exists (same filename or same content):
+// leave it, update its metadata and folder, or import the file again as a new item
+export type ConflictMode = (typeof CONFLICT_MODES)[number]
+
+export type MediaArchiveItem = {
+  alt: null | string
+  caption: null | string
+  contentHash: null | string
+  description: null | string
+  featured: boolean
+  // Path of the file inside the archive
+  file: string
+  filename: string
+  focalX: null | number
+  focalY: null | number
+  // Folder names from the top of the export down to the item's folder
+  folderPath: string[]
+  mimeType: null | string
+  seoMeta: Media['seoMeta'] | null
+  tags: string[]
+  visibility: Media['visibility'] | null
+}
+
+export type MediaArchiveManifest = {
+  exportedAt: string
+  // Every exported folder, so empty ones are recreated too
+  folders: string[][]
+  media: MediaArchiveItem[]
+  // Items whose file could not be read from storage
+  missing: string[]
+  version: typeof MANIFEST_VERSION
+}
+
+export type MediaArchiveImportReport = {
+  created: number
+  failed: { error: string; file: string }[]
+  foldersCreated: number
+  skipped: number
+  updated: number
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string'
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(isString)
+const isNullable =
+  (check: (value: unknown) => boolean) =>
+  (value: unknown): boolean =>
+    value === null || value === undefined || check(value)
+
+// Checks for each manifest item field; anything else in an item is ignored
+const ITEM_FIELDS: Record<keyof MediaArchiveItem, (value: unknown) => boolean> = {
+  alt: isNullable(isString),
+  caption: isNullable(isString),
+  contentHash: isNullable(isString),
+  description: isNullable(isString),
+  featured: isNullable((value) => typeof value === 'boolean'),
+  file: (value) => isString(value) && value.length > 0,
+  filename: (value) => isString(value) && value.length > 0,
+  focalX: isNullable((value) => typeof value === 'number' && Number.isFinite(value)),
+  focalY: isNullable((value) => typeof value === 'number' && Number.isFinite(value)),
+  folderPath: isNullable((value) => isStringArray(value) && value.every((name) => name.length > 0)),
+  mimeType: isNullable(isString),
+  seoMeta: isNullable((value) => typeof value === 'object' && !Array.isArray(value)),
+  tags: isNullable(isStringArray),
+  visibility: isNullable(isString),
+}
+
+/**
+ * Parse and check an archive's `manifest.json`. Throws a 400 naming the first problem, so a
+ * malformed or hand-edited manifest never reaches `payload.create`.
+ */
+export const parseManifest = (json: string): MediaArchiveManifest => {
+  let manifest: unknown
+  try {
+    manifest = JSON.parse(json)
+  } catch {
+    throw new APIError(`${MANIFEST_NAME} is not valid JSON`, 400)
+  }
+
+  if (typeof manifest !== 'object' || manifest === null || Array.isArray(manifest)) {
+    throw new APIError(`${MANIFEST_NAME} must be an object`, 400)
+  }
+
+  const { folders, media, version } = manifest as Record<string, unknown>
+
+  if (version !== MANIFEST_VERSION) throw new APIError('Unsupported manifest version', 400)
+  if (!Array.isArray(media)) throw new APIError(`${MANIFEST_NAME} has no media list`, 400)
+
+  if (
+    folders !== undefined &&
+    !(Array.isArray(folders) && folders.every((folder) => ITEM_FIELDS.folderPath(folder)))
+  ) {
+    throw new APIError(`${MANIFEST_NAME} has malformed folders`, 400)
+  }
+
+  media.forEach((item, index) => {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      throw new APIError(`${MANIFEST_NAME} has a malformed item at media[${index}]`, 400)
+    }
+
+    for (const [field, check] of Object.entries(ITEM_FIELDS)) {
+      if (!check((item as Record<string, unknown>)[field])) {
+        throw new APIError(`${MANIFEST_NAME} has a malformed media[${index}].${field}`, 400)
+      }
+    }
+  })
+
+  return manifest as MediaArchiveManifest
+}
+
+const archivesDir = () => path.join(os.tmpdir(), 'media-archives')
+
+// Images, video and audio are compressed already; deflating them costs time for nothing
+const isCompressed = (mimeType: null | string | undefined) =>
+  Boolean(mimeType && /^(audio|video)\//.test(mimeType)) ||
+  Boolean(mimeType?.startsWith('image/') && mimeType !== 'image/svg+xml')
+
+const getParentID = (folder: FolderInterface) =>
+  folder.folder && typeof folder.folder === 'object' ? folder.folder.id : folder.folder || null
+
+const loadFolders = async (req: PayloadRequest) => {
+  const { docs } = await req.payload.find({
+    collection: 'payload-folders',
+    depth: 0,
+    pagination: false,
+    overrideAccess: false,
+    req,
+  })
+
+  return new Map(docs.map((folder) => [folder.id, folder]))
+}
+
+/**
+ * Folder names from the top of the library (or from `root`, inclusive) down to `folderId`
+ */
+const getFolderPath = (
+  folders: Map<string, FolderInterface>,
+  folderId: null | string,
+  root: null | string = null,
+) => {
+  const names: string[] = []
+
+  for (let id = folderId; id; ) {
+    const folder = folders.get(id)
+    if (!folder) break
+    names.unshift(folder.name)
+    if (id === root) break
+    id = getParentID(folder)
+  }
+
+  return names
+}
+
+/**
+ * ZIP archive of the given media items, or of a folder with everything below it, with a
+ * `manifest.json` describing each item's metadata and folder. Generated files (variants,
+ * crops, posters, revisions) are left out; they are recreated on import.
+ */
+export const exportMediaArchive = async ({
+  folderId,
+  ids,
+  req,
+}: {
+  folderId?: null | string
+  ids?: string[]
+  req: PayloadRequest
+}): Promise<{ filename: string; stream: ReadableStream<Uint8Array> }> => {
+  const { payload } = req
+  const folders = await loadFolders(req)
+
+  let where: Where
+  let exportedFolders: string[] = []
+  let root: null | string = null
+
+  if (folderId) {
+    if (!folders.has(folderId)) throw new APIError('Folder not found', 404)
+
+    root = folderId
+    exportedFolders = [folderId]
+    for (let i = 0; i < exportedFolders.length; i++) {
+      for (const folder of folders.values()) {
+        if (getParentID(folder) === exportedFolders[i]) exportedFolders.push(folder.id)
+      }
+    }
+    where = { folder: { in: exportedFolders } }
+  } else if (Array.isArray(ids) && ids.length > 0) {
+    where = { id: { in: ids } }
+  } else {
+    throw new APIError('Choose media items or a folder to export', 400)
+  }
+
+  const { docs } = await payload.find({
+    collection: 'media',
+    depth: 0,
+    pagination: false,
+    sort: 'filename',
+    where: { and: [where, { sourceMedia: { exists: false } }] },
+    overrideAccess: false,
+    req,
+  })
+
+  if (docs.length === 0) throw new APIError('There is no media to export', 404)
+
+  const manifest: MediaArchiveManifest = {
+    exportedAt: new Date().toISOString(),
+    folders: exportedFolders.map((id) => getFolderPath(folders, id, root)),
+    media: [],
+    missing: [],
+    version: MANIFEST_VERSION,
+  }
+
+  async function* entries(): AsyncGenerator<ZipEntryInput> {
+    for (const doc of docs) {
+      if (!doc.filename) continue
+
+      const data = await readMediaFile(req, doc.filename, doc)
+      if (!data) {
+        manifest.missing.push(doc.filename)
+        continue
+      }
+
+      const file = `files/${doc.filename}`
+      const folderID = doc.folder && typeof doc.folder === 'object' ? doc.folder.id : doc.folder
+      manifest.media.push({
+        alt: doc.alt ?? null,
+        caption: doc.caption ?? null,
+        contentHash: doc.contentHash ?? null,
+        description: doc.description ?? null,
+        featured: Boolean(doc.featured),
+        file,
+        filename: doc.filename,
+        focalX: doc.focalX ?? null,
+        focalY: doc.focalY ?? null,
+        folderPath: getFolderPath(folders, folderID || null, root),
+        mimeType: doc.mimeType ?? null,
+        seoMeta: doc.seoMeta ?? null,
+        tags: doc.tags ?? [],
+        visibility: doc.visibility ?? null,
+      })
+
+      yield {
+        data,
+        deflate: !isCompressed(doc.mimeType),
+        modifiedAt: new Date(doc.updatedAt),
+        name: file,
+      }
+    }
+
+    // Written last, once it's known which files could be read
+    yield { data: Buffer.from(JSON.stringify(manifest, null, 2)), name: MANIFEST_NAME }
+  }
+
+  const label = root ? folders.get(root)!.name.replace(/[^\w.-]+/g, '-') : 'media'
+
+  return {
+    filename: `${label}-${new Date().toISOString().slice(0, 10)}.zip`,
+    stream: createZipStream(entries()),
+  }
+}
+
+/**
+ * Recreate media items and their folders from an archive made by `exportMediaArchive`.
+ *
+ * Folders are matched by name under `folderId` (the top of the library by default) and
+ * created where missing. An item conflicts with an existing one that has the same
+ * filename or the same file content; `conflict` decides what happens then.
+ */
+export const importMediaArchive = async ({
+  body,
+  conflict,
+  folderId,
+  req,
+}: {
+  body: ReadableStream<Uint8Array>
+  conflict: ConflictMode
+  folderId?: null | string
+  req: PayloadRequest
+}): Promise<MediaArchiveImportReport> => {
+  const { payload } = req
+
+  if (!CONFLICT_MODES.includes(conflict)) {
+    throw new APIError(`conflict must be one of ${CONFLICT_MODES.join(', ')}`, 400)
+  }
+
+  const folders = await loadFolders(req)
+  if (folderId && !folders.has(folderId)) throw new APIError('Folder not found', 404)
+
+  await mkdir(archivesDir(), { recursive: true })
+  const archivePath = path.join(archivesDir(), `${randomUUID()}.zip`)
+
+  const report: MediaArchiveImportReport = {
+    created: 0,
+    failed: [],
+    foldersCreated: 0,
+    skipped: 0,
+    updated: 0,
+  }
+
+  try {
+    let received = 0
+    await pipeline(
+      Readable.fromWeb(body as NodeReadableStream<Uint8Array>),
+      new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          received += chunk.length
+          if (received > MAX_ARCHIVE_SIZE) {
+            callback(
+              new APIError(
+                `Archives larger than ${MAX_ARCHIVE_SIZE / 1024 ** 3} GB cannot be imported`,
+                413,
+              ),
+            )
+            return
+          }
+          callback(null, chunk)
+        },
+      }),
+      createWriteStream(archivePath),
+    )
+
+    const archive = await open(archivePath, 'r')
+
+    try {
+      const entries = new Map(
+        (
+          await readZipDirectory(archive).catch(() => {
+            throw new APIError('The file is not a valid ZIP archive', 400)
+          })
+        ).map((entry) => [entry.name, entry]),
+      )
+
+      if (entries.size > MAX_ARCHIVE_ENTRIES) {
+        throw new APIError(`Archives can hold at most ${MAX_ARCHIVE_ENTRIES} files`, 413)
+      }
+
+      let uncompressedSize = 0
+      for (const entry of entries.values()) uncompressedSize += entry.size
+      if (uncompressedSize > MAX_UNCOMPRESSED_SIZE) {
+        throw new APIError(
+          `Archives can hold at most ${MAX_UNCOMPRESSED_SIZE / 1024 ** 3} GB once extracted`,
+          413,
+        )
+      }
+
+      const manifestEntry = entries.get(MANIFEST_NAME)
+      if (!manifestEntry) throw new APIError(`The archive has no ${MANIFEST_NAME}`, 400)
+      if (manifestEntry.size > MAX_MANIFEST_SIZE) {
+        throw new APIError(`${MANIFEST_NAME} is too large`, 413)
+      }
+
+      const manifest = parseManifest(
+        (
+          await readZipEntry(archive, manifestEntry).catch(() => {
+            throw new APIError(`${MANIFEST_NAME} could not be read from the archive`, 400)
+          })
+        ).toString('utf8'),
+      )
+
+      const folderIDs = new Map<string, null | string>([['', folderId || null]])
+
+      const ensureFolder = async (folderPath: string[]): Promise<null | string> => {
+        const key = folderPath.join('/')
+        if (folderIDs.has(key)) return folderIDs.get(key)!
+
+        const parent = await ensureFolder(folderPath.slice(0, -1))
+        const name = folderPath[folderPath.length - 1]!
+        const existing = [...folders.values()].find(
+          (folder) => folder.name === name && getParentID(folder) === parent,
+        )
+
+        let id = existing?.id
+        if (!id) {
+          const created = await payload.create({
+            collection: 'payload-folders',
+            data: { folder: parent, folderType: ['media'], name },
+            overrideAccess: false,
+            req,
+          })
+          folders.set(created.id, created)
+          report.foldersCreated++
+          id = created.id
+        }
+
+        folderIDs.set(key, id)
+        return id
+      }
+
+      for (const folderPath of manifest.folders || []) {
+        await ensureFolder(folderPath)
+      }
+
+      for (const item of manifest.media) {
+        try {
+          const entry = entries.get(item.file)
+          if (!entry) throw new Error('File missing from the archive')
+          if (entry.size > MAX_FILE_SIZE) throw new Error('File is larger than 1 GB')
+
+          const data = {
+            alt: item.alt,
+            caption: item.caption,
+            description: item.description,
+            featured: Boolean(item.featured),
+            folder: await ensureFolder(item.folderPath || []),
+            seoMeta: item.seoMeta ?? undefined,
+            tags: item.tags || [],
+            visibility: item.visibility ?? undefined,
+          }
+
+          const matches: Where[] = [{ filename: { equals: item.filename } }]
+          if (item.contentHash) matches.push({ contentHash: { equals: item.contentHash } })
+
+          const {
+            docs: [existing],
+          } =
+            conflict === 'copy'
+              ? { docs: [] }
+              : await payload.find({
+                  collection: 'media',
+                  depth: 0,
+                  limit: 1,
+                  where: { and: [{ or: matches }, { sourceMedia: { exists: false } }] },
+                  overrideAccess: false,
+                  req,
+                })
+
+          if (existing && conflict === 'skip') {
+            report.skipped++
+            continue
+          }
+
+          if (existing) {
+            await payload.update({
+              collection: 'media',
+              id: existing.id,
+              data: { ...data, focalX: item.focalX, focalY: item.focalY },
+              overrideAccess: false,
+              req,
+            })
+            report.updated++
+            continue
+          }
+
+          const file = await readZipEntry(archive, entry)
+
+          await payload.create({
+            collection: 'media',
+            data: {
+              ...data,
+              focalX: item.focalX ?? undefined,
+              focalY: item.focalY ?? undefined,
+            },
+            file: {
+              data: file,
+              mimetype: item.mimeType || 'application/octet-stream',
+              name: item.filename,
+              size: file.length,
+            },
+            overrideAccess: false,
+            req,
+          })
+          report.created++
+        } catch (error) {
+          report.failed.push({
+            error: error instanceof Error ? error.message : String(error),
+            file: item.file,
+          })
+        }
+      }
+    } finally {
+      await archive.close()
+    }
+  } finally {
+    await rm(archivePath, { force: true })
+  }
+
+  payload.logger.info(
+    `Imported media archive: ${report.created} created, ${report.updated} updated, ${report.skipped} skipped, ${report.failed.length} failed, ${report.foldersCreated} folders created`,
+  )
+
+  return report
+}
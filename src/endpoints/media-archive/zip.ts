@@ -0,0 +1,224 @@
+import type { FileHandle } from 'fs/promises'
+
+import { deflateRawSync, inflateRawSync } from 'zlib'
+
+// Plain ZIP (no ZIP64): up to 65,535 entries and 4 GB per archive
+const MAX_ENTRIES = 0xffff
+const MAX_OFFSET = 0xffffffff
+
+const LOCAL_HEADER = 0x04034b50
+const CENTRAL_HEADER = 0x02014b50
+const END_OF_DIRECTORY = 0x06054b50
+
+const METHOD_STORE = 0
+const METHOD_DEFLATE = 8
+// Bit 11: names are UTF-8
+const FLAG_UTF8 = 0x0800
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// Buffer and Uint8Array typings disagree here; this views the same memory without copying
+const bytes = (buffer: Buffer) => new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.length)
+
+const toDosDateTime = (date: Date) => ({
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+})
+
+export type ZipEntryInput = {
+  data: Buffer
+  // Already-compressed formats (JPEG, MP4, ...) are stored as they are
+  deflate?: boolean
+  modifiedAt?: Date
+  name: string
+}
+
+/**
+ * Stream a ZIP archive, one entry at a time, so only the current file is held in memory
+ */
+export const createZipStream = (
+  entries: AsyncIterable<ZipEntryInput>,
+): ReadableStream<Uint8Array> => {
+  const iterator = entries[Symbol.asyncIterator]()
+  const central: Buffer[] = []
+  let offset = 0
+  let count = 0
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const next = await iterator.next()
+
+        if (next.done) {
+          const directory = Buffer.concat(central.map(bytes))
+          const end = Buffer.alloc(22)
+          end.writeUInt32LE(END_OF_DIRECTORY, 0)
+          end.writeUInt16LE(count, 8)
+          end.writeUInt16LE(count, 10)
+          end.writeUInt32LE(directory.length, 12)
+          end.writeUInt32LE(offset, 16)
+
+          controller.enqueue(bytes(directory))
+          controller.enqueue(bytes(end))
+          controller.close()
+          return
+        }
+
+        const { data, deflate = true, modifiedAt = new Date(), name } = next.value
+        const nameBytes = Buffer.from(name, 'utf8')
+        const compressed = deflate ? deflateRawSync(bytes(data)) : data
+        // Keep whichever is smaller; deflating random-looking data can grow it
+        const method = deflate && compressed.length < data.length ? METHOD_DEFLATE : METHOD_STORE
+        const body = method === METHOD_DEFLATE ? compressed : data
+        const crc = crc32(bytes(data))
+        const { date, time } = toDosDateTime(modifiedAt)
+
+        if (++count > MAX_ENTRIES || offset + 30 + nameBytes.length + body.length > MAX_OFFSET) {
+          throw new Error('Archive too large: ZIP files are limited to 65,535 files and 4 GB')
+        }
+
+        const local = Buffer.alloc(30)
+        local.writeUInt32LE(LOCAL_HEADER, 0)
+        local.writeUInt16LE(20, 4)
+        local.writeUInt16LE(FLAG_UTF8, 6)
+        local.writeUInt16LE(method, 8)
+        local.writeUInt16LE(time, 10)
+        local.writeUInt16LE(date, 12)
+        local.writeUInt32LE(crc, 14)
+        local.writeUInt32LE(body.length, 18)
+        local.writeUInt32LE(data.length, 22)
+        local.writeUInt16LE(nameBytes.length, 26)
+
+        const header = Buffer.alloc(46)
+        header.writeUInt32LE(CENTRAL_HEADER, 0)
+        header.writeUInt16LE(20, 4)
+        header.writeUInt16LE(20, 6)
+        header.writeUInt16LE(FLAG_UTF8, 8)
+        header.writeUInt16LE(method, 10)
+        header.writeUInt16LE(time, 12)
+        header.writeUInt16LE(date, 14)
+        header.writeUInt32LE(crc, 16)
+        header.writeUInt32LE(body.length, 20)
+        header.writeUInt32LE(data.length, 24)
+        header.writeUInt16LE(nameBytes.length, 28)
+        header.writeUInt32LE(offset, 42)
+        central.push(Buffer.concat([bytes(header), bytes(nameBytes)]))
+
+        controller.enqueue(bytes(local))
+        controller.enqueue(bytes(nameBytes))
+        controller.enqueue(bytes(body))
+        offset += local.length + nameBytes.length + body.length
+      } catch (error) {
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await iterator.return?.()
+    },
+  })
+}
+
+export type ZipDirectoryEntry = {
+  compressedSize: number
+  crc: number
+  method: number
+  name: string
+  offset: number
+  size: number
+}
+
+/**
+ * List the entries of a ZIP file from its central directory
+ */
+export const readZipDirectory = async (file: FileHandle): Promise<ZipDirectoryEntry[]> => {
+  const { size } = await file.stat()
+
+  // The end-of-directory record sits in the last 22 bytes, plus up to 64 KB of comment
+  const tailLength = Math.min(size, 22 + 0xffff)
+  const tail = Buffer.alloc(tailLength)
+  await file.read(bytes(tail), 0, tailLength, size - tailLength)
+
+  let end = -1
+  for (let i = tailLength - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === END_OF_DIRECTORY) {
+      end = i
+      break
+    }
+  }
+  if (end === -1) throw new Error('Not a ZIP file')
+
+  const count = tail.readUInt16LE(end + 10)
+  const directorySize = tail.readUInt32LE(end + 12)
+  const directoryOffset = tail.readUInt32LE(end + 16)
+
+  if (directoryOffset === MAX_OFFSET || directoryOffset + directorySize > size) {
+    throw new Error('ZIP64 archives are not supported')
+  }
+
+  const directory = Buffer.alloc(directorySize)
+  await file.read(bytes(directory), 0, directorySize, directoryOffset)
+
+  const entries: ZipDirectoryEntry[] = []
+  let position = 0
+
+  for (let i = 0; i < count; i++) {
+    if (directory.readUInt32LE(position) !== CENTRAL_HEADER)
+      throw new Error('Corrupt ZIP directory')
+
+    const nameLength = directory.readUInt16LE(position + 28)
+    const extraLength = directory.readUInt16LE(position + 30)
+    const commentLength = directory.readUInt16LE(position + 32)
+
+    entries.push({
+      compressedSize: directory.readUInt32LE(position + 20),
+      crc: directory.readUInt32LE(position + 16),
+      method: directory.readUInt16LE(position + 10),
+      name: directory.toString('utf8', position + 46, position + 46 + nameLength),
+      offset: directory.readUInt32LE(position + 42),
+      size: directory.readUInt32LE(position + 24),
+    })
+
+    position += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+/**
+ * Read and decompress one entry, checking its CRC
+ */
+export const readZipEntry = async (file: FileHandle, entry: ZipDirectoryEntry): Promise<Buffer> => {
+  const local = Buffer.alloc(30)
+  await file.read(bytes(local), 0, 30, entry.offset)
+  if (local.readUInt32LE(0) !== LOCAL_HEADER) throw new Error(`Corrupt ZIP entry: ${entry.name}`)
+
+  const dataOffset = entry.offset + 30 + local.readUInt16LE(26) + local.readUInt16LE(28)
+  const compressed = Buffer.alloc(entry.compressedSize)
+  await file.read(bytes(compressed), 0, entry.compressedSize, dataOffset)
+
+  let data: Buffer
+  if (entry.method === METHOD_STORE) {
+    data = compressed
+  } else if (entry.method === METHOD_DEFLATE) {
+    // Never inflate past the declared size, so a crafted archive can't exhaust memory
+    data = inflateRawSync(bytes(compressed), { maxOutputLength: Math.max(entry.size, 1) })
+  } else {
+    throw new Error(`Unsupported compression in ${entry.name}`)
+  }
+
+  if (data.length !== entry.size || crc32(bytes(data)) !== entry.crc) {
+    throw new Error(`Corrupt ZIP entry: ${entry.name}`)
+  }
+
+  return data
+}
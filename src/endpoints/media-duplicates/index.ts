@@ -0,0 +1,98 @@
+import type { Payload, PayloadRequest } from 'payload'
+
+import { APIError } from 'payload'
+
+import type { Media } from '@/payload-types'
+import { hammingDistance, SIMILAR_HASH_DISTANCE } from '@/utilities/perceptualHash'
+
+export type DuplicateMatch = {
+  // Differing perceptual hash bits; 0 for byte-identical files
+  distance: number
+  doc: Media
+  match: 'exact' | 'similar'
+}
+
+// Upper bound on matches returned for one file
+const MAX_MATCHES = 5
+
+/**
+ * Find library items that are identical to, or look like, a file about to be uploaded.
+ * Hashes are computed in the browser the same way `computeContentHashes` does.
+ */
+export const findDuplicateMedia = async ({
+  contentHash,
+  payload,
+  perceptualHash,
+  req,
+}: {
+  contentHash: unknown
+  payload: Payload
+  perceptualHash?: unknown
+  req: PayloadRequest
+}): Promise<DuplicateMatch[]> => {
+  if (typeof contentHash !== 'string' || !/^[a-f0-9]{64}$/.test(contentHash)) {
+    throw new APIError('contentHash must be a hex encoded SHA-256 digest.', 400)
+  }
+
+  if (perceptualHash !== undefined && perceptualHash !== null) {
+    if (typeof perceptualHash !== 'string' || !/^[a-f0-9]{16}$/.test(perceptualHash)) {
+      throw new APIError('perceptualHash must be 16 hex characters.', 400)
+    }
+  }
+
+  const { docs: exact } = await payload.find({
+    collection: 'media',
+    depth: 1,
+    limit: MAX_MATCHES,
+    where: { and: [{ contentHash: { equals: contentHash } }, { sourceMedia: { exists: false } }] },
+    overrideAccess: false,
+    req,
+  })
+
+  const matches: DuplicateMatch[] = exact.map((doc) => ({ distance: 0, doc, match: 'exact' }))
+
+  if (typeof perceptualHash !== 'string' || matches.length >= MAX_MATCHES) return matches
+
+  // Perceptual hashes can't be range-queried, so compare them in memory
+  const { docs: candidates } = await payload.find({
+    collection: 'media',
+    depth: 0,
+    pagination: false,
+    select: { perceptualHash: true },
+    where: {
+      and: [
+        { perceptualHash: { exists: true } },
+        { contentHash: { not_equals: contentHash } },
+        { sourceMedia: { exists: false } },
+      ],
+    },
+    overrideAccess: false,
+    req,
+  })
+
+  const distances = new Map(
+    candidates
+      .map((doc) => [doc.id, hammingDistance(perceptualHash, doc.perceptualHash || '')] as const)
+      .filter(([, distance]) => distance <= SIMILAR_HASH_DISTANCE)
+      .sort(([, a], [, b]) => a - b)
+      .slice(0, MAX_MATCHES - matches.length),
+  )
+
+  if (distances.size === 0) return matches
+
+  const { docs: similar } = await payload.find({
+    collection: 'media',
+    depth: 1,
+    pagination: false,
+    where: { id: { in: Array.from(distances.keys()) } },
+    overrideAccess: false,
+    req,
+  })
+
+  return [
+    ...matches,
+    ...similar
+      .map((doc): DuplicateMatch => ({ distance: distances.get(doc.id) ?? 0, doc, match: 'similar' }))
+      .sort((a, b) => a.distance - b.distance),
+  ]
+}
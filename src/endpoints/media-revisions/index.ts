@@ -0,0 +1,61 @@
+import type { Payload, PayloadRequest } from 'payload'
+
+import { APIError } from 'payload'
+
+import { getRelationID } from '@/collections/Media/hooks/derivatives'
+import { readMediaFile } from '@/collections/Media/storage'
+import type { Media } from '@/payload-types'
+
+/**
+ * Restore an archived file revision onto its media item.
+ *
+ * The restored file is uploaded like any other replacement, so Payload regenerates
+ * the image sizes and the file being replaced is itself kept as a revision.
+ */
+export const revertMediaRevision = async ({
+  payload,
+  req,
+  revisionId,
+}: {
+  payload: Payload
+  req: PayloadRequest
+  revisionId: string
+}): Promise<Media> => {
+  const revision = await payload.findByID({
+    id: revisionId,
+    collection: 'media',
+    depth: 0,
+    overrideAccess: false,
+    req,
+  })
+
+  const mediaId = getRelationID(revision.sourceMedia)
+
+  if (revision.derivativeKind !== 'revision' || !mediaId || !revision.filename) {
+    throw new APIError('This media item is not a file revision.', 400)
+  }
+
+  const data = await readMediaFile(req, revision.filename, revision)
+
+  if (!data) {
+    throw new APIError(`The file for revision ${revisionId} could not be found in storage.`, 404)
+  }
+
+  payload.logger.info(`Reverting media ${mediaId} to revision ${revisionId}`)
+
+  return payload.update({
+    id: mediaId,
+    collection: 'media',
+    data: {},
+    depth: 1,
+    file: {
+      data,
+      mimetype: revision.mimeType || 'application/octet-stream',
+      name: revision.filename,
+      size: data.length,
+    },
+    context: { fileVersionKind: 'revert' },
+    overrideAccess: false,
+    req,
+  })
+}
@@ -0,0 +1,294 @@
+import type { PayloadRequest } from 'payload'
+
+import { APIError } from 'payload'
+
+import { GetObjectCommand, HeadObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3'
+import type { S3Client } from '@aws-sdk/client-s3'
+import { mkdir, readFile, rename, stat, writeFile } from 'fs/promises'
+import path from 'path'
+
+import { createR2Client, getR2Config } from '@/collections/Media/r2'
+import type { Media, PayloadJob } from '@/payload-types'
+
+export const STORAGE_DIRECTIONS = ['local-to-r2', 'r2-to-local'] as const
+
+export type StorageDirection = (typeof STORAGE_DIRECTIONS)[number]
+
+export type StorageMigrationReport = {
+  direction: StorageDirection
+  dryRun: boolean
+  documents: number
+  files: number
+  // Copied, or that would be copied in a dry run
+  copied: number
+  copiedBytes: number
+  // Already at the destination with the same size, e.g. from an earlier, interrupted run
+  skipped: number
+  missing: string[]
+  failed: { error: string; filename: string }[]
+  startedAt: string
+  finishedAt: string
+}
+
+type StoredFile = {
+  filename: string
+  key: string
+  mimeType: null | string | undefined
+}
+
+// Media documents are loaded in pages so large libraries don't sit in memory at once
+const PAGE_SIZE = 100
+
+/**
+ * The original plus every generated size, with the bucket key the storage plugin uses
+ */
+const getStoredFiles = (doc: Media): StoredFile[] => {
+  const prefix = (doc as Media & { prefix?: null | string }).prefix || ''
+  const files = [
+    { filename: doc.filename, mimeType: doc.mimeType },
+    ...Object.values(doc.sizes || {}).map((size) => ({
+      filename: size?.filename,
+      mimeType: size?.mimeType,
+    })),
+  ]
+
+  return files
+    .filter((file): file is { filename: string; mimeType: typeof file.mimeType } =>
+      Boolean(file.filename),
+    )
+    .map((file) => ({ ...file, key: path.posix.join(prefix, file.filename) }))
+}
+
+const isNotFound = (error: unknown) =>
+  error instanceof Error &&
+  (error.name === 'NotFound' ||
+    error.name === 'NoSuchKey' ||
+    ('code' in error && error.code === 'ENOENT'))
+
+/**
+ * Both sides of a migration as the same three operations
+ */
+const createStores = (client: S3Client, bucket: string, staticDir: string) => {
+  const local = {
+    read: (file: StoredFile) => readFile(path.join(staticDir, file.filename)),
+    size: async (file: StoredFile) => {
+      try {
+        return (await stat(path.join(staticDir, file.filename))).size
+      } catch (error) {
+        if (isNotFound(error)) return null
+        throw error
+      }
+    },
+    write: async (file: StoredFile, data: Buffer) => {
+      const target = path.join(staticDir, file.filename)
+      await mkdir(path.dirname(target), { recursive: true })
+      // Written aside and renamed so an interrupted copy never looks complete
+      await writeFile(`${target}.tmp`, new Uint8Array(data))
+      await rename(`${target}.tmp`, target)
+    },
+  }
+
+  const r2 = {
+    read: async (file: StoredFile) => {
+      const { Body } = await client.send(new GetObjectCommand({ Bucket: bucket, Key: file.key }))
+      if (!Body) throw new Error('Empty response body')
+      return Buffer.from(await Body.transformToByteArray())
+    },
+    size: async (file: StoredFile) => {
+      try {
+        const head = await client.send(new HeadObjectCommand({ Bucket: bucket, Key: file.key }))
+        return head.ContentLength ?? 0
+      } catch (error) {
+        if (isNotFound(error)) return null
+        throw error
+      }
+    },
+    write: async (file: StoredFile, data: Buffer) => {
+      await client.send(
+        new PutObjectCommand({
+          Body: data,
+          Bucket: bucket,
+          ContentType: file.mimeType || undefined,
+          Key: file.key,
+        }),
+      )
+    },
+  }
+
+  return { local, r2 }
+}
+
+/**
+ * Copy every media file and its generated sizes between the local `staticDir` and the R2
+ * bucket. Files already at the destination with the same size are skipped, so running it
+ * again after an interruption picks up where it stopped. Source files are never deleted.
+ *
+ * With `dryRun`, nothing is written and the report lists what would be copied.
+ */
+export const migrateMediaStorage = async ({
+  direction,
+  dryRun,
+  req,
+}: {
+  direction: StorageDirection
+  dryRun: boolean
+  req: PayloadRequest
+}): Promise<StorageMigrationReport> => {
+  const { payload } = req
+  const r2Config = getR2Config()
+
+  if (!STORAGE_DIRECTIONS.includes(direction)) {
+    throw new APIError(`direction must be one of ${STORAGE_DIRECTIONS.join(', ')}`, 400)
+  }
+  if (!r2Config) throw new APIError('R2 storage is not configured', 400)
+
+  const staticDir = path.resolve(payload.collections.media.config.upload.staticDir || 'media')
+  const client = createR2Client(r2Config)
+  const stores = createStores(client, r2Config.bucket, staticDir)
+  const [source, destination] =
+    direction === 'local-to-r2' ? [stores.local, stores.r2] : [stores.r2, stores.local]
+
+  const report: StorageMigrationReport = {
+    direction,
+    dryRun,
+    documents: 0,
+    files: 0,
+    copied: 0,
+    copiedBytes: 0,
+    skipped: 0,
+    missing: [],
+    failed: [],
+    startedAt: new Date().toISOString(),
+    finishedAt: '',
+  }
+
+  try {
+    for (let page = 1, hasNextPage = true; hasNextPage; page++) {
+      const result = await payload.find({
+        collection: 'media',
+        depth: 0,
+        limit: PAGE_SIZE,
+        page,
+        sort: 'createdAt',
+        req,
+      })
+      hasNextPage = result.hasNextPage
+
+      for (const doc of result.docs) {
+        report.documents++
+
+        for (const file of getStoredFiles(doc)) {
+          report.files++
+
+          try {
+            const sourceSize = await source.size(file)
+            if (sourceSize === null) {
+              report.missing.push(file.filename)
+              continue
+            }
+
+            if ((await destination.size(file)) === sourceSize) {
+              report.skipped++
+              continue
+            }
+
+            if (!dryRun) await destination.write(file, await source.read(file))
+
+            report.copied++
+            report.copiedBytes += sourceSize
+          } catch (error) {
+            report.failed.push({
+              error: error instanceof Error ? error.message : String(error),
+              filename: file.filename,
+            })
+          }
+        }
+      }
+    }
+  } finally {
+    client.destroy()
+  }
+
+  report.finishedAt = new Date().toISOString()
+
+  payload.logger.info(
+    `${dryRun ? 'Dry run of media' : 'Media'} storage migration (${direction}): ${report.copied} copied, ${report.skipped} already present, ${report.missing.length} missing, ${report.failed.length} failed`,
+  )
+
+  return report
+}
+
+export type StorageMigrationJob = {
+  attempts: number
+  error: unknown
+  id: string
+  report: null | StorageMigrationReport
+  status: 'completed' | 'failed' | 'queued' | 'running'
+}
+
+const toMigrationJob = (job: PayloadJob): StorageMigrationJob => {
+  const lastRun = job.log?.[job.log.length - 1]
+  const output = lastRun?.state === 'succeeded' ? (lastRun.output as { report?: unknown }) : null
+
+  let status: StorageMigrationJob['status'] = 'queued'
+  if (job.completedAt) status = 'completed'
+  else if (job.hasError) status = 'failed'
+  else if (job.processing) status = 'running'
+
+  return {
+    attempts: job.totalTried ?? 0,
+    error: job.error ?? lastRun?.error ?? null,
+    id: job.id,
+    report: (output?.report as StorageMigrationReport | undefined) ?? null,
+    status,
+  }
+}
+
+/**
+ * Queue a storage migration. Dry runs only read, so they run right away and come back
+ * with their report; real migrations are left to the jobs runner.
+ */
+export const queueStorageMigration = async ({
+  direction,
+  dryRun,
+  req,
+}: {
+  direction: StorageDirection
+  dryRun: boolean
+  req: PayloadRequest
+}): Promise<StorageMigrationJob> => {
+  const { payload } = req
+
+  if (!STORAGE_DIRECTIONS.includes(direction)) {
+    throw new APIError(`direction must be one of ${STORAGE_DIRECTIONS.join(', ')}`, 400)
+  }
+  if (!getR2Config()) throw new APIError('R2 storage is not configured', 400)
+
+  const job = await payload.jobs.queue({
+    task: 'migrateMediaStorage',
+    input: { direction, dryRun },
+    req,
+  })
+
+  if (dryRun) {
+    await payload.jobs.runByID({ id: job.id, req })
+  }
+
+  return getStorageMigration({ id: String(job.id), req })
+}
+
+export const getStorageMigration = async ({
+  id,
+  req,
+}: {
+  id: string
+  req: PayloadRequest
+}): Promise<StorageMigrationJob> => {
+  const job = await req.payload
+    .findByID({ collection: 'payload-jobs', id, depth: 0, req })
+    .catch(() => null)
+
+  if (!job || job.taskSlug !== 'migrateMediaStorage') throw new APIError('Not found', 404)
+
+  return toMigrationJob(job)
+}
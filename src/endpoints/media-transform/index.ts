@@ -0,0 +1,238 @@
+import type { PayloadRequest } from 'payload'
+
+import { APIError } from 'payload'
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto'
+import { mkdir, readFile, rename, writeFile } from 'fs/promises'
+import path from 'path'
+
+import { PASSTHROUGH_FORMATS } from '@/collections/Media/hooks/generateVariants'
+import { readMediaFile } from '@/collections/Media/storage'
+import {
+  MEDIA_TRANSFORM_PATH,
+  MEDIA_TRANSFORM_QUALITIES,
+  MEDIA_TRANSFORM_WIDTHS,
+} from '@/utilities/mediaTransformLoader'
+
+const FITS = ['cover', 'contain', 'inside', 'fill'] as const
+const FORMATS = ['auto', 'avif', 'jpeg', 'png', 'webp'] as const
+
+// Upper bound for either dimension of a rendition
+const MAX_DIMENSION = 4096
+
+export type TransformFit = (typeof FITS)[number]
+export type TransformFormat = (typeof FORMATS)[number]
+
+export type TransformParams = {
+  fit: TransformFit
+  format: TransformFormat
+  height: null | number
+  quality: number
+  width: null | number
+}
+
+const DEFAULT_PARAMS: TransformParams = {
+  fit: 'inside',
+  format: 'auto',
+  height: null,
+  quality: 75,
+  width: null,
+}
+
+// Next.js keeps its own optimized images in .next/cache too. Renditions stay until the
+// directory is cleared; a new file or edit changes `updatedAt` and so the cache key.
+const cacheDir = () =>
+  process.env.MEDIA_TRANSFORM_CACHE_DIR ||
+  path.join(process.cwd(), '.next', 'cache', 'media-transforms')
+
+const getSecret = () => process.env.MEDIA_TRANSFORM_SECRET || null
+
+export const isMediaTransformEnabled = () => Boolean(getSecret())
+
+const sign = (value: string) =>
+  createHmac('sha256', getSecret()!).update(value).digest('base64url').slice(0, 32)
+
+const signatureMatches = (signature: string, value: string) => {
+  const expected = Buffer.from(sign(value))
+  const actual = Buffer.from(signature)
+  return (
+    actual.length === expected.length &&
+    timingSafeEqual(new Uint8Array(actual), new Uint8Array(expected))
+  )
+}
+
+// Everything that affects the output, in a fixed order
+const canonicalize = (filename: string, params: TransformParams) =>
+  [filename, params.width, params.height, params.fit, params.quality, params.format].join('|')
+
+/**
+ * Signature that lets `next/image` request any of the loader's widths and qualities for
+ * one file. Exposed as the media item's `transformSignature`; `null` while transforms are off.
+ */
+export const signMediaSource = (filename: null | string | undefined): null | string => {
+  if (!filename || !isMediaTransformEnabled()) return null
+  return sign(filename)
+}
+
+/**
+ * URL for any rendition of a media file, signed for exactly these parameters.
+ * For server code only; the secret never reaches the browser.
+ */
+export const getSignedMediaTransformUrl = (
+  filename: string,
+  options: Partial<TransformParams>,
+): null | string => {
+  if (!isMediaTransformEnabled()) return null
+
+  const params = { ...DEFAULT_PARAMS, ...options }
+  const search = new URLSearchParams({
+    fit: params.fit,
+    f: params.format,
+    q: String(params.quality),
+  })
+  if (params.width) search.set('w', String(params.width))
+  if (params.height) search.set('h', String(params.height))
+  search.set('s', sign(canonicalize(filename, params)))
+
+  return `${MEDIA_TRANSFORM_PATH}/${encodeURIComponent(filename)}?${search}`
+}
+
+const parseDimension = (value: null | string, name: string) => {
+  if (value === null) return null
+  const number = Number(value)
+  if (!Number.isInteger(number) || number < 1 || number > MAX_DIMENSION) {
+    throw new APIError(`${name} must be a whole number from 1 to ${MAX_DIMENSION}`, 400)
+  }
+  return number
+}
+
+/**
+ * Read and validate the query string. Throws a 400 for malformed values and a 403 when the
+ * signature does not cover them.
+ */
+export const parseTransformRequest = (filename: string, search: URLSearchParams) => {
+  const fit = (search.get('fit') ?? DEFAULT_PARAMS.fit) as TransformFit
+  const format = (search.get('f') ?? DEFAULT_PARAMS.format) as TransformFormat
+  const quality = Number(search.get('q') ?? DEFAULT_PARAMS.quality)
+
+  if (!FITS.includes(fit)) throw new APIError(`fit must be one of ${FITS.join(', ')}`, 400)
+  if (!FORMATS.includes(format)) throw new APIError(`f must be one of ${FORMATS.join(', ')}`, 400)
+  if (!Number.isInteger(quality) || quality < 1 || quality > 100) {
+    throw new APIError('q must be a whole number from 1 to 100', 400)
+  }
+
+  const params: TransformParams = {
+    fit,
+    format,
+    height: parseDimension(search.get('h'), 'h'),
+    quality,
+    width: parseDimension(search.get('w'), 'w'),
+  }
+
+  if (!params.width && !params.height) throw new APIError('Pass a width (w) or height (h)', 400)
+
+  const signature = search.get('s') || ''
+
+  // Loader URLs: signed for the file, limited to the widths and qualities next/image asks for
+  const isLoaderRequest =
+    signatureMatches(signature, filename) &&
+    params.width !== null &&
+    MEDIA_TRANSFORM_WIDTHS.includes(params.width) &&
+    params.height === null &&
+    params.fit === DEFAULT_PARAMS.fit &&
+    params.format === DEFAULT_PARAMS.format &&
+    MEDIA_TRANSFORM_QUALITIES.includes(params.quality)
+
+  if (!isLoaderRequest && !signatureMatches(signature, canonicalize(filename, params))) {
+    throw new APIError('Invalid signature', 403)
+  }
+
+  return params
+}
+
+/**
+ * "auto" picks the best format the browser accepts, falling back to the original's format
+ */
+const resolveFormat = (
+  requested: TransformFormat,
+  accept: null | string,
+  sourceFormat: string | undefined,
+): Exclude<TransformFormat, 'auto'> => {
+  if (requested !== 'auto') return requested
+  if (accept?.includes('image/avif')) return 'avif'
+  if (accept?.includes('image/webp')) return 'webp'
+  return PASSTHROUGH_FORMATS.find((format) => format === sourceFormat) ?? 'jpeg'
+}
+
+/**
+ * Render (or load from the disk cache) a rendition of a media file. The file is looked up
+ * with the requesting user's access, so transforms never expose media they could not read.
+ */
+export const transformMedia = async ({
+  accept,
+  filename,
+  params,
+  req,
+}: {
+  accept: null | string
+  filename: string
+  params: TransformParams
+  req: PayloadRequest
+}): Promise<{ contentType: string; data: Buffer; updatedAt: string }> => {
+  const { payload } = req
+  const sharp = payload.config.sharp
+
+  if (!sharp) throw new APIError('Image processing is not available', 501)
+
+  const {
+    docs: [doc],
+  } = await payload.find({
+    collection: 'media',
+    depth: 0,
+    limit: 1,
+    overrideAccess: false,
+    where: { filename: { equals: filename } },
+    req,
+  })
+
+  if (!doc?.filename) throw new APIError('Not found', 404)
+  if (!doc.mimeType?.startsWith('image/') || doc.mimeType === 'image/svg+xml') {
+    throw new APIError('Only raster images can be transformed', 415)
+  }
+
+  const sourceFormat = doc.mimeType.replace('image/', '')
+  const format = resolveFormat(params.format, accept, sourceFormat)
+  const key = createHash('sha256')
+    .update(`${doc.id}|${doc.updatedAt}|${canonicalize(doc.filename, { ...params, format })}`)
+    .digest('hex')
+  const cachePath = path.join(cacheDir(), key.slice(0, 2), `${key}.${format}`)
+  const contentType = `image/${format}`
+
+  try {
+    return { contentType, data: await readFile(cachePath), updatedAt: doc.updatedAt }
+  } catch {
+    // Not rendered yet
+  }
+
+  const input = await readMediaFile(req, doc.filename, doc)
+  if (!input) throw new APIError('Not found', 404)
+
+  const data = await sharp(input)
+    .rotate()
+    .resize({
+      width: params.width ?? undefined,
+      height: params.height ?? undefined,
+      fit: params.fit,
+      withoutEnlargement: true,
+    })
+    .toFormat(format, { quality: params.quality })
+    .toBuffer()
+
+  // Written aside and renamed so concurrent requests never read a partial file
+  await mkdir(path.dirname(cachePath), { recursive: true })
+  const tempPath = `${cachePath}.${process.pid}.tmp`
+  await writeFile(tempPath, new Uint8Array(data))
+  await rename(tempPath, cachePath)
+
+  return { contentType, data, updatedAt: doc.updatedAt }
+}
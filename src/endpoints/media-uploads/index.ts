@@ -0,0 +1,284 @@
+import type { PayloadRequest } from 'payload'
+
+import { APIError } from 'payload'
+
+import { randomUUID } from 'crypto'
+import { mkdir, open, readdir, readFile, rename, rm, stat, writeFile } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+
+import { contributors } from '@/access/contributors'
+import type { Media } from '@/payload-types'
+
+// Stays under the ~4.5 MB request body limit of serverless hosts
+export const UPLOAD_CHUNK_SIZE = 4 * 1024 * 1024
+
+// The reassembled file is held in memory while Payload stores it
+const MAX_UPLOAD_SIZE = 1024 * 1024 * 1024
+
+// Unfinished sessions are removed after a day
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000
+
+const UPLOAD_ID_PATTERN = /^[0-9a-f-]{36}$/
+
+// Every server instance handling chunks must see the same directory
+const uploadsDir = () => process.env.MEDIA_UPLOAD_TMP_DIR || path.join(os.tmpdir(), 'media-uploads')
+
+type UploadSession = {
+  chunkSize: number
+  createdAt: string
+  filename: string
+  id: string
+  mimeType: string
+  size: number
+  totalChunks: number
+  userId: string
+}
+
+export type UploadStatus = {
+  chunkSize: number
+  filename: string
+  id: string
+  receivedChunks: number[]
+  size: number
+  totalChunks: number
+}
+
+const sessionDir = (uploadId: string) => path.join(uploadsDir(), uploadId)
+const chunkPath = (uploadId: string, index: number) => path.join(sessionDir(uploadId), `${index}.part`)
+
+const expectedChunkSize = (session: UploadSession, index: number) =>
+  index < session.totalChunks - 1 ? session.chunkSize : session.size - session.chunkSize * (session.totalChunks - 1)
+
+const requireUser = (req: PayloadRequest) => {
+  if (!req.user) {
+    throw new APIError('You must be logged in to upload media.', 403)
+  }
+  if (!contributors({ req })) {
+    throw new APIError('You are not allowed to upload media.', 403)
+  }
+  return String(req.user.id)
+}
+
+const loadSession = async (uploadId: string, req: PayloadRequest): Promise<UploadSession> => {
+  const userId = requireUser(req)
+
+  if (!UPLOAD_ID_PATTERN.test(uploadId)) {
+    throw new APIError('Upload not found.', 404)
+  }
+
+  let session: UploadSession
+  try {
+    session = JSON.parse(await readFile(path.join(sessionDir(uploadId), 'session.json'), 'utf8'))
+  } catch {
+    throw new APIError('Upload not found. It may have expired.', 404)
+  }
+
+  // Other users' sessions are reported as missing rather than forbidden
+  if (session.userId !== userId) {
+    throw new APIError('Upload not found.', 404)
+  }
+
+  return session
+}
+
+const getReceivedChunks = async (session: UploadSession): Promise<number[]> => {
+  const received: number[] = []
+
+  for (const entry of await readdir(sessionDir(session.id))) {
+    const match = /^(\d+)\.part$/.exec(entry)
+    if (!match) continue
+
+    const index = Number(match[1])
+    const { size } = await stat(chunkPath(session.id, index))
+    if (size === expectedChunkSize(session, index)) received.push(index)
+  }
+
+  return received.sort((a, b) => a - b)
+}
+
+const toStatus = async (session: UploadSession): Promise<UploadStatus> => ({
+  chunkSize: session.chunkSize,
+  filename: session.filename,
+  id: session.id,
+  receivedChunks: await getReceivedChunks(session),
+  size: session.size,
+  totalChunks: session.totalChunks,
+})
+
+/**
+ * Remove sessions that were started more than a day ago and never completed.
+ */
+const pruneExpiredUploads = async (req: PayloadRequest) => {
+  let entries: string[]
+  try {
+    entries = await readdir(uploadsDir())
+  } catch {
+    return
+  }
+
+  for (const entry of entries) {
+    try {
+      const { createdAt } = JSON.parse(await readFile(path.join(uploadsDir(), entry, 'session.json'), 'utf8'))
+      if (Date.now() - new Date(createdAt).getTime() < SESSION_TTL_MS) continue
+    } catch {
+      // Unreadable sessions are removed too
+    }
+
+    await rm(path.join(uploadsDir(), entry), { force: true, recursive: true })
+    req.payload.logger.info(`Removed expired media upload ${entry}`)
+  }
+}
+
+/**
+ * Start a chunked upload. The client then sends each chunk and completes the upload,
+ * and can resume an interrupted upload by asking which chunks already arrived.
+ */
+export const createUploadSession = async ({
+  filename,
+  mimeType,
+  req,
+  size,
+}: {
+  filename: unknown
+  mimeType: unknown
+  req: PayloadRequest
+  size: unknown
+}): Promise<UploadStatus> => {
+  const userId = requireUser(req)
+
+  if (typeof filename !== 'string' || !path.basename(filename).trim()) {
+    throw new APIError('A filename is required.', 400)
+  }
+
+  if (typeof size !== 'number' || !Number.isInteger(size) || size <= 0) {
+    throw new APIError('The file size must be a positive number of bytes.', 400)
+  }
+
+  if (size > MAX_UPLOAD_SIZE) {
+    throw new APIError(`Files larger than ${MAX_UPLOAD_SIZE / 1024 / 1024} MB cannot be uploaded.`, 413)
+  }
+
+  await pruneExpiredUploads(req)
+
+  const session: UploadSession = {
+    chunkSize: UPLOAD_CHUNK_SIZE,
+    createdAt: new Date().toISOString(),
+    filename: path.basename(filename),
+    id: randomUUID(),
+    mimeType: typeof mimeType === 'string' && mimeType ? mimeType : 'application/octet-stream',
+    size,
+    totalChunks: Math.ceil(size / UPLOAD_CHUNK_SIZE),
+    userId,
+  }
+
+  await mkdir(sessionDir(session.id), { recursive: true })
+  await writeFile(path.join(sessionDir(session.id), 'session.json'), JSON.stringify(session))
+
+  return toStatus(session)
+}
+
+export const getUploadStatus = async ({
+  req,
+  uploadId,
+}: {
+  req: PayloadRequest
+  uploadId: string
+}): Promise<UploadStatus> => toStatus(await loadSession(uploadId, req))
+
+/**
+ * Store one chunk. Chunks may arrive in any order and be sent again after a failure.
+ */
+export const writeUploadChunk = async ({
+  data,
+  index,
+  req,
+  uploadId,
+}: {
+  data: Buffer
+  index: number
+  req: PayloadRequest
+  uploadId: string
+}): Promise<void> => {
+  const session = await loadSession(uploadId, req)
+
+  if (!Number.isInteger(index) || index < 0 || index >= session.totalChunks) {
+    throw new APIError(`Chunk ${index} is out of range for this upload.`, 400)
+  }
+
+  const expected = expectedChunkSize(session, index)
+  if (data.length !== expected) {
+    throw new APIError(`Chunk ${index} should be ${expected} bytes but was ${data.length}.`, 400)
+  }
+
+  // Written aside and renamed so an interrupted write never looks like a finished chunk
+  const target = chunkPath(uploadId, index)
+  await writeFile(`${target}.tmp`, new Uint8Array(data))
+  await rename(`${target}.tmp`, target)
+}
+
+/**
+ * Reassemble the chunks and create the media item through the Local API, so the usual
+ * hooks run and the file is stored wherever the collection stores uploads (staticDir or R2).
+ */
+export const completeUpload = async ({
+  data,
+  req,
+  uploadId,
+}: {
+  data: Record<string, unknown>
+  req: PayloadRequest
+  uploadId: string
+}): Promise<Media> => {
+  const session = await loadSession(uploadId, req)
+  const received = await getReceivedChunks(session)
+
+  if (received.length !== session.totalChunks) {
+    throw new APIError(
+      `Upload is incomplete: ${received.length} of ${session.totalChunks} chunks received.`,
+      409,
+    )
+  }
+
+  const bytes = new Uint8Array(session.size)
+  for (let index = 0; index < session.totalChunks; index++) {
+    const length = expectedChunkSize(session, index)
+    const handle = await open(chunkPath(uploadId, index), 'r')
+    try {
+      const { bytesRead } = await handle.read(bytes, index * session.chunkSize, length, 0)
+      if (bytesRead !== length) throw new Error(`Chunk ${index} of upload ${uploadId} is truncated`)
+    } finally {
+      await handle.close()
+    }
+  }
+  const file = Buffer.from(bytes.buffer)
+
+  const doc = await req.payload.create({
+    collection: 'media',
+    data,
+    file: {
+      data: file,
+      mimetype: session.mimeType,
+      name: session.filename,
+      size: file.length,
+    },
+    overrideAccess: false,
+    req,
+  })
+
+  await rm(sessionDir(uploadId), { force: true, recursive: true })
+  req.payload.logger.info(`Completed chunked upload of ${session.filename} as media ${doc.id}`)
+
+  return doc
+}
+
+export const abortUpload = async ({
+  req,
+  uploadId,
+}: {
+  req: PayloadRequest
+  uploadId: string
+}): Promise<void> => {
+  await loadSession(uploadId, req)
+  await rm(sessionDir(uploadId), { force: true, recursive: true })
+}
@@ -0,0 +1,279 @@
+import type { PayloadRequest } from 'payload'
+
+import { APIError } from 'payload'
+
+import dns from 'dns'
+import http, { type IncomingMessage } from 'http'
+import https from 'https'
+import net from 'net'
+import path from 'path'
+import { Readable } from 'stream'
+
+// The file goes back to the browser and is uploaded from there, so keep it reasonable
+const MAX_REMOTE_FILE_SIZE = 100 * 1024 * 1024
+const MAX_REDIRECTS = 5
+// For connecting and receiving headers (across redirects), then between chunks of the body
+const TIMEOUT_MS = 30 * 1000
+
+const ALLOWED_PORTS = ['', '80', '443']
+
+// Loopback, private, link-local, carrier-grade NAT, multicast, documentation and
+// other special-purpose ranges. IPv4-mapped IPv6 addresses are checked against the
+// IPv4 rules by BlockList itself.
+const blockedAddresses = new net.BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.88.99.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  // NAT64 and 6to4 embed IPv4 addresses
+  ['64:ff9b::', 96],
+  ['64:ff9b:1::', 48],
+  ['100::', 64],
+  ['2001::', 23],
+  ['2001:db8::', 32],
+  ['2002::', 16],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6')
+}
+
+// Extensions for files served without a usable name
+const EXTENSIONS: Record<string, string> = {
+  'application/pdf': '.pdf',
+  'audio/mpeg': '.mp3',
+  'audio/ogg': '.ogg',
+  'audio/wav': '.wav',
+  'image/avif': '.avif',
+  'image/gif': '.gif',
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/svg+xml': '.svg',
+  'image/webp': '.webp',
+  'video/mp4': '.mp4',
+  'video/quicktime': '.mov',
+  'video/webm': '.webm',
+}
+
+export type RemoteMedia = {
+  body: ReadableStream<Uint8Array>
+  filename: string
+  mimeType: string
+  // null when the server didn't send a Content-Length
+  size: null | number
+}
+
+export const isPublicAddress = (address: string) => {
+  const family = net.isIP(address)
+  return family !== 0 && !blockedAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4')
+}
+
+// Every address a hostname resolves to must be public; checked when the socket connects,
+// so a second DNS answer can't point the request somewhere else
+type LookupAllCallback = (error: null, addresses: dns.LookupAddress[]) => void
+
+export const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 4)
+
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address))
+    if (blocked || addresses.length === 0) {
+      return callback(
+        Object.assign(new Error(`${hostname} resolves to a private address`), { code: 'EBLOCKED' }),
+        '',
+        4,
+      )
+    }
+
+    // Sockets that try IPv4 and IPv6 in turn ask for every address
+    if (options.all) return (callback as unknown as LookupAllCallback)(null, addresses)
+    callback(null, addresses[0]!.address, addresses[0]!.family)
+  })
+}
+
+/**
+ * Parse a URL to import, refusing anything that isn't plain http(s) on a standard port or
+ * that names a private address directly
+ */
+export const parseUrl = (value: string) => {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    throw new APIError('Enter a valid URL', 400)
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new APIError('Only http and https URLs can be imported', 400)
+  }
+  if (url.username || url.password) {
+    throw new APIError('URLs with credentials cannot be imported', 400)
+  }
+  if (!ALLOWED_PORTS.includes(url.port)) {
+    throw new APIError('Only URLs on the standard ports can be imported', 400)
+  }
+
+  // Literal IPs skip the lookup, so check them here
+  const hostname = url.hostname.replace(/^\[|\]$/g, '')
+  if (net.isIP(hostname) && !isPublicAddress(hostname)) {
+    throw new APIError('URLs pointing to private addresses cannot be imported', 400)
+  }
+
+  return url
+}
+
+const request = (url: URL, signal: AbortSignal) =>
+  new Promise<IncomingMessage>((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http
+    const outgoing = client.get(url, {
+      headers: { Accept: '*/*', 'User-Agent': 'PayloadMediaImport/1.0' },
+      lookup: publicLookup,
+      signal,
+      timeout: TIMEOUT_MS,
+    })
+    outgoing.on('timeout', () => outgoing.destroy(new Error('Timed out')))
+    outgoing.on('response', resolve)
+    outgoing.on('error', reject)
+  })
+
+const isAllowedMimeType = (req: PayloadRequest, mimeType: string) => {
+  const allowed = req.payload.collections.media.config.upload.mimeTypes || []
+  return (
+    allowed.length === 0 ||
+    allowed.some((pattern) =>
+      pattern.endsWith('/*') ? mimeType.startsWith(pattern.slice(0, -1)) : pattern === mimeType,
+    )
+  )
+}
+
+const getFilename = (response: IncomingMessage, url: URL, mimeType: string) => {
+  const disposition = response.headers['content-disposition'] || ''
+  const encoded = disposition.match(/filename\*=(?:UTF-8'')?([^;]+)/i)?.[1]
+  const quoted = disposition.match(/filename="?([^";]+)"?/i)?.[1]
+
+  let name = ''
+  try {
+    name = encoded ? decodeURIComponent(encoded.trim()) : quoted || decodeURIComponent(url.pathname)
+  } catch {
+    name = url.pathname
+  }
+
+  name = path
+    .basename(name)
+    .replace(/[^\w.\- ]+/g, '-')
+    .trim()
+  const extension = EXTENSIONS[mimeType]
+
+  if (!name || name === '.' || name === '-') name = 'imported'
+  if (extension && !path.extname(name)) name += extension
+
+  return name
+}
+
+/**
+ * Download a file from a remote URL for the media library.
+ *
+ * Only http(s) URLs on standard ports that resolve to public addresses are fetched,
+ * including after each redirect. The file must be a type the media collection accepts
+ * and no larger than 100 MB; the returned stream errors if the server sends more.
+ */
+export const fetchRemoteMedia = async ({
+  req,
+  url: value,
+}: {
+  req: PayloadRequest
+  url: unknown
+}): Promise<RemoteMedia> => {
+  if (typeof value !== 'string' || !value.trim()) throw new APIError('A URL is required', 400)
+
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), TIMEOUT_MS)
+  const { signal } = controller
+  let url = parseUrl(value.trim())
+  let response: IncomingMessage
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      try {
+        response = await request(url, signal)
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'EBLOCKED') {
+          throw new APIError('URLs pointing to private addresses cannot be imported', 400)
+        }
+        if (signal.aborted) throw new APIError('The remote server took too long to respond', 504)
+        throw new APIError(`Could not reach ${url.hostname}`, 502)
+      }
+
+      const status = response.statusCode || 0
+      if (status < 300 || status >= 400) break
+
+      response.resume()
+      const location = response.headers.location
+      if (!location)
+        throw new APIError(`The remote server answered ${status} without a location`, 502)
+      if (redirects >= MAX_REDIRECTS) throw new APIError('The URL redirects too many times', 502)
+      url = parseUrl(new URL(location, url).toString())
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+
+  const fail = (message: string, status: number): never => {
+    response.destroy()
+    throw new APIError(message, status)
+  }
+
+  if (response.statusCode !== 200) {
+    fail(`The remote server answered ${response.statusCode}`, 502)
+  }
+
+  const mimeType = (response.headers['content-type'] || '').split(';')[0]!.trim().toLowerCase()
+  if (!mimeType || !isAllowedMimeType(req, mimeType)) {
+    fail(`Files of type ${mimeType || 'unknown'} cannot be added to the media library`, 415)
+  }
+
+  const length = Number(response.headers['content-length'])
+  const size = Number.isFinite(length) && length >= 0 ? length : null
+  if (size !== null && size > MAX_REMOTE_FILE_SIZE) {
+    fail(`Files larger than ${MAX_REMOTE_FILE_SIZE / 1024 / 1024} MB cannot be imported`, 413)
+  }
+
+  let received = 0
+  const limit = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, stream) {
+      received += chunk.length
+      if (received > MAX_REMOTE_FILE_SIZE) {
+        response.destroy()
+        stream.error(new Error('Remote file is larger than the import limit'))
+        return
+      }
+      stream.enqueue(chunk)
+    },
+  })
+
+  return {
+    body: (Readable.toWeb(response) as ReadableStream<Uint8Array>).pipeThrough(limit),
+    filename: getFilename(response, url, mimeType),
+    mimeType,
+    size,
+  }
+}
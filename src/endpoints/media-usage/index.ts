@@ -0,0 +1,173 @@
+import type { CollectionSlug, GlobalSlug, Payload, PayloadRequest } from 'payload'
+
+import { APIError } from 'payload'
+
+import { syncMediaReferences } from '@/collections/MediaReferences/hooks/trackMediaReferences'
+import type { MediaReference } from '@/payload-types'
+
+export type MediaUsage = {
+  adminUrl: string
+  documentId: string
+  documentTitle: string
+  fieldPath: string
+  id: string
+  source: string
+  sourceLabel: string
+  sourceType: MediaReference['sourceType']
+  status: NonNullable<MediaReference['status']>
+}
+
+// Collections and globals whose documents are indexed by `trackMediaReferences`
+const trackedCollections = ['pages', 'posts'] as const
+const trackedGlobals: GlobalSlug[] = ['header', 'footer', 'site-settings']
+
+const getLabel = (label: unknown, fallback: string) => (typeof label === 'string' ? label : fallback)
+
+/**
+ * Label and admin link for an indexed reference
+ */
+export const toMediaUsage = (payload: Payload, reference: MediaReference): MediaUsage => {
+  const adminRoute = payload.config.routes.admin
+  const isGlobal = reference.sourceType === 'global'
+  const sourceLabel = isGlobal
+    ? getLabel(payload.config.globals.find((global) => global.slug === reference.source)?.label, reference.source)
+    : getLabel(payload.collections[reference.source as CollectionSlug]?.config.labels.singular, reference.source)
+
+  return {
+    adminUrl: isGlobal
+      ? `${adminRoute}/globals/${reference.source}`
+      : `${adminRoute}/collections/${reference.source}/${reference.documentId}`,
+    documentId: reference.documentId,
+    documentTitle: reference.documentTitle || reference.documentId,
+    fieldPath: reference.fieldPath,
+    id: reference.id,
+    source: reference.source,
+    sourceLabel,
+    sourceType: reference.sourceType,
+    status: reference.status || 'published',
+  }
+}
+
+/**
+ * List the pages, posts and globals that reference a media item.
+ */
+export const getMediaUsage = async ({
+  mediaId,
+  payload,
+  req,
+}: {
+  mediaId: string
+  payload: Payload
+  req: PayloadRequest
+}): Promise<MediaUsage[]> => {
+  // Checks the media item exists and that the user may read it
+  await payload.findByID({
+    id: mediaId,
+    collection: 'media',
+    depth: 0,
+    overrideAccess: false,
+    req,
+  })
+
+  const { docs } = await payload.find({
+    collection: 'media-references',
+    depth: 0,
+    pagination: false,
+    sort: ['source', 'documentTitle'],
+    where: { media: { equals: mediaId } },
+    overrideAccess: false,
+    req,
+  })
+
+  return docs.map((reference) => toMediaUsage(payload, reference))
+}
+
+/**
+ * Re-index every tracked document. References are normally kept up to date by
+ * hooks; this backfills content created before the index existed.
+ */
+export const rebuildMediaReferences = async ({
+  payload,
+  req,
+}: {
+  payload: Payload
+  req: PayloadRequest
+}): Promise<{ documents: number }> => {
+  if (!req.user) {
+    throw new APIError('You must be logged in to rebuild media references.', 403)
+  }
+
+  let documents = 0
+
+  await payload.delete({ collection: 'media-references', where: {}, req })
+
+  for (const slug of trackedCollections) {
+    const { config } = payload.collections[slug]
+    const useAsTitle = config.admin?.useAsTitle
+
+    const index = async (record: Record<string, unknown>, status: 'draft' | 'published') => {
+      await syncMediaReferences({
+        data: record,
+        fields: config.fields,
+        req,
+        source: {
+          documentId: String(record.id),
+          documentTitle: useAsTitle && typeof record[useAsTitle] === 'string' ? record[useAsTitle] : null,
+          source: slug,
+          sourceType: 'collection',
+        },
+        status,
+      })
+    }
+
+    const { docs: published } = await payload.find({ collection: slug, depth: 0, pagination: false, req })
+    const publishedUpdatedAt = new Map(published.map((doc) => [doc.id, doc.updatedAt]))
+
+    for (const doc of published) {
+      const record = doc as unknown as Record<string, unknown>
+      await index(record, record._status === 'draft' ? 'draft' : 'published')
+      documents++
+    }
+
+    // Newer drafts are indexed alongside the published version
+    const { docs: drafts } = await payload.find({
+      collection: slug,
+      depth: 0,
+      draft: true,
+      pagination: false,
+      req,
+    })
+
+    for (const doc of drafts) {
+      const record = doc as unknown as Record<string, unknown>
+      if (record._status === 'draft' && publishedUpdatedAt.get(doc.id) !== doc.updatedAt) {
+        await index(record, 'draft')
+      }
+    }
+  }
+
+  for (const slug of trackedGlobals) {
+    const global = payload.config.globals.find((candidate) => candidate.slug === slug)
+    if (!global) continue
+
+    const source = {
+      documentId: slug,
+      documentTitle: getLabel(global.label, slug),
+      source: slug,
+      sourceType: 'global' as const,
+    }
+
+    await syncMediaReferences({
+      data: await payload.findGlobal({ slug, depth: 0, req }),
+      fields: global.fields,
+      req,
+      source,
+      status: 'published',
+    })
+    documents++
+  }
+
+  payload.logger.info(`Rebuilt media references for ${documents} documents`)
+
+  return { documents }
+}
@@ -11,6 +11,7 @@ export const contact: (args: ContactArgs) => RequiredDataFromCollectionSlug<'pag
   return {
     slug: 'contact',
     _status: 'published',
+    workflowStatus: 'published',
     hero: {
       type: 'none',
     },
@@ -11,8 +11,10 @@ import { post2 } from './post-2'
 import { post3 } from './post-3'
 
 const collections: CollectionSlug[] = [
+  'authors',
   'categories',
   'media',
+  'media-references',
   'pages',
   'posts',
   'forms',
@@ -105,6 +107,7 @@ export const seed = async ({
         name: 'Demo Author',
         email: 'demo-author@example.com',
         password: 'password',
+        role: 'author',
       },
     }),
     payload.create({
@@ -138,6 +141,20 @@ export const seed = async ({
     ),
   ])
 
+  await payload.create({
+    collection: 'authors',
+    context: {
+      disableRevalidate: true,
+    },
+    data: {
+      name: 'Demo Author',
+      bio: 'Writes about technology, design and the craft of building for the web.',
+      roleTitle: 'Staff Writer',
+      slug: 'demo-author',
+      user: demoAuthor.id,
+    },
+  })
+
   payload.logger.info(`— Seeding posts...`)
 
   // Do not create posts with `Promise.all` because we want the posts to be created in order
@@ -0,0 +1,92 @@
+import type { DateFieldValidation, Field } from 'payload'
+
+const isSameTime = (a?: Date | null | string, b?: Date | null | string) =>
+  Boolean(a && b) && new Date(a!).getTime() === new Date(b!).getTime()
+
+// Publishing with a past expiry is refused, except for a document that is still live with
+// that same expiry: it can be edited until `unpublishExpired` takes it down.
+const validateExpiresAt: DateFieldValidation = async (
+  value,
+  { collectionSlug, data, id, previousValue, req },
+) => {
+  const { _status } = (data || {}) as { _status?: string }
+  if (!value || _status !== 'published' || new Date(value).getTime() > Date.now()) return true
+
+  if (id && collectionSlug && isSameTime(value, previousValue)) {
+    const live = await req.payload
+      .findByID({
+        id,
+        collection: collectionSlug as 'pages' | 'posts',
+        depth: 0,
+        disableErrors: true,
+        req,
+        select: { _status: true },
+      })
+      .catch(() => null)
+
+    if (live?._status === 'published') return true
+  }
+
+  return 'This has expired. Move the expiry into the future, or clear it, to publish.'
+}
+
+/**
+ * Sidebar fields for taking a page or post down automatically. The `unpublishExpired`
+ * job unpublishes documents once `expiresAt` has passed and, when asked to, redirects
+ * their old URL.
+ */
+export const expiryFields: Field[] = [
+  {
+    name: 'expiresAt',
+    type: 'date',
+    admin: {
+      date: {
+        pickerAppearance: 'dayAndTime',
+      },
+      description: 'Unpublished automatically after this time',
+      position: 'sidebar',
+    },
+    index: true,
+    validate: validateExpiresAt,
+  },
+  {
+    name: 'expiryRedirect',
+    type: 'group',
+    admin: {
+      condition: (data) => Boolean(data?.expiresAt),
+      description: 'Where visitors to the old URL go once it has expired',
+      position: 'sidebar',
+    },
+    fields: [
+      {
+        name: 'type',
+        type: 'radio',
+        defaultValue: 'none',
+        options: [
+          { label: 'Nowhere (not found)', value: 'none' },
+          { label: 'Page or post', value: 'reference' },
+          { label: 'Custom URL', value: 'custom' },
+        ],
+      },
+      {
+        name: 'reference',
+        type: 'relationship',
+        admin: {
+          condition: (_, siblingData) => siblingData?.type === 'reference',
+        },
+        relationTo: ['pages', 'posts'],
+        required: true,
+      },
+      {
+        name: 'url',
+        type: 'text',
+        admin: {
+          condition: (_, siblingData) => siblingData?.type === 'custom',
+        },
+        label: 'Custom URL',
+        required: true,
+      },
+    ],
+    label: 'After expiry',
+  },
+]
@@ -0,0 +1,140 @@
+import type { Field, Tab } from 'payload'
+
+export const WORKFLOW_STATUSES = [
+  'draft',
+  'in_review',
+  'changes_requested',
+  'approved',
+  'scheduled',
+  'published',
+] as const
+
+export type WorkflowStatus = (typeof WORKFLOW_STATUSES)[number]
+
+/**
+ * A document's review status. Documents saved before the workflow existed have none;
+ * published ones count as published, the rest as drafts.
+ */
+export const getWorkflowStatus = (
+  doc?: null | { _status?: null | string; workflowStatus?: null | WorkflowStatus },
+): WorkflowStatus => doc?.workflowStatus ?? (doc?._status === 'published' ? 'published' : 'draft')
+
+// Admins and editors review and publish
+const approverFilter = {
+  role: { in: ['admin', 'editor'] },
+}
+
+/**
+ * Sidebar fields for the editorial review workflow, kept in line with `_status` by the
+ * `enforceWorkflow` hook. Add together with `reviewTab` and the hook.
+ */
+export const workflowFields: Field[] = [
+  {
+    name: 'workflowStatus',
+    type: 'select',
+    admin: {
+      description: 'Published and scheduled are set when the document is published or scheduled',
+      position: 'sidebar',
+    },
+    // No default value: Payload would read it into older documents, published or not.
+    // `enforceWorkflow` sets the status on every save instead.
+    hooks: {
+      afterRead: [({ siblingData, value }) => value ?? getWorkflowStatus(siblingData)],
+    },
+    index: true,
+    label: 'Review status',
+    options: [
+      { label: 'Draft', value: 'draft' },
+      { label: 'In review', value: 'in_review' },
+      { label: 'Changes requested', value: 'changes_requested' },
+      { label: 'Approved', value: 'approved' },
+      { label: 'Scheduled', value: 'scheduled' },
+      { label: 'Published', value: 'published' },
+    ],
+  },
+  {
+    name: 'reviewers',
+    type: 'relationship',
+    admin: {
+      position: 'sidebar',
+    },
+    filterOptions: () => approverFilter,
+    hasMany: true,
+    index: true,
+    relationTo: 'users',
+  },
+  {
+    name: 'approvedBy',
+    type: 'relationship',
+    access: {
+      update: () => false,
+    },
+    admin: {
+      position: 'sidebar',
+      readOnly: true,
+    },
+    relationTo: 'users',
+  },
+]
+
+export const reviewTab: Tab = {
+  label: 'Review',
+  fields: [
+    {
+      name: 'reviewComments',
+      type: 'array',
+      admin: {
+        description: 'Notes between the writer and reviewers. Never shown on the website.',
+        initCollapsed: true,
+      },
+      fields: [
+        {
+          name: 'comment',
+          type: 'textarea',
+          required: true,
+        },
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'author',
+              type: 'relationship',
+              access: {
+                update: () => false,
+              },
+              admin: {
+                readOnly: true,
+              },
+              defaultValue: ({ user }) => user?.id,
+              relationTo: 'users',
+            },
+            {
+              name: 'postedAt',
+              type: 'date',
+              access: {
+                update: () => false,
+              },
+              admin: {
+                date: {
+                  pickerAppearance: 'dayAndTime',
+                },
+                readOnly: true,
+              },
+              defaultValue: () => new Date().toISOString(),
+            },
+            {
+              name: 'resolved',
+              type: 'checkbox',
+              admin: {
+                style: {
+                  alignSelf: 'flex-end',
+                },
+              },
+              defaultValue: false,
+            },
+          ],
+        },
+      ],
+    },
+  ],
+}
@@ -1,4 +1,5 @@
 import { formatDateTime } from 'src/utilities/formatDateTime'
+import Link from 'next/link'
 import React from 'react'
 
 import type { Post } from '@/payload-types'
@@ -46,9 +47,22 @@ export const PostHero: React.FC<{
             {hasAuthors && (
               <div className="flex flex-col gap-4">
                 <div className="flex flex-col gap-1">
-                  <p className="text-sm">Author</p>
+                  <p className="text-sm">{populatedAuthors.length > 1 ? 'Authors' : 'Author'}</p>
 
-                  <p>{formatAuthors(populatedAuthors)}</p>
+                  <p>
+                    {populatedAuthors.map((author, index) => (
+                      <React.Fragment key={author.id || index}>
+                        {index > 0 && (index === populatedAuthors.length - 1 ? ' and ' : ', ')}
+                        {author.slug ? (
+                          <Link className="underline" href={`/authors/${author.slug}`}>
+                            {author.name}
+                          </Link>
+                        ) : (
+                          author.name
+                        )}
+                      </React.Fragment>
+                    ))}
+                  </p>
                 </div>
               </div>
             )}
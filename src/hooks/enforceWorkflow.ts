@@ -0,0 +1,68 @@
+import type { CollectionBeforeChangeHook } from 'payload'
+
+import { APIError } from 'payload'
+
+import { getWorkflowStatus, type WorkflowStatus } from '@/fields/workflow'
+import { hasRole } from '@/access/roles'
+
+// Where writers can move a document themselves; approvers can move it anywhere
+const writerTransitions: Partial<Record<WorkflowStatus, WorkflowStatus[]>> = {
+  changes_requested: ['draft', 'in_review'],
+  draft: ['in_review'],
+  in_review: ['draft'],
+}
+
+// Statuses that mean an approver has signed off on the current content
+const signedOff: WorkflowStatus[] = ['approved', 'scheduled', 'published']
+
+const labels: Record<WorkflowStatus, string> = {
+  approved: 'approved',
+  changes_requested: 'changes requested',
+  draft: 'draft',
+  in_review: 'in review',
+  published: 'published',
+  scheduled: 'scheduled',
+}
+
+/**
+ * Keeps `workflowStatus` moving through draft → in review → changes requested → approved
+ * → scheduled → published. Only admins and editors approve and publish, and only
+ * documents that are approved (or already published) can be published. A writer saving
+ * changes to a signed-off document sends it back for review. Local API calls without a
+ * user, such as the seed, are trusted.
+ */
+export const enforceWorkflow: CollectionBeforeChangeHook = ({ data, originalDoc, req }) => {
+  const isApprover = !req.user || hasRole(req.user, 'admin', 'editor')
+  const previous = getWorkflowStatus(originalDoc)
+  let next: WorkflowStatus = data.workflowStatus ?? previous
+
+  if (data._status === 'published') {
+    if (!isApprover) throw new APIError('Only editors and admins can publish', 403)
+    if (req.user && !signedOff.includes(next)) {
+      throw new APIError(`This is ${labels[next]}; approve it before publishing`, 400)
+    }
+    if (!data.approvedBy && req.user) data.approvedBy = req.user.id
+
+    return { ...data, workflowStatus: 'published' }
+  }
+
+  if (next !== previous) {
+    if (next === 'published') {
+      throw new APIError('Publish the document to mark it published', 400)
+    }
+    if (!isApprover && !writerTransitions[previous]?.includes(next)) {
+      throw new APIError(
+        `Only editors and admins can move a document from ${labels[previous]} to ${labels[next]}`,
+        403,
+      )
+    }
+  } else if (!isApprover && signedOff.includes(previous)) {
+    next = 'in_review'
+  }
+
+  // Coming back from scheduled or published (a cancelled schedule, an expiry) keeps the sign-off
+  if (next === 'approved' && !signedOff.includes(previous)) data.approvedBy = req.user?.id ?? null
+  if (!signedOff.includes(next)) data.approvedBy = null
+
+  return { ...data, workflowStatus: next }
+}
@@ -0,0 +1,100 @@
+import type { CollectionAfterChangeHook, CollectionAfterDeleteHook, PayloadRequest } from 'payload'
+
+import { hasRole } from '@/access/roles'
+import { getWorkflowStatus, type WorkflowStatus } from '@/fields/workflow'
+
+const workflowCollections = ['pages', 'posts'] as const
+
+type ScheduledDoc = {
+  collection: (typeof workflowCollections)[number]
+  id: string
+}
+
+type ScheduleJob = {
+  input?: {
+    doc?: { relationTo: string; value: string | { id: string } }
+    type?: 'publish' | 'unpublish'
+    user?: null | string | { id: string }
+  }
+  taskSlug?: string
+}
+
+// The page or post a `schedulePublish` job (from `versions.drafts.schedulePublish`) publishes
+const getScheduledDoc = (job: ScheduleJob): null | ScheduledDoc => {
+  const { input, taskSlug } = job
+  if (taskSlug !== 'schedulePublish' || input?.type === 'unpublish' || !input?.doc) return null
+
+  const collection = workflowCollections.find((slug) => slug === input.doc?.relationTo)
+  if (!collection) return null
+
+  const { value } = input.doc
+  return { collection, id: typeof value === 'object' ? value.id : value }
+}
+
+const moveStatus = async (
+  req: PayloadRequest,
+  { collection, id }: ScheduledDoc,
+  matches: (status: WorkflowStatus) => boolean,
+  workflowStatus: WorkflowStatus,
+) => {
+  const doc = await req.payload.findByID({
+    id,
+    collection,
+    depth: 0,
+    disableErrors: true,
+    draft: true,
+    req,
+  })
+  if (!doc || !matches(getWorkflowStatus(doc))) return
+
+  await req.payload.update({
+    id,
+    collection,
+    context: { disableRevalidate: true },
+    data: { workflowStatus },
+    depth: 0,
+    draft: true,
+    req,
+  })
+}
+
+// Anyone with admin access can schedule a publish, but only approvers' schedules sign the
+// document off. Jobs queued without a user publish with full access, as other jobs do.
+const isApproverSchedule = async (req: PayloadRequest, job: ScheduleJob) => {
+  const value = job.input?.user
+  if (!value) return true
+
+  const user = await req.payload.findByID({
+    id: typeof value === 'object' ? value.id : value,
+    collection: 'users',
+    depth: 0,
+    disableErrors: true,
+    req,
+  })
+  return hasRole(user, 'admin', 'editor')
+}
+
+/**
+ * Marks a page or post scheduled when an editor or admin schedules a publish for it, which
+ * counts as their approval. Anyone else's schedule leaves the status alone; their publish
+ * runs under their own access and fails.
+ */
+export const markScheduled: CollectionAfterChangeHook = async ({ doc, operation, req }) => {
+  const target = operation === 'create' && getScheduledDoc(doc)
+  if (target && (await isApproverSchedule(req, doc))) {
+    await moveStatus(req, target, (status) => status !== 'scheduled', 'scheduled')
+  }
+
+  return doc
+}
+
+// Cancelled schedules put the document back to approved. Jobs that ran are deleted too,
+// but by then the document is published (or was sent back for review and the job failed).
+export const unmarkScheduled: CollectionAfterDeleteHook = async ({ doc, req }) => {
+  const target = getScheduledDoc(doc)
+  if (target) {
+    await moveStatus(req, target, (status) => status === 'scheduled', 'approved')
+  }
+
+  return doc
+}
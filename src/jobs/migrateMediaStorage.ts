@@ -0,0 +1,53 @@
+import type { TaskConfig } from 'payload'
+
+import {
+  migrateMediaStorage,
+  STORAGE_DIRECTIONS,
+  type StorageDirection,
+} from '@/endpoints/media-storage'
+
+/**
+ * Copies media files between local storage and R2 (see `migrateMediaStorage`). Queued from
+ * `POST /api/media-storage/migrate`. A failed run is retried, and each retry skips the
+ * files that were already copied.
+ */
+export const migrateMediaStorageTask: TaskConfig<'migrateMediaStorage'> = {
+  slug: 'migrateMediaStorage',
+  label: 'Migrate media storage',
+  retries: 3,
+  inputSchema: [
+    {
+      name: 'direction',
+      type: 'select',
+      options: STORAGE_DIRECTIONS.map((direction) => ({ label: direction, value: direction })),
+      required: true,
+    },
+    {
+      name: 'dryRun',
+      type: 'checkbox',
+      defaultValue: false,
+    },
+  ],
+  outputSchema: [
+    {
+      name: 'report',
+      type: 'json',
+      required: true,
+    },
+  ],
+  handler: async ({ input, req }) => {
+    const report = await migrateMediaStorage({
+      direction: input.direction as StorageDirection,
+      dryRun: Boolean(input.dryRun),
+      req,
+    })
+
+    if (!report.dryRun && report.failed.length > 0) {
+      throw new Error(
+        `${report.failed.length} file(s) could not be copied, e.g. ${report.failed[0].filename}: ${report.failed[0].error}`,
+      )
+    }
+
+    return { output: { report } }
+  },
+}
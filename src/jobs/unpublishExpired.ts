@@ -0,0 +1,128 @@
+import type { PayloadRequest, TaskConfig } from 'payload'
+
+import type { Page, Post } from '@/payload-types'
+
+const expiringCollections = ['pages', 'posts'] as const
+
+type ExpiringCollection = (typeof expiringCollections)[number]
+
+type UnpublishedDoc = {
+  collection: ExpiringCollection
+  id: string
+  path: string
+}
+
+// Matches the paths revalidated by `revalidatePage` and `revalidatePost`
+const getPath = (collection: ExpiringCollection, slug?: null | string) => {
+  if (collection === 'posts') return `/posts/${slug}`
+  return slug === 'home' ? '/' : `/${slug}`
+}
+
+const redirectExpired = async (req: PayloadRequest, from: string, doc: Page | Post) => {
+  const { reference, type, url } = doc.expiryRedirect || {}
+
+  let to
+  if (type === 'reference' && reference) {
+    const value = typeof reference.value === 'object' ? reference.value.id : reference.value
+    to = { type: 'reference' as const, reference: { relationTo: reference.relationTo, value } }
+  } else if (type === 'custom' && url) {
+    to = { type: 'custom' as const, url }
+  } else {
+    return
+  }
+
+  const { docs } = await req.payload.find({
+    collection: 'redirects',
+    depth: 0,
+    limit: 1,
+    req,
+    where: { from: { equals: from } },
+  })
+
+  if (docs[0]) {
+    await req.payload.update({ id: docs[0].id, collection: 'redirects', data: { to }, req })
+  } else {
+    await req.payload.create({ collection: 'redirects', data: { from, to }, req })
+  }
+}
+
+/**
+ * Unpublishes pages and posts whose `expiresAt` has passed. Updating them runs the usual
+ * revalidation hooks, which clear their page and sitemap caches. An old URL with an
+ * "after expiry" target gets a redirect, or has its existing one updated.
+ */
+export const unpublishExpired = async ({ req }: { req: PayloadRequest }) => {
+  const now = new Date().toISOString()
+  const failed: { error: string; path: string }[] = []
+  const unpublished: UnpublishedDoc[] = []
+
+  for (const collection of expiringCollections) {
+    const { docs } = await req.payload.find({
+      collection,
+      depth: 0,
+      pagination: false,
+      req,
+      where: {
+        and: [{ _status: { equals: 'published' } }, { expiresAt: { less_than_equal: now } }],
+      },
+    })
+
+    for (const doc of docs) {
+      const path = getPath(collection, doc.slug)
+
+      // Redirect first, so a document that fails to unpublish is retried on the next run
+      try {
+        await redirectExpired(req, path, doc)
+        // Back to approved: the content was signed off, it is only no longer live.
+        // `enforceWorkflow` keeps who approved it.
+        await req.payload.update({
+          id: doc.id,
+          collection,
+          data: { _status: 'draft', workflowStatus: 'approved' },
+          depth: 0,
+          req,
+        })
+
+        unpublished.push({ collection, id: doc.id, path })
+      } catch (error) {
+        req.payload.logger.error({ err: error, message: `Error unpublishing expired ${path}` })
+        failed.push({ error: error instanceof Error ? error.message : String(error), path })
+      }
+    }
+  }
+
+  return { failed, unpublished }
+}
+
+/**
+ * Runs `unpublishExpired` every 15 minutes. Scheduled runs are queued whenever the jobs
+ * queue is run, e.g. by a cron calling `/api/payload-jobs/run`.
+ */
+export const unpublishExpiredTask: TaskConfig<'unpublishExpired'> = {
+  slug: 'unpublishExpired',
+  label: 'Unpublish expired pages and posts',
+  schedule: [
+    {
+      cron: '*/15 * * * *',
+      queue: 'default',
+    },
+  ],
+  outputSchema: [
+    {
+      name: 'unpublished',
+      type: 'json',
+      required: true,
+    },
+  ],
+  handler: async ({ req }) => {
+    const { failed, unpublished } = await unpublishExpired({ req })
+
+    if (failed.length > 0) {
+      throw new Error(
+        `${failed.length} expired document(s) could not be unpublished, e.g. ${failed[0].path}: ${failed[0].error}`,
+      )
+    }
+
+    return { output: { unpublished } }
+  },
+}
@@ -67,6 +67,8 @@ export const mediaField = (
  * Create an array of upload fields for galleries/multiple images
  *
  * Common pattern for image galleries, product images, etc.
+ * Includes an "Add From Media Library" button that appends one row per item
+ * picked in the media library's multi-select mode.
  *
  * @param name - Field name
  * @param options - Additional configuration
@@ -101,7 +103,11 @@ export const mediaArrayField = (
   type: 'array'
   minRows?: number
   maxRows?: number
-  admin?: { description?: string; condition?: (data: unknown, siblingData: unknown) => boolean }
+  admin?: {
+    description?: string
+    condition?: (data: unknown, siblingData: unknown) => boolean
+    components?: { beforeInput?: string[] }
+  }
   fields: UploadField[]
 } => {
   const arrayField: {
@@ -109,11 +115,20 @@ export const mediaArrayField = (
     type: 'array'
     minRows?: number
     maxRows?: number
-    admin?: { description?: string; condition?: (data: unknown, siblingData: unknown) => boolean }
+    admin?: {
+    description?: string
+    condition?: (data: unknown, siblingData: unknown) => boolean
+    components?: { beforeInput?: string[] }
+  }
     fields: UploadField[]
   } = {
     name,
     type: 'array',
+    admin: {
+      components: {
+        beforeInput: ['/components/admin/MediaArraySelectorButton#MediaArraySelectorButton'],
+      },
+    },
     fields: [
       {
         name: 'image',
@@ -131,7 +146,7 @@ export const mediaArrayField = (
 
   if (options?.minRows !== undefined) arrayField.minRows = options.minRows
   if (options?.maxRows !== undefined) arrayField.maxRows = options.maxRows
-  if (options?.admin !== undefined) arrayField.admin = options.admin
+  if (options?.admin !== undefined) arrayField.admin = { ...arrayField.admin, ...options.admin }
   if (options?.filterOptions !== undefined) {
     arrayField.fields[0]!.filterOptions = options.filterOptions
   }
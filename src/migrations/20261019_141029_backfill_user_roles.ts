@@ -0,0 +1,50 @@
+import { MigrateDownArgs, MigrateUpArgs } from '@payloadcms/db-mongodb'
+
+const withoutRole = { or: [{ role: { exists: false } }, { role: { equals: null } }] }
+
+/**
+ * Gives a role to accounts created before roles existed. When there is no admin yet the
+ * oldest account becomes one, like the first user does; the others become viewers, with
+ * no access beyond reading, until an admin gives them more.
+ */
+export async function up({ payload, req }: MigrateUpArgs): Promise<void> {
+  const { totalDocs: admins } = await payload.count({
+    collection: 'users',
+    where: { role: { equals: 'admin' } },
+    req,
+  })
+
+  if (admins === 0) {
+    const {
+      docs: [oldest],
+    } = await payload.find({
+      collection: 'users',
+      depth: 0,
+      limit: 1,
+      sort: 'createdAt',
+      where: withoutRole,
+      req,
+    })
+
+    if (oldest) {
+      await payload.update({ id: oldest.id, collection: 'users', data: { role: 'admin' }, req })
+      payload.logger.info(`Gave the admin role to ${oldest.email}`)
+    }
+  }
+
+  const { docs } = await payload.update({
+    collection: 'users',
+    data: { role: 'viewer' },
+    where: withoutRole,
+    req,
+  })
+
+  if (docs.length > 0) {
+    payload.logger.info(
+      `Gave the viewer role to ${docs.length} existing users: ${docs.map((user) => user.email).join(', ')}`,
+    )
+  }
+}
+
+// Roles given here can't be told apart from ones set by an admin since, so they stay
+export async function down(_: MigrateDownArgs): Promise<void> {}
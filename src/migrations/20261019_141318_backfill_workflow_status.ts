@@ -0,0 +1,61 @@
+import { MigrateDownArgs, MigrateUpArgs } from '@payloadcms/db-mongodb'
+
+const collections = ['pages', 'posts'] as const
+
+const missing = { $in: [null, undefined] }
+
+/**
+ * Stores a review status on pages and posts saved before the editorial workflow existed,
+ * so list filters and columns see it: published documents become published, the rest
+ * drafts. Of their versions only the one that is live becomes published; older versions
+ * and unpublished edits made since become drafts, so pending changes aren't signed off.
+ */
+export async function up({ payload, session }: MigrateUpArgs): Promise<void> {
+  const { collections: models, versions } = payload.db
+
+  for (const collection of collections) {
+    const published = await models[collection]!.distinct('_id', {
+      _status: 'published',
+      workflowStatus: missing,
+    }).session(session ?? null)
+
+    const { modifiedCount: publishedCount } = await models[collection]!.updateMany(
+      { _id: { $in: published } },
+      { $set: { workflowStatus: 'published' } },
+      { session },
+    )
+    const { modifiedCount: draftCount } = await models[collection]!.updateMany(
+      { workflowStatus: missing },
+      { $set: { workflowStatus: 'draft' } },
+      { session },
+    )
+
+    // The latest published version of each document that is still published
+    const live = await versions[collection]!.aggregate<{ _id: unknown; version: unknown }>([
+      { $match: { parent: { $in: published }, 'version._status': 'published' } },
+      { $sort: { updatedAt: -1, _id: -1 } },
+      { $group: { _id: '$parent', version: { $first: '$_id' } } },
+    ]).session(session ?? null)
+
+    await versions[collection]!.updateMany(
+      {
+        _id: { $in: live.map(({ version }) => version) },
+        'version.workflowStatus': missing,
+      },
+      { $set: { 'version.workflowStatus': 'published' } },
+      { session },
+    )
+    await versions[collection]!.updateMany(
+      { 'version.workflowStatus': missing },
+      { $set: { 'version.workflowStatus': 'draft' } },
+      { session },
+    )
+
+    payload.logger.info(
+      `Set the review status of ${publishedCount} published and ${draftCount} draft ${collection}`,
+    )
+  }
+}
+
+// The statuses stay; documents without one read the same way anyway
+export async function down(_: MigrateDownArgs): Promise<void> {}
@@ -0,0 +1,46 @@
+import { MigrateDownArgs, MigrateUpArgs } from '@payloadcms/db-mongodb'
+
+import { extractText } from '@/search/extractText'
+
+const missing = { $in: [null, undefined] }
+
+/**
+ * Fills in the body text of posts synced to search before it was indexed, as the
+ * "Reindex" button would, so existing results can be found by their content.
+ */
+export async function up({ payload, req, session }: MigrateUpArgs): Promise<void> {
+  const search = payload.db.collections.search!
+
+  const searchDocs = await search
+    .find({ content: missing, 'doc.relationTo': 'posts' }, { 'doc.value': 1 })
+    .session(session ?? null)
+    .lean<{ _id: unknown; doc: { value: unknown } }[]>()
+
+  if (searchDocs.length === 0) return
+
+  const { docs: posts } = await payload.find({
+    collection: 'posts',
+    depth: 0,
+    pagination: false,
+    req,
+    select: { content: true },
+    where: { id: { in: searchDocs.map(({ doc }) => String(doc.value)) } },
+  })
+
+  const content = new Map(posts.map((post) => [post.id, extractText(post.content)]))
+
+  await search.bulkWrite(
+    searchDocs.map(({ _id, doc }) => ({
+      updateOne: {
+        filter: { _id },
+        update: { $set: { content: content.get(String(doc.value)) ?? '' } },
+      },
+    })),
+    { session },
+  )
+
+  payload.logger.info(`Indexed the body text of ${searchDocs.length} search results`)
+}
+
+// The body text stays; it is rebuilt from the post on every save anyway
+export async function down(_: MigrateDownArgs): Promise<void> {}
@@ -0,0 +1,21 @@
+import * as migration_20261019_141029_backfill_user_roles from './20261019_141029_backfill_user_roles'
+import * as migration_20261019_141318_backfill_workflow_status from './20261019_141318_backfill_workflow_status'
+import * as migration_20261019_141957_backfill_search_content from './20261019_141957_backfill_search_content'
+
+export const migrations = [
+  {
+    up: migration_20261019_141029_backfill_user_roles.up,
+    down: migration_20261019_141029_backfill_user_roles.down,
+    name: '20261019_141029_backfill_user_roles',
+  },
+  {
+    up: migration_20261019_141318_backfill_workflow_status.up,
+    down: migration_20261019_141318_backfill_workflow_status.down,
+    name: '20261019_141318_backfill_workflow_status',
+  },
+  {
+    up: migration_20261019_141957_backfill_search_content.up,
+    down: migration_20261019_141957_backfill_search_content.down,
+    name: '20261019_141957_backfill_search_content',
+  },
+]
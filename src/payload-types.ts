@@ -69,7 +69,9 @@ export interface Config {
   collections: {
     pages: Page;
     posts: Post;
+    authors: Author;
     media: Media;
+    'media-references': MediaReference;
     categories: Category;
     users: User;
     redirects: Redirect;
@@ -91,7 +93,9 @@ export interface Config {
   collectionsSelect: {
     pages: PagesSelect<false> | PagesSelect<true>;
     posts: PostsSelect<false> | PostsSelect<true>;
+    authors: AuthorsSelect<false> | AuthorsSelect<true>;
     media: MediaSelect<false> | MediaSelect<true>;
+    'media-references': MediaReferencesSelect<false> | MediaReferencesSelect<true>;
     categories: CategoriesSelect<false> | CategoriesSelect<true>;
     users: UsersSelect<false> | UsersSelect<true>;
     redirects: RedirectsSelect<false> | RedirectsSelect<true>;
@@ -113,11 +117,13 @@ export interface Config {
     header: Header;
     footer: Footer;
     'site-settings': SiteSetting;
+    'payload-jobs-stats': PayloadJobsStat;
   };
   globalsSelect: {
     header: HeaderSelect<false> | HeaderSelect<true>;
     footer: FooterSelect<false> | FooterSelect<true>;
     'site-settings': SiteSettingsSelect<false> | SiteSettingsSelect<true>;
+    'payload-jobs-stats': PayloadJobsStatsSelect<false> | PayloadJobsStatsSelect<true>;
   };
   locale: null;
   widgets: {
@@ -126,6 +132,8 @@ export interface Config {
   user: User;
   jobs: {
     tasks: {
+      migrateMediaStorage: TaskMigrateMediaStorage;
+      unpublishExpired: TaskUnpublishExpired;
       schedulePublish: TaskSchedulePublish;
       inline: {
         input: unknown;
@@ -223,7 +231,45 @@ export interface Page {
     image?: (string | null) | Media;
     description?: string | null;
   };
+  /**
+   * Notes between the writer and reviewers. Never shown on the website.
+   */
+  reviewComments?:
+    | {
+        comment: string;
+        author?: (string | null) | User;
+        postedAt?: string | null;
+        resolved?: boolean | null;
+        id?: string | null;
+      }[]
+    | null;
   publishedAt?: string | null;
+  /**
+   * Unpublished automatically after this time
+   */
+  expiresAt?: string | null;
+  /**
+   * Where visitors to the old URL go once it has expired
+   */
+  expiryRedirect?: {
+    type?: ('none' | 'reference' | 'custom') | null;
+    reference?:
+      | ({
+          relationTo: 'pages';
+          value: string | Page;
+        } | null)
+      | ({
+          relationTo: 'posts';
+          value: string | Post;
+        } | null);
+    url?: string | null;
+  };
+  /**
+   * Published and scheduled are set when the document is published or scheduled
+   */
+  workflowStatus?: ('draft' | 'in_review' | 'changes_requested' | 'approved' | 'scheduled' | 'published') | null;
+  reviewers?: (string | User)[] | null;
+  approvedBy?: (string | null) | User;
   /**
    * When enabled, the slug will auto-generate from the title field on save and autosave.
    */
@@ -266,14 +312,54 @@ export interface Post {
     image?: (string | null) | Media;
     description?: string | null;
   };
+  /**
+   * Notes between the writer and reviewers. Never shown on the website.
+   */
+  reviewComments?:
+    | {
+        comment: string;
+        author?: (string | null) | User;
+        postedAt?: string | null;
+        resolved?: boolean | null;
+        id?: string | null;
+      }[]
+    | null;
   publishedAt?: string | null;
   authors?: (string | User)[] | null;
   populatedAuthors?:
     | {
         id?: string | null;
         name?: string | null;
+        roleTitle?: string | null;
+        slug?: string | null;
       }[]
     | null;
+  /**
+   * Unpublished automatically after this time
+   */
+  expiresAt?: string | null;
+  /**
+   * Where visitors to the old URL go once it has expired
+   */
+  expiryRedirect?: {
+    type?: ('none' | 'reference' | 'custom') | null;
+    reference?:
+      | ({
+          relationTo: 'pages';
+          value: string | Page;
+        } | null)
+      | ({
+          relationTo: 'posts';
+          value: string | Post;
+        } | null);
+    url?: string | null;
+  };
+  /**
+   * Published and scheduled are set when the document is published or scheduled
+   */
+  workflowStatus?: ('draft' | 'in_review' | 'changes_requested' | 'approved' | 'scheduled' | 'published') | null;
+  reviewers?: (string | User)[] | null;
+  approvedBy?: (string | null) | User;
   /**
    * When enabled, the slug will auto-generate from the title field on save and autosave.
    */
@@ -304,19 +390,31 @@ export interface Media {
    */
   description?: string | null;
   /**
-   * Type of media for better organization
+   * Public files are open to everyone. Others need a login, or a time-limited link copied from the media manager
+   */
+  visibility?: ('public' | 'authenticated' | 'private') | null;
+  /**
+   * Type of media for better organization. Set from the file type on upload
    */
   mediaType?: ('image' | 'video' | 'audio' | 'document') | null;
+  /**
+   * Set automatically from the image dimensions
+   */
+  orientation?: ('landscape' | 'portrait' | 'square') | null;
   /**
    * Video-specific metadata
    */
   videoMeta?: {
     /**
-     * Video duration in seconds
+     * Video duration in seconds (detected on upload)
      */
     duration?: number | null;
     /**
-     * Custom thumbnail for the video
+     * Video codec (detected on upload)
+     */
+    codec?: string | null;
+    /**
+     * Poster image for the video. A frame is grabbed on upload unless you choose one
      */
     thumbnail?: (string | null) | Media;
     /**
@@ -349,6 +447,46 @@ export interface Media {
      */
     largeDesktop?: (string | null) | Media;
   };
+  /**
+   * Shown while the image loads (computed automatically when uploaded)
+   */
+  placeholder?: {
+    /**
+     * Tiny preview as a data URL, blurred by the browser
+     */
+    blurDataURL?: string | null;
+    dominantColor?: string | null;
+  };
+  transformSignature?: string | null;
+  /**
+   * Crop rectangles that replace the focal point crop for individual image sizes. Set them from the media manager.
+   */
+  sizeCrops?:
+    | {
+        size: 'thumbnail' | 'card' | 'tablet' | 'desktop';
+        /**
+         * Percent of the image
+         */
+        x: number;
+        /**
+         * Percent of the image
+         */
+        y: number;
+        /**
+         * Percent of the image
+         */
+        width: number;
+        /**
+         * Percent of the image
+         */
+        height: number;
+        /**
+         * Generated from the crop rectangle
+         */
+        image?: (string | null) | Media;
+        id?: string | null;
+      }[]
+    | null;
   /**
    * SEO and technical metadata
    */
@@ -370,6 +508,26 @@ export interface Media {
      */
     originalSource?: string | null;
   };
+  /**
+   * Read from the file's EXIF, IPTC and XMP data on upload
+   */
+  embeddedMetadata?: {
+    capturedAt?: string | null;
+    latitude?: number | null;
+    longitude?: number | null;
+    /**
+     * Metadata as found in the file
+     */
+    raw?:
+      | {
+          [k: string]: unknown;
+        }
+      | unknown[]
+      | string
+      | number
+      | boolean
+      | null;
+  };
   /**
    * Mark as featured media for easy access
    */
@@ -378,6 +536,39 @@ export interface Media {
    * Tags for organization and search
    */
   tags?: string[] | null;
+  /**
+   * The media item this file was generated from
+   */
+  sourceMedia?: (string | null) | Media;
+  derivativeKind?: ('variant' | 'revision' | 'poster' | 'crop') | null;
+  /**
+   * SHA-256 of the current file, used to spot duplicate uploads
+   */
+  contentHash?: string | null;
+  /**
+   * Perceptual hash of the current image, used to spot near-duplicate uploads
+   */
+  perceptualHash?: string | null;
+  /**
+   * Who saved the current file and when
+   */
+  fileVersion?: {
+    kind?: ('original' | 'edit' | 'revert') | null;
+    savedBy?: (string | null) | User;
+    savedAt?: string | null;
+  };
+  /**
+   * Previous versions of this file, newest first. Restore them from the media library.
+   */
+  revisions?:
+    | {
+        file: string | Media;
+        kind?: ('original' | 'edit' | 'revert') | null;
+        savedBy?: (string | null) | User;
+        savedAt?: string | null;
+        id?: string | null;
+      }[]
+    | null;
   folder?: (string | null) | FolderInterface;
   updatedAt: string;
   createdAt: string;
@@ -423,8 +614,86 @@ export interface Media {
       filesize?: number | null;
       filename?: string | null;
     };
+    avif640?: {
+      url?: string | null;
+      width?: number | null;
+      height?: number | null;
+      mimeType?: string | null;
+      filesize?: number | null;
+      filename?: string | null;
+    };
+    avif1280?: {
+      url?: string | null;
+      width?: number | null;
+      height?: number | null;
+      mimeType?: string | null;
+      filesize?: number | null;
+      filename?: string | null;
+    };
+    avif1920?: {
+      url?: string | null;
+      width?: number | null;
+      height?: number | null;
+      mimeType?: string | null;
+      filesize?: number | null;
+      filename?: string | null;
+    };
+    webp640?: {
+      url?: string | null;
+      width?: number | null;
+      height?: number | null;
+      mimeType?: string | null;
+      filesize?: number | null;
+      filename?: string | null;
+    };
+    webp1280?: {
+      url?: string | null;
+      width?: number | null;
+      height?: number | null;
+      mimeType?: string | null;
+      filesize?: number | null;
+      filename?: string | null;
+    };
+    webp1920?: {
+      url?: string | null;
+      width?: number | null;
+      height?: number | null;
+      mimeType?: string | null;
+      filesize?: number | null;
+      filename?: string | null;
+    };
   };
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "users".
+ */
+export interface User {
+  id: string;
+  name?: string | null;
+  /**
+   * Admins manage users, site settings and storage. Editors manage, review and publish all content. Authors write and delete their own posts, and contributors write their own posts; both send them for review. Viewers can only look.
+   */
+  role: 'admin' | 'editor' | 'author' | 'contributor' | 'viewer';
+  updatedAt: string;
+  createdAt: string;
+  email: string;
+  resetPasswordToken?: string | null;
+  resetPasswordExpiration?: string | null;
+  salt?: string | null;
+  hash?: string | null;
+  loginAttempts?: number | null;
+  lockUntil?: string | null;
+  sessions?:
+    | {
+        id: string;
+        createdAt?: string | null;
+        expiresAt: string;
+      }[]
+    | null;
+  password?: string | null;
+  collection: 'users';
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "payload-folders".
@@ -475,32 +744,6 @@ export interface Category {
   updatedAt: string;
   createdAt: string;
 }
-/**
- * This interface was referenced by `Config`'s JSON-Schema
- * via the `definition` "users".
- */
-export interface User {
-  id: string;
-  name?: string | null;
-  updatedAt: string;
-  createdAt: string;
-  email: string;
-  resetPasswordToken?: string | null;
-  resetPasswordExpiration?: string | null;
-  salt?: string | null;
-  hash?: string | null;
-  loginAttempts?: number | null;
-  lockUntil?: string | null;
-  sessions?:
-    | {
-        id: string;
-        createdAt?: string | null;
-        expiresAt: string;
-      }[]
-    | null;
-  password?: string | null;
-  collection: 'users';
-}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "CallToActionBlock".
@@ -833,6 +1076,57 @@ export interface Form {
   updatedAt: string;
   createdAt: string;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "authors".
+ */
+export interface Author {
+  id: string;
+  name: string;
+  /**
+   * Shown under the name, e.g. "Staff Writer"
+   */
+  roleTitle?: string | null;
+  /**
+   * A square image works best
+   */
+  avatar?: (string | null) | Media;
+  bio?: string | null;
+  socialLinks?:
+    | {
+        platform: 'website' | 'x' | 'bluesky' | 'mastodon' | 'linkedin' | 'github' | 'instagram';
+        url: string;
+        id?: string | null;
+      }[]
+    | null;
+  /**
+   * The account whose posts are listed on this profile
+   */
+  user?: (string | null) | User;
+  /**
+   * When enabled, the slug will auto-generate from the title field on save and autosave.
+   */
+  generateSlug?: boolean | null;
+  slug: string;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "media-references".
+ */
+export interface MediaReference {
+  id: string;
+  media: string | Media;
+  sourceType: 'collection' | 'global';
+  source: string;
+  documentId: string;
+  documentTitle?: string | null;
+  fieldPath: string;
+  status?: ('published' | 'draft') | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "redirects".
@@ -896,6 +1190,10 @@ export interface Search {
     description?: string | null;
     image?: (string | null) | Media;
   };
+  /**
+   * Body text, indexed for full-text search
+   */
+  content?: string | null;
   categories?:
     | {
         relationTo?: string | null;
@@ -976,7 +1274,7 @@ export interface PayloadJob {
     | {
         executedAt: string;
         completedAt: string;
-        taskSlug: 'inline' | 'schedulePublish';
+        taskSlug: 'inline' | 'migrateMediaStorage' | 'unpublishExpired' | 'schedulePublish';
         taskID: string;
         input?:
           | {
@@ -1009,10 +1307,19 @@ export interface PayloadJob {
         id?: string | null;
       }[]
     | null;
-  taskSlug?: ('inline' | 'schedulePublish') | null;
+  taskSlug?: ('inline' | 'migrateMediaStorage' | 'unpublishExpired' | 'schedulePublish') | null;
   queue?: string | null;
   waitUntil?: string | null;
   processing?: boolean | null;
+  meta?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
   updatedAt: string;
   createdAt: string;
 }
@@ -1031,10 +1338,18 @@ export interface PayloadLockedDocument {
         relationTo: 'posts';
         value: string | Post;
       } | null)
+    | ({
+        relationTo: 'authors';
+        value: string | Author;
+      } | null)
     | ({
         relationTo: 'media';
         value: string | Media;
       } | null)
+    | ({
+        relationTo: 'media-references';
+        value: string | MediaReference;
+      } | null)
     | ({
         relationTo: 'categories';
         value: string | Category;
@@ -1149,7 +1464,27 @@ export interface PagesSelect<T extends boolean = true> {
         image?: T;
         description?: T;
       };
+  reviewComments?:
+    | T
+    | {
+        comment?: T;
+        author?: T;
+        postedAt?: T;
+        resolved?: T;
+        id?: T;
+      };
   publishedAt?: T;
+  expiresAt?: T;
+  expiryRedirect?:
+    | T
+    | {
+        type?: T;
+        reference?: T;
+        url?: T;
+      };
+  workflowStatus?: T;
+  reviewers?: T;
+  approvedBy?: T;
   generateSlug?: T;
   slug?: T;
   updatedAt?: T;
@@ -1257,6 +1592,15 @@ export interface PostsSelect<T extends boolean = true> {
         image?: T;
         description?: T;
       };
+  reviewComments?:
+    | T
+    | {
+        comment?: T;
+        author?: T;
+        postedAt?: T;
+        resolved?: T;
+        id?: T;
+      };
   publishedAt?: T;
   authors?: T;
   populatedAuthors?:
@@ -1264,13 +1608,48 @@ export interface PostsSelect<T extends boolean = true> {
     | {
         id?: T;
         name?: T;
+        roleTitle?: T;
+        slug?: T;
       };
+  expiresAt?: T;
+  expiryRedirect?:
+    | T
+    | {
+        type?: T;
+        reference?: T;
+        url?: T;
+      };
+  workflowStatus?: T;
+  reviewers?: T;
+  approvedBy?: T;
   generateSlug?: T;
   slug?: T;
   updatedAt?: T;
   createdAt?: T;
   _status?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "authors_select".
+ */
+export interface AuthorsSelect<T extends boolean = true> {
+  name?: T;
+  roleTitle?: T;
+  avatar?: T;
+  bio?: T;
+  socialLinks?:
+    | T
+    | {
+        platform?: T;
+        url?: T;
+        id?: T;
+      };
+  user?: T;
+  generateSlug?: T;
+  slug?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "media_select".
@@ -1279,11 +1658,14 @@ export interface MediaSelect<T extends boolean = true> {
   alt?: T;
   caption?: T;
   description?: T;
+  visibility?: T;
   mediaType?: T;
+  orientation?: T;
   videoMeta?:
     | T
     | {
         duration?: T;
+        codec?: T;
         thumbnail?: T;
         autoplay?: T;
         muted?: T;
@@ -1296,6 +1678,24 @@ export interface MediaSelect<T extends boolean = true> {
         desktop?: T;
         largeDesktop?: T;
       };
+  placeholder?:
+    | T
+    | {
+        blurDataURL?: T;
+        dominantColor?: T;
+      };
+  transformSignature?: T;
+  sizeCrops?:
+    | T
+    | {
+        size?: T;
+        x?: T;
+        y?: T;
+        width?: T;
+        height?: T;
+        image?: T;
+        id?: T;
+      };
   seoMeta?:
     | T
     | {
@@ -1304,8 +1704,36 @@ export interface MediaSelect<T extends boolean = true> {
         copyrightInfo?: T;
         originalSource?: T;
       };
+  embeddedMetadata?:
+    | T
+    | {
+        capturedAt?: T;
+        latitude?: T;
+        longitude?: T;
+        raw?: T;
+      };
   featured?: T;
   tags?: T;
+  sourceMedia?: T;
+  derivativeKind?: T;
+  contentHash?: T;
+  perceptualHash?: T;
+  fileVersion?:
+    | T
+    | {
+        kind?: T;
+        savedBy?: T;
+        savedAt?: T;
+      };
+  revisions?:
+    | T
+    | {
+        file?: T;
+        kind?: T;
+        savedBy?: T;
+        savedAt?: T;
+        id?: T;
+      };
   folder?: T;
   updatedAt?: T;
   createdAt?: T;
@@ -1361,8 +1789,83 @@ export interface MediaSelect<T extends boolean = true> {
               filesize?: T;
               filename?: T;
             };
+        avif640?:
+          | T
+          | {
+              url?: T;
+              width?: T;
+              height?: T;
+              mimeType?: T;
+              filesize?: T;
+              filename?: T;
+            };
+        avif1280?:
+          | T
+          | {
+              url?: T;
+              width?: T;
+              height?: T;
+              mimeType?: T;
+              filesize?: T;
+              filename?: T;
+            };
+        avif1920?:
+          | T
+          | {
+              url?: T;
+              width?: T;
+              height?: T;
+              mimeType?: T;
+              filesize?: T;
+              filename?: T;
+            };
+        webp640?:
+          | T
+          | {
+              url?: T;
+              width?: T;
+              height?: T;
+              mimeType?: T;
+              filesize?: T;
+              filename?: T;
+            };
+        webp1280?:
+          | T
+          | {
+              url?: T;
+              width?: T;
+              height?: T;
+              mimeType?: T;
+              filesize?: T;
+              filename?: T;
+            };
+        webp1920?:
+          | T
+          | {
+              url?: T;
+              width?: T;
+              height?: T;
+              mimeType?: T;
+              filesize?: T;
+              filename?: T;
+            };
       };
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "media-references_select".
+ */
+export interface MediaReferencesSelect<T extends boolean = true> {
+  media?: T;
+  sourceType?: T;
+  source?: T;
+  documentId?: T;
+  documentTitle?: T;
+  fieldPath?: T;
+  status?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "categories_select".
@@ -1389,6 +1892,7 @@ export interface CategoriesSelect<T extends boolean = true> {
  */
 export interface UsersSelect<T extends boolean = true> {
   name?: T;
+  role?: T;
   updatedAt?: T;
   createdAt?: T;
   email?: T;
@@ -1587,6 +2091,7 @@ export interface SearchSelect<T extends boolean = true> {
         description?: T;
         image?: T;
       };
+  content?: T;
   categories?:
     | T
     | {
@@ -1634,6 +2139,7 @@ export interface PayloadJobsSelect<T extends boolean = true> {
   queue?: T;
   waitUntil?: T;
   processing?: T;
+  meta?: T;
   updatedAt?: T;
   createdAt?: T;
 }
@@ -1774,6 +2280,24 @@ export interface SiteSetting {
   updatedAt?: string | null;
   createdAt?: string | null;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs-stats".
+ */
+export interface PayloadJobsStat {
+  id: string;
+  stats?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  updatedAt?: string | null;
+  createdAt?: string | null;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "header_select".
@@ -1844,6 +2368,16 @@ export interface SiteSettingsSelect<T extends boolean = true> {
   createdAt?: T;
   globalType?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs-stats_select".
+ */
+export interface PayloadJobsStatsSelect<T extends boolean = true> {
+  stats?: T;
+  updatedAt?: T;
+  createdAt?: T;
+  globalType?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "collections_widget".
@@ -1854,6 +2388,45 @@ export interface CollectionsWidget {
   };
   width: 'full';
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskMigrateMediaStorage".
+ */
+export interface TaskMigrateMediaStorage {
+  input: {
+    direction: 'local-to-r2' | 'r2-to-local';
+    dryRun?: boolean | null;
+  };
+  output: {
+    report:
+      | {
+          [k: string]: unknown;
+        }
+      | unknown[]
+      | string
+      | number
+      | boolean
+      | null;
+  };
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskUnpublishExpired".
+ */
+export interface TaskUnpublishExpired {
+  input?: unknown;
+  output: {
+    unpublished:
+      | {
+          [k: string]: unknown;
+        }
+      | unknown[]
+      | string
+      | number
+      | boolean
+      | null;
+  };
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "TaskSchedulePublish".
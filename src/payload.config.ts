@@ -4,15 +4,25 @@ import path from 'path'
 import { buildConfig, PayloadRequest } from 'payload'
 import { fileURLToPath } from 'url'
 
+import { Authors } from './collections/Authors'
 import { Categories } from './collections/Categories'
 import { Media } from './collections/Media'
+import { MediaReferences } from './collections/MediaReferences'
 import { Pages } from './collections/Pages'
 import { Posts } from './collections/Posts'
 import { Users } from './collections/Users'
+import { admins } from './access/admins'
+import { contributors } from './access/contributors'
+import { editors } from './access/editors'
 import { Footer } from './Footer/config'
 import { Header } from './Header/config'
 import { SiteSettings } from './SiteSettings/config'
+import { migrateMediaStorageTask } from './jobs/migrateMediaStorage'
+import { unpublishExpiredTask } from './jobs/unpublishExpired'
+import { markScheduled, unmarkScheduled } from './hooks/trackScheduledPublish'
+import { migrations } from './migrations'
 import { plugins } from './plugins'
+import { createSearchTextIndex } from './search/textIndex'
 import { defaultLexical } from '@/fields/defaultLexical'
 import { getServerSideURL } from './utilities/getURL'
 
@@ -24,6 +34,16 @@ export default buildConfig({
     components: {
       // Admin Root Provider - wraps entire admin UI with Media Manager context, modal, and button
       providers: ['/components/admin/AdminRootProvider#AdminRootProvider'],
+      afterNavLinks: ['/components/admin/alt-text-audit/AltTextAuditNavLink#AltTextAuditNavLink'],
+      beforeDashboard: [
+        '/components/admin/media-analytics/MediaAnalyticsDashboard#MediaAnalyticsDashboard',
+      ],
+      views: {
+        altTextAudit: {
+          Component: '/components/admin/alt-text-audit/AltTextAuditView#AltTextAuditView',
+          path: '/alt-text-audit',
+        },
+      },
     },
     importMap: {
       baseDir: path.resolve(dirname),
@@ -55,10 +75,26 @@ export default buildConfig({
   // This config helps us configure global or default features that the other editors can inherit
   editor: defaultLexical,
   db: mongooseAdapter({
+    afterOpenConnection: createSearchTextIndex,
+    prodMigrations: migrations,
     url: process.env.DATABASE_URL || '',
   }),
-  collections: [Pages, Posts, Media, Categories, Users],
+  collections: [Pages, Posts, Authors, Media, MediaReferences, Categories, Users],
   cors: [getServerSideURL()].filter(Boolean),
+  folders: {
+    collectionOverrides: [
+      // Media folders are organised by whoever can upload, and removed by editors
+      ({ collection }) => ({
+        ...collection,
+        access: {
+          ...collection.access,
+          create: contributors,
+          delete: editors,
+          update: contributors,
+        },
+      }),
+    ],
+  },
   globals: [Header, Footer, SiteSettings],
   plugins,
   secret: process.env.PAYLOAD_SECRET,
@@ -69,8 +105,8 @@ export default buildConfig({
   jobs: {
     access: {
       run: ({ req }: { req: PayloadRequest }): boolean => {
-        // Allow logged in users to execute this endpoint (default)
-        if (req.user) return true
+        // Allow admins to execute this endpoint
+        if (req.user) return admins({ req })
 
         // If there is no logged in user, then check
         // for the Vercel Cron secret to be present as an
@@ -79,6 +115,17 @@ export default buildConfig({
         return authHeader === `Bearer ${process.env.CRON_SECRET}`
       },
     },
-    tasks: [],
+    // Keeps the review status of scheduled pages and posts in step with their jobs. Job
+    // hooks only run with `runHooks`, which is slower, but this site queues few jobs.
+    jobsCollectionOverrides: ({ defaultJobsCollection }) => ({
+      ...defaultJobsCollection,
+      hooks: {
+        ...defaultJobsCollection.hooks,
+        afterChange: [...(defaultJobsCollection.hooks?.afterChange || []), markScheduled],
+        afterDelete: [...(defaultJobsCollection.hooks?.afterDelete || []), unmarkScheduled],
+      },
+    }),
+    runHooks: true,
+    tasks: [migrateMediaStorageTask, unpublishExpiredTask],
   },
 })
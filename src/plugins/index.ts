@@ -6,6 +6,7 @@ import { searchPlugin } from '@payloadcms/plugin-search'
 import { s3Storage } from '@payloadcms/storage-s3'
 import { Plugin } from 'payload'
 import { revalidateRedirects } from '@/hooks/revalidateRedirects'
+import { getR2Config } from '@/collections/Media/r2'
 import { GenerateTitle, GenerateURL } from '@payloadcms/plugin-seo/types'
 import { FixedToolbarFeature, HeadingFeature, lexicalEditor } from '@payloadcms/richtext-lexical'
 import { searchFields } from '@/search/fieldOverrides'
@@ -13,6 +14,7 @@ import { beforeSyncWithSearch } from '@/search/beforeSync'
 
 import { Page, Post } from '@/payload-types'
 import { getServerSideURL } from '@/utilities/getURL'
+import { editors } from '@/access/editors'
 
 const generateTitle: GenerateTitle<Post | Page> = ({ doc }) => {
   return doc?.title ? `${doc.title} | Payload Website Template` : 'Payload Website Template'
@@ -24,35 +26,37 @@ const generateURL: GenerateURL<Post | Page> = ({ doc }) => {
   return doc?.slug ? `${url}/${doc.slug}` : url
 }
 
+// Plugin collections keep their public reads; changes are left to editors
+const editorAccess = {
+  create: editors,
+  delete: editors,
+  update: editors,
+}
+
 // Storage mode configuration
 // Set STORAGE_MODE=local in .env to use local filesystem storage
 // Set STORAGE_MODE=r2 in .env to use Cloudflare R2 storage
 const storageMode = process.env.STORAGE_MODE || 'local'
 const useR2Storage = storageMode === 'r2'
+const r2Config = getR2Config()
 
 export const plugins: Plugin[] = [
   // Conditionally add R2 storage plugin if STORAGE_MODE=r2
-  ...(useR2Storage && process.env.R2_BUCKET
+  ...(useR2Storage && r2Config
     ? [
         s3Storage({
           collections: {
             media: true, // Enable R2 storage for Media collection
           },
-          bucket: process.env.R2_BUCKET,
-          config: {
-            credentials: {
-              accessKeyId: process.env.R2_ACCESS_KEY_ID || '',
-              secretAccessKey: process.env.R2_SECRET_ACCESS_KEY || '',
-            },
-            region: 'auto',
-            endpoint: process.env.R2_ENDPOINT,
-          },
+          bucket: r2Config.bucket,
+          config: r2Config.config,
         }),
       ]
     : []),
   redirectsPlugin({
     collections: ['pages', 'posts'],
     overrides: {
+      access: editorAccess,
       // @ts-expect-error - This is a valid override, mapped fields don't resolve to the same type
       fields: ({ defaultFields }) => {
         return defaultFields.map((field) => {
@@ -84,7 +88,14 @@ export const plugins: Plugin[] = [
     fields: {
       payment: false,
     },
+    // Submissions come from the public site, so only deleting them is restricted
+    formSubmissionOverrides: {
+      access: {
+        delete: editors,
+      },
+    },
     formOverrides: {
+      access: editorAccess,
       fields: ({ defaultFields }) => {
         return defaultFields.map((field) => {
           if ('name' in field && field.name === 'confirmationMessage') {
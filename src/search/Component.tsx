@@ -3,17 +3,27 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import React, { useState, useEffect } from 'react'
 import { useDebounce } from '@/hooks/useDebounce'
-import { useRouter } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
 
 export const Search: React.FC = () => {
-  const [value, setValue] = useState('')
+  const searchParams = useSearchParams()
+  const query = searchParams.get('q') || ''
+  const [value, setValue] = useState(query)
   const router = useRouter()
 
   const debouncedValue = useDebounce(value)
 
+  // A new query keeps the category filter and starts again from the first page
   useEffect(() => {
-    router.push(`/search${debouncedValue ? `?q=${debouncedValue}` : ''}`)
-  }, [debouncedValue, router])
+    if (debouncedValue === query) return
+
+    const params = new URLSearchParams(searchParams)
+    params.delete('page')
+    if (debouncedValue) params.set('q', debouncedValue)
+    else params.delete('q')
+
+    router.push(`/search${params.size ? `?${params}` : ''}`)
+  }, [debouncedValue, query, router, searchParams])
 
   return (
     <div>
@@ -31,6 +41,7 @@ export const Search: React.FC = () => {
             setValue(event.target.value)
           }}
           placeholder="Search"
+          value={value}
         />
         <button type="submit" className="sr-only">
           submit
@@ -0,0 +1,52 @@
+import { cn } from '@/utilities/ui'
+import Link from 'next/link'
+import React from 'react'
+
+import type { SearchFacet } from './query'
+
+const getHref = (query?: string, category?: string) => {
+  const params = new URLSearchParams()
+  if (query) params.set('q', query)
+  if (category) params.set('category', category)
+  return `/search${params.size ? `?${params}` : ''}`
+}
+
+/**
+ * Category filters for the current query, with how many results each has.
+ */
+export const SearchFacets: React.FC<{
+  active?: string
+  facets: SearchFacet[]
+  query?: string
+}> = ({ active, facets, query }) => {
+  if (facets.length === 0) return null
+
+  const linkClass = (isActive: boolean) =>
+    cn(
+      'inline-block rounded-full border border-border px-3 py-1 text-sm hover:bg-card',
+      isActive && 'bg-card font-semibold',
+    )
+
+  return (
+    <nav aria-label="Filter by category" className="container max-w-[50rem] mb-8">
+      <ul className="flex flex-wrap gap-2">
+        <li>
+          <Link className={linkClass(!active)} href={getHref(query)}>
+            All categories
+          </Link>
+        </li>
+        {facets.map((facet) => (
+          <li key={facet.id}>
+            <Link
+              aria-current={active === facet.id ? 'true' : undefined}
+              className={linkClass(active === facet.id)}
+              href={getHref(query, facet.id)}
+            >
+              {facet.title} <span className="text-muted-foreground">({facet.count})</span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </nav>
+  )
+}
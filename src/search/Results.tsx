@@ -0,0 +1,50 @@
+import Link from 'next/link'
+import React, { Fragment } from 'react'
+
+import type { HighlightSegment } from './highlight'
+import type { SearchResult } from './query'
+
+const Highlighted: React.FC<{ segments: HighlightSegment[] }> = ({ segments }) => (
+  <Fragment>
+    {segments.map((segment, index) =>
+      segment.match ? (
+        <mark className="bg-warning/30 text-inherit rounded-sm" key={index}>
+          {segment.text}
+        </mark>
+      ) : (
+        <Fragment key={index}>{segment.text}</Fragment>
+      ),
+    )}
+  </Fragment>
+)
+
+export const SearchResultList: React.FC<{ results: SearchResult[] }> = ({ results }) => (
+  <ol className="container grid gap-8 max-w-[50rem]">
+    {results.map((result) => {
+      const categories = (result.categories || [])
+        .map((category) => category.title)
+        .filter(Boolean)
+        .join(', ')
+
+      return (
+        <li key={result.id}>
+          <article>
+            {categories && (
+              <div className="uppercase text-sm mb-2 text-muted-foreground">{categories}</div>
+            )}
+            <h3 className="text-xl font-semibold mb-2">
+              <Link className="hover:underline" href={`/${result.doc.relationTo}/${result.slug}`}>
+                <Highlighted segments={result.titleSegments} />
+              </Link>
+            </h3>
+            {result.snippet.length > 0 && (
+              <p className="text-muted-foreground">
+                <Highlighted segments={result.snippet} />
+              </p>
+            )}
+          </article>
+        </li>
+      )
+    })}
+  </ol>
+)
@@ -1,11 +1,13 @@
 import { BeforeSync, DocToSync } from '@payloadcms/plugin-search/types'
 
+import { extractText } from './extractText'
+
 export const beforeSyncWithSearch: BeforeSync = async ({ req, originalDoc, searchDoc }) => {
   const {
     doc: { relationTo: collection },
   } = searchDoc
 
-  const { slug, id, categories, title, meta } = originalDoc
+  const { slug, id, categories, content, title, meta } = originalDoc
 
   const modifiedDoc: DocToSync = {
     ...searchDoc,
@@ -16,6 +18,7 @@ export const beforeSyncWithSearch: BeforeSync = async ({ req, originalDoc, searc
       image: meta?.image?.id || meta?.image,
       description: meta?.description,
     },
+    content: extractText(content),
     categories: [],
   }
 
@@ -0,0 +1,36 @@
+type LexicalNode = {
+  children?: LexicalNode[]
+  fields?: Record<string, unknown>
+  text?: string
+  type: string
+}
+
+// Nodes that sit inside a line of text; everything else ends a line
+const INLINE_NODES = new Set(['autolink', 'link', 'linebreak', 'tab', 'text'])
+
+const isEditorState = (value: unknown): value is { root: LexicalNode } =>
+  typeof value === 'object' && value !== null && 'root' in value
+
+const nodeText = (node: LexicalNode): string => {
+  if (node.type === 'text') return node.text || ''
+  if (node.type === 'linebreak' || node.type === 'tab') return ' '
+
+  // Blocks such as banners hold rich text of their own
+  if (node.type === 'block' && node.fields) {
+    return Object.values(node.fields)
+      .filter(isEditorState)
+      .map((value) => `${nodeText(value.root)}\n`)
+      .join('')
+  }
+
+  const text = node.children?.map(nodeText).join('') || ''
+  return INLINE_NODES.has(node.type) ? text : `${text}\n`
+}
+
+/**
+ * The plain text of a Lexical editor state, with whitespace collapsed, for indexing.
+ */
+export const extractText = (value: unknown): string => {
+  if (!isEditorState(value)) return ''
+  return nodeText(value.root).replace(/\s+/g, ' ').trim()
+}
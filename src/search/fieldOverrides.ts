@@ -36,6 +36,14 @@ export const searchFields: Field[] = [
       },
     ],
   },
+  {
+    name: 'content',
+    type: 'textarea',
+    admin: {
+      description: 'Body text, indexed for full-text search',
+      readOnly: true,
+    },
+  },
   {
     label: 'Categories',
     name: 'categories',
@@ -0,0 +1,60 @@
+export type HighlightSegment = {
+  match: boolean
+  text: string
+}
+
+// Characters of context shown before the first match in an excerpt
+const LEAD = 60
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * The words and "quoted phrases" of a search query, leaving out -excluded terms, as
+ * MongoDB's `$text` reads them.
+ */
+export const getSearchTerms = (query: string): string[] =>
+  (query.match(/-?"[^"]+"|\S+/g) || [])
+    .filter((term) => !term.startsWith('-'))
+    .map((term) => term.replace(/"/g, '').trim())
+    .filter((term) => term.length > 1)
+
+const getPattern = (terms: string[]) =>
+  terms.length > 0
+    ? new RegExp(
+        `(${[...terms]
+          .sort((a, b) => b.length - a.length)
+          .map(escapeRegExp)
+          .join('|')})`,
+        'gi',
+      )
+    : null
+
+/**
+ * Splits `text` into plain and matching segments, for rendering matches with `<mark>`.
+ */
+export const highlight = (text: string, terms: string[]): HighlightSegment[] => {
+  const pattern = getPattern(terms)
+  if (!pattern) return text ? [{ match: false, text }] : []
+
+  // Splitting on a capturing group puts the matches at odd indexes
+  return text
+    .split(pattern)
+    .map((part, index) => ({ match: index % 2 === 1, text: part }))
+    .filter((segment) => segment.text)
+}
+
+/**
+ * About `length` characters of `text` around the first match, cut at word boundaries.
+ */
+export const excerpt = (text: string, terms: string[], length = 200): string => {
+  if (text.length <= length) return text
+
+  const first = getPattern(terms)?.exec(text)?.index ?? 0
+  let start = Math.max(0, Math.min(first - LEAD, text.length - length))
+  if (start > 0) start = text.indexOf(' ', start) + 1
+
+  let end = Math.min(text.length, start + length)
+  if (end < text.length) end = Math.max(text.lastIndexOf(' ', end), start + 1)
+
+  return `${start > 0 ? '… ' : ''}${text.slice(start, end).trim()}${end < text.length ? ' …' : ''}`
+}
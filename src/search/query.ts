@@ -0,0 +1,151 @@
+import type { MongooseAdapter } from '@payloadcms/db-mongodb'
+import type { Payload } from 'payload'
+
+import type { Search } from '@/payload-types'
+
+import { excerpt, getSearchTerms, highlight, type HighlightSegment } from './highlight'
+
+export const SEARCH_PAGE_SIZE = 12
+
+export type SearchFacet = {
+  count: number
+  id: string
+  title: string
+}
+
+export type SearchResult = Pick<Search, 'categories' | 'doc' | 'id' | 'meta' | 'slug' | 'title'> & {
+  // MongoDB's weighted text score; null when browsing without a query
+  score: null | number
+  snippet: HighlightSegment[]
+  titleSegments: HighlightSegment[]
+}
+
+export type SearchResults = {
+  // Categories of every match, ignoring the category filter, so it can be changed
+  categories: SearchFacet[]
+  docs: SearchResult[]
+  page: number
+  totalDocs: number
+  totalPages: number
+}
+
+/**
+ * The results page asked for with `?page=`: 1 when it's left out, null when it isn't a
+ * page number (`Infinity`, `2.5`, `0`), so it never reaches the aggregation's `$skip`.
+ */
+export const parseSearchPage = (value?: string): null | number => {
+  if (!value) return 1
+
+  const page = Number(value)
+  return Number.isSafeInteger(page) && page >= 1 ? page : null
+}
+
+type FacetResult = {
+  categories: { _id: string; count: number; title: null | string }[]
+  docs: { _id: unknown; content?: null | string; score?: number }[]
+  total: { count: number }[]
+}
+
+/**
+ * Full-text search over the `search` collection, ranked by the weighted text index from
+ * `createSearchTextIndex`, with category counts and highlighted excerpts of the body text.
+ * Without a query every document is listed, newest first. Needs the Mongo adapter.
+ */
+export const searchDocs = async ({
+  category,
+  page = 1,
+  payload,
+  query,
+}: {
+  category?: string
+  page?: number
+  payload: Payload
+  query?: string
+}): Promise<SearchResults> => {
+  if (payload.db.name !== 'mongoose') {
+    throw new Error('Full-text search needs the MongoDB adapter')
+  }
+
+  const { collections } = payload.db as unknown as MongooseAdapter
+  const search = collections.search!
+  const categoryMatch = category ? [{ $match: { 'categories.categoryID': category } }] : []
+
+  const [facets] = await search.aggregate<FacetResult>([
+    // $text has to be the first stage
+    { $match: query ? { $text: { $search: query } } : {} },
+    ...(query ? [{ $addFields: { score: { $meta: 'textScore' } } }] : []),
+    {
+      $facet: {
+        categories: [
+          { $unwind: '$categories' },
+          {
+            $group: {
+              _id: '$categories.categoryID',
+              count: { $sum: 1 },
+              title: { $first: '$categories.title' },
+            },
+          },
+          { $sort: { count: -1, title: 1 } },
+        ],
+        docs: [
+          ...categoryMatch,
+          { $sort: query ? { score: -1, _id: 1 } : { createdAt: -1, _id: 1 } },
+          { $skip: (page - 1) * SEARCH_PAGE_SIZE },
+          { $limit: SEARCH_PAGE_SIZE },
+          { $project: { content: 1, score: 1 } },
+        ],
+        total: [...categoryMatch, { $count: 'count' }],
+      },
+    },
+  ])
+
+  const totalDocs = facets?.total[0]?.count ?? 0
+  const rows = facets?.docs ?? []
+
+  // Load the page through Payload, so images are populated and read hooks run
+  const { docs } = rows.length
+    ? await payload.find({
+        collection: 'search',
+        depth: 1,
+        pagination: false,
+        select: {
+          categories: true,
+          doc: true,
+          meta: true,
+          slug: true,
+          title: true,
+        },
+        where: { id: { in: rows.map((row) => String(row._id)) } },
+      })
+    : { docs: [] }
+
+  const terms = query ? getSearchTerms(query) : []
+
+  return {
+    categories: (facets?.categories ?? [])
+      .filter((facet) => facet._id)
+      .map((facet) => ({
+        count: facet.count,
+        id: facet._id,
+        title: facet.title || 'Untitled category',
+      })),
+    docs: rows.flatMap((row) => {
+      const doc = docs.find(({ id }) => id === String(row._id))
+      if (!doc) return []
+
+      const body = row.content || doc.meta?.description || ''
+
+      return [
+        {
+          ...doc,
+          score: row.score ?? null,
+          snippet: highlight(excerpt(body, terms), terms),
+          titleSegments: highlight(doc.title || '', terms),
+        },
+      ]
+    }),
+    page,
+    totalDocs,
+    totalPages: Math.ceil(totalDocs / SEARCH_PAGE_SIZE),
+  }
+}
@@ -0,0 +1,49 @@
+import type { MongooseAdapter } from '@payloadcms/db-mongodb'
+
+const SEARCH_TEXT_INDEX = 'search_text'
+
+// How much a match in each field counts towards a result's relevance score
+const weights = {
+  title: 10,
+  'meta.title': 10,
+  slug: 5,
+  'meta.description': 5,
+  'categories.title': 3,
+  content: 1,
+}
+
+// MongoDB error codes for an index that exists with different keys or options
+const INDEX_CONFLICT_CODES = [85, 86]
+
+/**
+ * Creates the weighted text index that `searchDocs` ranks results by. Runs once the
+ * database connection opens; an index left over from different weights is rebuilt.
+ */
+export const createSearchTextIndex = async (adapter: MongooseAdapter) => {
+  const search = adapter.collections.search?.collection
+  if (!search) return
+
+  const keys = Object.fromEntries(Object.keys(weights).map((field) => [field, 'text' as const]))
+  const options = { default_language: 'english', name: SEARCH_TEXT_INDEX, weights }
+
+  try {
+    await search.createIndex(keys, options)
+  } catch (error) {
+    const code = (error as { code?: number }).code
+    if (code === undefined || !INDEX_CONFLICT_CODES.includes(code)) {
+      adapter.payload.logger.error({ err: error, message: 'Error creating the search index' })
+      return
+    }
+
+    adapter.payload.logger.info(`Rebuilding the ${SEARCH_TEXT_INDEX} search index`)
+    try {
+      await search.dropIndex(SEARCH_TEXT_INDEX)
+      await search.createIndex(keys, options)
+    } catch (rebuildError) {
+      adapter.payload.logger.error({
+        err: rebuildError,
+        message: 'Error rebuilding the search index',
+      })
+    }
+  }
+}
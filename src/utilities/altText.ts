@@ -0,0 +1,42 @@
+export type AltTextIssue = 'filename' | 'missing'
+
+// Names cameras, phones and screenshot tools give files, e.g. IMG_1234, DSC01234, PXL_20240101_...
+const GENERATED_NAME =
+  /^(img|dsc|dscn|dcim|pxl|mvimg|photo|image|screenshot|screen shot|untitled)[\s_-]*[\d\s_.-]*/i
+
+const normalize = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/\.[a-z0-9]{2,5}$/, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+
+/**
+ * Why an alt text doesn't describe its image, or `null` when it looks meaningful.
+ *
+ * Alt text counts as filename-like when it matches the file's name (which is what uploads
+ * default it to), still has a file extension, or is mostly a camera or screenshot name,
+ * a date or a number. It's a heuristic: it can't tell a good description from a bad one.
+ */
+export const getAltTextIssue = (
+  alt: null | string | undefined,
+  filename?: null | string,
+): AltTextIssue | null => {
+  const text = alt?.trim()
+  if (!text) return 'missing'
+
+  const normalized = normalize(text)
+
+  if (filename && normalized === normalize(filename)) return 'filename'
+  if (/\.(avif|gif|heic|jpe?g|png|svg|tiff?|webp)$/i.test(text)) return 'filename'
+  if (GENERATED_NAME.test(text) && !/[a-z]{3,}/i.test(text.replace(GENERATED_NAME, ''))) {
+    return 'filename'
+  }
+  // Nothing but digits, dates, hashes and separators
+  if (!/[a-z]{3,}/i.test(normalized.replace(/\b[0-9a-f]{8,}\b/g, ''))) return 'filename'
+
+  return null
+}
+
+export const isMeaningfulAltText = (alt: null | string | undefined, filename?: null | string) =>
+  getAltTextIssue(alt, filename) === null
@@ -1,6 +1,6 @@
 import type { Metadata } from 'next'
 
-import type { Media, Page, Post, Config } from '../payload-types'
+import type { Author, Media, Page, Post, Config } from '../payload-types'
 
 import { mergeOpenGraph } from './mergeOpenGraph'
 import { getServerSideURL } from './getURL'
@@ -18,18 +18,32 @@ const getImageURL = (image?: Media | Config['db']['defaultIDType'] | null) => {
   return url
 }
 
+// Authors with a public profile link to it
+const getAuthors = (doc: Partial<Page> | Partial<Post> | null) => {
+  if (!doc || !('populatedAuthors' in doc) || !doc.populatedAuthors) return []
+
+  return doc.populatedAuthors
+    .filter((author) => author.name)
+    .map((author) => ({
+      name: author.name!,
+      url: author.slug ? `${getServerSideURL()}/authors/${author.slug}` : undefined,
+    }))
+}
+
 export const generateMeta = async (args: {
   doc: Partial<Page> | Partial<Post> | null
 }): Promise<Metadata> => {
   const { doc } = args
 
   const ogImage = getImageURL(doc?.meta?.image)
+  const authors = getAuthors(doc)
 
   const title = doc?.meta?.title
     ? doc?.meta?.title + ' | Payload Website Template'
     : 'Payload Website Template'
 
   return {
+    authors: authors.length > 0 ? authors : undefined,
     description: doc?.meta?.description,
     openGraph: mergeOpenGraph({
       description: doc?.meta?.description || '',
@@ -42,6 +56,36 @@ export const generateMeta = async (args: {
         : undefined,
       title,
       url: Array.isArray(doc?.slug) ? doc?.slug.join('/') : '/',
+      ...(authors.length > 0 && {
+        type: 'article',
+        authors: authors.map((author) => author.url || author.name),
+        publishedTime: doc?.publishedAt || undefined,
+      }),
+    }),
+    title,
+  }
+}
+
+export const generateAuthorMeta = async (args: {
+  author: Author | null
+  pageNumber?: string
+}): Promise<Metadata> => {
+  const { author, pageNumber } = args
+
+  if (!author) return { title: 'Payload Website Template' }
+
+  const title = `${author.name}${pageNumber ? ` (page ${pageNumber})` : ''} | Payload Website Template`
+  const description = author.bio || author.roleTitle || undefined
+
+  return {
+    description,
+    openGraph: mergeOpenGraph({
+      type: 'profile',
+      description: description || '',
+      images: author.avatar ? [{ url: getImageURL(author.avatar) }] : undefined,
+      title,
+      url: `/authors/${author.slug}`,
+      username: author.slug || undefined,
     }),
     title,
   }
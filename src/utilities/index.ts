@@ -21,6 +21,9 @@ export { getRedirects, getCachedRedirects } from './getRedirects'
 export { generateMeta } from './generateMeta'
 export { mergeOpenGraph } from './mergeOpenGraph'
 
+// Media
+export { dHash, hammingDistance } from './perceptualHash'
+
 // Utilities
 export { default as canUseDOM } from './canUseDOM'
 export { default as deepMerge, isObject } from './deepMerge'
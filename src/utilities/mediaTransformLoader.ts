@@ -0,0 +1,40 @@
+import type { ImageLoader } from 'next/image'
+
+import { getClientSideURL } from '@/utilities/getURL'
+
+// Next.js's default `images.deviceSizes` and `images.imageSizes`, the only widths it asks a
+// loader for. Keep in sync if next.config.js overrides them.
+export const MEDIA_TRANSFORM_WIDTHS = [
+  16, 32, 48, 64, 96, 128, 256, 384, 640, 750, 828, 1080, 1200, 1920, 2048, 3840,
+]
+
+// Qualities the loader rounds to, so each width has a handful of cached renditions at most
+export const MEDIA_TRANSFORM_QUALITIES = [50, 75, 90, 100]
+
+export const MEDIA_TRANSFORM_PATH = '/api/media-transform'
+
+/**
+ * `next/image` loader for the media transform route (see `src/endpoints/media-transform`).
+ *
+ * `signature` is the media item's `transformSignature`, which the server only sets when
+ * `MEDIA_TRANSFORM_SECRET` is configured. It authorizes the widths and qualities above for
+ * that one file; any other rendition needs a URL from `getSignedMediaTransformUrl`.
+ *
+ * @example
+ * <Image loader={createMediaTransformLoader(media.filename, media.transformSignature, media.updatedAt)} ... />
+ */
+export const createMediaTransformLoader =
+  (filename: string, signature: string, version?: null | string): ImageLoader =>
+  ({ quality, width }) => {
+    const roundedQuality =
+      MEDIA_TRANSFORM_QUALITIES.find((option) => option >= (quality ?? 75)) ?? 100
+
+    const params = new URLSearchParams({
+      w: String(width),
+      q: String(roundedQuality),
+      s: signature,
+    })
+    if (version) params.set('v', version)
+
+    return `${getClientSideURL()}${MEDIA_TRANSFORM_PATH}/${encodeURIComponent(filename)}?${params}`
+  }
@@ -0,0 +1,48 @@
+// dHash compares each pixel with its right-hand neighbour on a 9×8 greyscale thumbnail
+export const DHASH_WIDTH = 9
+export const DHASH_HEIGHT = 8
+
+// Hashes at most this many bits apart are treated as the same picture
+export const SIMILAR_HASH_DISTANCE = 6
+
+/**
+ * Difference hash of a 9×8 greyscale image (one byte per pixel, row by row),
+ * returned as 16 hex characters. Resizing and re-encoding barely change it, so
+ * the server (sharp) and the browser (canvas) produce comparable hashes.
+ */
+export const dHash = (pixels: ArrayLike<number>): string => {
+  let hex = ''
+
+  for (let y = 0; y < DHASH_HEIGHT; y++) {
+    let byte = 0
+
+    for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+      const left = pixels[y * DHASH_WIDTH + x] ?? 0
+      const right = pixels[y * DHASH_WIDTH + x + 1] ?? 0
+      byte = (byte << 1) | (left > right ? 1 : 0)
+    }
+
+    hex += byte.toString(16).padStart(2, '0')
+  }
+
+  return hex
+}
+
+/**
+ * Number of differing bits between two hex hashes of equal length
+ */
+export const hammingDistance = (a: string, b: string): number => {
+  if (a.length !== b.length) return Infinity
+
+  let distance = 0
+
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16)
+    while (diff) {
+      distance += diff & 1
+      diff >>= 1
+    }
+  }
+
+  return distance
+}
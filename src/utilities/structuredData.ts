@@ -0,0 +1,49 @@
+import type { Author, Media, Post } from '../payload-types'
+
+import { getServerSideURL } from './getURL'
+
+const getImageURL = (image?: Media | null | string) =>
+  image && typeof image === 'object' && image.url ? getServerSideURL() + image.url : undefined
+
+const getAuthorURL = (slug?: null | string) =>
+  slug ? `${getServerSideURL()}/authors/${slug}` : undefined
+
+/**
+ * schema.org `Article` for a post, crediting its authors as `Person`s that link to their
+ * profile when they have one.
+ */
+export const getArticleJsonLd = (post: Post) => ({
+  '@context': 'https://schema.org',
+  '@type': 'Article',
+  author: (post.populatedAuthors || [])
+    .filter((author) => author.name)
+    .map((author) => ({
+      '@type': 'Person',
+      name: author.name,
+      url: getAuthorURL(author.slug),
+    })),
+  dateModified: post.updatedAt,
+  datePublished: post.publishedAt || undefined,
+  description: post.meta?.description || undefined,
+  headline: post.title,
+  image: getImageURL(post.meta?.image || post.heroImage),
+  url: `${getServerSideURL()}/posts/${post.slug}`,
+})
+
+/**
+ * schema.org `ProfilePage` for an author page, with the author as its `Person`.
+ */
+export const getProfilePageJsonLd = (author: Author) => ({
+  '@context': 'https://schema.org',
+  '@type': 'ProfilePage',
+  dateModified: author.updatedAt,
+  mainEntity: {
+    '@type': 'Person',
+    description: author.bio || undefined,
+    image: getImageURL(author.avatar),
+    jobTitle: author.roleTitle || undefined,
+    name: author.name,
+    sameAs: author.socialLinks?.map((link) => link.url),
+    url: getAuthorURL(author.slug),
+  },
+})
@@ -0,0 +1,214 @@
+import sharp from 'sharp'
+import { describe, expect, it } from 'vitest'
+
+import { readEmbeddedMetadata, stripGpsInPlace } from '@/collections/Media/embeddedMetadata'
+
+// Buffers as plain byte arrays, which Buffer.concat and Buffer.from are typed for
+const concat = (parts: Buffer[]) => Buffer.concat(parts.map((part) => new Uint8Array(part)))
+const copy = (buffer: Buffer) => Buffer.from(new Uint8Array(buffer))
+
+type Entry = { tag: number; type: number; value: number[] | string | { ifd: number } }
+
+// Little-endian TIFF with the given directories; `{ ifd }` values point at another directory
+const buildTiff = (ifds: Entry[][]) => {
+  const offsets: number[] = []
+  let end = 8
+  for (const entries of ifds) {
+    offsets.push(end)
+    end += 2 + entries.length * 12 + 4
+  }
+
+  const head = Buffer.alloc(end)
+  head.write('II', 0, 'latin1')
+  head.writeUInt16LE(42, 2)
+  head.writeUInt32LE(8, 4)
+
+  const data: Buffer[] = []
+  let dataAt = end
+
+  ifds.forEach((entries, index) => {
+    head.writeUInt16LE(entries.length, offsets[index])
+
+    entries.forEach(({ tag, type, value }, position) => {
+      let bytes: Buffer
+      if (typeof value === 'string') {
+        bytes = Buffer.from(`${value}\0`, 'latin1')
+      } else if ('ifd' in value) {
+        bytes = Buffer.alloc(4)
+        bytes.writeUInt32LE(offsets[value.ifd])
+      } else {
+        const size = type === 3 ? 2 : 4
+        bytes = Buffer.alloc(value.length * size)
+        value.forEach((number, i) =>
+          size === 2 ? bytes.writeUInt16LE(number, i * 2) : bytes.writeUInt32LE(number, i * 4),
+        )
+      }
+
+      const count =
+        type === 5
+          ? bytes.length / 8
+          : type === 3
+            ? bytes.length / 2
+            : type === 2
+              ? bytes.length
+              : bytes.length / 4
+      const at = offsets[index] + 2 + position * 12
+      head.writeUInt16LE(tag, at)
+      head.writeUInt16LE(type, at + 2)
+      head.writeUInt32LE(count, at + 4)
+
+      if (bytes.length <= 4) {
+        head.set(new Uint8Array(bytes), at + 8)
+      } else {
+        head.writeUInt32LE(dataAt, at + 8)
+        data.push(bytes)
+        dataAt += bytes.length
+      }
+    })
+  })
+
+  return concat([Buffer.from('Exif\0\0', 'latin1'), head, ...data])
+}
+
+const exif = buildTiff([
+  [
+    { tag: 0x013b, type: 2, value: 'Ada Lovelace' },
+    { tag: 0x8298, type: 2, value: '© Ada Lovelace' },
+    { tag: 0x8769, type: 4, value: { ifd: 1 } },
+    { tag: 0x8825, type: 4, value: { ifd: 2 } },
+  ],
+  [
+    { tag: 0x9003, type: 2, value: '2024:05:01 14:30:00' },
+    { tag: 0x9011, type: 2, value: '+02:00' },
+  ],
+  [
+    { tag: 0x0001, type: 2, value: 'N' },
+    { tag: 0x0002, type: 5, value: [52, 1, 22, 1, 21, 1] },
+    { tag: 0x0003, type: 2, value: 'W' },
+    { tag: 0x0004, type: 5, value: [4, 1, 30, 1, 0, 1] },
+  ],
+])
+
+const iptcDataset = (dataset: number, value: string) => {
+  const text = Buffer.from(value)
+  const header = Buffer.from([0x1c, 0x02, dataset, 0, 0])
+  header.writeUInt16BE(text.length, 3)
+  return concat([header, text])
+}
+
+const iptc = concat([
+  Buffer.from('Photoshop 3.0\x008BIM\x04\x04', 'latin1'),
+  iptcDataset(80, 'A. Lovelace'),
+  iptcDataset(25, 'engines'),
+  iptcDataset(25, 'notes'),
+  iptcDataset(116, 'Analytical Press'),
+])
+
+const xmp = Buffer.from(
+  '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF><rdf:Description photoshop:City="London">' +
+    '<dc:creator><rdf:Seq><rdf:li>Augusta Ada King</rdf:li></rdf:Seq></dc:creator>' +
+    '<exif:GPSLatitude>51,30.5N</exif:GPSLatitude>' +
+    '</rdf:Description></rdf:RDF></x:xmpmeta>',
+)
+
+// Same sequence on every run
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2 ** 31
+  return seed / 2 ** 31
+}
+
+describe('embedded metadata', () => {
+  it('reads credits, capture date and location', () => {
+    const metadata = readEmbeddedMetadata({ exif, iptc, xmp })
+
+    expect(metadata).toMatchObject({
+      capturedAt: '2024-05-01T12:30:00.000Z',
+      // XMP first, then IPTC, then EXIF
+      copyright: 'Analytical Press',
+      creator: 'Augusta Ada King',
+      gps: { latitude: 52.3725, longitude: -4.5 },
+    })
+    expect(metadata.raw.exif).toMatchObject({ Artist: 'Ada Lovelace', GPSLatitudeRef: 'N' })
+    expect(metadata.raw.iptc).toMatchObject({
+      ByLine: ['A. Lovelace'],
+      Keywords: ['engines', 'notes'],
+    })
+    expect(metadata.raw.xmp).toMatchObject({ 'photoshop:City': 'London' })
+  })
+
+  it('reads the blocks sharp finds in an image', async () => {
+    const image = await sharp({
+      create: { background: '#888888', channels: 3, height: 8, width: 8 },
+    })
+      .withExif({ IFD0: { Artist: 'Ada Lovelace', Copyright: 'Ada' } })
+      .withXmp(xmp.toString())
+      .jpeg()
+      .toBuffer()
+
+    const metadata = readEmbeddedMetadata(await sharp(image).metadata())
+
+    expect(metadata.creator).toBe('Augusta Ada King')
+    expect(metadata.copyright).toBe('Ada')
+    expect(metadata.raw.exif).toMatchObject({ Artist: 'Ada Lovelace' })
+  })
+
+  it('returns empty metadata for files without any', async () => {
+    const image = await sharp({
+      create: { background: '#888888', channels: 3, height: 8, width: 8 },
+    })
+      .png()
+      .toBuffer()
+
+    expect(readEmbeddedMetadata(await sharp(image).metadata())).toEqual({
+      capturedAt: null,
+      copyright: null,
+      creator: null,
+      gps: null,
+      raw: { exif: {}, iptc: {}, xmp: {} },
+    })
+  })
+
+  it('survives truncated blocks', () => {
+    for (let length = 0; length < exif.length; length++) {
+      expect(() => readEmbeddedMetadata({ exif: exif.subarray(0, length) })).not.toThrow()
+    }
+    for (let length = 0; length < iptc.length; length++) {
+      expect(() => readEmbeddedMetadata({ iptc: iptc.subarray(0, length) })).not.toThrow()
+    }
+    const cut = xmp.indexOf('<rdf:li>')
+    expect(readEmbeddedMetadata({ xmp: xmp.subarray(0, cut) }).raw.xmp).toEqual({
+      'photoshop:City': 'London',
+    })
+  })
+
+  it('survives directories pointing outside the block', () => {
+    const badPointer = buildTiff([
+      [
+        { tag: 0x013b, type: 2, value: 'Ada' },
+        { tag: 0x8769, type: 4, value: [0, 0] },
+        { tag: 0x8825, type: 4, value: [0xfffffff0] },
+      ],
+    ])
+    // Two values don't fit in the entry, so it holds their offset: send it past the end
+    badPointer.writeUInt32LE(0xfffffff0, 6 + 8 + 2 + 12 + 8)
+
+    expect(readEmbeddedMetadata({ exif: badPointer }).raw.exif).toEqual({ Artist: 'Ada' })
+    expect(() => stripGpsInPlace(copy(badPointer), { exif: badPointer })).not.toThrow()
+  })
+
+  it('survives random damage', () => {
+    const random = createRandom(42)
+
+    for (let run = 0; run < 500; run++) {
+      const damaged = copy(exif)
+      for (let i = 0; i < 4; i++) {
+        damaged[Math.floor(random() * damaged.length)] = Math.floor(random() * 256)
+      }
+
+      expect(() =>
+        readEmbeddedMetadata({ exif: damaged, iptc: damaged, xmp: damaged }),
+      ).not.toThrow()
+      expect(() => stripGpsInPlace(copy(damaged), { exif: damaged })).not.toThrow()
+    }
+  })
+})
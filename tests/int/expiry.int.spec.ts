@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { expiryFields } from '@/fields/expiry'
+import { enforceWorkflow } from '@/hooks/enforceWorkflow'
+import { unpublishExpired } from '@/jobs/unpublishExpired'
+
+type Doc = Record<string, unknown>
+
+const past = new Date(Date.now() - 60_000).toISOString()
+const future = new Date(Date.now() + 60_000).toISOString()
+
+const validate = (value: null | string, options: Doc, live?: Doc) => {
+  const field = expiryFields.find((field) => 'name' in field && field.name === 'expiresAt')
+  const findByID = vi.fn(async () => live ?? null)
+
+  return (
+    field as { validate: (value: unknown, options: unknown) => Promise<string | true> }
+  ).validate(value, { collectionSlug: 'posts', req: { payload: { findByID } }, ...options })
+}
+
+const createPayload = (docs: Doc[]) => ({
+  create: vi.fn(),
+  find: vi.fn(async ({ collection }: { collection: string }) => ({
+    docs: collection === 'posts' ? docs : [],
+  })),
+  logger: { error: vi.fn() },
+  update: vi.fn(),
+})
+
+describe('unpublishExpired', () => {
+  it('unpublishes expired documents back to approved', async () => {
+    const payload = createPayload([{ id: 'post-1', slug: 'old-news' }])
+
+    const result = await unpublishExpired({ req: { payload } } as never)
+
+    expect(payload.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: 'post-1',
+        collection: 'posts',
+        data: { _status: 'draft', workflowStatus: 'approved' },
+      }),
+    )
+    expect(payload.create).not.toHaveBeenCalled()
+    expect(result).toEqual({
+      failed: [],
+      unpublished: [{ collection: 'posts', id: 'post-1', path: '/posts/old-news' }],
+    })
+  })
+
+  it('redirects the old URL when asked to', async () => {
+    const payload = createPayload([
+      { id: 'post-1', expiryRedirect: { type: 'custom', url: '/news' }, slug: 'old-news' },
+    ])
+
+    await unpublishExpired({ req: { payload } } as never)
+
+    expect(payload.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        collection: 'redirects',
+        data: { from: '/posts/old-news', to: { type: 'custom', url: '/news' } },
+      }),
+    )
+  })
+
+  it('keeps who approved the content', () => {
+    expect(
+      enforceWorkflow({
+        data: { _status: 'draft', workflowStatus: 'approved' },
+        originalDoc: { _status: 'published', approvedBy: 'editor-id', workflowStatus: 'published' },
+        req: { user: null },
+      } as never),
+    ).toEqual({ _status: 'draft', workflowStatus: 'approved' })
+  })
+})
+
+describe('expiresAt validation', () => {
+  it('refuses to publish with a past expiry', async () => {
+    expect(await validate(past, { data: { _status: 'published' } })).toMatch(/has expired/)
+    expect(await validate(future, { data: { _status: 'published' } })).toBe(true)
+    expect(await validate(past, { data: { _status: 'draft' } })).toBe(true)
+  })
+
+  it('lets a document that is still live be edited without moving its expiry', async () => {
+    const options = { data: { _status: 'published' }, id: 'post-1', previousValue: past }
+
+    expect(await validate(past, options, { _status: 'published' })).toBe(true)
+    expect(await validate(past, options, { _status: 'draft' })).toMatch(/has expired/)
+  })
+})
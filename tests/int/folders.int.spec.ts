@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+
+import type { FolderItem, FolderTreeNode } from '@/components/admin/media-manager/types'
+
+import {
+  buildFolderTree,
+  getDescendantFolderIds,
+  isWithinFolder,
+} from '@/components/admin/media-manager/folders'
+
+const folder = (id: string, parent: null | string = null, name = id): FolderItem => ({
+  id,
+  name,
+  folder: parent,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+})
+
+const shape = (nodes: FolderTreeNode[]): unknown[] =>
+  nodes.map((node) => (node.children.length ? { [node.id]: shape(node.children) } : node.id))
+
+describe('media folders', () => {
+  const folders = [
+    folder('photos'),
+    folder('2024', 'photos'),
+    folder('summer', '2024'),
+    folder('docs'),
+  ]
+
+  it('nests folders under their parent, sorted by name', () => {
+    expect(shape(buildFolderTree(folders))).toEqual(['docs', { photos: [{ 2024: ['summer'] }] }])
+  })
+
+  it('shows folders with a missing or looping parent at the root', () => {
+    const tree = buildFolderTree([folder('orphan', 'gone'), folder('a', 'b'), folder('b', 'a')])
+    expect(tree.map((node) => node.id)).toEqual(['a', 'b', 'orphan'])
+  })
+
+  it('accepts a populated parent', () => {
+    const parent = folder('parent')
+    const tree = buildFolderTree([parent, { ...folder('child'), folder: parent }])
+    expect(shape(tree)).toEqual([{ parent: ['child'] }])
+  })
+
+  it('knows which folders sit inside another', () => {
+    expect(isWithinFolder(folders, 'summer', 'photos')).toBe(true)
+    expect(isWithinFolder(folders, 'photos', 'photos')).toBe(true)
+    expect(isWithinFolder(folders, 'photos', 'summer')).toBe(false)
+    expect(isWithinFolder(folders, 'docs', 'photos')).toBe(false)
+  })
+
+  it('stops on a loop in the parent chain', () => {
+    const looping = [folder('a', 'b'), folder('b', 'a')]
+    expect(isWithinFolder(looping, 'a', 'c')).toBe(false)
+  })
+
+  it('lists descendants nearest first', () => {
+    expect(getDescendantFolderIds(folders, 'photos')).toEqual(['2024', 'summer'])
+    expect(getDescendantFolderIds(folders, 'docs')).toEqual([])
+  })
+})
@@ -0,0 +1,100 @@
+import type { Where } from 'payload'
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { readMedia, signMediaFile } from '@/collections/Media/access'
+
+const SECRET = 'test-secret'
+const NOW = new Date('2026-01-01T00:00:00Z').getTime()
+const inAnHour = NOW / 1000 + 3600
+
+const read = ({
+  filename = 'private.jpg',
+  search,
+  staticFile = true,
+  user = null,
+}: {
+  filename?: string
+  search?: URLSearchParams
+  staticFile?: boolean
+  user?: null | { id: string }
+}) =>
+  readMedia({
+    data: { filename },
+    isReadingStaticFile: staticFile,
+    req: { payload: { secret: SECRET }, searchParams: search ?? new URLSearchParams(), user },
+  } as never)
+
+// Whether a read access result lets a document with this visibility through
+const allows = (result: ReturnType<typeof read>, visibility?: string) => {
+  if (typeof result === 'boolean') return result
+  const { not_in } = (result as Where).visibility as { not_in: string[] }
+  return !visibility || !not_in.includes(visibility)
+}
+
+describe('media read access', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(NOW)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('lets logged-in users read everything', () => {
+    expect(read({ user: { id: 'user-1' } })).toBe(true)
+  })
+
+  it('limits anonymous reads to public media', () => {
+    const result = read({})
+
+    expect(allows(result, 'public')).toBe(true)
+    // Saved before visibility existed
+    expect(allows(result, undefined)).toBe(true)
+    expect(allows(result, 'authenticated')).toBe(false)
+    expect(allows(result, 'private')).toBe(false)
+  })
+
+  it('opens one file to a valid signed link', () => {
+    const search = signMediaFile(SECRET, 'private.jpg', inAnHour)
+
+    expect(read({ search })).toBe(true)
+    // Only for the file itself, not for listing or reading documents
+    expect(allows(read({ search, staticFile: false }), 'private')).toBe(false)
+  })
+
+  it('rejects a link signed for another file', () => {
+    const search = signMediaFile(SECRET, 'other.jpg', inAnHour)
+
+    expect(allows(read({ search }), 'private')).toBe(false)
+  })
+
+  it('rejects a link whose expiry or signature was changed', () => {
+    const extended = signMediaFile(SECRET, 'private.jpg', inAnHour)
+    extended.set('expires', String(inAnHour + 86400))
+
+    const tampered = signMediaFile(SECRET, 'private.jpg', inAnHour)
+    const signature = tampered.get('signature')!
+    tampered.set('signature', `${signature[0] === 'A' ? 'B' : 'A'}${signature.slice(1)}`)
+
+    expect(allows(read({ search: extended }), 'private')).toBe(false)
+    expect(allows(read({ search: tampered }), 'private')).toBe(false)
+    expect(allows(read({ search: new URLSearchParams({ expires: 'soon' }) }), 'private')).toBe(
+      false,
+    )
+  })
+
+  it('rejects a link signed with another secret', () => {
+    const search = signMediaFile('other-secret', 'private.jpg', inAnHour)
+
+    expect(allows(read({ search }), 'private')).toBe(false)
+  })
+
+  it('rejects an expired link', () => {
+    const search = signMediaFile(SECRET, 'private.jpg', inAnHour)
+    vi.setSystemTime(NOW + 3601 * 1000)
+
+    expect(allows(read({ search }), 'private')).toBe(false)
+  })
+})
@@ -0,0 +1,147 @@
+import { mkdtemp, open, rm, writeFile } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+import { parseManifest } from '@/endpoints/media-archive'
+import {
+  createZipStream,
+  readZipDirectory,
+  readZipEntry,
+  type ZipEntryInput,
+} from '@/endpoints/media-archive/zip'
+
+let dir: string
+
+const writeZip = async (name: string, inputs: ZipEntryInput[]) => {
+  async function* entries() {
+    yield* inputs
+  }
+
+  const zip = Buffer.from(await new Response(createZipStream(entries())).arrayBuffer())
+  const file = path.join(dir, name)
+  await writeFile(file, new Uint8Array(zip))
+  return { file, zip }
+}
+
+const manifest = (media: unknown[], extra: Record<string, unknown> = {}) =>
+  JSON.stringify({ exportedAt: '', folders: [], media, missing: [], version: 1, ...extra })
+
+const item = {
+  alt: 'A photo',
+  caption: null,
+  contentHash: null,
+  description: null,
+  featured: false,
+  file: 'files/photo.jpg',
+  filename: 'photo.jpg',
+  focalX: 50,
+  focalY: 50,
+  folderPath: ['Photos'],
+  mimeType: 'image/jpeg',
+  seoMeta: null,
+  tags: ['hero'],
+  visibility: 'public',
+}
+
+describe('media archive zip', () => {
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'media-archive-test-'))
+  })
+
+  afterAll(async () => {
+    await rm(dir, { force: true, recursive: true })
+  })
+
+  it('reads back what it writes, deflated or stored', async () => {
+    const text = Buffer.from('hello '.repeat(1000))
+    const random = Buffer.from(Array.from({ length: 512 }, (_, i) => (i * 7919) % 251))
+
+    const { file } = await writeZip('round-trip.zip', [
+      { data: text, name: 'files/text.txt' },
+      { data: random, deflate: false, name: 'files/naïve.bin' },
+      { data: Buffer.alloc(0), name: 'empty.txt' },
+    ])
+
+    const handle = await open(file, 'r')
+    try {
+      const entries = await readZipDirectory(handle)
+      expect(entries.map((entry) => entry.name)).toEqual([
+        'files/text.txt',
+        'files/naïve.bin',
+        'empty.txt',
+      ])
+      expect(entries[0]!.compressedSize).toBeLessThan(text.length)
+      expect(entries[1]!.compressedSize).toBe(random.length)
+
+      expect((await readZipEntry(handle, entries[0]!)).equals(new Uint8Array(text))).toBe(true)
+      expect((await readZipEntry(handle, entries[1]!)).equals(new Uint8Array(random))).toBe(true)
+      expect((await readZipEntry(handle, entries[2]!)).length).toBe(0)
+    } finally {
+      await handle.close()
+    }
+  })
+
+  it('rejects an entry whose data does not match its checksum', async () => {
+    const data = Buffer.from('original contents')
+    const { zip } = await writeZip('source.zip', [{ data, deflate: false, name: 'a.txt' }])
+
+    // Flip a byte of the stored data, which follows the 30 byte header and the name
+    zip[30 + 'a.txt'.length] ^= 0xff
+    const file = path.join(dir, 'corrupt.zip')
+    await writeFile(file, new Uint8Array(zip))
+
+    const handle = await open(file, 'r')
+    try {
+      const [entry] = await readZipDirectory(handle)
+      await expect(readZipEntry(handle, entry!)).rejects.toThrow('Corrupt ZIP entry: a.txt')
+    } finally {
+      await handle.close()
+    }
+  })
+
+  it('rejects files that are not ZIP archives', async () => {
+    const file = path.join(dir, 'not-a.zip')
+    await writeFile(file, 'just some text')
+
+    const handle = await open(file, 'r')
+    try {
+      await expect(readZipDirectory(handle)).rejects.toThrow('Not a ZIP file')
+    } finally {
+      await handle.close()
+    }
+  })
+})
+
+describe('media archive manifest', () => {
+  it('accepts a manifest made by the export', () => {
+    expect(parseManifest(manifest([item], { folders: [['Photos']] })).media).toEqual([item])
+  })
+
+  it('rejects invalid JSON with a 400', () => {
+    expect(() => parseManifest('{"version": 1,')).toThrow(
+      expect.objectContaining({ message: 'manifest.json is not valid JSON', status: 400 }),
+    )
+  })
+
+  it('rejects other versions and missing media lists', () => {
+    expect(() => parseManifest(manifest([], { version: 2 }))).toThrow(
+      'Unsupported manifest version',
+    )
+    expect(() => parseManifest(JSON.stringify({ version: 1 }))).toThrow('has no media list')
+    expect(() => parseManifest('[]')).toThrow('must be an object')
+  })
+
+  it('names the first malformed field', () => {
+    expect(() => parseManifest(manifest([item, { ...item, filename: 42 }]))).toThrow(
+      'manifest.json has a malformed media[1].filename',
+    )
+    expect(() => parseManifest(manifest([{ ...item, folderPath: ['Photos', ''] }]))).toThrow(
+      'media[0].folderPath',
+    )
+    expect(() => parseManifest(manifest([item], { folders: [['Photos', 3]] }))).toThrow(
+      'malformed folders',
+    )
+    expect(() => parseManifest(manifest(['photo.jpg']))).toThrow('malformed item at media[0]')
+  })
+})
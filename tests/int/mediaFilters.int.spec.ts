@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  appendWhereParams,
+  buildFilterConditions,
+  countActiveFilters,
+  DEFAULT_MEDIA_FILTERS,
+} from '@/components/admin/media-manager/mediaFilters'
+
+describe('media filters', () => {
+  it('builds no conditions for the defaults', () => {
+    expect(buildFilterConditions(DEFAULT_MEDIA_FILTERS)).toEqual([])
+    expect(countActiveFilters(DEFAULT_MEDIA_FILTERS)).toBe(0)
+  })
+
+  it('builds a condition per active filter', () => {
+    const filters = {
+      ...DEFAULT_MEDIA_FILTERS,
+      mediaType: 'image' as const,
+      tags: ['hero', 'banner'],
+      tagMatch: 'all' as const,
+      minWidth: 1200,
+      missingAlt: true,
+    }
+
+    expect(buildFilterConditions(filters)).toEqual([
+      { mediaType: { equals: 'image' } },
+      { tags: { all: ['hero', 'banner'] } },
+      { width: { greater_than_equal: 1200 } },
+      { or: [{ alt: { exists: false } }, { alt: { equals: '' } }] },
+    ])
+    // The tag match mode isn't a filter of its own
+    expect(countActiveFilters(filters)).toBe(4)
+  })
+
+  it('matches any tag unless asked to match all', () => {
+    const conditions = buildFilterConditions({ ...DEFAULT_MEDIA_FILTERS, tags: ['hero'] })
+    expect(conditions).toEqual([{ tags: { in: ['hero'] } }])
+  })
+
+  it('covers whole days for date ranges', () => {
+    const [after, before] = buildFilterConditions({
+      ...DEFAULT_MEDIA_FILTERS,
+      uploadedAfter: '2024-03-01',
+      uploadedBefore: '2024-03-31',
+    })
+
+    expect(after).toEqual({
+      createdAt: { greater_than_equal: new Date('2024-03-01T00:00:00').toISOString() },
+    })
+    expect(before).toEqual({
+      createdAt: { less_than_equal: new Date('2024-03-31T23:59:59.999').toISOString() },
+    })
+  })
+
+  it('serialises where objects as REST query params', () => {
+    const params = new URLSearchParams()
+    appendWhereParams(params, {
+      and: [{ tags: { in: ['hero', 'banner'] } }, { featured: { equals: true } }],
+    })
+
+    expect([...params.entries()]).toEqual([
+      ['where[and][0][tags][in][0]', 'hero'],
+      ['where[and][0][tags][in][1]', 'banner'],
+      ['where[and][1][featured][equals]', 'true'],
+    ])
+  })
+})
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+  getSignedMediaTransformUrl,
+  parseTransformRequest,
+  signMediaSource,
+} from '@/endpoints/media-transform'
+import { createMediaTransformLoader } from '@/utilities/mediaTransformLoader'
+
+const searchOf = (url: string) => new URL(url, 'http://localhost').searchParams
+
+describe('media transform signatures', () => {
+  beforeEach(() => {
+    vi.stubEnv('MEDIA_TRANSFORM_SECRET', 'test-secret')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('signs nothing while transforms are off', () => {
+    vi.stubEnv('MEDIA_TRANSFORM_SECRET', '')
+    expect(signMediaSource('photo.jpg')).toBeNull()
+    expect(getSignedMediaTransformUrl('photo.jpg', { width: 300 })).toBeNull()
+  })
+
+  it('accepts a URL signed for exactly its parameters', () => {
+    const url = getSignedMediaTransformUrl('photo.jpg', { fit: 'cover', height: 200, width: 300 })!
+
+    expect(parseTransformRequest('photo.jpg', searchOf(url))).toEqual({
+      fit: 'cover',
+      format: 'auto',
+      height: 200,
+      quality: 75,
+      width: 300,
+    })
+  })
+
+  it('rejects a signed URL with changed parameters or another file', () => {
+    const search = searchOf(getSignedMediaTransformUrl('photo.jpg', { width: 300 })!)
+    expect(() => parseTransformRequest('other.jpg', search)).toThrow('Invalid signature')
+
+    search.set('w', '301')
+    expect(() => parseTransformRequest('photo.jpg', search)).toThrow('Invalid signature')
+  })
+
+  it('lets loader URLs use only the widths and qualities next/image asks for', () => {
+    const loader = createMediaTransformLoader('photo.jpg', signMediaSource('photo.jpg')!)
+
+    const search = searchOf(loader({ quality: 80, src: 'photo.jpg', width: 640 }))
+    expect(search.get('q')).toBe('90')
+    expect(parseTransformRequest('photo.jpg', search)).toMatchObject({ quality: 90, width: 640 })
+
+    search.set('w', '641')
+    expect(() => parseTransformRequest('photo.jpg', search)).toThrow('Invalid signature')
+
+    search.set('w', '640')
+    search.set('fit', 'fill')
+    expect(() => parseTransformRequest('photo.jpg', search)).toThrow('Invalid signature')
+  })
+
+  it('validates parameters before checking the signature', () => {
+    expect(() => parseTransformRequest('photo.jpg', new URLSearchParams())).toThrow(
+      'Pass a width (w) or height (h)',
+    )
+    expect(() => parseTransformRequest('photo.jpg', new URLSearchParams({ w: '5000' }))).toThrow(
+      'w must be a whole number from 1 to 4096',
+    )
+    expect(() =>
+      parseTransformRequest('photo.jpg', new URLSearchParams({ w: '10', q: '0' })),
+    ).toThrow('q must be a whole number from 1 to 100')
+  })
+})
@@ -0,0 +1,158 @@
+import { mkdtemp, readdir, rm } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+  abortUpload,
+  completeUpload,
+  createUploadSession,
+  getUploadStatus,
+  UPLOAD_CHUNK_SIZE,
+  writeUploadChunk,
+} from '@/endpoints/media-uploads'
+
+// Two full chunks and a short last one
+const SIZE = UPLOAD_CHUNK_SIZE * 2 + 10
+
+const createReq = (id = 'user-1', role = 'author') =>
+  ({
+    payload: {
+      create: vi.fn(async ({ file }) => ({ id: 'media-1', file })),
+      logger: { info: vi.fn() },
+    },
+    user: { id, role },
+  }) as never
+
+const chunkOf = (file: Buffer, index: number) =>
+  file.subarray(index * UPLOAD_CHUNK_SIZE, (index + 1) * UPLOAD_CHUNK_SIZE)
+
+describe('chunked media uploads', () => {
+  let dir: string
+  let file: Buffer
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'media-uploads-test-'))
+    vi.stubEnv('MEDIA_UPLOAD_TMP_DIR', dir)
+
+    file = Buffer.alloc(SIZE)
+    for (let i = 0; i < SIZE; i++) file[i] = i % 251
+  })
+
+  afterEach(async () => {
+    vi.unstubAllEnvs()
+    await rm(dir, { force: true, recursive: true })
+  })
+
+  const start = (req = createReq()) =>
+    createUploadSession({ filename: '../photos/big.jpg', mimeType: 'image/jpeg', req, size: SIZE })
+
+  it('starts a session split into chunks', async () => {
+    const status = await start()
+
+    expect(status).toMatchObject({
+      chunkSize: UPLOAD_CHUNK_SIZE,
+      filename: 'big.jpg',
+      receivedChunks: [],
+      size: SIZE,
+      totalChunks: 3,
+    })
+  })
+
+  it('only lets contributors upload', async () => {
+    await expect(
+      createUploadSession({
+        filename: 'a.jpg',
+        mimeType: '',
+        req: { user: null } as never,
+        size: 1,
+      }),
+    ).rejects.toMatchObject({ status: 403 })
+    await expect(start(createReq('user-1', 'viewer'))).rejects.toMatchObject({ status: 403 })
+  })
+
+  it('checks the file size', async () => {
+    const req = createReq()
+
+    await expect(
+      createUploadSession({ filename: 'a.jpg', mimeType: '', req, size: 0 }),
+    ).rejects.toMatchObject({ status: 400 })
+    await expect(
+      createUploadSession({ filename: 'a.jpg', mimeType: '', req, size: 2 * 1024 ** 3 }),
+    ).rejects.toMatchObject({ status: 413 })
+  })
+
+  it('rejects malformed upload ids', async () => {
+    await expect(
+      getUploadStatus({ req: createReq(), uploadId: '../../etc' }),
+    ).rejects.toMatchObject({ status: 404 })
+  })
+
+  it("hides other users' sessions", async () => {
+    const { id } = await start()
+
+    await expect(getUploadStatus({ req: createReq('user-2'), uploadId: id })).rejects.toMatchObject(
+      { message: 'Upload not found.', status: 404 },
+    )
+    await expect(abortUpload({ req: createReq('user-2'), uploadId: id })).rejects.toMatchObject({
+      status: 404,
+    })
+  })
+
+  it('accepts chunks in any order and more than once', async () => {
+    const req = createReq()
+    const { id } = await start(req)
+
+    await writeUploadChunk({ data: chunkOf(file, 2), index: 2, req, uploadId: id })
+    await writeUploadChunk({ data: chunkOf(file, 0), index: 0, req, uploadId: id })
+    await writeUploadChunk({ data: chunkOf(file, 0), index: 0, req, uploadId: id })
+
+    expect((await getUploadStatus({ req, uploadId: id })).receivedChunks).toEqual([0, 2])
+  })
+
+  it('rejects chunks out of range or of the wrong size', async () => {
+    const req = createReq()
+    const { id } = await start(req)
+
+    await expect(
+      writeUploadChunk({ data: chunkOf(file, 0), index: 3, req, uploadId: id }),
+    ).rejects.toMatchObject({ status: 400 })
+    await expect(
+      writeUploadChunk({ data: chunkOf(file, 0), index: 2, req, uploadId: id }),
+    ).rejects.toThrow('Chunk 2 should be 10 bytes')
+  })
+
+  it('refuses to complete until every chunk has arrived', async () => {
+    const req = createReq()
+    const { id } = await start(req)
+    await writeUploadChunk({ data: chunkOf(file, 0), index: 0, req, uploadId: id })
+
+    await expect(completeUpload({ data: {}, req, uploadId: id })).rejects.toMatchObject({
+      message: 'Upload is incomplete: 1 of 3 chunks received.',
+      status: 409,
+    })
+  })
+
+  it('reassembles the file and removes the session', async () => {
+    const req = createReq()
+    const { id } = await start(req)
+
+    for (const index of [1, 2, 0]) {
+      await writeUploadChunk({ data: chunkOf(file, index), index, req, uploadId: id })
+    }
+
+    await completeUpload({ data: { alt: 'Big' }, req, uploadId: id })
+
+    const { create } = (req as { payload: { create: ReturnType<typeof vi.fn> } }).payload
+    const [[args]] = create.mock.calls
+
+    expect(args).toMatchObject({
+      collection: 'media',
+      data: { alt: 'Big' },
+      file: { mimetype: 'image/jpeg', name: 'big.jpg', size: SIZE },
+      overrideAccess: false,
+    })
+    expect(args.file.data.equals(file)).toBe(true)
+    expect(await readdir(dir)).toEqual([])
+  })
+})
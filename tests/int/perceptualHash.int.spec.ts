@@ -0,0 +1,90 @@
+import sharp from 'sharp'
+import { describe, expect, it } from 'vitest'
+
+import { computeContentHashes } from '@/collections/Media/hooks/contentHash'
+import { dHash, hammingDistance, SIMILAR_HASH_DISTANCE } from '@/utilities/perceptualHash'
+
+const SIZE = 256
+
+// A greyscale picture drawn by `shade`, encoded as `format`
+const createImage = (shade: (x: number, y: number) => number, format: 'jpeg' | 'png' = 'png') => {
+  const pixels = Buffer.alloc(SIZE * SIZE)
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) pixels[y * SIZE + x] = shade(x, y)
+  }
+
+  return sharp(pixels, { raw: { channels: 1, height: SIZE, width: SIZE } })
+    .toFormat(format)
+    .toBuffer()
+}
+
+const hashOf = async (data: Buffer, mimetype = 'image/png') => {
+  const result = (await computeContentHashes({
+    data: {},
+    req: {
+      context: {},
+      file: { data, mimetype, name: 'image', size: data.length },
+      payload: { config: { sharp }, logger: { warn: () => {} } },
+    },
+  } as never)) as { contentHash: string; perceptualHash: null | string }
+
+  return result
+}
+
+const diagonal = (x: number, y: number) => Math.round(((x + y) / (2 * SIZE)) * 255)
+const waves = (x: number, y: number) => Math.round(128 + 90 * Math.sin(x / 50 + y / 70))
+
+describe('perceptual hash', () => {
+  it('reads a 9×8 thumbnail as 16 hex characters', () => {
+    const rising = Array.from({ length: 72 }, (_, index) => index % 9)
+    expect(dHash(rising)).toBe('0000000000000000')
+    expect(dHash(rising.map((value) => 8 - value))).toBe('ffffffffffffffff')
+  })
+
+  it('counts differing bits', () => {
+    expect(hammingDistance('00ff', '00ff')).toBe(0)
+    expect(hammingDistance('0000', '000f')).toBe(4)
+    expect(hammingDistance('00', '0000')).toBe(Infinity)
+  })
+
+  it('hashes identical images the same', async () => {
+    const a = await hashOf(await createImage(diagonal))
+    const b = await hashOf(await createImage(diagonal))
+
+    expect(a.perceptualHash).toMatch(/^[a-f0-9]{16}$/)
+    expect(b).toEqual(a)
+  })
+
+  it('keeps resized and re-encoded copies within the threshold', async () => {
+    const original = await createImage(waves)
+    const smaller = await sharp(original).resize(100, 100).jpeg({ quality: 60 }).toBuffer()
+
+    const a = await hashOf(original)
+    const b = await hashOf(smaller, 'image/jpeg')
+
+    expect(b.contentHash).not.toBe(a.contentHash)
+    expect(hammingDistance(a.perceptualHash!, b.perceptualHash!)).toBeLessThanOrEqual(
+      SIMILAR_HASH_DISTANCE,
+    )
+  })
+
+  it('keeps different images apart', async () => {
+    const a = await hashOf(await createImage(diagonal))
+    const b = await hashOf(await createImage((x, y) => diagonal(SIZE - 1 - x, y)))
+    const c = await hashOf(await createImage(waves))
+
+    expect(hammingDistance(a.perceptualHash!, b.perceptualHash!)).toBeGreaterThan(
+      SIMILAR_HASH_DISTANCE,
+    )
+    expect(hammingDistance(a.perceptualHash!, c.perceptualHash!)).toBeGreaterThan(
+      SIMILAR_HASH_DISTANCE,
+    )
+  })
+
+  it('only fingerprints the bytes of files that are not images', async () => {
+    const result = await hashOf(Buffer.from('%PDF-1.4'), 'application/pdf')
+
+    expect(result.contentHash).toMatch(/^[a-f0-9]{64}$/)
+    expect(result.perceptualHash).toBeNull()
+  })
+})
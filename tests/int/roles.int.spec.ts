@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+
+import { admins, contributors, editors, getUserRole, hasRole } from '@/access'
+
+const asUser = (role?: null | string) => ({ user: { id: 'user', role } }) as never
+
+describe('user roles', () => {
+  it('treats an account without a role as a viewer', () => {
+    expect(getUserRole({})).toBe('viewer')
+    expect(getUserRole({ role: null })).toBe('viewer')
+    expect(getUserRole(null)).toBeNull()
+  })
+
+  it('gives roleless accounts none of the privileged access', () => {
+    for (const role of [undefined, null, 'viewer']) {
+      expect(admins({ req: asUser(role) }), String(role)).toBe(false)
+      expect(editors({ req: asUser(role) }), String(role)).toBe(false)
+      expect(contributors({ req: asUser(role) }), String(role)).toBe(false)
+    }
+  })
+
+  it('grants each helper to its roles only', () => {
+    expect(admins({ req: asUser('admin') })).toBe(true)
+    expect(admins({ req: asUser('editor') })).toBe(false)
+    expect(editors({ req: asUser('editor') })).toBe(true)
+    expect(editors({ req: asUser('author') })).toBe(false)
+    expect(contributors({ req: asUser('contributor') })).toBe(true)
+    expect(hasRole({ role: 'author' }, 'admin', 'author')).toBe(true)
+  })
+
+  it('denies anonymous requests', () => {
+    expect(contributors({ req: { user: null } })).toBe(false)
+  })
+})
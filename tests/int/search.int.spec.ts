@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest'
+
+import { extractText } from '@/search/extractText'
+import { excerpt, getSearchTerms, highlight } from '@/search/highlight'
+import { parseSearchPage } from '@/search/query'
+
+const text = (value: string) => ({ type: 'text', text: value })
+
+const editorState = (...children: unknown[]) => ({ root: { type: 'root', children } })
+
+describe('extractText', () => {
+  it('puts each block of rich text on its own line and collapses whitespace', () => {
+    expect(
+      extractText(
+        editorState(
+          { type: 'heading', children: [text('Hello')] },
+          {
+            type: 'paragraph',
+            children: [
+              text('Read '),
+              { type: 'link', children: [text('the  docs')] },
+              { type: 'linebreak' },
+              text('today'),
+            ],
+          },
+        ),
+      ),
+    ).toBe('Hello Read the docs today')
+  })
+
+  it('includes rich text inside blocks', () => {
+    expect(
+      extractText(
+        editorState({
+          type: 'block',
+          fields: {
+            blockType: 'banner',
+            content: editorState({ type: 'paragraph', children: [text('Inside a banner')] }),
+          },
+        }),
+      ),
+    ).toBe('Inside a banner')
+  })
+
+  it('returns nothing for anything but an editor state', () => {
+    expect(extractText(null)).toBe('')
+    expect(extractText('plain')).toBe('')
+  })
+})
+
+describe('getSearchTerms', () => {
+  it('reads words and phrases, leaving out excluded and one-letter terms', () => {
+    expect(getSearchTerms('"full text" search -draft a')).toEqual(['full text', 'search'])
+  })
+})
+
+describe('highlight', () => {
+  it('marks every match, ignoring case', () => {
+    expect(highlight('Search and SEARCH again', ['search'])).toEqual([
+      { match: true, text: 'Search' },
+      { match: false, text: ' and ' },
+      { match: true, text: 'SEARCH' },
+      { match: false, text: ' again' },
+    ])
+  })
+
+  it('prefers the longest term and treats terms as plain text', () => {
+    expect(highlight('a.b testing', ['test', 'testing', 'a.b'])).toEqual([
+      { match: true, text: 'a.b' },
+      { match: false, text: ' ' },
+      { match: true, text: 'testing' },
+    ])
+    expect(highlight('axb', ['a.b'])).toEqual([{ match: false, text: 'axb' }])
+  })
+
+  it('leaves text alone without terms', () => {
+    expect(highlight('Nothing to see', [])).toEqual([{ match: false, text: 'Nothing to see' }])
+    expect(highlight('', [])).toEqual([])
+  })
+})
+
+describe('excerpt', () => {
+  const words = Array.from({ length: 100 }, (_, index) => `word${index}`)
+
+  it('keeps short text whole', () => {
+    expect(excerpt('Short text', ['text'])).toBe('Short text')
+  })
+
+  it('cuts around the first match at word boundaries', () => {
+    const result = excerpt(words.join(' '), ['word50'], 80)
+
+    expect(result.startsWith('… word')).toBe(true)
+    expect(result.endsWith(' …')).toBe(true)
+    const body = result.replace(/^… | …$/g, '')
+    // Whole words only, the match among them
+    expect(body.split(' ').every((word) => words.includes(word))).toBe(true)
+    expect(body.split(' ')).toContain('word50')
+    expect(body.length).toBeLessThanOrEqual(80)
+  })
+
+  it('starts at the beginning without a match', () => {
+    const result = excerpt(words.join(' '), ['missing'], 40)
+
+    expect(result.startsWith('word0 ')).toBe(true)
+    expect(result.endsWith(' …')).toBe(true)
+  })
+})
+
+describe('parseSearchPage', () => {
+  it('defaults to the first page', () => {
+    expect(parseSearchPage(undefined)).toBe(1)
+    expect(parseSearchPage('')).toBe(1)
+  })
+
+  it('accepts whole page numbers', () => {
+    expect(parseSearchPage('3')).toBe(3)
+  })
+
+  it('rejects anything else', () => {
+    for (const value of ['0', '-1', '2.5', 'abc', 'Infinity', '1e300', '9007199254740993']) {
+      expect(parseSearchPage(value)).toBeNull()
+    }
+  })
+})
@@ -0,0 +1,147 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import {
+  addReviewerFilter,
+  hasReviewerFilter,
+  removeReviewerFilter,
+} from '@/components/admin/workflow/reviewerFilter'
+import { getWorkflowStatus } from '@/fields/workflow'
+import { enforceWorkflow } from '@/hooks/enforceWorkflow'
+import { markScheduled } from '@/hooks/trackScheduledPublish'
+
+type Doc = Record<string, unknown>
+
+const run = (role: null | string, data: Doc, originalDoc?: Doc) =>
+  enforceWorkflow({
+    data,
+    originalDoc,
+    req: { user: role ? { id: `${role}-id`, role } : null },
+  } as never) as Doc
+
+describe('editorial workflow', () => {
+  it('lets writers send a draft for review and take it back', () => {
+    expect(
+      run('author', { workflowStatus: 'in_review' }, { workflowStatus: 'draft' }),
+    ).toMatchObject({ workflowStatus: 'in_review' })
+    expect(
+      run('author', { workflowStatus: 'draft' }, { workflowStatus: 'in_review' }),
+    ).toMatchObject({ workflowStatus: 'draft' })
+  })
+
+  it('keeps approval to editors and admins', () => {
+    expect(() =>
+      run('author', { workflowStatus: 'approved' }, { workflowStatus: 'in_review' }),
+    ).toThrow('Only editors and admins can move a document from in review to approved')
+
+    expect(
+      run('editor', { workflowStatus: 'approved' }, { workflowStatus: 'in_review' }),
+    ).toMatchObject({ approvedBy: 'editor-id', workflowStatus: 'approved' })
+  })
+
+  it('publishes approved documents only', () => {
+    expect(() => run('author', { _status: 'published' }, { workflowStatus: 'approved' })).toThrow(
+      'Only editors and admins can publish',
+    )
+    expect(() => run('editor', { _status: 'published' }, { workflowStatus: 'in_review' })).toThrow(
+      'This is in review; approve it before publishing',
+    )
+    expect(run('admin', { _status: 'published' }, { workflowStatus: 'approved' })).toMatchObject({
+      workflowStatus: 'published',
+    })
+  })
+
+  it('never marks a document published by hand', () => {
+    expect(() =>
+      run('editor', { workflowStatus: 'published' }, { workflowStatus: 'approved' }),
+    ).toThrow('Publish the document to mark it published')
+  })
+
+  it('sends signed-off documents back for review when a writer changes them', () => {
+    expect(
+      run('author', { title: 'Edited' }, { approvedBy: 'editor-id', workflowStatus: 'approved' }),
+    ).toMatchObject({ approvedBy: null, workflowStatus: 'in_review' })
+  })
+
+  it('trusts local API calls without a user', () => {
+    expect(run(null, { _status: 'published' })).toMatchObject({ workflowStatus: 'published' })
+  })
+
+  it('treats documents from before the workflow by their publish state', () => {
+    expect(getWorkflowStatus({ _status: 'published' })).toBe('published')
+    expect(getWorkflowStatus({ _status: 'draft' })).toBe('draft')
+    expect(getWorkflowStatus(null)).toBe('draft')
+
+    expect(run('editor', { _status: 'published' }, { _status: 'published' })).toMatchObject({
+      workflowStatus: 'published',
+    })
+  })
+})
+
+describe('scheduled publishing', () => {
+  const schedule = async (role: null | string) => {
+    const payload = {
+      findByID: vi.fn(async ({ collection }: { collection: string }) =>
+        collection === 'users' ? { id: `${role}-id`, role } : { workflowStatus: 'draft' },
+      ),
+      update: vi.fn(),
+    }
+
+    await markScheduled({
+      doc: {
+        input: {
+          doc: { relationTo: 'posts', value: 'post-1' },
+          type: 'publish',
+          user: role ? `${role}-id` : undefined,
+        },
+        taskSlug: 'schedulePublish',
+      },
+      operation: 'create',
+      req: { payload },
+    } as never)
+
+    return payload.update
+  }
+
+  it('marks the document scheduled for editors and admins', async () => {
+    expect(await schedule('editor')).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'post-1', data: { workflowStatus: 'scheduled' } }),
+    )
+    expect(await schedule(null)).toHaveBeenCalled()
+  })
+
+  it("doesn't count a writer's schedule as approval", async () => {
+    expect(await schedule('contributor')).not.toHaveBeenCalled()
+    expect(await schedule('author')).not.toHaveBeenCalled()
+  })
+})
+
+describe('assigned to me filter', () => {
+  const mine = { reviewers: { equals: 'me' } }
+  const status = { workflowStatus: { equals: 'in_review' } }
+
+  it('adds the reviewer clause next to the other filters', () => {
+    expect(addReviewerFilter(undefined, 'me')).toEqual(mine)
+    expect(addReviewerFilter(status, 'me')).toEqual({ and: [status, mine] })
+    expect(addReviewerFilter({ or: [{ and: [status] }] }, 'me')).toEqual({
+      or: [{ and: [status, mine] }],
+    })
+  })
+
+  it('finds the clause at the top, in an and, or in every or branch', () => {
+    expect(hasReviewerFilter(mine, 'me')).toBe(true)
+    expect(hasReviewerFilter({ and: [status, mine] }, 'me')).toBe(true)
+    expect(hasReviewerFilter({ or: [{ and: [status, mine] }, { and: [mine] }] }, 'me')).toBe(true)
+    expect(hasReviewerFilter({ or: [{ and: [status, mine] }, { and: [status] }] }, 'me')).toBe(
+      false,
+    )
+    expect(hasReviewerFilter(mine, 'someone-else')).toBe(false)
+  })
+
+  it('removes only the reviewer clause', () => {
+    expect(removeReviewerFilter(mine, 'me')).toEqual({})
+    expect(removeReviewerFilter({ or: [{ and: [status, mine] }] }, 'me')).toEqual({
+      or: [{ and: [status] }],
+    })
+    expect(removeReviewerFilter(addReviewerFilter(status, 'me'), 'me')).toEqual({ and: [status] })
+  })
+})
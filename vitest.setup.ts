@@ -0,0 +1,4 @@
+// Any setup scripts you might need go here
+
+// Load .env files
+import 'dotenv/config'